@@ -0,0 +1,17 @@
+// Imported into the generated service worker (see vite.config.ts).
+// A click on a reminder focuses an open Plan.Ex window and tells it which
+// page to show, or opens a new window there.
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = (event.notification.data && event.notification.data.url) || '/';
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+            const client = windows[0];
+            if (!client) return self.clients.openWindow(url);
+
+            client.postMessage({ type: 'planex-notification-click', url });
+            return client.focus();
+        })
+    );
+});
@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+/**
+ * Reference sync server for PlanEx.
+ *
+ * Keeps an append-only log of entity changes in a JSON file and hands them
+ * out by cursor. Only the latest change per entity is retained, so the file
+ * stays about as large as the data itself. No dependencies beyond Node.
+ *
+ *   npm run sync-server
+ *
+ * Environment:
+ *   PORT               port to listen on (default 8787)
+ *   PLANEX_SYNC_DATA   path of the data file (default server/data/sync.json)
+ *   PLANEX_SYNC_TOKEN  if set, clients must send "Authorization: Bearer <token>"
+ *
+ * API:
+ *   GET  /changes?since=<cursor>  -> { changes, cursor }
+ *   POST /changes  { changes }    -> { cursor }
+ *   GET  /health                  -> { ok: true }
+ */
+import { timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = resolve(
+    process.env.PLANEX_SYNC_DATA || resolve(dirname(fileURLToPath(import.meta.url)), 'data', 'sync.json')
+);
+const TOKEN = process.env.PLANEX_SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const ENTITY_TYPES = new Set(['course', 'personalTask', 'habit', 'habitLog', 'taskCompletion']);
+
+// ================== STORAGE ==================
+
+/** @type {{ seq: number, entries: Array<{ seq: number, change: object }> }} */
+let log = { seq: 0, entries: [] };
+
+async function loadLog() {
+    try {
+        log = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+}
+
+// Writes go through a temp file so a crash never leaves half a log behind
+let saving = Promise.resolve();
+function saveLog() {
+    const run = saving.then(async () => {
+        await mkdir(dirname(DATA_FILE), { recursive: true });
+        await writeFile(`${DATA_FILE}.tmp`, JSON.stringify(log));
+        await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+    });
+    // A failed write must not block the ones queued after it
+    saving = run.catch(() => undefined);
+    return run;
+}
+
+function isValidChange(change) {
+    return (
+        change !== null &&
+        typeof change === 'object' &&
+        typeof change.id === 'string' &&
+        typeof change.deviceId === 'string' &&
+        ENTITY_TYPES.has(change.entityType) &&
+        typeof change.entityId === 'string' &&
+        (change.op === 'upsert' || change.op === 'delete') &&
+        typeof change.changedAt === 'string'
+    );
+}
+
+function appendChanges(changes) {
+    const entityKey = (change) => `${change.entityType}:${change.entityId}`;
+    const latest = new Map(changes.map(change => [entityKey(change), change]));
+
+    log.entries = log.entries.filter(entry => !latest.has(entityKey(entry.change)));
+    changes
+        .filter(change => latest.get(entityKey(change)) === change)
+        .forEach(change => {
+            log.seq += 1;
+            log.entries.push({ seq: log.seq, change });
+        });
+}
+
+// ================== HTTP ==================
+
+function send(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function isAuthorized(req) {
+    if (!TOKEN) return true;
+
+    const expected = Buffer.from(`Bearer ${TOKEN}`);
+    const actual = Buffer.from(req.headers.authorization || '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function readBody(req) {
+    return new Promise((resolveBody, reject) => {
+        const chunks = [];
+        let size = 0;
+
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error('Body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+async function handleRequest(req, res) {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+
+    if (req.method === 'OPTIONS') {
+        send(res, 204);
+        return;
+    }
+    if (url.pathname === '/health') {
+        send(res, 200, { ok: true });
+        return;
+    }
+    if (url.pathname !== '/changes') {
+        send(res, 404, { error: 'Not found' });
+        return;
+    }
+    if (!isAuthorized(req)) {
+        send(res, 401, { error: 'Unauthorized' });
+        return;
+    }
+
+    if (req.method === 'GET') {
+        const since = Number(url.searchParams.get('since')) || 0;
+        const changes = log.entries.filter(entry => entry.seq > since).map(entry => entry.change);
+        send(res, 200, { changes, cursor: String(log.seq) });
+        return;
+    }
+
+    if (req.method === 'POST') {
+        let body;
+        try {
+            body = JSON.parse(await readBody(req));
+        } catch {
+            send(res, 400, { error: 'Invalid JSON body' });
+            return;
+        }
+
+        if (!Array.isArray(body?.changes) || !body.changes.every(isValidChange)) {
+            send(res, 400, { error: 'Expected { changes: SyncChange[] }' });
+            return;
+        }
+
+        appendChanges(body.changes);
+        await saveLog();
+        send(res, 200, { cursor: String(log.seq) });
+        return;
+    }
+
+    send(res, 405, { error: 'Method not allowed' });
+}
+
+await loadLog();
+
+createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+        console.error('Request failed:', error);
+        send(res, 500, { error: 'Internal server error' });
+    });
+}).listen(PORT, () => {
+    console.log(`PlanEx sync server listening on http://localhost:${PORT}`);
+    console.log(`Data file: ${DATA_FILE}${TOKEN ? ' (token required)' : ''}`);
+});
@@ -0,0 +1,123 @@
+import { spawn } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const SERVER = fileURLToPath(new URL('./sync-server.js', import.meta.url));
+
+function makeChange(entityId, changedAt = '2026-01-05T10:00:00.000Z') {
+    return {
+        id: `change-${entityId}-${changedAt}`,
+        deviceId: 'device-a',
+        entityType: 'habit',
+        entityId,
+        op: 'upsert',
+        changedAt,
+        data: { id: entityId, name: 'Kitap oku' },
+    };
+}
+
+/** Starts the server on a free-ish port and resolves once it is listening. */
+function startServer(dataFile) {
+    const port = 20000 + Math.floor(Math.random() * 20000);
+    const child = spawn(process.execPath, [SERVER], {
+        env: { ...process.env, PORT: String(port), PLANEX_SYNC_DATA: dataFile, PLANEX_SYNC_TOKEN: '' },
+        stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    return new Promise((resolve, reject) => {
+        child.stdout.on('data', chunk => {
+            if (chunk.toString().includes('listening')) resolve({ child, url: `http://localhost:${port}` });
+        });
+        child.on('error', reject);
+        child.on('exit', code => reject(new Error(`Sync server exited with code ${code}`)));
+    });
+}
+
+function stopServer(child) {
+    return new Promise(resolve => {
+        if (child.exitCode !== null) {
+            resolve();
+            return;
+        }
+        child.once('exit', () => resolve());
+        child.kill();
+    });
+}
+
+function push(url, changes) {
+    return fetch(`${url}/changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes }),
+    });
+}
+
+async function pull(url, since = '0') {
+    const response = await fetch(`${url}/changes?since=${since}`);
+    return response.json();
+}
+
+describe('sync server', () => {
+    let dir;
+    let server;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'planex-sync-'));
+    });
+
+    afterEach(async () => {
+        if (server) await stopServer(server.child);
+        server = undefined;
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('hands pushed changes back by cursor and keeps them across restarts', async () => {
+        const dataFile = join(dir, 'sync.json');
+        server = await startServer(dataFile);
+
+        const first = await push(server.url, [makeChange('h1'), makeChange('h2')]);
+        expect(first.status).toBe(200);
+        expect(await first.json()).toEqual({ cursor: '2' });
+
+        await push(server.url, [makeChange('h1', '2026-01-06T10:00:00.000Z')]);
+
+        expect(await pull(server.url)).toEqual({
+            changes: [makeChange('h2'), makeChange('h1', '2026-01-06T10:00:00.000Z')],
+            cursor: '3',
+        });
+        expect(await pull(server.url, '2')).toEqual({
+            changes: [makeChange('h1', '2026-01-06T10:00:00.000Z')],
+            cursor: '3',
+        });
+
+        await stopServer(server.child);
+        server = await startServer(dataFile);
+        expect((await pull(server.url, '0')).cursor).toBe('3');
+        expect(JSON.parse(await readFile(dataFile, 'utf8')).seq).toBe(3);
+    });
+
+    it('keeps saving after a write has failed', async () => {
+        // A directory in place of the temp file makes the first write fail
+        const dataFile = join(dir, 'sync.json');
+        server = await startServer(dataFile);
+        await mkdir(`${dataFile}.tmp`);
+
+        expect((await push(server.url, [makeChange('h1')])).status).toBe(500);
+
+        await rm(`${dataFile}.tmp`, { recursive: true });
+        const retry = await push(server.url, [makeChange('h2')]);
+        expect(retry.status).toBe(200);
+        expect(JSON.parse(await readFile(dataFile, 'utf8')).entries).toHaveLength(2);
+    });
+
+    it('rejects malformed changes', async () => {
+        server = await startServer(join(dir, 'sync.json'));
+
+        const response = await push(server.url, [{ ...makeChange('h1'), entityType: 'unknown' }]);
+        expect(response.status).toBe(400);
+        expect(await pull(server.url)).toEqual({ changes: [], cursor: '0' });
+    });
+});
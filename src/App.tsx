@@ -7,7 +7,10 @@ import {
     HabitDetailPage,
     HabitsDashboardPage,
     OverviewPage,
+    PersonalTasksPage,
+    ProductivityPage,
     StatisticsPage,
+    TrashPage,
 } from './pages';
 
 function App() {
@@ -20,11 +23,15 @@ function App() {
                 <Route path="/courses/:courseId" element={<CourseDetailPage />} />
                 <Route path="/calendar" element={<CalendarPage />} />
                 <Route path="/statistics" element={<StatisticsPage />} />
+                <Route path="/productivity" element={<ProductivityPage />} />
+                <Route path="/personal" element={<PersonalTasksPage />} />
 
                 {/* Habits Routes */}
                 <Route path="/habits" element={<HabitsDashboardPage />} />
                 <Route path="/habits/:habitId" element={<HabitDetailPage />} />
 
+                <Route path="/trash" element={<TrashPage />} />
+
                 {/* Fallback */}
                 <Route path="*" element={<Navigate to="/" replace />} />
             </Routes>
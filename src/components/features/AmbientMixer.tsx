@@ -0,0 +1,132 @@
+import { Pause, Play, Save, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { useAmbientSound } from '../../context/AmbientSoundContext';
+import { cn } from '../../lib/utils';
+import { AMBIENT_SOUND_LABELS, AmbientSound, LIMITS } from '../../types';
+import { Button, IconButton } from '../ui/Button';
+import { Input, Select } from '../ui/Input';
+
+const SOUNDS = Object.keys(AMBIENT_SOUND_LABELS) as AmbientSound[];
+
+/** Volume per generated sound, presets, and whether the sound follows the work intervals. */
+export function AmbientMixer() {
+    const {
+        isPlaying,
+        volumes,
+        presets,
+        autoPlay,
+        toggle,
+        setVolume,
+        setAutoPlay,
+        savePreset,
+        applyPreset,
+        deletePreset,
+    } = useAmbientSound();
+
+    const [presetId, setPresetId] = useState('');
+    const [presetName, setPresetName] = useState('');
+
+    const selectedPreset = presets.find(p => p.id === presetId);
+    const isSilent = SOUNDS.every(sound => volumes[sound] === 0);
+
+    const handleSavePreset = () => {
+        savePreset(presetName);
+        setPresetName('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm text-secondary cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={autoPlay}
+                        onChange={(e) => setAutoPlay(e.target.checked)}
+                        className="rounded"
+                    />
+                    Çalışma aralıklarında otomatik çal
+                </label>
+                <Button
+                    size="sm"
+                    variant={isPlaying ? 'primary' : 'secondary'}
+                    onClick={toggle}
+                    leftIcon={isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                >
+                    {isPlaying ? 'Durdur' : 'Çal'}
+                </Button>
+            </div>
+
+            <div className="space-y-3">
+                {SOUNDS.map(sound => (
+                    <div key={sound}>
+                        <div className="flex justify-between text-sm mb-1">
+                            <span className={cn(volumes[sound] > 0 ? 'text-primary' : 'text-tertiary')}>
+                                {AMBIENT_SOUND_LABELS[sound]}
+                            </span>
+                            <span className="text-tertiary">{Math.round(volumes[sound] * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={Math.round(volumes[sound] * 100)}
+                            onChange={(e) => setVolume(sound, parseInt(e.target.value) / 100)}
+                            className="w-full"
+                        />
+                    </div>
+                ))}
+                {volumes.binaural > 0 && (
+                    <p className="text-xs text-tertiary">Binaural ton kulaklıkla dinlendiğinde etkilidir.</p>
+                )}
+            </div>
+
+            {/* Presets */}
+            <div className="space-y-2">
+                <p className="text-sm font-medium text-primary">Hazır Ayarlar</p>
+                <div className="flex gap-2">
+                    <div className="flex-1 min-w-0">
+                        <Select
+                            value={presetId}
+                            onChange={(e) => {
+                                setPresetId(e.target.value);
+                                if (e.target.value) applyPreset(e.target.value);
+                            }}
+                            options={[
+                                { value: '', label: 'Hazır ayar seç' },
+                                ...presets.map(p => ({ value: p.id, label: p.name })),
+                            ]}
+                        />
+                    </div>
+                    <IconButton
+                        onClick={() => {
+                            deletePreset(presetId);
+                            setPresetId('');
+                        }}
+                        disabled={!selectedPreset}
+                        title="Hazır ayarı sil"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </IconButton>
+                </div>
+                <div className="flex gap-2">
+                    <div className="flex-1 min-w-0">
+                        <Input
+                            value={presetName}
+                            maxLength={40}
+                            placeholder="Karışımı kaydet..."
+                            onChange={(e) => setPresetName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && presetName.trim() && handleSavePreset()}
+                        />
+                    </div>
+                    <IconButton
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim() || isSilent || presets.length >= LIMITS.MAX_AMBIENT_PRESETS}
+                        title="Kaydet"
+                    >
+                        <Save className="w-4 h-4" />
+                    </IconButton>
+                </div>
+            </div>
+        </div>
+    );
+}
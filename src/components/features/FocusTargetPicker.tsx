@@ -0,0 +1,80 @@
+import { usePlanner } from '../../context/PlannerContext';
+import { usePomodoro } from '../../context/PomodoroContext';
+import { Select } from '../ui/Input';
+
+const PERSONAL = 'personal';
+
+/** Picks the course, unit, task or personal task the next Pomodoro session is spent on. */
+export function FocusTargetPicker() {
+    const { state } = usePlanner();
+    const { target, setTarget, isActive } = usePomodoro();
+
+    const course = state.courses.find(c => c.id === target?.courseId);
+    const unit = course?.units.find(u => u.id === target?.unitId);
+    const openPersonalTasks = state.personalTasks.filter(
+        task => task.status !== 'done' || task.id === target?.personalTaskId
+    );
+
+    const firstValue = target?.personalTaskId ? PERSONAL : course?.id ?? '';
+
+    const handleFirstChange = (value: string) => {
+        if (value === PERSONAL) {
+            setTarget(openPersonalTasks[0] && { personalTaskId: openPersonalTasks[0].id });
+        } else {
+            setTarget(value ? { courseId: value } : undefined);
+        }
+    };
+
+    // The target belongs to the session, so it stays fixed once the session has started
+    return (
+        <div className="space-y-2" title={isActive ? 'Hedef, oturum bitince değiştirilebilir' : undefined}>
+            <Select
+                value={firstValue}
+                onChange={(e) => handleFirstChange(e.target.value)}
+                disabled={isActive}
+                options={[
+                    { value: '', label: 'Hedef yok' },
+                    ...state.courses.map(c => ({ value: c.id, label: c.title })),
+                    ...(openPersonalTasks.length > 0 ? [{ value: PERSONAL, label: 'Kişisel görev' }] : []),
+                ]}
+            />
+
+            {firstValue === PERSONAL && (
+                <Select
+                    value={target?.personalTaskId ?? ''}
+                    onChange={(e) => setTarget({ personalTaskId: e.target.value })}
+                    disabled={isActive}
+                    options={openPersonalTasks.map(task => ({ value: task.id, label: task.text }))}
+                />
+            )}
+
+            {course && course.units.length > 0 && (
+                <Select
+                    value={unit?.id ?? ''}
+                    onChange={(e) =>
+                        setTarget(e.target.value ? { courseId: course.id, unitId: e.target.value } : { courseId: course.id })
+                    }
+                    disabled={isActive}
+                    options={[
+                        { value: '', label: 'Tüm ders' },
+                        ...course.units.map(u => ({ value: u.id, label: u.title })),
+                    ]}
+                />
+            )}
+
+            {course && unit && unit.tasks.length > 0 && (
+                <Select
+                    value={target?.taskId ?? ''}
+                    onChange={(e) =>
+                        setTarget({ courseId: course.id, unitId: unit.id, taskId: e.target.value || undefined })
+                    }
+                    disabled={isActive}
+                    options={[
+                        { value: '', label: 'Tüm ünite' },
+                        ...unit.tasks.map(task => ({ value: task.id, label: task.text })),
+                    ]}
+                />
+            )}
+        </div>
+    );
+}
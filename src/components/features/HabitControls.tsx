@@ -0,0 +1,119 @@
+import { Minus, Plus, ShieldCheck, ShieldX } from 'lucide-react';
+import React, { useState } from 'react';
+import { cn } from '../../lib/utils';
+import { Habit } from '../../types';
+
+interface HabitLimitCounterProps {
+    habit: Habit;
+    value: number;
+    onIncrement: () => void;
+    onDecrement: () => void;
+    size?: 'sm' | 'md';
+}
+
+/** Today's amount of a limit habit against its limit; red once it goes over. */
+export function HabitLimitCounter({ habit, value, onIncrement, onDecrement, size = 'sm' }: HabitLimitCounterProps) {
+    const limit = habit.target ?? 0;
+    const isOver = value > limit;
+    const buttonClass = cn(
+        'rounded-full bg-secondary text-secondary hover:text-primary transition-colors disabled:opacity-40',
+        size === 'sm' ? 'p-1' : 'p-2'
+    );
+
+    return (
+        <div className="flex items-center gap-2">
+            <button
+                type="button"
+                className={buttonClass}
+                onClick={onDecrement}
+                disabled={value <= 0}
+                title="Azalt"
+            >
+                <Minus className="w-4 h-4" />
+            </button>
+            <span
+                className={cn(
+                    'font-medium tabular-nums',
+                    size === 'sm' ? 'text-sm' : 'text-lg',
+                    isOver ? 'text-red-500' : 'text-primary'
+                )}
+            >
+                {value} / {limit}
+                {habit.unit && ` ${habit.unit}`}
+            </span>
+            <button type="button" className={buttonClass} onClick={onIncrement} title="Artır">
+                <Plus className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
+
+interface HabitSlipToggleProps {
+    habit: Habit;
+    slipped: boolean;
+    onToggle: () => void;
+    className?: string;
+}
+
+/** Marks today as a slip for a quit habit, or takes it back. */
+export function HabitSlipToggle({ habit, slipped, onToggle, className }: HabitSlipToggleProps) {
+    return (
+        <button
+            type="button"
+            onClick={onToggle}
+            className={className}
+            title={slipped ? 'Kaymayı geri al' : 'Bugün kaydım'}
+        >
+            {slipped ? (
+                <ShieldX className="w-6 h-6 text-red-500" />
+            ) : (
+                <ShieldCheck className="w-6 h-6" style={{ color: habit.color }} />
+            )}
+        </button>
+    );
+}
+
+interface HabitEntryInputProps {
+    habit: Habit;
+    value: number;
+    defaultAmount?: number;
+    onAdd: (amount: number) => void;
+}
+
+/** Adds a check-in to a numeric habit ("+250 ml") and shows the day's sum against the target. */
+export function HabitEntryInput({ habit, value, defaultAmount = 1, onAdd }: HabitEntryInputProps) {
+    const [amount, setAmount] = useState(String(defaultAmount));
+    const parsed = parseFloat(amount);
+    const isValid = Number.isFinite(parsed) && parsed > 0;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isValid) onAdd(parsed);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+            <span className="text-sm font-medium tabular-nums text-primary">
+                {value} / {habit.target ?? 1}
+                {habit.unit && ` ${habit.unit}`}
+            </span>
+            <input
+                type="number"
+                min={0}
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-20 px-2 py-1 rounded-lg border border-default bg-card text-sm text-primary focus:border-[var(--color-accent)]"
+                aria-label="Eklenecek miktar"
+            />
+            <button
+                type="submit"
+                disabled={!isValid}
+                className="p-1 rounded-full bg-secondary text-secondary hover:text-primary transition-colors disabled:opacity-40"
+                title="Ekle"
+            >
+                <Plus className="w-4 h-4" />
+            </button>
+        </form>
+    );
+}
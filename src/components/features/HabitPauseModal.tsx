@@ -0,0 +1,103 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { useHabits } from '../../context/HabitsContext';
+import { FREEZE_EARN_PERIODS, MAX_FREEZES } from '../../lib/streaks';
+import { formatDateDisplay, getToday } from '../../lib/utils';
+import { LIMITS } from '../../types';
+import { Button, IconButton } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+
+interface HabitPauseModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/** Vacation ranges that pause every habit, and the freeze token switch. */
+export function HabitPauseModal({ isOpen, onClose }: HabitPauseModalProps) {
+    const { vacations, addVacation, removeVacation, freezeTokens, setFreezeTokens } = useHabits();
+    const [startISO, setStartISO] = useState(getToday);
+    const [endISO, setEndISO] = useState(getToday);
+    const [note, setNote] = useState('');
+
+    const today = getToday();
+    const canAdd = startISO !== '' && endISO !== '' && vacations.length < LIMITS.MAX_VACATIONS;
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        addVacation(startISO, endISO, note);
+        setNote('');
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Tatiller ve Dondurma" size="lg">
+            <div className="space-y-6">
+                <div>
+                    <h3 className="text-sm font-medium text-primary mb-1">Tatiller</h3>
+                    <p className="text-sm text-secondary mb-3">
+                        Tatildeki günler hiçbir alışkanlığın serisini bozmaz ve başarı oranına sayılmaz.
+                    </p>
+
+                    <div className="grid sm:grid-cols-[1fr_1fr_2fr_auto] gap-3 items-end">
+                        <Input type="date" label="Başlangıç" value={startISO} onChange={(e) => setStartISO(e.target.value)} />
+                        <Input type="date" label="Bitiş" value={endISO} onChange={(e) => setEndISO(e.target.value)} />
+                        <Input
+                            label="Not (Opsiyonel)"
+                            placeholder="Örn: Yaz tatili"
+                            value={note}
+                            maxLength={100}
+                            onChange={(e) => setNote(e.target.value)}
+                        />
+                        <Button onClick={handleAdd} disabled={!canAdd} leftIcon={<Plus className="w-4 h-4" />}>
+                            Ekle
+                        </Button>
+                    </div>
+
+                    {vacations.length > 0 && (
+                        <div className="mt-4 space-y-2 max-h-56 overflow-y-auto">
+                            {vacations.map(vacation => {
+                                const isActive = vacation.startISO <= today && today <= vacation.endISO;
+                                return (
+                                    <div
+                                        key={vacation.id}
+                                        className="flex items-center gap-3 p-3 rounded-lg bg-secondary"
+                                    >
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm text-primary">
+                                                {formatDateDisplay(vacation.startISO)} – {formatDateDisplay(vacation.endISO)}
+                                                {isActive && <span className="ml-2 text-xs text-green-500">Şu an</span>}
+                                            </p>
+                                            {vacation.note && (
+                                                <p className="text-xs text-tertiary truncate">{vacation.note}</p>
+                                            )}
+                                        </div>
+                                        <IconButton size="sm" onClick={() => removeVacation(vacation.id)}>
+                                            <Trash2 className="w-4 h-4" />
+                                        </IconButton>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div className="pt-4 border-t border-default">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={freezeTokens}
+                            onChange={(e) => setFreezeTokens(e.target.checked)}
+                            className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                        />
+                        <span className="text-sm text-primary">Dondurma hakları</span>
+                    </label>
+                    <p className="text-sm text-secondary mt-2">
+                        Üst üste {FREEZE_EARN_PERIODS.day} gün (haftalık hedeflerde {FREEZE_EARN_PERIODS.week} hafta, aylık
+                        hedeflerde {FREEZE_EARN_PERIODS.month} ay) tamamlanan her seri bir dondurma hakkı kazandırır. Kaçırılan gün bu hakla kendiliğinden kapatılır; en fazla{' '}
+                        {MAX_FREEZES} hak birikir.
+                    </p>
+                </div>
+            </div>
+        </Modal>
+    );
+}
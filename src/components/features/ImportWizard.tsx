@@ -0,0 +1,240 @@
+import { ChevronDown, ChevronRight, GitMerge, Replace } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { useApp } from '../../context/AppContext';
+import { useHabits } from '../../context/HabitsContext';
+import { usePlanner } from '../../context/PlannerContext';
+import { restoreStoredCollections } from '../../lib/backup';
+import {
+    backupToMergeSide,
+    ChangeKind,
+    DEFAULT_MERGE_STRATEGIES,
+    diffBackup,
+    MERGE_ENTITY_TYPES,
+    MergeEntityType,
+    mergeBackup,
+    MergeSide,
+    MergeStrategies,
+    MergeStrategy,
+    unionById,
+} from '../../lib/merge';
+import { cn } from '../../lib/utils';
+import { BackupData } from '../../types';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+
+const entityLabels: Record<MergeEntityType, string> = {
+    course: 'Dersler',
+    unit: 'Üniteler',
+    task: 'Görevler',
+    exam: 'Sınavlar',
+    personalTask: 'Kişisel görevler',
+    habit: 'Alışkanlıklar',
+    habitLog: 'Alışkanlık kayıtları',
+};
+
+const strategyOptions: Array<{ value: MergeStrategy; label: string }> = [
+    { value: 'newestWins', label: 'En yeni kazansın' },
+    { value: 'keepMine', label: 'Benimkini koru' },
+    { value: 'takeTheirs', label: 'Yedeği al' },
+];
+
+const kindLabels: Record<ChangeKind, { label: string; className: string }> = {
+    added: { label: 'Yedekte yeni', className: 'text-green-500' },
+    changed: { label: 'Değişmiş', className: 'text-yellow-500' },
+    deleted: { label: 'Yedekte yok', className: 'text-red-500' },
+};
+
+const MAX_LISTED_CHANGES = 50;
+
+interface ImportWizardProps {
+    backup: BackupData | null;
+    onClose: () => void;
+}
+
+export function ImportWizard({ backup, onClose }: ImportWizardProps) {
+    const { updateSettings, addToast } = useApp();
+    const { storedState: plannerState, importData } = usePlanner();
+    const { storedState: habitsState, importHabits } = useHabits();
+
+    const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+    const [strategies, setStrategies] = useState<MergeStrategies>(DEFAULT_MERGE_STRATEGIES);
+    const [expanded, setExpanded] = useState<MergeEntityType | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+
+    const mine = useMemo<MergeSide>(() => ({
+        courses: plannerState.courses,
+        completionState: plannerState.completionState,
+        personalTasks: plannerState.personalTasks,
+        habits: habitsState.habits,
+        habitLogs: Array.from(habitsState.habitLogs.values()).flat(),
+    }), [plannerState.courses, plannerState.completionState, plannerState.personalTasks, habitsState.habits, habitsState.habitLogs]);
+
+    const theirs = useMemo(() => (backup ? backupToMergeSide(backup, mine) : null), [backup, mine]);
+    const diff = useMemo(() => (theirs ? diffBackup(mine, theirs) : null), [mine, theirs]);
+
+    if (!backup || !theirs || !diff) {
+        return null;
+    }
+
+    const totalChanges = MERGE_ENTITY_TYPES.reduce((sum, type) => sum + diff[type].length, 0);
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        try {
+            if (mode === 'replace') {
+                await Promise.all([
+                    importData(backup.courses, backup.completionState, backup.personalTasks, backup.lectureNotesMeta),
+                    importHabits(backup.habits, backup.habitLogs),
+                ]);
+                await restoreStoredCollections(backup, 'replace');
+                updateSettings(backup.settings);
+            } else {
+                const merged = mergeBackup(mine, theirs, strategies, backup.exportedAt);
+                await Promise.all([
+                    importData(
+                        merged.courses,
+                        merged.completionState,
+                        merged.personalTasks,
+                        unionById(plannerState.lectureNotesMeta, backup.lectureNotesMeta ?? [])
+                    ),
+                    importHabits(merged.habits, merged.habitLogs),
+                ]);
+                await restoreStoredCollections(backup, 'merge');
+            }
+
+            addToast('success', 'Yedekleme başarıyla geri yüklendi');
+            onClose();
+        } catch (error) {
+            console.error('Import failed:', error);
+            addToast('error', 'Yedekleme geri yüklenemedi.');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={backup !== null} onClose={onClose} title="Yedeği İçe Aktar" size="full">
+            <div className="space-y-6">
+                <p className="text-sm text-secondary">
+                    Yedek tarihi:{' '}
+                    {new Date(backup.exportedAt).toLocaleDateString('tr-TR', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                    })}{' '}
+                    • Sürüm {backup.version}
+                </p>
+
+                {/* Mode */}
+                <div className="grid sm:grid-cols-2 gap-3">
+                    {([
+                        { id: 'merge', icon: GitMerge, title: 'Birleştir', description: 'Değişiklikleri önizleyip türe göre nasıl birleştirileceğini seçin.' },
+                        { id: 'replace', icon: Replace, title: 'Tümünü değiştir', description: 'Mevcut verilerin yerine yedeği koyar. Ayarlar da geri yüklenir.' },
+                    ] as const).map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setMode(option.id)}
+                            className={cn(
+                                'flex items-start gap-3 p-4 rounded-lg border text-left transition-colors',
+                                mode === option.id
+                                    ? 'border-[var(--color-accent)] bg-[var(--color-accent-light)]'
+                                    : 'border-default bg-secondary hover:border-[var(--color-border-hover)]'
+                            )}
+                        >
+                            <option.icon className="w-5 h-5 text-[var(--color-accent)] flex-shrink-0 mt-0.5" />
+                            <div>
+                                <p className="font-medium text-primary">{option.title}</p>
+                                <p className="text-xs text-secondary mt-1">{option.description}</p>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Diff per entity type */}
+                {mode === 'merge' && (
+                    <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                        {totalChanges === 0 && (
+                            <p className="text-sm text-secondary text-center py-4">
+                                Yedek mevcut verilerle aynı görünüyor.
+                            </p>
+                        )}
+                        {MERGE_ENTITY_TYPES.filter(type => diff[type].length > 0).map(type => {
+                            const changes = diff[type];
+                            const counts = {
+                                added: changes.filter(c => c.kind === 'added').length,
+                                changed: changes.filter(c => c.kind === 'changed').length,
+                                deleted: changes.filter(c => c.kind === 'deleted').length,
+                            };
+                            const isExpanded = expanded === type;
+
+                            return (
+                                <div key={type} className="rounded-lg bg-secondary">
+                                    <div className="flex items-center gap-3 p-3">
+                                        <button
+                                            onClick={() => setExpanded(isExpanded ? null : type)}
+                                            className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                                        >
+                                            {isExpanded ? (
+                                                <ChevronDown className="w-4 h-4 text-secondary" />
+                                            ) : (
+                                                <ChevronRight className="w-4 h-4 text-secondary" />
+                                            )}
+                                            <span className="font-medium text-primary">{entityLabels[type]}</span>
+                                            <span className="text-xs text-secondary">
+                                                <span className="text-green-500">+{counts.added}</span>{' '}
+                                                <span className="text-yellow-500">~{counts.changed}</span>{' '}
+                                                <span className="text-red-500">−{counts.deleted}</span>
+                                            </span>
+                                        </button>
+                                        <div className="w-44">
+                                            <Select
+                                                value={strategies[type]}
+                                                onChange={(e) =>
+                                                    setStrategies(prev => ({ ...prev, [type]: e.target.value as MergeStrategy }))
+                                                }
+                                                options={strategyOptions}
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {isExpanded && (
+                                        <ul className="px-3 pb-3 space-y-1">
+                                            {changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+                                                <li key={`${change.kind}-${change.id}`} className="flex items-center gap-2 text-sm">
+                                                    <span className={cn('text-xs w-24 flex-shrink-0', kindLabels[change.kind].className)}>
+                                                        {kindLabels[change.kind].label}
+                                                    </span>
+                                                    <span className="text-primary truncate">{change.title}</span>
+                                                    {change.context && (
+                                                        <span className="text-xs text-tertiary truncate">{change.context}</span>
+                                                    )}
+                                                </li>
+                                            ))}
+                                            {changes.length > MAX_LISTED_CHANGES && (
+                                                <li className="text-xs text-tertiary">
+                                                    +{changes.length - MAX_LISTED_CHANGES} daha
+                                                </li>
+                                            )}
+                                        </ul>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div className="flex gap-3 justify-end pt-4 border-t border-default">
+                    <Button variant="secondary" onClick={onClose}>
+                        İptal
+                    </Button>
+                    <Button onClick={handleApply} isLoading={isApplying} variant={mode === 'replace' ? 'danger' : 'primary'}>
+                        {mode === 'replace' ? 'Tümünü Değiştir' : 'Birleştir'}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
@@ -0,0 +1,248 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+import { useApp } from '../../context/AppContext';
+import { usePomodoro } from '../../context/PomodoroContext';
+import { cn, generateId } from '../../lib/utils';
+import {
+    LIMITS,
+    POMODORO_MODE_COLORS,
+    POMODORO_MODE_LABELS,
+    PomodoroInterval,
+    PomodoroMode,
+    PomodoroProfile,
+} from '../../types';
+import { Button, IconButton } from '../ui/Button';
+import { Input, Select } from '../ui/Input';
+
+const MODE_OPTIONS = (Object.keys(POMODORO_MODE_LABELS) as PomodoroMode[]).map(mode => ({
+    value: mode,
+    label: POMODORO_MODE_LABELS[mode],
+}));
+
+function clampMinutes(value: number): number {
+    return Math.min(Math.max(value, 1), 180);
+}
+
+// ================== SWITCHER ==================
+
+/** Picks the active profile; switching starts its sequence from the top. */
+export function PomodoroProfileSwitcher() {
+    const { settings } = useApp();
+    const { profile, setProfile, isActive } = usePomodoro();
+
+    return (
+        <div title={isActive ? 'Profil, oturum bitince değiştirilebilir' : undefined}>
+            <Select
+                value={profile.id}
+                onChange={(e) => setProfile(e.target.value)}
+                disabled={isActive}
+                options={settings.pomodoro.profiles.map(p => ({ value: p.id, label: p.name }))}
+            />
+        </div>
+    );
+}
+
+// ================== SEQUENCE ==================
+
+/** One dot per interval of the active profile; the current one is wider. */
+export function PomodoroSequence({ className }: { className?: string }) {
+    const { profile, step } = usePomodoro();
+
+    return (
+        <div className={cn('flex flex-col items-center gap-2', className)}>
+            <div className="flex items-center justify-center gap-1.5 flex-wrap">
+                {profile.intervals.map((interval, i) => (
+                    <div
+                        key={i}
+                        title={`${POMODORO_MODE_LABELS[interval.mode]} · ${interval.minutes} dk`}
+                        className={cn('h-3 rounded-full transition-all', i === step ? 'w-6' : 'w-3', i > step && 'opacity-30')}
+                        style={{ backgroundColor: POMODORO_MODE_COLORS[interval.mode] }}
+                    />
+                ))}
+            </div>
+            <p className="text-sm text-secondary">
+                {step + 1}/{profile.intervals.length} aralık
+            </p>
+        </div>
+    );
+}
+
+// ================== EDITOR ==================
+
+// Kept locally while typing so an empty name never reaches the settings
+function ProfileNameInput({ profile, disabled, onRename }: {
+    profile: PomodoroProfile;
+    disabled: boolean;
+    onRename: (name: string) => void;
+}) {
+    const [name, setName] = useState(profile.name);
+
+    const commit = () => {
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== profile.name) {
+            onRename(trimmed);
+        } else {
+            setName(profile.name);
+        }
+    };
+
+    return (
+        <Input
+            label="Profil Adı"
+            value={name}
+            maxLength={40}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            disabled={disabled}
+        />
+    );
+}
+
+/** Creates, renames, deletes profiles and edits their interval sequences. */
+export function PomodoroProfileEditor() {
+    const { settings, updateSettings } = useApp();
+    const { profile: activeProfile, isActive } = usePomodoro();
+    const { profiles } = settings.pomodoro;
+
+    const [editingId, setEditingId] = useState(activeProfile.id);
+    const profile = profiles.find(p => p.id === editingId) ?? activeProfile;
+    // The running sequence stays as it is until the session is over
+    const locked = isActive && profile.id === activeProfile.id;
+
+    const saveProfiles = (nextProfiles: PomodoroProfile[], activeProfileId = settings.pomodoro.activeProfileId) => {
+        updateSettings({ pomodoro: { ...settings.pomodoro, profiles: nextProfiles, activeProfileId } });
+    };
+
+    const updateProfile = (updates: Partial<PomodoroProfile>) => {
+        saveProfiles(profiles.map(p => (p.id === profile.id ? { ...p, ...updates } : p)));
+    };
+
+    const updateInterval = (index: number, updates: Partial<PomodoroInterval>) => {
+        updateProfile({
+            intervals: profile.intervals.map((interval, i) => (i === index ? { ...interval, ...updates } : interval)),
+        });
+    };
+
+    const handleAddInterval = () => {
+        const last = profile.intervals[profile.intervals.length - 1];
+        const next: PomodoroInterval = last.mode === 'work'
+            ? { mode: 'shortBreak', minutes: 5 }
+            : { mode: 'work', minutes: 25 };
+        updateProfile({ intervals: [...profile.intervals, next] });
+    };
+
+    const handleAddProfile = () => {
+        const newProfile: PomodoroProfile = {
+            id: generateId(),
+            name: 'Yeni Profil',
+            intervals: [
+                { mode: 'work', minutes: 25 },
+                { mode: 'shortBreak', minutes: 5 },
+            ],
+        };
+        saveProfiles([...profiles, newProfile]);
+        setEditingId(newProfile.id);
+    };
+
+    const handleDeleteProfile = () => {
+        const remaining = profiles.filter(p => p.id !== profile.id);
+        const activeProfileId = profile.id === settings.pomodoro.activeProfileId
+            ? remaining[0].id
+            : settings.pomodoro.activeProfileId;
+        saveProfiles(remaining, activeProfileId);
+        setEditingId(activeProfileId);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                <div className="flex-1 min-w-0">
+                    <Select
+                        value={profile.id}
+                        onChange={(e) => setEditingId(e.target.value)}
+                        options={profiles.map(p => ({
+                            value: p.id,
+                            label: p.id === activeProfile.id ? `${p.name} (etkin)` : p.name,
+                        }))}
+                    />
+                </div>
+                <IconButton
+                    onClick={handleAddProfile}
+                    disabled={profiles.length >= LIMITS.MAX_POMODORO_PROFILES}
+                    title="Yeni profil"
+                >
+                    <Plus className="w-4 h-4" />
+                </IconButton>
+                <IconButton
+                    onClick={handleDeleteProfile}
+                    disabled={profiles.length <= 1 || locked}
+                    title="Profili sil"
+                >
+                    <Trash2 className="w-4 h-4" />
+                </IconButton>
+            </div>
+
+            <ProfileNameInput
+                key={profile.id}
+                profile={profile}
+                disabled={locked}
+                onRename={(name) => updateProfile({ name })}
+            />
+
+            <div className="space-y-2">
+                <p className="text-sm font-medium text-primary">Aralıklar</p>
+                {profile.intervals.map((interval, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                        <span className="text-xs text-tertiary w-5 text-right">{i + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                            <Select
+                                value={interval.mode}
+                                onChange={(e) => updateInterval(i, { mode: e.target.value as PomodoroMode })}
+                                disabled={locked}
+                                options={MODE_OPTIONS}
+                            />
+                        </div>
+                        <div className="w-20">
+                            <Input
+                                type="number"
+                                min={1}
+                                max={180}
+                                value={interval.minutes}
+                                onChange={(e) => {
+                                    const minutes = parseInt(e.target.value, 10);
+                                    if (!Number.isNaN(minutes)) updateInterval(i, { minutes: clampMinutes(minutes) });
+                                }}
+                                disabled={locked}
+                                title="Dakika"
+                            />
+                        </div>
+                        <IconButton
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => updateProfile({ intervals: profile.intervals.filter((_, j) => j !== i) })}
+                            disabled={locked || profile.intervals.length <= 1}
+                            title="Aralığı kaldır"
+                        >
+                            <X className="w-4 h-4" />
+                        </IconButton>
+                    </div>
+                ))}
+            </div>
+
+            <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleAddInterval}
+                disabled={locked || profile.intervals.length >= LIMITS.MAX_POMODORO_INTERVALS}
+                leftIcon={<Plus className="w-4 h-4" />}
+            >
+                Aralık Ekle
+            </Button>
+
+            {locked && (
+                <p className="text-xs text-tertiary">Etkin profil, oturum bitince düzenlenebilir.</p>
+            )}
+        </div>
+    );
+}
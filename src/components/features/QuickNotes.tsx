@@ -1,33 +1,15 @@
 import { Save, X } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { BACKUP_RESTORED_EVENT } from '../../lib/backup';
+import { subscribeToCrossTabChanges } from '../../lib/crossTab';
+import { getQuickNotes, markKeysLoaded, saveQuickNotes } from '../../lib/storage';
 import { cn } from '../../lib/utils';
+import { QuickNote } from '../../types';
 import { IconButton } from '../ui/Button';
 import { Card } from '../ui/Card';
 
-const QUICK_NOTES_KEY = 'planex-quick-notes';
-
-interface Note {
-    id: string;
-    content: string;
-    createdAt: string;
-    updatedAt: string;
-}
-
-function getQuickNotes(): Note[] {
-    try {
-        const data = localStorage.getItem(QUICK_NOTES_KEY);
-        return data ? JSON.parse(data) : [];
-    } catch {
-        return [];
-    }
-}
-
-function saveQuickNotes(notes: Note[]): void {
-    localStorage.setItem(QUICK_NOTES_KEY, JSON.stringify(notes));
-}
-
 export function QuickNotes() {
-    const [notes, setNotes] = useState<Note[]>(getQuickNotes);
+    const [notes, setNotes] = useState<QuickNote[]>(getQuickNotes);
     const [newNoteContent, setNewNoteContent] = useState('');
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editContent, setEditContent] = useState('');
@@ -36,10 +18,26 @@ export function QuickNotes() {
         saveQuickNotes(notes);
     }, [notes]);
 
+    // Reload after a backup restore or a save in another tab
+    useEffect(() => {
+        markKeysLoaded('QUICK_NOTES');
+        const reload = () => {
+            setNotes(getQuickNotes());
+            markKeysLoaded('QUICK_NOTES');
+        };
+
+        window.addEventListener(BACKUP_RESTORED_EVENT, reload);
+        const unsubscribe = subscribeToCrossTabChanges(['QUICK_NOTES'], reload);
+        return () => {
+            window.removeEventListener(BACKUP_RESTORED_EVENT, reload);
+            unsubscribe();
+        };
+    }, []);
+
     const addNote = () => {
         if (!newNoteContent.trim()) return;
 
-        const note: Note = {
+        const note: QuickNote = {
             id: `${Date.now()}`,
             content: newNoteContent.trim(),
             createdAt: new Date().toISOString(),
@@ -54,7 +52,7 @@ export function QuickNotes() {
         setNotes(notes.filter(n => n.id !== id));
     };
 
-    const startEdit = (note: Note) => {
+    const startEdit = (note: QuickNote) => {
         setEditingId(note.id);
         setEditContent(note.content);
     };
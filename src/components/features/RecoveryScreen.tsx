@@ -0,0 +1,126 @@
+import { AlertTriangle, Download, FileDown, RefreshCw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import {
+    exportPreMigrationCopy,
+    exportRawStorage,
+    quarantineStorageKey,
+    StorageIssue,
+    StorageKeyName,
+} from '../../lib/storage';
+import { downloadFile, formatDate } from '../../lib/utils';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+
+const keyLabels: Record<StorageKeyName, string> = {
+    COURSES: 'Dersler',
+    COMPLETION: 'Tamamlanma durumları',
+    PERSONAL_TASKS: 'Kişisel görevler',
+    HABITS: 'Alışkanlıklar',
+    SETTINGS: 'Ayarlar',
+    LECTURE_NOTES_META: 'Ders notu bilgileri',
+    CALENDAR_EVENTS: 'Takvim etkinlikleri',
+    QUICK_NOTES: 'Hızlı notlar',
+    POMODORO_SESSIONS: 'Pomodoro oturumları',
+    POMODORO_TIMER: 'Pomodoro zamanlayıcı',
+    NOTIFICATION_LOG: 'Gönderilen bildirimler',
+};
+
+const kindLabels: Record<StorageIssue['kind'], string> = {
+    parse: 'Veri okunamadı',
+    validation: 'Veri beklenen biçimde değil',
+    migration: 'Veri güncellenirken hata oluştu',
+    newerVersion: 'Veri daha yeni bir uygulama sürümüyle kaydedilmiş',
+};
+
+interface RecoveryScreenProps {
+    issues: StorageIssue[];
+}
+
+export function RecoveryScreen({ issues: initialIssues }: RecoveryScreenProps) {
+    const [issues, setIssues] = useState(initialIssues);
+
+    const handleDownload = () => {
+        downloadFile(exportRawStorage(), `planex-recovery-${formatDate(new Date())}.json`, 'application/json');
+    };
+
+    const handleReset = (issue: StorageIssue) => {
+        const confirmed = window.confirm(
+            `"${keyLabels[issue.name]}" varsayılan değerlere sıfırlanacak. Bozuk veri ayrı bir anahtarda saklanır. Devam edilsin mi?`
+        );
+        if (!confirmed) return;
+
+        quarantineStorageKey(issue.name);
+        setIssues(prev => prev.filter(i => i.key !== issue.key));
+    };
+
+    const handleDownloadCopy = (issue: StorageIssue) => {
+        const copy = exportPreMigrationCopy(issue.name);
+        if (copy) {
+            downloadFile(copy, `planex-${issue.key}-guncelleme-oncesi-${formatDate(new Date())}.json`, 'application/json');
+        }
+    };
+
+    return (
+        <div className="min-h-screen w-full bg-primary flex items-center justify-center p-4">
+            <Card className="w-full max-w-2xl p-6 space-y-6">
+                <div className="flex items-start gap-3">
+                    <AlertTriangle className="w-6 h-6 text-yellow-500 flex-shrink-0 mt-0.5" />
+                    <div>
+                        <h1 className="text-xl font-bold text-primary">Veriler yüklenemedi</h1>
+                        <p className="text-sm text-secondary mt-1">
+                            Kayıtlı verilerinizin bir kısmı okunamadı. Hiçbir şey silinmedi; devam etmeden önce
+                            ham verileri indirmeniz önerilir.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    {issues.map(issue => (
+                        <div key={issue.key} className="p-4 rounded-lg bg-secondary space-y-3">
+                            <div>
+                                <p className="font-medium text-primary">{keyLabels[issue.name]}</p>
+                                <p className="text-sm text-secondary">{kindLabels[issue.kind]}</p>
+                                <p className="text-xs text-tertiary mt-1 font-mono break-all line-clamp-3">
+                                    {issue.message}
+                                </p>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                {issue.hasPreMigrationCopy && (
+                                    <Button
+                                        size="sm"
+                                        variant="secondary"
+                                        leftIcon={<FileDown className="w-4 h-4" />}
+                                        onClick={() => handleDownloadCopy(issue)}
+                                    >
+                                        Güncelleme öncesi kopyayı indir
+                                    </Button>
+                                )}
+                                <Button
+                                    size="sm"
+                                    variant="danger"
+                                    leftIcon={<Trash2 className="w-4 h-4" />}
+                                    onClick={() => handleReset(issue)}
+                                >
+                                    Sıfırla
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap gap-3 pt-4 border-t border-default">
+                    <Button leftIcon={<Download className="w-4 h-4" />} onClick={handleDownload}>
+                        Ham verileri indir
+                    </Button>
+                    <Button
+                        variant="secondary"
+                        leftIcon={<RefreshCw className="w-4 h-4" />}
+                        onClick={() => window.location.reload()}
+                    >
+                        {issues.length === 0 ? 'Uygulamayı başlat' : 'Tekrar dene'}
+                    </Button>
+                </div>
+            </Card>
+        </div>
+    );
+}
@@ -1,55 +1,124 @@
 import {
     AlertTriangle,
+    Bell,
     Download,
+    HardDrive,
     Keyboard,
+    Lock,
+    RefreshCw,
     Upload,
     Volume2
 } from 'lucide-react';
 import React, { useState } from 'react';
 import { useApp } from '../../context/AppContext';
 import { useHabits } from '../../context/HabitsContext';
+import { useNotifications } from '../../context/NotificationContext';
 import { usePlanner } from '../../context/PlannerContext';
-import { getAllHabitLogs } from '../../lib/storage';
+import {
+    BackupFormatError,
+    createBackup,
+    decryptBackup,
+    encryptBackup,
+    isEncryptedBackup,
+    parseBackup,
+} from '../../lib/backup';
 import { cn, downloadFile, formatDate } from '../../lib/utils';
-import { BackupData, BackupDataSchema } from '../../types';
+import { BackupData, EncryptedBackup, NotificationSettings } from '../../types';
 import { Button } from '../ui/Button';
 import { Input, Select } from '../ui/Input';
 import { Modal } from '../ui/Modal';
+import { ImportWizard } from './ImportWizard';
+import { SnapshotList } from './SnapshotList';
+import { StorageSettings } from './StorageSettings';
+import { SyncSettings } from './SyncSettings';
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 export function SettingsModal() {
     const { isSettingsOpen, setIsSettingsOpen, settings, updateSettings, addToast, backupWarning } = useApp();
-    const { state: plannerState, importData } = usePlanner();
-    const { state: habitsState, importHabits } = useHabits();
+    const { storedState: plannerState } = usePlanner();
+    const { storedState: habitsState } = useHabits();
+    const { permission, requestPermission, sendTest } = useNotifications();
 
-    const [activeTab, setActiveTab] = useState<'general' | 'backup' | 'shortcuts'>('general');
+    const [activeTab, setActiveTab] = useState<'general' | 'backup' | 'sync' | 'storage' | 'shortcuts'>('general');
     const [isExporting, setIsExporting] = useState(false);
     const [isImporting, setIsImporting] = useState(false);
+    const [includeLectureNoteFiles, setIncludeLectureNoteFiles] = useState(false);
+    const [pendingBackup, setPendingBackup] = useState<BackupData | null>(null);
+    const [encryptExport, setEncryptExport] = useState(false);
+    const [exportPassphrase, setExportPassphrase] = useState('');
+    const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+    const [pendingEnvelope, setPendingEnvelope] = useState<EncryptedBackup | null>(null);
+    const [importPassphrase, setImportPassphrase] = useState('');
+    const [isDecrypting, setIsDecrypting] = useState(false);
+
+    const passphraseError = !encryptExport
+        ? null
+        : exportPassphrase.length < MIN_PASSPHRASE_LENGTH
+            ? `Parola en az ${MIN_PASSPHRASE_LENGTH} karakter olmalı`
+            : exportPassphrase !== exportPassphraseConfirm
+                ? 'Parolalar eşleşmiyor'
+                : null;
+
+    const updateNotifications = (updates: Partial<NotificationSettings>) => {
+        updateSettings({ notifications: { ...settings.notifications, ...updates } });
+    };
+
+    // Switching notifications on is the moment to ask the browser for permission
+    const handleNotificationsToggle = (enabled: boolean) => {
+        updateNotifications({ enabled });
+        if (enabled && permission === 'default') {
+            requestPermission().catch(error => console.error('Notification permission request failed:', error));
+        }
+    };
+
+    const renderNotificationToggle = (
+        key: 'habitReminder' | 'examReminder' | 'taskReminder' | 'eventReminder' | 'pomodoroAlerts',
+        label: string
+    ) => (
+        <label className="flex items-center gap-3 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={settings.notifications[key]}
+                onChange={(e) => updateNotifications({ [key]: e.target.checked })}
+                className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-secondary">{label}</span>
+        </label>
+    );
 
     const tabs = [
         { id: 'general', label: 'Genel', icon: <Volume2 className="w-4 h-4" /> },
         { id: 'backup', label: 'Yedekleme', icon: <Download className="w-4 h-4" /> },
+        { id: 'sync', label: 'Senkronizasyon', icon: <RefreshCw className="w-4 h-4" /> },
+        { id: 'storage', label: 'Depolama', icon: <HardDrive className="w-4 h-4" /> },
         { id: 'shortcuts', label: 'Kısayollar', icon: <Keyboard className="w-4 h-4" /> },
     ] as const;
 
     const handleExport = async () => {
         setIsExporting(true);
         try {
-            const habitLogs = await getAllHabitLogs();
-
-            const backup: BackupData = {
-                version: '1.0.0',
-                exportedAt: new Date().toISOString(),
-                courses: plannerState.courses,
-                completionState: plannerState.completionState,
-                personalTasks: plannerState.personalTasks,
-                habits: habitsState.habits,
-                settings: settings,
-                lectureNotesMeta: plannerState.lectureNotesMeta,
-            };
+            const backup = await createBackup(
+                {
+                    courses: plannerState.courses,
+                    completionState: plannerState.completionState,
+                    personalTasks: plannerState.personalTasks,
+                    lectureNotesMeta: plannerState.lectureNotesMeta,
+                    habits: habitsState.habits,
+                    settings,
+                },
+                { includeLectureNoteFiles }
+            );
 
             const json = JSON.stringify(backup, null, 2);
-            const filename = `planex-backup-${formatDate(new Date())}.json`;
-            downloadFile(json, filename, 'application/json');
+            if (encryptExport) {
+                const envelope = await encryptBackup(json, exportPassphrase);
+                const filename = `planex-backup-${formatDate(new Date())}.encrypted.json`;
+                downloadFile(JSON.stringify(envelope), filename, 'application/json');
+            } else {
+                const filename = `planex-backup-${formatDate(new Date())}.json`;
+                downloadFile(json, filename, 'application/json');
+            }
 
             updateSettings({ lastBackupISO: new Date().toISOString() });
             addToast('success', 'Yedekleme başarıyla indirildi');
@@ -70,228 +139,388 @@ export function SettingsModal() {
             const text = await file.text();
             const data = JSON.parse(text);
 
-            const result = BackupDataSchema.safeParse(data);
-            if (!result.success) {
-                throw new Error('Geçersiz yedekleme dosyası');
-            }
-
-            const backup = result.data;
-
-            // Import planner data
-            importData(backup.courses, backup.completionState, backup.personalTasks);
-
-            // Import habits
-            if (backup.habits) {
-                importHabits(backup.habits, []);
-            }
-
-            // Update settings
-            if (backup.settings) {
-                updateSettings(backup.settings);
+            // Encrypted files ask for the passphrase first
+            if (isEncryptedBackup(data)) {
+                setImportPassphrase('');
+                setPendingEnvelope(data);
+                setIsSettingsOpen(false);
+                return;
             }
 
-            addToast('success', 'Yedekleme başarıyla geri yüklendi');
+            // Preview and apply in the import wizard
+            setPendingBackup(parseBackup(data));
             setIsSettingsOpen(false);
         } catch (error) {
             console.error('Import failed:', error);
-            addToast('error', 'Yedekleme geri yüklenemedi. Dosya formatını kontrol edin.');
+            const message = error instanceof BackupFormatError
+                ? error.message
+                : 'Yedekleme geri yüklenemedi. Dosya formatını kontrol edin.';
+            addToast('error', message);
         } finally {
             setIsImporting(false);
             event.target.value = '';
         }
     };
 
+    const handleDecrypt = async () => {
+        if (!pendingEnvelope) return;
+
+        setIsDecrypting(true);
+        try {
+            const json = await decryptBackup(pendingEnvelope, importPassphrase);
+            const backup = parseBackup(JSON.parse(json));
+            setPendingEnvelope(null);
+            setPendingBackup(backup);
+        } catch (error) {
+            console.error('Decrypt failed:', error);
+            addToast('error', error instanceof BackupFormatError ? error.message : 'Yedek çözülemedi');
+        } finally {
+            setIsDecrypting(false);
+            setImportPassphrase('');
+        }
+    };
+
     const shortcuts = [
         { keys: 'Ctrl + K', description: 'Arama' },
         { keys: 'Ctrl + ,', description: 'Ayarlar' },
         { keys: 'Ctrl + P', description: 'Pomodoro' },
         { keys: 'Ctrl + Z', description: 'Geri Al' },
+        { keys: 'Ctrl + Shift + Z', description: 'Yinele' },
         { keys: 'Ctrl + Shift + D', description: 'Tema Değiştir' },
         { keys: 'Escape', description: 'Modal Kapat' },
     ];
 
     return (
-        <Modal
-            isOpen={isSettingsOpen}
-            onClose={() => setIsSettingsOpen(false)}
-            title="Ayarlar"
-            size="lg"
-        >
-            <div className="flex gap-6">
-                {/* Tabs */}
-                <div className="w-40 flex-shrink-0 space-y-1">
-                    {tabs.map((tab) => (
-                        <button
-                            key={tab.id}
-                            onClick={() => setActiveTab(tab.id)}
-                            className={cn(
-                                'flex items-center gap-2 w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors',
-                                activeTab === tab.id
-                                    ? 'bg-[var(--color-accent-light)] text-[var(--color-accent)]'
-                                    : 'text-secondary hover:bg-secondary hover:text-primary'
-                            )}
-                        >
-                            {tab.icon}
-                            {tab.label}
-                        </button>
-                    ))}
-                </div>
+        <>
+            <Modal
+                isOpen={isSettingsOpen}
+                onClose={() => setIsSettingsOpen(false)}
+                title="Ayarlar"
+                size="lg"
+            >
+                <div className="flex gap-6">
+                    {/* Tabs */}
+                    <div className="w-40 flex-shrink-0 space-y-1">
+                        {tabs.map((tab) => (
+                            <button
+                                key={tab.id}
+                                onClick={() => setActiveTab(tab.id)}
+                                className={cn(
+                                    'flex items-center gap-2 w-full px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+                                    activeTab === tab.id
+                                        ? 'bg-[var(--color-accent-light)] text-[var(--color-accent)]'
+                                        : 'text-secondary hover:bg-secondary hover:text-primary'
+                                )}
+                            >
+                                {tab.icon}
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
 
-                {/* Content */}
-                <div className="flex-1 min-h-[300px]">
-                    {/* General */}
-                    {activeTab === 'general' && (
-                        <div className="space-y-6">
-                            <div>
-                                <h3 className="text-sm font-medium text-primary mb-3">Tema</h3>
-                                <Select
-                                    value={settings.theme}
-                                    onChange={(e) => updateSettings({ theme: e.target.value as 'light' | 'dark' | 'system' })}
-                                    options={[
-                                        { value: 'system', label: 'Sistem' },
-                                        { value: 'light', label: 'Açık' },
-                                        { value: 'dark', label: 'Koyu' },
-                                    ]}
-                                />
+                    {/* Content */}
+                    <div className="flex-1 min-h-[300px]">
+                        {/* General */}
+                        {activeTab === 'general' && (
+                            <div className="space-y-6">
+                                <div>
+                                    <h3 className="text-sm font-medium text-primary mb-3">Tema</h3>
+                                    <Select
+                                        value={settings.theme}
+                                        onChange={(e) => updateSettings({ theme: e.target.value as 'light' | 'dark' | 'system' })}
+                                        options={[
+                                            { value: 'system', label: 'Sistem' },
+                                            { value: 'light', label: 'Açık' },
+                                            { value: 'dark', label: 'Koyu' },
+                                        ]}
+                                    />
+                                </div>
+
+                                <div>
+                                    <h3 className="text-sm font-medium text-primary mb-3">Ses</h3>
+                                    <label className="flex items-center gap-3 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.soundEnabled}
+                                            onChange={(e) => updateSettings({ soundEnabled: e.target.checked })}
+                                            className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                                        />
+                                        <span className="text-secondary">Bildirim sesleri</span>
+                                    </label>
+                                </div>
+
+                                <div>
+                                    <h3 className="text-sm font-medium text-primary mb-3">Bildirimler</h3>
+                                    <label className="flex items-center gap-3 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.notifications.enabled}
+                                            onChange={(e) => handleNotificationsToggle(e.target.checked)}
+                                            className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                                        />
+                                        <span className="text-secondary">Web bildirimleri</span>
+                                    </label>
+
+                                    {settings.notifications.enabled && (
+                                        <div className="mt-3 ml-7 space-y-4">
+                                            {permission !== 'granted' && (
+                                                <div className="flex items-center gap-3 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                                                    <AlertTriangle className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+                                                    <p className="flex-1 text-sm text-yellow-600 dark:text-yellow-400">
+                                                        {permission === 'unsupported'
+                                                            ? 'Bu tarayıcı bildirimleri desteklemiyor.'
+                                                            : permission === 'denied'
+                                                                ? 'Bildirimler engellendi. Tarayıcı ayarlarından izin verin.'
+                                                                : 'Hatırlatmalar için bildirim izni gerekli.'}
+                                                    </p>
+                                                    {permission === 'default' && (
+                                                        <Button size="sm" onClick={() => requestPermission()}>
+                                                            İzin Ver
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            <div className="space-y-2">
+                                                {renderNotificationToggle('habitReminder', 'Alışkanlık hatırlatması')}
+                                                {settings.notifications.habitReminder && (
+                                                    <div className="ml-7">
+                                                        <Input
+                                                            type="time"
+                                                            label="Hatırlatma saati"
+                                                            value={settings.notifications.habitReminderTime || '20:00'}
+                                                            onChange={(e) => updateNotifications({ habitReminderTime: e.target.value })}
+                                                        />
+                                                    </div>
+                                                )}
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                {renderNotificationToggle('examReminder', 'Yaklaşan sınavlar')}
+                                                {settings.notifications.examReminder && (
+                                                    <div className="ml-7">
+                                                        <Select
+                                                            label="Kaç gün önce"
+                                                            value={String(settings.notifications.examReminderDays ?? 3)}
+                                                            onChange={(e) => updateNotifications({ examReminderDays: Number(e.target.value) })}
+                                                            options={[1, 2, 3, 5, 7, 14].map(days => ({ value: String(days), label: `${days} gün` }))}
+                                                        />
+                                                    </div>
+                                                )}
+                                                {renderNotificationToggle('taskReminder', 'Teslim tarihi gelen görevler')}
+                                                {renderNotificationToggle('eventReminder', 'Takvim hatırlatmaları')}
+                                                <Input
+                                                    type="time"
+                                                    label="Sınav, görev ve takvim hatırlatmalarının saati"
+                                                    value={settings.notifications.reminderTime}
+                                                    onChange={(e) => e.target.value && updateNotifications({ reminderTime: e.target.value })}
+                                                />
+                                            </div>
+
+                                            {renderNotificationToggle('pomodoroAlerts', 'Pomodoro aralığı bittiğinde (uygulama arka plandayken)')}
+
+                                            <Button
+                                                variant="secondary"
+                                                size="sm"
+                                                onClick={sendTest}
+                                                disabled={permission === 'unsupported' || permission === 'denied'}
+                                                leftIcon={<Bell className="w-4 h-4" />}
+                                            >
+                                                Test Bildirimi Gönder
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
                             </div>
+                        )}
+
+                        {/* Backup */}
+                        {activeTab === 'backup' && (
+                            <div className="space-y-6">
+                                {/* Backup Warning */}
+                                {backupWarning && (
+                                    <div className="flex items-center gap-3 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                                        <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+                                        <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                                            Yedekleme önerilir! Verilerinizi düzenli olarak yedekleyin.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {settings.lastBackupISO && (
+                                    <div className="p-4 rounded-lg bg-secondary">
+                                        <p className="text-sm text-secondary">
+                                            Son yedekleme: {new Date(settings.lastBackupISO).toLocaleDateString('tr-TR', {
+                                                year: 'numeric',
+                                                month: 'long',
+                                                day: 'numeric',
+                                                hour: '2-digit',
+                                                minute: '2-digit',
+                                            })}
+                                        </p>
+                                    </div>
+                                )}
+
+                                {!settings.lastBackupISO && !backupWarning && (
+                                    <div className="flex items-center gap-3 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                                        <AlertTriangle className="w-5 h-5 text-yellow-500" />
+                                        <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                                            Henüz yedekleme yapılmamış. Verilerinizi kaybetmemek için yedekleme alın.
+                                        </p>
+                                    </div>
+                                )}
 
-                            <div>
-                                <h3 className="text-sm font-medium text-primary mb-3">Ses</h3>
                                 <label className="flex items-center gap-3 cursor-pointer">
                                     <input
                                         type="checkbox"
-                                        checked={settings.soundEnabled}
-                                        onChange={(e) => updateSettings({ soundEnabled: e.target.checked })}
+                                        checked={includeLectureNoteFiles}
+                                        onChange={(e) => setIncludeLectureNoteFiles(e.target.checked)}
                                         className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
                                     />
-                                    <span className="text-secondary">Bildirim sesleri</span>
+                                    <span className="text-sm text-secondary">PDF ders notlarını dahil et (dosya boyutu büyüyebilir)</span>
                                 </label>
-                            </div>
 
-                            <div>
-                                <h3 className="text-sm font-medium text-primary mb-3">Bildirimler</h3>
                                 <label className="flex items-center gap-3 cursor-pointer">
                                     <input
                                         type="checkbox"
-                                        checked={settings.notifications.enabled}
-                                        onChange={(e) =>
-                                            updateSettings({
-                                                notifications: { ...settings.notifications, enabled: e.target.checked },
-                                            })
-                                        }
+                                        checked={encryptExport}
+                                        onChange={(e) => setEncryptExport(e.target.checked)}
                                         className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
                                     />
-                                    <span className="text-secondary">Web bildirimleri</span>
+                                    <span className="text-sm text-secondary">Yedeği parola ile şifrele</span>
                                 </label>
 
-                                {settings.notifications.enabled && (
-                                    <div className="mt-3 ml-7">
+                                {encryptExport && (
+                                    <div className="ml-7 space-y-3">
                                         <Input
-                                            type="time"
-                                            label="Hatırlatma saati"
-                                            value={settings.notifications.habitReminderTime || '20:00'}
-                                            onChange={(e) =>
-                                                updateSettings({
-                                                    notifications: { ...settings.notifications, habitReminderTime: e.target.value },
-                                                })
-                                            }
+                                            type="password"
+                                            label="Parola"
+                                            value={exportPassphrase}
+                                            onChange={(e) => setExportPassphrase(e.target.value)}
+                                            autoComplete="new-password"
                                         />
+                                        <Input
+                                            type="password"
+                                            label="Parola (tekrar)"
+                                            value={exportPassphraseConfirm}
+                                            onChange={(e) => setExportPassphraseConfirm(e.target.value)}
+                                            autoComplete="new-password"
+                                            error={exportPassphraseConfirm ? passphraseError ?? undefined : undefined}
+                                        />
+                                        <p className="text-xs text-tertiary">
+                                            Parolayı unutursanız yedek geri yüklenemez.
+                                        </p>
                                     </div>
                                 )}
-                            </div>
-                        </div>
-                    )}
-
-                    {/* Backup */}
-                    {activeTab === 'backup' && (
-                        <div className="space-y-6">
-                            {/* Backup Warning */}
-                            {backupWarning && (
-                                <div className="flex items-center gap-3 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
-                                    <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
-                                    <p className="text-sm text-yellow-600 dark:text-yellow-400">
-                                        Yedekleme önerilir! Verilerinizi düzenli olarak yedekleyin.
-                                    </p>
-                                </div>
-                            )}
-
-                            {settings.lastBackupISO && (
-                                <div className="p-4 rounded-lg bg-secondary">
-                                    <p className="text-sm text-secondary">
-                                        Son yedekleme: {new Date(settings.lastBackupISO).toLocaleDateString('tr-TR', {
-                                            year: 'numeric',
-                                            month: 'long',
-                                            day: 'numeric',
-                                            hour: '2-digit',
-                                            minute: '2-digit',
-                                        })}
-                                    </p>
+
+                                <div className="flex gap-3">
+                                    <Button
+                                        onClick={handleExport}
+                                        isLoading={isExporting}
+                                        disabled={passphraseError !== null}
+                                        leftIcon={<Download className="w-4 h-4" />}
+                                    >
+                                        Yedekle (JSON)
+                                    </Button>
+
+                                    <label className="cursor-pointer">
+                                        <span className="inline-flex items-center justify-center gap-2 rounded-lg font-medium transition-all duration-200 px-4 py-2 text-sm bg-secondary text-primary hover:bg-[var(--color-bg-hover)] border border-default focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-2">
+                                            <Upload className="w-4 h-4" />
+                                            {isImporting ? 'Yükleniyor...' : 'İçe Aktar'}
+                                        </span>
+                                        <input
+                                            type="file"
+                                            accept=".json"
+                                            onChange={handleImport}
+                                            className="hidden"
+                                        />
+                                    </label>
                                 </div>
-                            )}
-
-                            {!settings.lastBackupISO && !backupWarning && (
-                                <div className="flex items-center gap-3 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
-                                    <AlertTriangle className="w-5 h-5 text-yellow-500" />
-                                    <p className="text-sm text-yellow-600 dark:text-yellow-400">
-                                        Henüz yedekleme yapılmamış. Verilerinizi kaybetmemek için yedekleme alın.
-                                    </p>
+
+                                <SnapshotList
+                                    onRestore={(backup) => {
+                                        setPendingBackup(backup);
+                                        setIsSettingsOpen(false);
+                                    }}
+                                />
+
+                                <div className="pt-4 border-t border-default">
+                                    <p className="text-sm text-secondary mb-2">Yedekleme şunları içerir:</p>
+                                    <ul className="text-sm text-tertiary space-y-1 list-disc list-inside">
+                                        <li>Tüm dersler ve görevler</li>
+                                        <li>Sınav tarihleri ve etkinlikler</li>
+                                        <li>Tamamlanma durumları</li>
+                                        <li>Alışkanlıklar ve günlük kayıtları</li>
+                                        <li>Hızlı notlar ve Pomodoro geçmişi</li>
+                                        <li>Ayarlar</li>
+                                        <li>İsteğe bağlı: PDF ders notları</li>
+                                        <li>İsteğe bağlı: AES-GCM ile parola korumalı şifreleme</li>
+                                    </ul>
                                 </div>
-                            )}
-
-                            <div className="flex gap-3">
-                                <Button
-                                    onClick={handleExport}
-                                    isLoading={isExporting}
-                                    leftIcon={<Download className="w-4 h-4" />}
-                                >
-                                    Yedekle (JSON)
-                                </Button>
-
-                                <label className="cursor-pointer">
-                                    <span className="inline-flex items-center justify-center gap-2 rounded-lg font-medium transition-all duration-200 px-4 py-2 text-sm bg-secondary text-primary hover:bg-[var(--color-bg-hover)] border border-default focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-2">
-                                        <Upload className="w-4 h-4" />
-                                        {isImporting ? 'Yükleniyor...' : 'İçe Aktar'}
-                                    </span>
-                                    <input
-                                        type="file"
-                                        accept=".json"
-                                        onChange={handleImport}
-                                        className="hidden"
-                                    />
-                                </label>
                             </div>
+                        )}
 
-                            <div className="pt-4 border-t border-default">
-                                <p className="text-sm text-secondary mb-2">Yedekleme şunları içerir:</p>
-                                <ul className="text-sm text-tertiary space-y-1 list-disc list-inside">
-                                    <li>Tüm dersler ve görevler</li>
-                                    <li>Sınav tarihleri ve etkinlikler</li>
-                                    <li>Tamamlanma durumları</li>
-                                    <li>Alışkanlıklar</li>
-                                    <li>Ayarlar</li>
-                                </ul>
+                        {/* Sync */}
+                        {activeTab === 'sync' && <SyncSettings />}
+
+                        {/* Storage */}
+                        {activeTab === 'storage' && <StorageSettings />}
+
+                        {/* Shortcuts */}
+                        {activeTab === 'shortcuts' && (
+                            <div className="space-y-2">
+                                {shortcuts.map((shortcut) => (
+                                    <div
+                                        key={shortcut.keys}
+                                        className="flex items-center justify-between py-2 border-b border-default last:border-0"
+                                    >
+                                        <span className="text-secondary">{shortcut.description}</span>
+                                        <kbd className="px-2 py-1 text-sm bg-secondary rounded border border-default">
+                                            {shortcut.keys}
+                                        </kbd>
+                                    </div>
+                                ))}
                             </div>
-                        </div>
-                    )}
-
-                    {/* Shortcuts */}
-                    {activeTab === 'shortcuts' && (
-                        <div className="space-y-2">
-                            {shortcuts.map((shortcut) => (
-                                <div
-                                    key={shortcut.keys}
-                                    className="flex items-center justify-between py-2 border-b border-default last:border-0"
-                                >
-                                    <span className="text-secondary">{shortcut.description}</span>
-                                    <kbd className="px-2 py-1 text-sm bg-secondary rounded border border-default">
-                                        {shortcut.keys}
-                                    </kbd>
-                                </div>
-                            ))}
-                        </div>
-                    )}
+                        )}
+                    </div>
                 </div>
-            </div>
-        </Modal>
+            </Modal>
+            <Modal
+                isOpen={pendingEnvelope !== null}
+                onClose={() => setPendingEnvelope(null)}
+                title="Şifreli Yedek"
+                size="sm"
+            >
+                <form
+                    className="space-y-4"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        handleDecrypt();
+                    }}
+                >
+                    <div className="flex items-center gap-3 text-sm text-secondary">
+                        <Lock className="w-5 h-5 text-[var(--color-accent)] flex-shrink-0" />
+                        Bu yedek parola ile korunuyor.
+                    </div>
+                    <Input
+                        type="password"
+                        label="Parola"
+                        value={importPassphrase}
+                        onChange={(e) => setImportPassphrase(e.target.value)}
+                        autoComplete="current-password"
+                        autoFocus
+                    />
+                    <div className="flex justify-end gap-3">
+                        <Button type="button" variant="secondary" onClick={() => setPendingEnvelope(null)}>
+                            İptal
+                        </Button>
+                        <Button type="submit" isLoading={isDecrypting} disabled={!importPassphrase}>
+                            Çöz
+                        </Button>
+                    </div>
+                </form>
+            </Modal>
+            <ImportWizard key={pendingBackup?.exportedAt} backup={pendingBackup} onClose={() => setPendingBackup(null)} />
+        </>
     );
 }
@@ -0,0 +1,80 @@
+import { History, RotateCcw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getAllSnapshots, SnapshotCounts, StoredSnapshot } from '../../lib/storage';
+import { BackupData, LIMITS } from '../../types';
+import { Button } from '../ui/Button';
+
+const countLabels: Array<{ key: keyof SnapshotCounts; label: string }> = [
+    { key: 'courses', label: 'ders' },
+    { key: 'tasks', label: 'görev' },
+    { key: 'exams', label: 'sınav' },
+    { key: 'personalTasks', label: 'kişisel görev' },
+    { key: 'habits', label: 'alışkanlık' },
+    { key: 'habitLogs', label: 'kayıt' },
+];
+
+interface SnapshotListProps {
+    onRestore: (backup: BackupData) => void;
+}
+
+export function SnapshotList({ onRestore }: SnapshotListProps) {
+    const [snapshots, setSnapshots] = useState<StoredSnapshot[] | null>(null);
+
+    useEffect(() => {
+        getAllSnapshots()
+            .then(setSnapshots)
+            .catch(error => {
+                console.error('Failed to load snapshots:', error);
+                setSnapshots([]);
+            });
+    }, []);
+
+    return (
+        <div className="pt-4 border-t border-default space-y-3">
+            <div className="flex items-center gap-2">
+                <History className="w-4 h-4 text-secondary" />
+                <p className="text-sm font-medium text-primary">Otomatik anlık görüntüler</p>
+            </div>
+            <p className="text-xs text-tertiary">
+                Her gün otomatik olarak alınır; son {LIMITS.MAX_SNAPSHOTS} gün saklanır.
+            </p>
+
+            {snapshots === null ? (
+                <p className="text-sm text-secondary">Yükleniyor...</p>
+            ) : snapshots.length === 0 ? (
+                <p className="text-sm text-secondary">Henüz anlık görüntü yok.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {snapshots.map(snapshot => (
+                        <li key={snapshot.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-primary">
+                                    {new Date(snapshot.createdAt).toLocaleDateString('tr-TR', {
+                                        year: 'numeric',
+                                        month: 'long',
+                                        day: 'numeric',
+                                        hour: '2-digit',
+                                        minute: '2-digit',
+                                    })}
+                                </p>
+                                <p className="text-xs text-tertiary truncate">
+                                    {countLabels
+                                        .map(({ key, label }) => `${snapshot.counts[key]} ${label}`)
+                                        .join(' • ')}
+                                </p>
+                            </div>
+                            <Button
+                                size="sm"
+                                variant="secondary"
+                                leftIcon={<RotateCcw className="w-4 h-4" />}
+                                onClick={() => onRestore(snapshot.backup)}
+                            >
+                                Geri Yükle
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,342 @@
+import { AlertTriangle, HardDrive, ShieldCheck, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useApp } from '../../context/AppContext';
+import { useHabits } from '../../context/HabitsContext';
+import { usePlanner } from '../../context/PlannerContext';
+import {
+    deleteLectureNote,
+    getStorageEstimate,
+    getStorageUsage,
+    requestPersistentStorage,
+    StorageEstimate,
+    StorageUsage,
+} from '../../lib/storage';
+import { formatDateDisplay, formatFileSize, getDaysUntil } from '../../lib/utils';
+import { Button } from '../ui/Button';
+import { ProgressBar } from '../ui/Card';
+
+// PDFs uploaded longer ago than this are offered for cleanup first
+const OLD_PDF_DAYS = 90;
+const USAGE_WARNING_RATIO = 0.8;
+
+function sumValues(totals: Record<string, number>): number {
+    return Object.values(totals).reduce((sum, bytes) => sum + bytes, 0);
+}
+
+function UsageRow({ label, detail, bytes }: { label: string; detail?: string; bytes: number }) {
+    return (
+        <li className="flex items-center justify-between gap-3 py-1.5">
+            <div className="min-w-0">
+                <p className="text-sm text-primary truncate">{label}</p>
+                {detail && <p className="text-xs text-tertiary truncate">{detail}</p>}
+            </div>
+            <span className="text-sm text-secondary flex-shrink-0">{formatFileSize(bytes)}</span>
+        </li>
+    );
+}
+
+export function StorageSettings() {
+    const { addToast } = useApp();
+    const { state: plannerState, deleteLectureNoteMeta } = usePlanner();
+    const { state: habitsState, clearHabitLogs } = useHabits();
+
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
+    const [isDeletingNotes, setIsDeletingNotes] = useState(false);
+    const [isClearingLogs, setIsClearingLogs] = useState(false);
+
+    const refresh = useCallback(() => {
+        Promise.all([getStorageEstimate(), getStorageUsage()])
+            .then(([nextEstimate, nextUsage]) => {
+                setEstimate(nextEstimate);
+                setUsage(nextUsage);
+            })
+            .catch(error => console.error('Failed to measure storage:', error));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Oldest uploads first, since those are the likeliest to be done with
+    const lectureNotes = useMemo(
+        () => [...plannerState.lectureNotesMeta].sort((a, b) => a.uploadDateISO.localeCompare(b.uploadDateISO)),
+        [plannerState.lectureNotesMeta]
+    );
+    const courseTitles = useMemo(
+        () => new Map(plannerState.courses.map(course => [course.id, course.title])),
+        [plannerState.courses]
+    );
+    const archivedHabits = habitsState.habits.filter(habit => habit.isArchived);
+    const archivedLogCount = archivedHabits.reduce(
+        (count, habit) => count + (habitsState.habitLogs.get(habit.id)?.length ?? 0),
+        0
+    );
+
+    const handleRequestPersistence = async () => {
+        const granted = await requestPersistentStorage();
+        if (granted) {
+            addToast('success', 'Kalıcı depolama etkinleştirildi');
+        } else {
+            addToast('warning', 'Tarayıcı kalıcı depolama isteğini reddetti');
+        }
+        refresh();
+    };
+
+    const toggleNote = (id: string) => {
+        setSelectedNoteIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const selectOldNotes = () => {
+        setSelectedNoteIds(
+            new Set(
+                lectureNotes
+                    .filter(note => -getDaysUntil(note.uploadDateISO) >= OLD_PDF_DAYS)
+                    .map(note => note.id)
+            )
+        );
+    };
+
+    const handleDeleteNotes = async () => {
+        const confirmed = window.confirm(
+            `${selectedNoteIds.size} PDF kalıcı olarak silinecek. Bu işlem geri alınamaz. Devam edilsin mi?`
+        );
+        if (!confirmed) return;
+
+        setIsDeletingNotes(true);
+        let deleted = 0;
+        for (const id of selectedNoteIds) {
+            try {
+                await deleteLectureNote(id);
+                deleteLectureNoteMeta(id);
+                deleted++;
+            } catch (error) {
+                console.error('Failed to delete PDF:', error);
+            }
+        }
+        setIsDeletingNotes(false);
+        setSelectedNoteIds(new Set());
+
+        if (deleted === selectedNoteIds.size) {
+            addToast('success', `${deleted} PDF silindi`);
+        } else {
+            addToast('error', `${selectedNoteIds.size - deleted} PDF silinemedi`);
+        }
+        refresh();
+    };
+
+    const handleClearArchivedLogs = async () => {
+        const confirmed = window.confirm(
+            `Arşivlenmiş ${archivedHabits.length} alışkanlığın ${archivedLogCount} kaydı silinecek. Alışkanlıklar arşivde kalır. Devam edilsin mi?`
+        );
+        if (!confirmed) return;
+
+        setIsClearingLogs(true);
+        try {
+            await clearHabitLogs(archivedHabits.map(habit => habit.id));
+            addToast('success', 'Arşivlenmiş alışkanlıkların kayıtları silindi');
+        } catch (error) {
+            console.error('Failed to clear habit logs:', error);
+            addToast('error', 'Kayıtlar silinemedi');
+        } finally {
+            setIsClearingLogs(false);
+            refresh();
+        }
+    };
+
+    const usageRatio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+    const courseRows = usage
+        ? plannerState.courses
+            .map(course => ({
+                course,
+                planner: usage.plannerByCourse[course.id] ?? 0,
+                pdfs: usage.lectureNotesByCourse[course.id] ?? 0,
+                noteCount: plannerState.lectureNotesMeta.filter(note => note.courseId === course.id).length,
+            }))
+            .sort((a, b) => b.planner + b.pdfs - (a.planner + a.pdfs))
+        : [];
+    const selectedBytes = lectureNotes
+        .filter(note => selectedNoteIds.has(note.id))
+        .reduce((sum, note) => sum + note.fileSize, 0);
+
+    return (
+        <div className="space-y-6">
+            {/* Overall usage */}
+            <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                    <HardDrive className="w-4 h-4 text-secondary" />
+                    <h3 className="text-sm font-medium text-primary">Kullanım</h3>
+                </div>
+
+                {estimate ? (
+                    <div className="p-4 rounded-lg border border-default space-y-3">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="text-primary">
+                                {formatFileSize(estimate.usage)} / {formatFileSize(estimate.quota)}
+                            </span>
+                            <span className="text-secondary">%{Math.round(usageRatio * 100)}</span>
+                        </div>
+                        <ProgressBar
+                            value={estimate.usage}
+                            max={estimate.quota || 1}
+                            color={usageRatio >= USAGE_WARNING_RATIO ? 'bg-red-500' : undefined}
+                        />
+                        {usageRatio >= USAGE_WARNING_RATIO && (
+                            <p className="flex items-center gap-2 text-sm text-red-500">
+                                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                                Depolama alanı dolmak üzere. Aşağıdan eski PDF'leri silebilirsiniz.
+                            </p>
+                        )}
+                        {estimate.persisted ? (
+                            <p className="flex items-center gap-2 text-sm text-green-500">
+                                <ShieldCheck className="w-4 h-4" />
+                                Kalıcı depolama etkin; tarayıcı verileri kendiliğinden silmez.
+                            </p>
+                        ) : (
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-xs text-tertiary">
+                                    Disk dolduğunda tarayıcı kalıcı olmayan verileri silebilir.
+                                </p>
+                                <Button size="sm" variant="secondary" onClick={handleRequestPersistence}>
+                                    Kalıcı Depolama İste
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-sm text-secondary">Tarayıcınız depolama kullanımını bildirmiyor.</p>
+                )}
+            </div>
+
+            {/* Breakdown */}
+            {usage && (
+                <div className="pt-6 border-t border-default space-y-4">
+                    <div>
+                        <h3 className="text-sm font-medium text-primary mb-1">Derslere göre</h3>
+                        <p className="text-xs text-tertiary">PDF boyutları kesin, diğerleri yaklaşıktır.</p>
+                    </div>
+                    {courseRows.length === 0 ? (
+                        <p className="text-sm text-secondary">Henüz ders yok.</p>
+                    ) : (
+                        <ul className="divide-y divide-[var(--color-border)]">
+                            {courseRows.map(({ course, planner, pdfs, noteCount }) => (
+                                <UsageRow
+                                    key={course.id}
+                                    label={course.title}
+                                    detail={`Görevler ${formatFileSize(planner)} • ${noteCount} PDF ${formatFileSize(pdfs)}`}
+                                    bytes={planner + pdfs}
+                                />
+                            ))}
+                        </ul>
+                    )}
+
+                    <h3 className="text-sm font-medium text-primary">Diğer</h3>
+                    <ul className="divide-y divide-[var(--color-border)]">
+                        <UsageRow label="Alışkanlık kayıtları" bytes={sumValues(usage.habitLogsByHabit)} />
+                        <UsageRow label="Odak oturumları" bytes={usage.focusSessions} />
+                        <UsageRow
+                            label="Kişisel görevler ve tamamlama geçmişi"
+                            bytes={usage.personalTasks + usage.completions}
+                        />
+                        <UsageRow label="Otomatik anlık görüntüler" bytes={usage.snapshots} />
+                        <UsageRow label="Geçiş öncesi kopyalar" bytes={usage.preMigrationCopies} />
+                        <UsageRow label="Senkronizasyon verisi" bytes={usage.syncState} />
+                    </ul>
+
+                    <h3 className="text-sm font-medium text-primary">localStorage anahtarları</h3>
+                    <ul className="divide-y divide-[var(--color-border)]">
+                        {[...usage.localStorageKeys]
+                            .sort((a, b) => b.bytes - a.bytes)
+                            .map(({ key, bytes }) => (
+                                <UsageRow key={key} label={key} bytes={bytes} />
+                            ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* PDF cleanup */}
+            <div className="pt-6 border-t border-default space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                    <h3 className="text-sm font-medium text-primary">Ders notları (PDF)</h3>
+                    {lectureNotes.length > 0 && (
+                        <Button size="sm" variant="ghost" onClick={selectOldNotes}>
+                            {OLD_PDF_DAYS} günden eskileri seç
+                        </Button>
+                    )}
+                </div>
+
+                {lectureNotes.length === 0 ? (
+                    <p className="text-sm text-secondary">Yüklenmiş PDF yok.</p>
+                ) : (
+                    <>
+                        <ul className="space-y-1 max-h-64 overflow-y-auto">
+                            {lectureNotes.map(note => (
+                                <li key={note.id}>
+                                    <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-secondary cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedNoteIds.has(note.id)}
+                                            onChange={() => toggleNote(note.id)}
+                                            className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm text-primary truncate">{note.name}</p>
+                                            <p className="text-xs text-tertiary truncate">
+                                                {courseTitles.get(note.courseId) ?? 'Silinmiş ders'} •{' '}
+                                                {formatDateDisplay(note.uploadDateISO)}
+                                            </p>
+                                        </div>
+                                        <span className="text-sm text-secondary flex-shrink-0">
+                                            {formatFileSize(note.fileSize)}
+                                        </span>
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                        <Button
+                            size="sm"
+                            variant="danger"
+                            leftIcon={<Trash2 className="w-4 h-4" />}
+                            onClick={handleDeleteNotes}
+                            isLoading={isDeletingNotes}
+                            disabled={selectedNoteIds.size === 0}
+                        >
+                            {selectedNoteIds.size > 0
+                                ? `Seçilenleri Sil (${selectedNoteIds.size}, ${formatFileSize(selectedBytes)})`
+                                : 'Seçilenleri Sil'}
+                        </Button>
+                    </>
+                )}
+            </div>
+
+            {/* Archived habit logs */}
+            <div className="pt-6 border-t border-default space-y-3">
+                <div>
+                    <h3 className="text-sm font-medium text-primary mb-1">Arşivlenmiş alışkanlıklar</h3>
+                    <p className="text-sm text-secondary">
+                        {archivedHabits.length === 0
+                            ? 'Arşivlenmiş alışkanlık yok.'
+                            : `${archivedHabits.length} alışkanlık, ${archivedLogCount} kayıt. Kayıtlar silinse de alışkanlıklar arşivde kalır.`}
+                    </p>
+                </div>
+                {archivedLogCount > 0 && (
+                    <Button
+                        size="sm"
+                        variant="danger"
+                        leftIcon={<Trash2 className="w-4 h-4" />}
+                        onClick={handleClearArchivedLogs}
+                        isLoading={isClearingLogs}
+                    >
+                        Kayıtlarını Sil
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
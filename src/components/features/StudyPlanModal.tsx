@@ -0,0 +1,207 @@
+import { AlertTriangle } from 'lucide-react';
+import { useState } from 'react';
+import { useApp } from '../../context/AppContext';
+import { usePlanner } from '../../context/PlannerContext';
+import { generateStudyPlan, getStudyPlanTasks, StudyPlanError, StudyPlanResult } from '../../lib/studyPlan';
+import { formatDateDisplay, getToday } from '../../lib/utils';
+import { Course, Exam } from '../../types';
+import { Button } from '../ui/Button';
+import { Input, Select } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+
+interface StudyPlanModalProps {
+    course: Course;
+    exam: Exam | null;
+    onClose: () => void;
+}
+
+const MAX_PREVIEW_DAYS = 14;
+
+/** "Plan my study": spreads the open tasks of the chosen units over the days before an exam. */
+export function StudyPlanModal({ course, exam, onClose }: StudyPlanModalProps) {
+    return (
+        <Modal isOpen={!!exam} onClose={onClose} title="Çalışma Planı" size="lg">
+            {exam && <StudyPlanForm key={exam.id} course={course} exam={exam} onClose={onClose} />}
+        </Modal>
+    );
+}
+
+function StudyPlanForm({ course, exam, onClose }: { course: Course; exam: Exam; onClose: () => void }) {
+    const { state, applyStudyPlan } = usePlanner();
+    const { addToast } = useApp();
+    const { completedTaskIds } = state.completionState;
+
+    const existing = exam.studyPlan;
+    const [unitIds, setUnitIds] = useState<string[]>(
+        () =>
+            existing?.unitIds ??
+            course.units.filter(unit => getStudyPlanTasks(course, [unit.id], completedTaskIds).length > 0).map(unit => unit.id)
+    );
+    const [hoursPerDay, setHoursPerDay] = useState(existing?.hoursPerDay ?? 2);
+    const [minutesPerTask, setMinutesPerTask] = useState(existing?.minutesPerTask ?? 45);
+    const [reviewDays, setReviewDays] = useState(existing?.reviewDays ?? 2);
+
+    let preview: StudyPlanResult | null = null;
+    let previewError: string | null = null;
+    try {
+        preview = generateStudyPlan(course, exam, { unitIds, hoursPerDay, minutesPerTask, reviewDays }, completedTaskIds, getToday());
+    } catch (error) {
+        if (!(error instanceof StudyPlanError)) throw error;
+        previewError = error.message;
+    }
+
+    const taskCount = preview ? Object.keys(preview.dueDates).length : 0;
+    const tasksByDay = new Map<string, number>();
+    Object.values(preview?.dueDates ?? {}).forEach(day => tasksByDay.set(day, (tasksByDay.get(day) ?? 0) + 1));
+
+    const toggleUnit = (unitId: string) => {
+        setUnitIds(prev => (prev.includes(unitId) ? prev.filter(id => id !== unitId) : [...prev, unitId]));
+    };
+
+    const handleApply = () => {
+        if (!preview) return;
+
+        applyStudyPlan(
+            course.id,
+            exam.id,
+            { unitIds, hoursPerDay, minutesPerTask, reviewDays, createdAt: new Date().toISOString() },
+            preview.dueDates
+        );
+        addToast('success', `${taskCount} görev ${preview.studyDays.length} güne dağıtıldı`);
+        onClose();
+    };
+
+    const handleRemove = () => {
+        applyStudyPlan(course.id, exam.id, undefined, {});
+        addToast('info', 'Çalışma planı kaldırıldı; görevlerin tarihleri korundu');
+        onClose();
+    };
+
+    return (
+        <div className="space-y-5">
+            <p className="text-sm text-secondary">
+                {exam.title} · {formatDateDisplay(exam.examDateISO)}
+            </p>
+
+            {/* Units */}
+            <div>
+                <p className="text-sm font-medium text-primary mb-2">Sınava giren üniteler</p>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {[...course.units].sort((a, b) => a.order - b.order).map(unit => {
+                        const openTasks = getStudyPlanTasks(course, [unit.id], completedTaskIds).length;
+                        return (
+                            <label key={unit.id} className="flex items-center gap-3 py-1 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={unitIds.includes(unit.id)}
+                                    onChange={() => toggleUnit(unit.id)}
+                                    className="w-4 h-4 rounded border-default text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                                />
+                                <span className="flex-1 text-sm text-primary">{unit.title}</span>
+                                <span className="text-xs text-tertiary">{openTasks} açık görev</span>
+                            </label>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Time */}
+            <div className="grid sm:grid-cols-3 gap-3">
+                <Input
+                    type="number"
+                    label="Günlük saat"
+                    min={0.5}
+                    max={16}
+                    step={0.5}
+                    value={hoursPerDay}
+                    onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!Number.isNaN(value)) setHoursPerDay(Math.min(Math.max(value, 0.5), 16));
+                    }}
+                />
+                <Input
+                    type="number"
+                    label="Görev başına dk"
+                    min={5}
+                    max={480}
+                    step={5}
+                    value={minutesPerTask}
+                    onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        if (!Number.isNaN(value)) setMinutesPerTask(Math.min(Math.max(value, 5), 480));
+                    }}
+                />
+                <Select
+                    label="Tekrar günleri"
+                    value={String(reviewDays)}
+                    onChange={(e) => setReviewDays(Number(e.target.value))}
+                    options={[0, 1, 2, 3, 5, 7].map(days => ({ value: String(days), label: `${days} gün` }))}
+                />
+            </div>
+
+            {/* Preview */}
+            {previewError ? (
+                <p className="text-sm text-secondary p-3 rounded-lg bg-secondary">{previewError}</p>
+            ) : preview && (
+                <div className="space-y-3">
+                    <p className="text-sm text-secondary">
+                        {taskCount} görev, {preview.studyDays.length} çalışma gününe dağıtılacak
+                        {preview.reviewDays.length > 0 && `; son ${preview.reviewDays.length} gün tekrara ayrıldı`}.
+                    </p>
+
+                    {preview.isOverloaded && (
+                        <div className="flex items-center gap-3 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                            <AlertTriangle className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+                            <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                                Günlük süre yetmiyor: günde {preview.tasksPerDay} görev sığıyor, plan günde{' '}
+                                {Math.ceil(taskCount / preview.studyDays.length)} görev gerektiriyor.
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="max-h-48 overflow-y-auto rounded-lg bg-secondary p-3 space-y-1">
+                        {preview.studyDays.slice(0, MAX_PREVIEW_DAYS).map(day => (
+                            <div key={day} className="flex justify-between text-sm">
+                                <span className="text-secondary">{formatDateDisplay(day)}</span>
+                                <span className="text-primary">{tasksByDay.get(day) ?? 0} görev</span>
+                            </div>
+                        ))}
+                        {preview.studyDays.length > MAX_PREVIEW_DAYS && (
+                            <p className="text-xs text-tertiary">
+                                ve {preview.studyDays.length - MAX_PREVIEW_DAYS} gün daha
+                            </p>
+                        )}
+                        {preview.reviewDays.map(day => (
+                            <div key={day} className="flex justify-between text-sm">
+                                <span className="text-secondary">{formatDateDisplay(day)}</span>
+                                <span className="text-tertiary">Tekrar</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <p className="text-xs text-tertiary">
+                        Kaçırılan görevler, sınava kalan günlere kendiliğinden yeniden dağıtılır.
+                    </p>
+                </div>
+            )}
+
+            <div className="flex justify-between gap-3">
+                <div>
+                    {existing && (
+                        <Button variant="secondary" onClick={handleRemove}>
+                            Planı Kaldır
+                        </Button>
+                    )}
+                </div>
+                <div className="flex gap-3">
+                    <Button variant="secondary" onClick={onClose}>
+                        İptal
+                    </Button>
+                    <Button onClick={handleApply} disabled={!preview}>
+                        {existing ? 'Planı Güncelle' : 'Planı Uygula'}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
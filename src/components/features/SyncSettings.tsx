@@ -0,0 +1,246 @@
+import { AlertTriangle, Cloud, FolderSync, RefreshCw, Unplug } from 'lucide-react';
+import React, { useState } from 'react';
+import { useApp } from '../../context/AppContext';
+import { FolderSyncStatus, ServerSyncStatus, useSync } from '../../context/SyncContext';
+import { SYNC_FILE_NAME } from '../../lib/folderSync';
+import { SyncServerError } from '../../lib/sync';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+const folderStatusLabels: Record<FolderSyncStatus, { label: string; className: string }> = {
+    unsupported: { label: 'Desteklenmiyor', className: 'text-tertiary' },
+    disconnected: { label: 'Bağlı değil', className: 'text-tertiary' },
+    needsPermission: { label: 'İzin gerekli', className: 'text-yellow-500' },
+    idle: { label: 'Güncel', className: 'text-green-500' },
+    syncing: { label: 'Eşitleniyor...', className: 'text-[var(--color-accent)]' },
+    error: { label: 'Hata', className: 'text-red-500' },
+};
+
+const serverStatusLabels: Record<ServerSyncStatus, { label: string; className: string }> = {
+    disconnected: { label: 'Bağlı değil', className: 'text-tertiary' },
+    offline: { label: 'Çevrimdışı', className: 'text-yellow-500' },
+    idle: { label: 'Güncel', className: 'text-green-500' },
+    syncing: { label: 'Eşitleniyor...', className: 'text-[var(--color-accent)]' },
+    error: { label: 'Hata', className: 'text-red-500' },
+};
+
+function formatSyncTime(iso: string): string {
+    return new Date(iso).toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+}
+
+function FolderSyncSection() {
+    const {
+        folderStatus,
+        folderName,
+        lastSyncedAt,
+        syncError,
+        connectFolder,
+        grantFolderPermission,
+        disconnectFolder,
+        syncFolderNow,
+    } = useSync();
+
+    if (folderStatus === 'unsupported') {
+        return (
+            <div className="flex items-start gap-3 p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
+                <AlertTriangle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+                <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                    Tarayıcınız klasör senkronizasyonunu desteklemiyor. Verilerinizi cihazlar arasında
+                    taşımak için Yedekleme sekmesindeki dışa ve içe aktarmayı kullanın.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <h3 className="text-sm font-medium text-primary mb-1">Klasör senkronizasyonu</h3>
+                <p className="text-sm text-secondary">
+                    Syncthing, Nextcloud gibi bir araçla eşitlenen bir klasör seçin. Her kayıtta
+                    klasördeki <code className="text-xs">{SYNC_FILE_NAME}</code> dosyası güncellenir; diğer
+                    cihazlardaki değişiklikler en yeni düzenleme esas alınarak birleştirilir.
+                </p>
+            </div>
+
+            <div className="p-4 rounded-lg bg-secondary space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                        <p className="font-medium text-primary truncate">{folderName ?? 'Klasör seçilmedi'}</p>
+                        {lastSyncedAt && (
+                            <p className="text-xs text-tertiary">Son eşitleme: {formatSyncTime(lastSyncedAt)}</p>
+                        )}
+                    </div>
+                    <span className={cn('text-sm flex-shrink-0', folderStatusLabels[folderStatus].className)}>
+                        {folderStatusLabels[folderStatus].label}
+                    </span>
+                </div>
+
+                {syncError && <p className="text-sm text-red-500">{syncError}</p>}
+
+                <div className="flex flex-wrap gap-2">
+                    {folderStatus === 'disconnected' ? (
+                        <Button size="sm" leftIcon={<FolderSync className="w-4 h-4" />} onClick={connectFolder}>
+                            Klasör Seç
+                        </Button>
+                    ) : (
+                        <>
+                            {folderStatus === 'needsPermission' ? (
+                                <Button size="sm" onClick={grantFolderPermission}>
+                                    Erişim İzni Ver
+                                </Button>
+                            ) : (
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    leftIcon={<RefreshCw className="w-4 h-4" />}
+                                    onClick={syncFolderNow}
+                                    isLoading={folderStatus === 'syncing'}
+                                >
+                                    Şimdi Eşitle
+                                </Button>
+                            )}
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                leftIcon={<Unplug className="w-4 h-4" />}
+                                onClick={disconnectFolder}
+                            >
+                                Bağlantıyı Kes
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <p className="text-xs text-tertiary">
+                Ayarlar ve PDF dosyaları eşitlenmez. Tarayıcı, klasör erişimini her oturumda yeniden sorabilir.
+            </p>
+        </div>
+    );
+}
+
+function ServerSyncSection() {
+    const { addToast } = useApp();
+    const {
+        serverStatus,
+        serverUrl,
+        pendingChanges,
+        lastServerSyncAt,
+        serverError,
+        connectServer,
+        disconnectServer,
+        syncServerNow,
+    } = useSync();
+
+    const [url, setUrl] = useState('');
+    const [token, setToken] = useState('');
+    const [isConnecting, setIsConnecting] = useState(false);
+
+    const handleConnect = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setIsConnecting(true);
+        try {
+            await connectServer({ url: url.trim(), token: token.trim() || undefined });
+            addToast('success', 'Sunucuya bağlanıldı');
+            setToken('');
+        } catch (error) {
+            console.error('Server connect failed:', error);
+            addToast('error', error instanceof SyncServerError ? error.message : 'Geçersiz sunucu adresi');
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <h3 className="text-sm font-medium text-primary mb-1">Sunucu senkronizasyonu</h3>
+                <p className="text-sm text-secondary">
+                    Kendi barındırdığınız bir PlanEx eşitleme sunucusuna bağlanın. Çevrimdışıyken yapılan
+                    değişiklikler sıraya alınır ve bağlantı geri geldiğinde gönderilir.
+                </p>
+            </div>
+
+            {serverUrl ? (
+                <div className="p-4 rounded-lg bg-secondary space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                            <p className="font-medium text-primary truncate">{serverUrl}</p>
+                            <p className="text-xs text-tertiary">
+                                {pendingChanges > 0 ? `${pendingChanges} değişiklik bekliyor` : 'Bekleyen değişiklik yok'}
+                                {lastServerSyncAt && ` • Son eşitleme: ${formatSyncTime(lastServerSyncAt)}`}
+                            </p>
+                        </div>
+                        <span className={cn('text-sm flex-shrink-0', serverStatusLabels[serverStatus].className)}>
+                            {serverStatusLabels[serverStatus].label}
+                        </span>
+                    </div>
+
+                    {serverError && <p className="text-sm text-red-500">{serverError}</p>}
+
+                    <div className="flex flex-wrap gap-2">
+                        <Button
+                            size="sm"
+                            variant="secondary"
+                            leftIcon={<RefreshCw className="w-4 h-4" />}
+                            onClick={syncServerNow}
+                            isLoading={serverStatus === 'syncing'}
+                            disabled={serverStatus === 'offline'}
+                        >
+                            Şimdi Eşitle
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            leftIcon={<Unplug className="w-4 h-4" />}
+                            onClick={disconnectServer}
+                        >
+                            Bağlantıyı Kes
+                        </Button>
+                    </div>
+                </div>
+            ) : (
+                <form onSubmit={handleConnect} className="p-4 rounded-lg bg-secondary space-y-3">
+                    <Input
+                        label="Sunucu adresi"
+                        placeholder="http://localhost:8787"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        type="url"
+                        required
+                    />
+                    <Input
+                        label="Erişim anahtarı (isteğe bağlı)"
+                        value={token}
+                        onChange={(e) => setToken(e.target.value)}
+                        type="password"
+                        autoComplete="off"
+                    />
+                    <Button
+                        type="submit"
+                        size="sm"
+                        leftIcon={<Cloud className="w-4 h-4" />}
+                        isLoading={isConnecting}
+                        disabled={!url.trim()}
+                    >
+                        Bağlan
+                    </Button>
+                </form>
+            )}
+        </div>
+    );
+}
+
+export function SyncSettings() {
+    return (
+        <div className="space-y-6">
+            <FolderSyncSection />
+            <div className="pt-6 border-t border-default">
+                <ServerSyncSection />
+            </div>
+        </div>
+    );
+}
@@ -3,6 +3,7 @@ import {
     BookOpen,
     Calendar,
     LayoutDashboard,
+    ListTodo,
     Menu,
     Moon,
     Search,
@@ -10,12 +11,15 @@ import {
     Sun,
     Target,
     Timer,
+    Trash2,
     X
 } from 'lucide-react';
 import { useState } from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { useApp } from '../../context/AppContext';
-import { cn } from '../../lib/utils';
+import { usePomodoro } from '../../context/PomodoroContext';
+import { cn, formatDuration } from '../../lib/utils';
+import { POMODORO_MODE_COLORS, POMODORO_MODE_LABELS } from '../../types';
 
 interface NavItem {
     path: string;
@@ -27,6 +31,8 @@ const navItems: NavItem[] = [
     { path: '/', label: 'Genel Bakış', icon: <LayoutDashboard className="w-5 h-5" /> },
     { path: '/courses', label: 'Dersler', icon: <BookOpen className="w-5 h-5" /> },
     { path: '/calendar', label: 'Takvim', icon: <Calendar className="w-5 h-5" /> },
+    { path: '/productivity', label: 'Üretkenlik', icon: <Timer className="w-5 h-5" /> },
+    { path: '/personal', label: 'Kişisel Görevler', icon: <ListTodo className="w-5 h-5" /> },
     { path: '/habits', label: 'Alışkanlıklar', icon: <Target className="w-5 h-5" /> },
 ];
 
@@ -38,6 +44,7 @@ interface TopBarProps {
 export function TopBar({ onPomodoroToggle, isPomodoroOpen }: TopBarProps) {
     const location = useLocation();
     const { isDarkMode, toggleTheme, setIsSearchOpen, setIsSettingsOpen } = useApp();
+    const pomodoro = usePomodoro();
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
     const renderNavItem = (item: NavItem, mobile = false) => (
@@ -98,20 +105,53 @@ export function TopBar({ onPomodoroToggle, isPomodoroOpen }: TopBarProps) {
                                 <span className="hidden lg:inline text-sm">Ara...</span>
                             </button>
 
-                            {/* Pomodoro Toggle */}
+                            {/* Pomodoro Toggle - shows the remaining time during a session */}
                             <button
                                 onClick={onPomodoroToggle}
                                 className={cn(
-                                    'p-2 rounded-lg transition-colors',
+                                    'flex items-center gap-2 p-2 rounded-lg transition-colors',
                                     isPomodoroOpen
                                         ? 'bg-[var(--color-accent-light)] text-[var(--color-accent)]'
                                         : 'text-secondary hover:bg-secondary hover:text-primary'
                                 )}
-                                title="Pomodoro Zamanlayıcı (Ctrl+P)"
+                                title={
+                                    pomodoro.isActive
+                                        ? `${POMODORO_MODE_LABELS[pomodoro.mode]}${pomodoro.isRunning ? '' : ' (duraklatıldı)'} (Ctrl+P)`
+                                        : 'Pomodoro Zamanlayıcı (Ctrl+P)'
+                                }
                             >
-                                <Timer className="w-5 h-5" />
+                                <Timer
+                                    className="w-5 h-5"
+                                    style={pomodoro.isActive ? { color: POMODORO_MODE_COLORS[pomodoro.mode] } : undefined}
+                                />
+                                {pomodoro.isActive && (
+                                    <span
+                                        className={cn(
+                                            'text-sm font-mono font-medium',
+                                            pomodoro.isRunning ? 'text-primary' : 'text-tertiary'
+                                        )}
+                                    >
+                                        {formatDuration(pomodoro.timeLeft)}
+                                    </span>
+                                )}
                             </button>
 
+                            {/* Trash */}
+                            <NavLink
+                                to="/trash"
+                                className={({ isActive }) =>
+                                    cn(
+                                        'p-2 rounded-lg transition-colors',
+                                        isActive
+                                            ? 'bg-[var(--color-accent-light)] text-[var(--color-accent)]'
+                                            : 'text-secondary hover:bg-secondary hover:text-primary'
+                                    )
+                                }
+                                title="Çöp Kutusu"
+                            >
+                                <Trash2 className="w-5 h-5" />
+                            </NavLink>
+
                             {/* Theme Toggle */}
                             <button
                                 onClick={toggleTheme}
@@ -41,6 +41,17 @@ export function ToastContainer() {
                                 <Icon className="w-4 h-4 text-white" />
                             </div>
                             <p className="flex-1 text-sm text-primary">{toast.message}</p>
+                            {toast.action && (
+                                <button
+                                    onClick={() => {
+                                        toast.action!.onClick();
+                                        removeToast(toast.id);
+                                    }}
+                                    className="px-2 py-1 text-sm font-medium text-[var(--color-accent)] rounded hover:bg-secondary transition-colors"
+                                >
+                                    {toast.action.label}
+                                </button>
+                            )}
                             <button
                                 onClick={() => removeToast(toast.id)}
                                 className="p-1 rounded-full hover:bg-secondary transition-colors"
@@ -0,0 +1,132 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AmbientSoundEngine } from '../lib/ambientSound';
+import { generateId } from '../lib/utils';
+import { AmbientPreset, AmbientSettings, AmbientSound, AmbientVolumes, LIMITS } from '../types';
+import { useApp } from './AppContext';
+import { usePomodoro } from './PomodoroContext';
+
+// ================== CONTEXT ==================
+
+interface AmbientSoundContextValue {
+    isPlaying: boolean;
+    volumes: AmbientVolumes;
+    presets: AmbientPreset[];
+    autoPlay: boolean;
+    toggle: () => void;
+    setVolume: (sound: AmbientSound, volume: number) => void;
+    setAutoPlay: (autoPlay: boolean) => void;
+    savePreset: (name: string) => void;
+    applyPreset: (presetId: string) => void;
+    deletePreset: (presetId: string) => void;
+}
+
+const AmbientSoundContext = createContext<AmbientSoundContextValue | null>(null);
+
+// ================== PROVIDER ==================
+
+export function AmbientSoundProvider({ children }: { children: React.ReactNode }) {
+    const { settings, updateSettings } = useApp();
+    const { mode, isRunning } = usePomodoro();
+    const [manualPlaying, setManualPlaying] = useState(false);
+
+    const engineRef = useRef<AmbientSoundEngine | null>(null);
+
+    const { ambient } = settings;
+    // With auto-play the timer decides: sound during running work intervals only
+    const isPlaying = ambient.autoPlay ? isRunning && mode === 'work' : manualPlaying;
+
+    useEffect(() => {
+        return () => {
+            engineRef.current?.dispose();
+            engineRef.current = null;
+        };
+    }, []);
+
+    // Created lazily; it only opens the audio device on the first start
+    useEffect(() => {
+        engineRef.current ??= new AmbientSoundEngine();
+        engineRef.current.setVolumes(ambient.volumes);
+    }, [ambient.volumes]);
+
+    useEffect(() => {
+        if (isPlaying) {
+            engineRef.current?.start();
+        } else {
+            engineRef.current?.stop();
+        }
+    }, [isPlaying]);
+
+    const updateAmbient = useCallback((updates: Partial<AmbientSettings>) => {
+        updateSettings({ ambient: { ...ambient, ...updates } });
+    }, [ambient, updateSettings]);
+
+    // Taking over by hand turns auto-play off
+    const toggle = useCallback(() => {
+        if (ambient.autoPlay) updateAmbient({ autoPlay: false });
+        setManualPlaying(!isPlaying);
+    }, [ambient.autoPlay, isPlaying, updateAmbient]);
+
+    const setVolume = useCallback((sound: AmbientSound, volume: number) => {
+        updateAmbient({ volumes: { ...ambient.volumes, [sound]: Math.min(Math.max(volume, 0), 1) } });
+    }, [ambient.volumes, updateAmbient]);
+
+    const setAutoPlay = useCallback((autoPlay: boolean) => {
+        // Keep whatever is audible right now when leaving auto-play
+        if (!autoPlay) setManualPlaying(isPlaying);
+        updateAmbient({ autoPlay });
+    }, [isPlaying, updateAmbient]);
+
+    const savePreset = useCallback((name: string) => {
+        const trimmed = name.trim().slice(0, 40);
+        if (!trimmed || ambient.presets.length >= LIMITS.MAX_AMBIENT_PRESETS) return;
+        updateAmbient({ presets: [...ambient.presets, { id: generateId(), name: trimmed, volumes: ambient.volumes }] });
+    }, [ambient.presets, ambient.volumes, updateAmbient]);
+
+    const applyPreset = useCallback((presetId: string) => {
+        const preset = ambient.presets.find(p => p.id === presetId);
+        if (preset) updateAmbient({ volumes: preset.volumes });
+    }, [ambient.presets, updateAmbient]);
+
+    const deletePreset = useCallback((presetId: string) => {
+        updateAmbient({ presets: ambient.presets.filter(p => p.id !== presetId) });
+    }, [ambient.presets, updateAmbient]);
+
+    const value = useMemo<AmbientSoundContextValue>(
+        () => ({
+            isPlaying,
+            volumes: ambient.volumes,
+            presets: ambient.presets,
+            autoPlay: ambient.autoPlay,
+            toggle,
+            setVolume,
+            setAutoPlay,
+            savePreset,
+            applyPreset,
+            deletePreset,
+        }),
+        [
+            isPlaying,
+            ambient.volumes,
+            ambient.presets,
+            ambient.autoPlay,
+            toggle,
+            setVolume,
+            setAutoPlay,
+            savePreset,
+            applyPreset,
+            deletePreset,
+        ]
+    );
+
+    return <AmbientSoundContext.Provider value={value}>{children}</AmbientSoundContext.Provider>;
+}
+
+// ================== HOOK ==================
+
+export function useAmbientSound(): AmbientSoundContextValue {
+    const context = useContext(AmbientSoundContext);
+    if (!context) {
+        throw new Error('useAmbientSound must be used within an AmbientSoundProvider');
+    }
+    return context;
+}
@@ -1,7 +1,9 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
-import { getSettings, saveSettings } from '../lib/storage';
+import { takeDailySnapshot } from '../lib/backup';
+import { subscribeToCrossTabChanges } from '../lib/crossTab';
+import { getSettings, markKeysLoaded, saveSettings, STORAGE_QUOTA_EXCEEDED_EVENT } from '../lib/storage';
 import { generateId } from '../lib/utils';
-import { AppSettings, DEFAULT_APP_SETTINGS, Toast } from '../types';
+import { AppSettings, DEFAULT_APP_SETTINGS, Toast, ToastAction } from '../types';
 
 // ================== CONTEXT ==================
 
@@ -16,7 +18,7 @@ interface AppContextValue {
 
     // Toasts
     toasts: Toast[];
-    addToast: (type: Toast['type'], message: string, duration?: number) => void;
+    addToast: (type: Toast['type'], message: string, duration?: number, action?: ToastAction) => void;
     removeToast: (id: string) => void;
 
     // Modals
@@ -43,6 +45,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     // Load settings on mount
     useEffect(() => {
         const loadedSettings = getSettings();
+        markKeysLoaded('SETTINGS');
         setSettings(loadedSettings);
 
         // Check backup warning
@@ -59,6 +62,25 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         }
     }, []);
 
+    // Pick up settings changed in another tab
+    useEffect(() => {
+        return subscribeToCrossTabChanges(['SETTINGS'], () => {
+            setSettings(getSettings());
+            markKeysLoaded('SETTINGS');
+        });
+    }, []);
+
+    // Automatic daily snapshot; re-checked hourly for sessions left open overnight
+    useEffect(() => {
+        const snapshot = () => {
+            takeDailySnapshot().catch(error => console.error('Snapshot failed:', error));
+        };
+
+        snapshot();
+        const interval = setInterval(snapshot, 60 * 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
     // Apply theme
     useEffect(() => {
         const applyTheme = () => {
@@ -109,12 +131,13 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }, [isDarkMode, updateSettings]);
 
     // Toasts
-    const addToast = useCallback((type: Toast['type'], message: string, duration: number = 4000) => {
+    const addToast = useCallback((type: Toast['type'], message: string, duration: number = 4000, action?: ToastAction) => {
         const toast: Toast = {
             id: generateId(),
             type,
             message,
             duration,
+            action,
         };
 
         setToasts(prev => [...prev, toast]);
@@ -130,6 +153,24 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         setToasts(prev => prev.filter(t => t.id !== id));
     }, []);
 
+    // Background saves that ran out of space; every retry fails the same
+    // way, so the warning is shown at most once a minute
+    useEffect(() => {
+        let lastWarnedAt = 0;
+        const handleQuotaExceeded = () => {
+            if (Date.now() - lastWarnedAt < 60 * 1000) return;
+            lastWarnedAt = Date.now();
+            addToast(
+                'error',
+                'Depolama alanı dolu, son değişiklikler kaydedilemedi. Yer açmak için eski PDF notlarını silin.',
+                8000
+            );
+        };
+
+        window.addEventListener(STORAGE_QUOTA_EXCEEDED_EVENT, handleQuotaExceeded);
+        return () => window.removeEventListener(STORAGE_QUOTA_EXCEEDED_EVENT, handleQuotaExceeded);
+    }, [addToast]);
+
     // Keyboard shortcuts
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
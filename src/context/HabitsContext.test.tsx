@@ -0,0 +1,97 @@
+// @vitest-environment happy-dom
+import { IDBFactory } from 'fake-indexeddb';
+import { act, useEffect } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getHabitLog } from '../lib/storage';
+import { AppProvider } from './AppContext';
+import { HabitsProvider, useHabits } from './HabitsContext';
+
+declare global {
+    var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+let habits: ReturnType<typeof useHabits>;
+let root: Root;
+
+// Hands the context out after every render
+function Probe({ onRender }: { onRender: (context: ReturnType<typeof useHabits>) => void }) {
+    const context = useHabits();
+    useEffect(() => {
+        onRender(context);
+    });
+    return null;
+}
+
+async function flush() {
+    await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+    });
+}
+
+beforeEach(async () => {
+    globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+
+    root = createRoot(document.createElement('div'));
+    await act(async () => {
+        root.render(
+            <AppProvider>
+                <HabitsProvider>
+                    <Probe onRender={context => { habits = context; }} />
+                </HabitsProvider>
+            </AppProvider>
+        );
+    });
+    while (habits.state.isLoading) await flush();
+});
+
+afterEach(() => {
+    act(() => root.unmount());
+});
+
+describe('skipHabit', () => {
+    const day = '2026-01-05';
+
+    it('keeps the check-ins of a numeric habit and brings them back when the skip is taken back', async () => {
+        await act(async () =>
+            habits.addHabit({
+                title: 'Su iç',
+                type: 'numeric',
+                target: 8,
+                unit: 'bardak',
+                frequency: { type: 'specificDays', days: [0, 1, 2, 3, 4, 5, 6] },
+            })
+        );
+        const habitId = habits.state.habits[0].id;
+
+        await act(async () => habits.addHabitEntry(habitId, day, 2));
+        await act(async () => habits.addHabitEntry(habitId, day, 3));
+
+        await act(async () => habits.skipHabit(habitId, day, true));
+        const skipped = habits.getHabitLogs(habitId).find(log => log.dateISO === day);
+        expect(skipped).toMatchObject({ skipped: true, value: 5 });
+        expect(skipped?.entries?.map(entry => entry.amount)).toEqual([2, 3]);
+        expect(await getHabitLog(habitId, day)).toMatchObject({ skipped: true, value: 5 });
+
+        await act(async () => habits.skipHabit(habitId, day, false));
+        const restored = habits.getHabitLogs(habitId).find(log => log.dateISO === day);
+        expect(restored?.skipped).toBeUndefined();
+        expect(restored).toMatchObject({ value: 5 });
+        expect(restored?.entries).toHaveLength(2);
+    });
+
+    it('skips a day without a log', async () => {
+        await act(async () =>
+            habits.addHabit({ title: 'Kitap oku', type: 'boolean', frequency: { type: 'weeklyTarget', timesPerWeek: 3 } })
+        );
+        const habitId = habits.state.habits[0].id;
+
+        await act(async () => habits.skipHabit(habitId, day, true));
+
+        expect(habits.getHabitLogs(habitId)).toEqual([
+            expect.objectContaining({ habitId, dateISO: day, skipped: true }),
+        ]);
+    });
+});
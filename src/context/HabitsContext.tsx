@@ -1,35 +1,65 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer } from 'react';
+import { subscribeToCrossTabChanges } from '../lib/crossTab';
+import {
+    applyHabitsChanges,
+    diffHabitsData,
+    HistorySide,
+    isEmptyChangeSet,
+    moveToFuture,
+    moveToPast,
+    RecordedAction,
+    recordHistory,
+} from '../lib/history';
+import { calculateHabitStreak, StreakUnit } from '../lib/streaks';
 import {
     deleteHabitLogsByHabitId,
     getAllHabitLogs,
     getHabits,
+    getHistory,
+    markKeysLoaded,
+    notifyDataSaved,
+    replaceAllHabitLogs,
     saveHabitLog,
-    saveHabits
+    saveHabits,
+    saveHistory,
+    updateHabitLog,
+    updateHabitLogs
 } from '../lib/storage';
 import {
     calculateHabitScore,
-    calculateHabitStreak,
     debounce,
     generateId,
+    getHabitLogEntries,
     getToday,
     getWeeklyProgress,
     isHabitCompleted,
     isHabitDueOnDate,
+    isHabitKeptOn,
+    isHabitPausedOn,
+    isNegativeHabit,
+    sumHabitLogEntries,
 } from '../lib/utils';
 import {
     FrequencyRule,
     Habit,
     HABIT_COLORS,
     HabitLog,
+    HabitLogEntry,
+    HabitPauseSettings,
+    HabitsHistory,
+    HabitsHistorySchema,
     HabitType,
-    LIMITS
+    LIMITS,
+    VacationRange
 } from '../types';
+import { useApp } from './AppContext';
 
 // ================== STATE ==================
 
 interface HabitsState {
     habits: Habit[];
     habitLogs: Map<string, HabitLog[]>; // habitId -> logs
+    history: HabitsHistory;
     isLoading: boolean;
     error: string | null;
 }
@@ -37,6 +67,7 @@ interface HabitsState {
 const initialState: HabitsState = {
     habits: [],
     habitLogs: new Map(),
+    history: { past: [], future: [] },
     isLoading: true,
     error: null,
 };
@@ -44,17 +75,22 @@ const initialState: HabitsState = {
 // ================== ACTIONS ==================
 
 type HabitsAction =
-    | { type: 'LOAD_DATA'; payload: { habits: Habit[]; habitLogs: Map<string, HabitLog[]> } }
+    | { type: 'LOAD_DATA'; payload: { habits: Habit[]; habitLogs: Map<string, HabitLog[]>; history: HabitsHistory } }
     | { type: 'SET_LOADING'; payload: boolean }
     | { type: 'SET_ERROR'; payload: string | null }
     | { type: 'ADD_HABIT'; payload: Habit }
     | { type: 'UPDATE_HABIT'; payload: { id: string; updates: Partial<Habit> } }
     | { type: 'DELETE_HABIT'; payload: string }
+    | { type: 'RESTORE_HABIT'; payload: string }
+    | { type: 'PURGE_HABITS'; payload: string[] }
     | { type: 'ARCHIVE_HABIT'; payload: string }
     | { type: 'UNARCHIVE_HABIT'; payload: string }
+    | { type: 'CLEAR_HABIT_LOGS'; payload: string[] }
     | { type: 'LOG_HABIT'; payload: HabitLog }
     | { type: 'REORDER_HABITS'; payload: Habit[] }
-    | { type: 'IMPORT_HABITS'; payload: { habits: Habit[]; logs: HabitLog[] } };
+    | { type: 'IMPORT_HABITS'; payload: { habits: Habit[]; logs?: HabitLog[] } }
+    | { type: 'UNDO' }
+    | { type: 'REDO' };
 
 // ================== REDUCER ==================
 
@@ -82,12 +118,33 @@ function habitsReducer(state: HabitsState, action: HabitsAction): HabitsState {
                 ),
             };
 
-        case 'DELETE_HABIT': {
+        // Logs are kept until the habit is purged from the trash
+        case 'DELETE_HABIT':
+            return {
+                ...state,
+                habits: state.habits.map(h =>
+                    h.id === action.payload
+                        ? { ...h, deletedAt: new Date().toISOString(), updatedAt: new Date().toISOString() }
+                        : h
+                ),
+            };
+
+        case 'RESTORE_HABIT':
+            return {
+                ...state,
+                habits: state.habits.map(h =>
+                    h.id === action.payload
+                        ? { ...h, deletedAt: undefined, updatedAt: new Date().toISOString() }
+                        : h
+                ),
+            };
+
+        case 'PURGE_HABITS': {
             const newLogs = new Map(state.habitLogs);
-            newLogs.delete(action.payload);
+            action.payload.forEach(habitId => newLogs.delete(habitId));
             return {
                 ...state,
-                habits: state.habits.filter(h => h.id !== action.payload),
+                habits: state.habits.filter(h => !action.payload.includes(h.id)),
                 habitLogs: newLogs,
             };
         }
@@ -112,6 +169,12 @@ function habitsReducer(state: HabitsState, action: HabitsAction): HabitsState {
                 ),
             };
 
+        case 'CLEAR_HABIT_LOGS': {
+            const newLogs = new Map(state.habitLogs);
+            action.payload.forEach(habitId => newLogs.delete(habitId));
+            return { ...state, habitLogs: newLogs };
+        }
+
         case 'LOG_HABIT': {
             const { habitId, dateISO } = action.payload;
             const existingLogs = state.habitLogs.get(habitId) || [];
@@ -121,10 +184,16 @@ function habitsReducer(state: HabitsState, action: HabitsAction): HabitsState {
             return { ...state, habitLogs: newLogs };
         }
 
+        // Habits in the trash are not on screen, so they are kept after the reordered ones
         case 'REORDER_HABITS':
-            return { ...state, habits: action.payload };
+            return { ...state, habits: [...action.payload, ...state.habits.filter(h => h.deletedAt)] };
 
         case 'IMPORT_HABITS': {
+            // Backups without logs (1.x files) keep the current logs
+            if (!action.payload.logs) {
+                return { ...state, habits: action.payload.habits, history: { past: [], future: [] } };
+            }
+
             const newLogs = new Map<string, HabitLog[]>();
             action.payload.logs.forEach(log => {
                 const existing = newLogs.get(log.habitId) || [];
@@ -134,6 +203,7 @@ function habitsReducer(state: HabitsState, action: HabitsAction): HabitsState {
                 ...state,
                 habits: action.payload.habits,
                 habitLogs: newLogs,
+                history: { past: [], future: [] },
             };
         }
 
@@ -142,22 +212,91 @@ function habitsReducer(state: HabitsState, action: HabitsAction): HabitsState {
     }
 }
 
+// ================== HISTORY ==================
+
+// Actions that can be undone, with the label shown in undo toasts. Clearing
+// logs to free storage and purging the trash are meant to be permanent, so
+// they are left out.
+const HISTORY_LABELS: Partial<Record<HabitsAction['type'], string>> = {
+    ADD_HABIT: 'Alışkanlık ekleme',
+    UPDATE_HABIT: 'Alışkanlık düzenleme',
+    DELETE_HABIT: 'Alışkanlık silme',
+    RESTORE_HABIT: 'Çöp kutusundan geri yükleme',
+    ARCHIVE_HABIT: 'Alışkanlık arşivleme',
+    UNARCHIVE_HABIT: 'Alışkanlığı arşivden çıkarma',
+    LOG_HABIT: 'Alışkanlık kaydı',
+    REORDER_HABITS: 'Alışkanlık sıralama',
+};
+
+function habitsHistoryReducer(state: HabitsState, action: RecordedAction<HabitsAction>): HabitsState {
+    if (action.type === 'UNDO' || action.type === 'REDO') {
+        const isUndo = action.type === 'UNDO';
+        const stack = isUndo ? state.history.past : state.history.future;
+        const entry = stack[stack.length - 1];
+        if (!entry) return state;
+
+        return {
+            ...state,
+            ...applyHabitsChanges(state, entry.changes, isUndo ? 'before' : 'after'),
+            history: isUndo ? moveToFuture(state.history) : moveToPast(state.history),
+        };
+    }
+
+    const next = habitsReducer(state, action);
+    const label = HISTORY_LABELS[action.type];
+    if (!label || next === state) return next;
+
+    const changes = diffHabitsData(state, next);
+    if (isEmptyChangeSet(changes)) return next;
+    return { ...next, history: recordHistory(next.history, label, changes, action.historyId) };
+}
+
+// Logs live in IndexedDB and are written before the state changes, so
+// undo and redo write them out first as well
+async function persistHabitLogChanges(history: HabitsHistory, side: HistorySide): Promise<void> {
+    const stack = side === 'before' ? history.past : history.future;
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
+
+    const put: HabitLog[] = [];
+    const remove: HabitLog[] = [];
+    entry.changes.habitLogs.forEach(change => {
+        const value = change[side];
+        if (value) {
+            put.push(value);
+        } else {
+            remove.push((change.before ?? change.after)!);
+        }
+    });
+    await updateHabitLogs(put, remove);
+}
+
 // ================== CONTEXT ==================
 
 interface HabitWithStats {
     habit: Habit;
     isDueToday: boolean;
     isCompletedToday: boolean;
+    isPausedToday: boolean; // skipped or on vacation
     currentStreak: number;
     bestStreak: number;
     longestStreak: number;
+    streakUnit: StreakUnit;
+    freezesLeft: number;
+    frozenDates: string[];
     totalCompletions: number;
+    totalSlips: number; // quit and limit habits: days with a slip or over the limit
+    todayValue: number;
+    todayEntries: HabitLogEntry[];
     score: number;
     weeklyProgress: { completed: number; target: number };
 }
 
 interface HabitsContextValue {
+    // Habits in the trash and their logs are left out
     state: HabitsState;
+    // Everything that is stored, trash included; for sync and backups
+    storedState: HabitsState;
     // CRUD
     addHabit: (habitData: {
         title: string;
@@ -165,16 +304,33 @@ interface HabitsContextValue {
         emoji?: string;
         type: HabitType;
         frequency: FrequencyRule;
+        startISO?: string;
+        endISO?: string;
         target?: number;
         unit?: string;
         color?: string;
     }) => void;
-    updateHabit: (id: string, updates: Partial<Habit>) => void;
-    deleteHabit: (id: string) => Promise<void>;
+    // Return the id of the history entry they record, for undo toasts
+    updateHabit: (id: string, updates: Partial<Habit>) => string;
+    deleteHabit: (id: string) => string;
     archiveHabit: (id: string) => void;
     unarchiveHabit: (id: string) => void;
+    clearHabitLogs: (habitIds: string[]) => Promise<void>;
+    // Trash
+    restoreHabit: (id: string) => void;
+    purgeHabits: (habitIds: string[]) => Promise<void>;
     // Logging
     logHabit: (habitId: string, dateISO: string, done?: boolean, value?: number) => Promise<void>;
+    skipHabit: (habitId: string, dateISO: string, skipped: boolean) => Promise<void>;
+    // Check-ins of numeric and limit habits; the day's value is their sum
+    addHabitEntry: (habitId: string, dateISO: string, amount: number) => Promise<void>;
+    removeHabitEntry: (habitId: string, dateISO: string, entryId: string) => Promise<void>;
+    // Vacations pause every habit; kept in the settings
+    vacations: VacationRange[];
+    addVacation: (startISO: string, endISO: string, note?: string) => void;
+    removeVacation: (id: string) => void;
+    freezeTokens: boolean;
+    setFreezeTokens: (enabled: boolean) => void;
     // Reorder
     reorderHabits: (habits: Habit[]) => void;
     // Computed
@@ -183,7 +339,10 @@ interface HabitsContextValue {
     getArchivedHabits: () => Habit[];
     getHabitLogs: (habitId: string) => HabitLog[];
     // Import
-    importHabits: (habits: Habit[], logs: HabitLog[]) => void;
+    importHabits: (habits: Habit[], logs?: HabitLog[]) => Promise<void>;
+    // History
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
 }
 
 const HabitsContext = createContext<HabitsContextValue | null>(null);
@@ -191,14 +350,28 @@ const HabitsContext = createContext<HabitsContextValue | null>(null);
 // ================== PROVIDER ==================
 
 export function HabitsProvider({ children }: { children: React.ReactNode }) {
-    const [state, dispatch] = useReducer(habitsReducer, initialState);
-
-    // Load data on mount
+    const { settings, updateSettings } = useApp();
+    const { habitPause } = settings;
+    const [storedState, dispatch] = useReducer(habitsHistoryReducer, initialState);
+    const state = useMemo<HabitsState>(() => {
+        const deletedIds = storedState.habits.filter(h => h.deletedAt).map(h => h.id);
+        if (deletedIds.length === 0) return storedState;
+
+        const habitLogs = new Map(storedState.habitLogs);
+        deletedIds.forEach(habitId => habitLogs.delete(habitId));
+        return { ...storedState, habits: storedState.habits.filter(h => !h.deletedAt), habitLogs };
+    }, [storedState]);
+
+    // Load data on mount, and again whenever another tab saved habits or logs
     useEffect(() => {
         async function loadData() {
             try {
                 const habits = getHabits();
-                const allLogs = await getAllHabitLogs();
+                markKeysLoaded('HABITS');
+                const [allLogs, history] = await Promise.all([
+                    getAllHabitLogs(),
+                    getHistory('habits', HabitsHistorySchema),
+                ]);
 
                 const habitLogs = new Map<string, HabitLog[]>();
                 allLogs.forEach(log => {
@@ -206,7 +379,10 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
                     habitLogs.set(log.habitId, [...existing, log]);
                 });
 
-                dispatch({ type: 'LOAD_DATA', payload: { habits, habitLogs } });
+                dispatch({
+                    type: 'LOAD_DATA',
+                    payload: { habits, habitLogs, history: history ?? { past: [], future: [] } },
+                });
             } catch (error) {
                 console.error('Failed to load habits data:', error);
                 dispatch({ type: 'SET_ERROR', payload: 'Alışkanlık verileri yüklenemedi.' });
@@ -214,19 +390,34 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
         }
 
         loadData();
+        return subscribeToCrossTabChanges(['HABITS', 'HABIT_LOGS'], loadData);
     }, []);
 
     // Auto-save habits with debounce
     const debouncedSaveHabits = useMemo(
-        () => debounce(() => saveHabits(state.habits), 500),
-        [state.habits]
+        () =>
+            debounce(() => {
+                saveHabits(storedState.habits);
+                notifyDataSaved();
+            }, 500),
+        [storedState.habits]
     );
 
+    // Logs are written on their own; log changes re-run the save so sync hears about them
     useEffect(() => {
-        if (!state.isLoading) {
+        if (!storedState.isLoading) {
             debouncedSaveHabits();
         }
-    }, [state.habits, state.isLoading, debouncedSaveHabits]);
+    }, [storedState.habits, storedState.habitLogs, storedState.isLoading, debouncedSaveHabits]);
+
+    useEffect(() => {
+        if (storedState.isLoading) return;
+
+        const timeout = setTimeout(() => {
+            saveHistory('habits', storedState.history).catch(error => console.error('Failed to save history:', error));
+        }, 500);
+        return () => clearTimeout(timeout);
+    }, [storedState.isLoading, storedState.history]);
 
     // Actions
     const addHabit = useCallback(
@@ -236,6 +427,8 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
             emoji?: string;
             type: HabitType;
             frequency: FrequencyRule;
+            startISO?: string;
+            endISO?: string;
             target?: number;
             unit?: string;
             color?: string;
@@ -256,6 +449,8 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
                 unit: habitData.unit,
                 color: habitData.color || HABIT_COLORS[colorIndex],
                 frequency: habitData.frequency,
+                startISO: habitData.startISO,
+                endISO: habitData.endISO,
                 sortMode: 'manual',
                 manualOrder: state.habits.length,
                 isArchived: false,
@@ -269,15 +464,31 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
     );
 
     const updateHabit = useCallback((id: string, updates: Partial<Habit>) => {
-        dispatch({ type: 'UPDATE_HABIT', payload: { id, updates } });
+        const historyId = generateId();
+        dispatch({ type: 'UPDATE_HABIT', payload: { id, updates }, historyId });
+        return historyId;
+    }, []);
+
+    const deleteHabit = useCallback((id: string) => {
+        const historyId = generateId();
+        dispatch({ type: 'DELETE_HABIT', payload: id, historyId });
+        return historyId;
+    }, []);
+
+    const restoreHabit = useCallback((id: string) => {
+        dispatch({ type: 'RESTORE_HABIT', payload: id });
     }, []);
 
-    const deleteHabit = useCallback(async (id: string) => {
+    const purgeHabits = useCallback(async (habitIds: string[]) => {
+        if (habitIds.length === 0) return;
+
         try {
-            await deleteHabitLogsByHabitId(id);
-            dispatch({ type: 'DELETE_HABIT', payload: id });
+            for (const habitId of habitIds) {
+                await deleteHabitLogsByHabitId(habitId);
+            }
+            dispatch({ type: 'PURGE_HABITS', payload: habitIds });
         } catch (error) {
-            console.error('Failed to delete habit:', error);
+            console.error('Failed to purge habits:', error);
             dispatch({ type: 'SET_ERROR', payload: 'Alışkanlık silinemedi.' });
         }
     }, []);
@@ -290,24 +501,122 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
         dispatch({ type: 'UNARCHIVE_HABIT', payload: id });
     }, []);
 
+    // Frees storage while keeping the habits themselves
+    const clearHabitLogs = useCallback(async (habitIds: string[]) => {
+        for (const habitId of habitIds) {
+            await deleteHabitLogsByHabitId(habitId);
+        }
+        dispatch({ type: 'CLEAR_HABIT_LOGS', payload: habitIds });
+    }, []);
+
+    const saveLog = useCallback(async (log: HabitLog) => {
+        try {
+            await saveHabitLog(log);
+            dispatch({ type: 'LOG_HABIT', payload: log });
+        } catch (error) {
+            console.error('Failed to save habit log:', error);
+            dispatch({ type: 'SET_ERROR', payload: 'Alışkanlık kaydı yapılamadı.' });
+        }
+    }, []);
+
     const logHabit = useCallback(async (habitId: string, dateISO: string, done?: boolean, value?: number) => {
-        const log: HabitLog = {
+        await saveLog({
             habitId,
             dateISO,
             done,
             value,
             timestamp: new Date().toISOString(),
-        };
-
+        });
+    }, [saveLog]);
+
+    // The day's log is read and written in one transaction rather than from
+    // state, so quick taps each build on what the last one saved. `update`
+    // returns null to leave the day alone.
+    const changeLog = useCallback(async (
+        habitId: string,
+        dateISO: string,
+        update: (log: HabitLog | null) => HabitLog | null
+    ) => {
         try {
-            await saveHabitLog(log);
-            dispatch({ type: 'LOG_HABIT', payload: log });
+            const log = await updateHabitLog(habitId, dateISO, update);
+            if (log) dispatch({ type: 'LOG_HABIT', payload: log });
         } catch (error) {
             console.error('Failed to save habit log:', error);
             dispatch({ type: 'SET_ERROR', payload: 'Alışkanlık kaydı yapılamadı.' });
         }
     }, []);
 
+    // Skipping keeps what was logged that day, so taking the skip back restores it
+    const skipHabit = useCallback(async (habitId: string, dateISO: string, skipped: boolean) => {
+        await changeLog(habitId, dateISO, current => ({
+            ...(current ?? { habitId, dateISO }),
+            skipped: skipped || undefined,
+            timestamp: new Date().toISOString(),
+        }));
+    }, [changeLog]);
+
+    const changeEntries = useCallback(async (
+        habitId: string,
+        dateISO: string,
+        change: (entries: HabitLogEntry[]) => HabitLogEntry[] | null
+    ) => {
+        await changeLog(habitId, dateISO, current => {
+            const entries = change(getHabitLogEntries(current));
+            if (!entries) return null;
+            return {
+                habitId,
+                dateISO,
+                value: entries.length > 0 ? sumHabitLogEntries(entries) : undefined,
+                entries,
+                timestamp: new Date().toISOString(),
+            };
+        });
+    }, [changeLog]);
+
+    // A check-in on a skipped day takes the skip back
+    const addHabitEntry = useCallback(async (habitId: string, dateISO: string, amount: number) => {
+        let isFull = false;
+        await changeEntries(habitId, dateISO, entries => {
+            isFull = entries.length >= LIMITS.MAX_LOG_ENTRIES;
+            return isFull ? null : [...entries, { id: generateId(), amount, timestamp: new Date().toISOString() }];
+        });
+        if (isFull) {
+            dispatch({ type: 'SET_ERROR', payload: `Bir güne en fazla ${LIMITS.MAX_LOG_ENTRIES} kayıt eklenebilir.` });
+        }
+    }, [changeEntries]);
+
+    const removeHabitEntry = useCallback(async (habitId: string, dateISO: string, entryId: string) => {
+        await changeEntries(habitId, dateISO, entries =>
+            entries.some(entry => entry.id === entryId) ? entries.filter(entry => entry.id !== entryId) : null
+        );
+    }, [changeEntries]);
+
+    const updateHabitPause = useCallback((updates: Partial<HabitPauseSettings>) => {
+        updateSettings({ habitPause: { ...habitPause, ...updates } });
+    }, [habitPause, updateSettings]);
+
+    const addVacation = useCallback((startISO: string, endISO: string, note?: string) => {
+        if (habitPause.vacations.length >= LIMITS.MAX_VACATIONS) return;
+        const [start, end] = startISO <= endISO ? [startISO, endISO] : [endISO, startISO];
+        const vacation: VacationRange = {
+            id: generateId(),
+            startISO: start,
+            endISO: end,
+            note: note?.trim().slice(0, 100) || undefined,
+        };
+        updateHabitPause({
+            vacations: [...habitPause.vacations, vacation].sort((a, b) => a.startISO.localeCompare(b.startISO)),
+        });
+    }, [habitPause.vacations, updateHabitPause]);
+
+    const removeVacation = useCallback((id: string) => {
+        updateHabitPause({ vacations: habitPause.vacations.filter(v => v.id !== id) });
+    }, [habitPause.vacations, updateHabitPause]);
+
+    const setFreezeTokens = useCallback((enabled: boolean) => {
+        updateHabitPause({ freezeTokens: enabled });
+    }, [updateHabitPause]);
+
     const reorderHabits = useCallback((habits: Habit[]) => {
         dispatch({ type: 'REORDER_HABITS', payload: habits });
     }, []);
@@ -324,23 +633,31 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
         const today = getToday();
         const todayLog = logs.find(l => l.dateISO === today);
 
-        const { current: currentStreak, best: bestStreak } = calculateHabitStreak(habit, logs);
-        const score = calculateHabitScore(habit, logs);
-        const weeklyProgress = getWeeklyProgress(habit, logs);
-        const totalCompletions = logs.filter(l => l.done || (habit.type === 'numeric' && l.value && l.value >= (habit.target || 0))).length;
+        const streak = calculateHabitStreak(habit, logs, today, habitPause);
+        const score = calculateHabitScore(habit, logs, 30, habitPause.vacations);
+        const weeklyProgress = getWeeklyProgress(habit, logs, undefined, habitPause.vacations);
+        const totalCompletions = logs.filter(l => isHabitKeptOn(habit, l, l.dateISO)).length;
+        const totalSlips = isNegativeHabit(habit) ? logs.filter(l => !isHabitCompleted(habit, l)).length : 0;
 
         return {
             habit,
             isDueToday: isHabitDueOnDate(habit, today),
             isCompletedToday: isHabitCompleted(habit, todayLog || null),
-            currentStreak,
-            bestStreak,
-            longestStreak: bestStreak,
+            isPausedToday: isHabitPausedOn(todayLog, today, habitPause.vacations),
+            currentStreak: streak.current,
+            bestStreak: streak.best,
+            longestStreak: streak.best,
+            streakUnit: streak.unit,
+            freezesLeft: streak.freezesLeft,
+            frozenDates: streak.frozen,
             totalCompletions,
+            totalSlips,
+            todayValue: todayLog?.value ?? 0,
+            todayEntries: getHabitLogEntries(todayLog),
             score,
             weeklyProgress,
         };
-    }, [state.habits, getHabitLogs]);
+    }, [state.habits, getHabitLogs, habitPause]);
 
     const getTodayHabits = useCallback((): HabitWithStats[] => {
         return state.habits
@@ -368,42 +685,91 @@ export function HabitsProvider({ children }: { children: React.ReactNode }) {
         return state.habits.filter(h => h.isArchived);
     }, [state.habits]);
 
-    const importHabits = useCallback((habits: Habit[], logs: HabitLog[]) => {
-        // Save logs to IndexedDB
-        logs.forEach(log => saveHabitLog(log).catch(console.error));
+    // Written right away rather than on the debounced save, so callers know when it is stored
+    const importHabits = useCallback(async (habits: Habit[], logs?: HabitLog[]) => {
+        const replacingLogs = logs ? replaceAllHabitLogs(logs) : Promise.resolve();
         dispatch({ type: 'IMPORT_HABITS', payload: { habits, logs } });
+        saveHabits(habits);
+        await replacingLogs;
     }, []);
 
+    const undo = useCallback(async () => {
+        try {
+            await persistHabitLogChanges(state.history, 'before');
+            dispatch({ type: 'UNDO' });
+        } catch (error) {
+            console.error('Failed to undo:', error);
+            dispatch({ type: 'SET_ERROR', payload: 'İşlem geri alınamadı.' });
+        }
+    }, [state.history]);
+
+    const redo = useCallback(async () => {
+        try {
+            await persistHabitLogChanges(state.history, 'after');
+            dispatch({ type: 'REDO' });
+        } catch (error) {
+            console.error('Failed to redo:', error);
+            dispatch({ type: 'SET_ERROR', payload: 'İşlem yinelenemedi.' });
+        }
+    }, [state.history]);
+
     const value = useMemo<HabitsContextValue>(
         () => ({
             state,
+            storedState,
             addHabit,
             updateHabit,
             deleteHabit,
             archiveHabit,
             unarchiveHabit,
+            clearHabitLogs,
+            restoreHabit,
+            purgeHabits,
             logHabit,
+            skipHabit,
+            addHabitEntry,
+            removeHabitEntry,
+            vacations: habitPause.vacations,
+            addVacation,
+            removeVacation,
+            freezeTokens: habitPause.freezeTokens,
+            setFreezeTokens,
             reorderHabits,
             getHabitWithStats,
             getTodayHabits,
             getArchivedHabits,
             getHabitLogs,
             importHabits,
+            undo,
+            redo,
         }),
         [
             state,
+            storedState,
             addHabit,
             updateHabit,
             deleteHabit,
             archiveHabit,
             unarchiveHabit,
+            clearHabitLogs,
+            restoreHabit,
+            purgeHabits,
             logHabit,
+            skipHabit,
+            addHabitEntry,
+            removeHabitEntry,
+            habitPause,
+            addVacation,
+            removeVacation,
+            setFreezeTokens,
             reorderHabits,
             getHabitWithStats,
             getTodayHabits,
             getArchivedHabits,
             getHabitLogs,
             importHabits,
+            undo,
+            redo,
         ]
     );
 
@@ -0,0 +1,134 @@
+// @vitest-environment happy-dom
+import { IDBFactory } from 'fake-indexeddb';
+import { act, useEffect } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getToday } from '../lib/utils';
+import { AppProvider, useApp } from './AppContext';
+import { HabitsProvider, useHabits } from './HabitsContext';
+import { HistoryProvider, useHistory } from './HistoryContext';
+import { PlannerProvider, usePlanner } from './PlannerContext';
+
+declare global {
+    var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+interface Contexts {
+    app: ReturnType<typeof useApp>;
+    planner: ReturnType<typeof usePlanner>;
+    habits: ReturnType<typeof useHabits>;
+    history: ReturnType<typeof useHistory>;
+}
+
+let current: Contexts;
+let root: Root;
+
+// Hands the contexts out after every render
+function Probe({ onRender }: { onRender: (contexts: Contexts) => void }) {
+    const contexts = { app: useApp(), planner: usePlanner(), habits: useHabits(), history: useHistory() };
+    useEffect(() => {
+        onRender(contexts);
+    });
+    return null;
+}
+
+async function flush() {
+    await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+    });
+}
+
+beforeEach(async () => {
+    globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+
+    root = createRoot(document.createElement('div'));
+    await act(async () => {
+        root.render(
+            <AppProvider>
+                <PlannerProvider>
+                    <HabitsProvider>
+                        <HistoryProvider>
+                            <Probe onRender={contexts => { current = contexts; }} />
+                        </HistoryProvider>
+                    </HabitsProvider>
+                </PlannerProvider>
+            </AppProvider>
+        );
+    });
+    while (current.planner.state.isLoading || current.habits.state.isLoading) await flush();
+});
+
+afterEach(() => {
+    act(() => root.unmount());
+});
+
+async function deleteCourseWithToast() {
+    await act(async () => current.planner.addCourse('Analiz'));
+    const courseId = current.planner.state.courses[0].id;
+
+    let historyId = '';
+    await act(async () => {
+        historyId = current.planner.deleteCourse(courseId);
+    });
+    expect(current.planner.state.courses).toEqual([]);
+    return current.history.undoAction(historyId);
+}
+
+describe('undo toasts', () => {
+    it('bring back what they were shown for', async () => {
+        const action = await deleteCourseWithToast();
+
+        await act(async () => action.onClick());
+        await flush();
+
+        expect(current.planner.state.courses.map(course => course.title)).toEqual(['Analiz']);
+    });
+
+    it('leave a later command of the same stack alone', async () => {
+        const action = await deleteCourseWithToast();
+        await act(async () => current.planner.addPersonalTask('Fatura öde'));
+
+        await act(async () => action.onClick());
+        await flush();
+
+        expect(current.planner.state.courses).toEqual([]);
+        expect(current.planner.state.personalTasks.map(task => task.text)).toEqual(['Fatura öde']);
+        expect(current.app.toasts.map(toast => toast.message)).toContain(
+            'Sonrasında başka değişiklik yapıldığı için geri alınamadı'
+        );
+    });
+
+    it('undo their own entry when a habit check-in came after it', async () => {
+        await act(async () =>
+            current.habits.addHabit({
+                title: 'Kitap oku',
+                type: 'boolean',
+                frequency: { type: 'specificDays', days: [0, 1, 2, 3, 4, 5, 6] },
+            })
+        );
+        const habitId = current.habits.state.habits[0].id;
+
+        const action = await deleteCourseWithToast();
+        await act(async () => current.habits.logHabit(habitId, getToday(), true));
+        await flush();
+
+        await act(async () => action.onClick());
+        await flush();
+
+        expect(current.planner.state.courses.map(course => course.title)).toEqual(['Analiz']);
+        expect(current.habits.getHabitLogs(habitId)).toEqual([expect.objectContaining({ done: true })]);
+    });
+
+    it('do nothing once their entry was undone another way', async () => {
+        const action = await deleteCourseWithToast();
+        await act(async () => current.history.undo());
+
+        // Adding the course is on top now and must stay
+        await act(async () => action.onClick());
+        await flush();
+
+        expect(current.planner.state.courses.map(course => course.title)).toEqual(['Analiz']);
+    });
+});
@@ -0,0 +1,174 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
+import { HistoryEntry, HistoryStack } from '../lib/history';
+import { ToastAction } from '../types';
+import { useApp } from './AppContext';
+import { useHabits } from './HabitsContext';
+import { usePlanner } from './PlannerContext';
+
+// ================== CONTEXT ==================
+
+interface HistoryContextValue {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
+    undo: () => void;
+    redo: () => void;
+    // "Geri Al" button for toasts about destructive actions; it undoes only
+    // the given history entry, and only while nothing newer sits on top of it
+    undoAction: (entryId: string) => ToastAction;
+}
+
+const HistoryContext = createContext<HistoryContextValue | null>(null);
+
+// ================== HELPERS ==================
+
+type HistoryDomain = 'planner' | 'habits';
+
+interface HistoryTarget {
+    domain: HistoryDomain;
+    label: string;
+}
+
+function topOf<T>(entries: HistoryEntry<T>[]): HistoryEntry<T> | undefined {
+    return entries[entries.length - 1];
+}
+
+/**
+ * Planner and habits keep separate stacks; undo takes the newest command of
+ * either, redo the one that was undone last (the oldest of the redo tops).
+ */
+function pickTarget(
+    planner: HistoryStack<unknown>,
+    habits: HistoryStack<unknown>,
+    direction: 'undo' | 'redo'
+): HistoryTarget | null {
+    const side = direction === 'undo' ? 'past' : 'future';
+    const plannerTop = topOf(planner[side]);
+    const habitsTop = topOf(habits[side]);
+    if (!plannerTop && !habitsTop) return null;
+    if (!habitsTop) return { domain: 'planner', label: plannerTop!.label };
+    if (!plannerTop) return { domain: 'habits', label: habitsTop.label };
+
+    const plannerFirst = direction === 'undo' ? plannerTop.at >= habitsTop.at : plannerTop.at <= habitsTop.at;
+    return plannerFirst
+        ? { domain: 'planner', label: plannerTop.label }
+        : { domain: 'habits', label: habitsTop.label };
+}
+
+/** The stack whose newest command is the given entry, if any. */
+function findEntryTarget(
+    planner: HistoryStack<unknown>,
+    habits: HistoryStack<unknown>,
+    entryId: string
+): HistoryTarget | null {
+    const plannerTop = topOf(planner.past);
+    if (plannerTop?.id === entryId) return { domain: 'planner', label: plannerTop.label };
+    const habitsTop = topOf(habits.past);
+    if (habitsTop?.id === entryId) return { domain: 'habits', label: habitsTop.label };
+    return null;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// ================== PROVIDER ==================
+
+export function HistoryProvider({ children }: { children: React.ReactNode }) {
+    const { addToast } = useApp();
+    const planner = usePlanner();
+    const habits = useHabits();
+
+    const plannerHistory = planner.state.history;
+    const habitsHistory = habits.state.history;
+
+    // Toast buttons keep the callback they were created with, so undo and
+    // redo read the stacks through a ref instead of closing over them
+    const latestRef = useRef({ planner, habits, plannerHistory, habitsHistory });
+    useEffect(() => {
+        latestRef.current = { planner, habits, plannerHistory, habitsHistory };
+    });
+
+    const run = useCallback((direction: 'undo' | 'redo', target: HistoryTarget | null) => {
+        if (!target) return;
+
+        const latest = latestRef.current;
+        const context = target.domain === 'planner' ? latest.planner : latest.habits;
+        const done = direction === 'undo' ? context.undo() : context.redo();
+        Promise.resolve(done).then(() => {
+            addToast('info', `${direction === 'undo' ? 'Geri alındı' : 'Yinelendi'}: ${target.label}`, 2500);
+        });
+    }, [addToast]);
+
+    const undo = useCallback(() => {
+        const { plannerHistory, habitsHistory } = latestRef.current;
+        run('undo', pickTarget(plannerHistory, habitsHistory, 'undo'));
+    }, [run]);
+
+    const redo = useCallback(() => {
+        const { plannerHistory, habitsHistory } = latestRef.current;
+        run('redo', pickTarget(plannerHistory, habitsHistory, 'redo'));
+    }, [run]);
+
+    const undoAction = useCallback((entryId: string): ToastAction => ({
+        label: 'Geri Al',
+        onClick: () => {
+            const { plannerHistory, habitsHistory } = latestRef.current;
+            const target = findEntryTarget(plannerHistory, habitsHistory, entryId);
+            if (!target) {
+                addToast('info', 'Sonrasında başka değişiklik yapıldığı için geri alınamadı', 3000);
+                return;
+            }
+            run('undo', target);
+        },
+    }), [addToast, run]);
+
+    // Ctrl+Z - Undo, Ctrl+Shift+Z / Ctrl+Y - Redo; text fields keep their own undo
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    const undoLabel = pickTarget(plannerHistory, habitsHistory, 'undo')?.label ?? null;
+    const redoLabel = pickTarget(plannerHistory, habitsHistory, 'redo')?.label ?? null;
+
+    const value = useMemo<HistoryContextValue>(
+        () => ({
+            canUndo: undoLabel !== null,
+            canRedo: redoLabel !== null,
+            undoLabel,
+            redoLabel,
+            undo,
+            redo,
+            undoAction,
+        }),
+        [undoLabel, redoLabel, undo, redo, undoAction]
+    );
+
+    return <HistoryContext.Provider value={value}>{children}</HistoryContext.Provider>;
+}
+
+// ================== HOOK ==================
+
+export function useHistory(): HistoryContextValue {
+    const context = useContext(HistoryContext);
+    if (!context) {
+        throw new Error('useHistory must be used within a HistoryProvider');
+    }
+    return context;
+}
@@ -0,0 +1,144 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    AppNotification,
+    getDueReminders,
+    getNotificationPermission,
+    getPendingHabits,
+    getReminders,
+    NOTIFICATION_CLICK_MESSAGE,
+    NotificationPermissionState,
+    requestNotificationPermission,
+    showNotification,
+    updateNotificationLog,
+} from '../lib/notifications';
+import { getCalendarEvents, getNotificationLog, saveNotificationLog } from '../lib/storage';
+import { getLocalDateISO } from '../lib/utils';
+import { useApp } from './AppContext';
+import { useHabits } from './HabitsContext';
+import { usePlanner } from './PlannerContext';
+
+// ================== CONTEXT ==================
+
+interface NotificationContextValue {
+    permission: NotificationPermissionState;
+    requestPermission: () => Promise<NotificationPermissionState>;
+    // Shows a notification if notifications are switched on and allowed
+    notify: (notification: AppNotification) => void;
+    sendTest: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// ================== PROVIDER ==================
+
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+    const { settings, addToast } = useApp();
+    const { state: plannerState } = usePlanner();
+    const { state: habitsState } = useHabits();
+    const navigate = useNavigate();
+    const [permission, setPermission] = useState<NotificationPermissionState>(getNotificationPermission);
+
+    const isEnabled = settings.notifications.enabled && permission === 'granted';
+
+    const deliver = useCallback((notification: AppNotification) => {
+        showNotification(notification, () => navigate(notification.url ?? '/')).catch(error =>
+            console.error('Failed to show notification:', error)
+        );
+    }, [navigate]);
+
+    const notify = useCallback((notification: AppNotification) => {
+        if (isEnabled) deliver(notification);
+    }, [isEnabled, deliver]);
+
+    const requestPermission = useCallback(async () => {
+        const result = await requestNotificationPermission();
+        setPermission(result);
+        return result;
+    }, []);
+
+    const sendTest = useCallback(async () => {
+        const result = permission === 'default' ? await requestPermission() : permission;
+        if (result !== 'granted') {
+            addToast('warning', 'Bildirim izni verilmedi');
+            return;
+        }
+        deliver({ tag: 'test', title: 'Plan.Ex', body: 'Bildirimler çalışıyor.' });
+    }, [permission, requestPermission, deliver, addToast]);
+
+    // Permission can be changed in the browser while the app is open
+    useEffect(() => {
+        const refresh = () => setPermission(getNotificationPermission());
+        window.addEventListener('focus', refresh);
+        return () => window.removeEventListener('focus', refresh);
+    }, []);
+
+    // Clicks on notifications shown by the service worker open the page they point at
+    useEffect(() => {
+        if (!('serviceWorker' in navigator)) return;
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.type === NOTIFICATION_CLICK_MESSAGE && typeof event.data.url === 'string') {
+                navigate(event.data.url);
+            }
+        };
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+    }, [navigate]);
+
+    // Fires the reminders whose time has come; the log is shared by all tabs, so each fires once
+    const checkReminders = useCallback(() => {
+        if (!isEnabled || plannerState.isLoading || habitsState.isLoading) return;
+
+        // Reminder times are local wall-clock times, so the day is the local one too
+        const today = getLocalDateISO();
+        const reminders = getReminders(
+            {
+                courses: plannerState.courses,
+                personalTasks: plannerState.personalTasks,
+                calendarEvents: getCalendarEvents(),
+                pendingHabits: getPendingHabits(
+                    habitsState.habits,
+                    habitsState.habitLogs,
+                    settings.habitPause.vacations,
+                    today
+                ),
+            },
+            settings.notifications,
+            today
+        );
+
+        const now = Date.now();
+        const log = getNotificationLog();
+        const due = getDueReminders(reminders, log, now);
+        if (due.length === 0) return;
+
+        saveNotificationLog(updateNotificationLog(log, due, now));
+        due.forEach(deliver);
+    }, [isEnabled, plannerState, habitsState, settings.notifications, settings.habitPause, deliver]);
+
+    useEffect(() => {
+        checkReminders();
+        const interval = setInterval(checkReminders, CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [checkReminders]);
+
+    const value = useMemo<NotificationContextValue>(
+        () => ({ permission, requestPermission, notify, sendTest }),
+        [permission, requestPermission, notify, sendTest]
+    );
+
+    return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+}
+
+// ================== HOOK ==================
+
+export function useNotifications(): NotificationContextValue {
+    const context = useContext(NotificationContext);
+    if (!context) {
+        throw new Error('useNotifications must be used within a NotificationProvider');
+    }
+    return context;
+}
@@ -1,17 +1,29 @@
-import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { subscribeToCrossTabChanges } from '../lib/crossTab';
 import {
-    getCompletionState,
-    getCourses,
+    applyPlannerChanges,
+    diffPlannerData,
+    isEmptyChangeSet,
+    moveToFuture,
+    moveToPast,
+    RecordedAction,
+    recordHistory,
+} from '../lib/history';
+import {
+    getHistory,
     getLectureNotesMeta,
-    getPersonalTasks,
-    getUndoStack,
-    saveCompletionState,
-    saveCourses,
+    loadPlannerData,
+    markKeysLoaded,
+    notifyDataSaved,
+    PlannerData,
+    saveHistory,
     saveLectureNotesMeta,
-    savePersonalTasks,
-    saveUndoStack,
+    savePlannerData,
+    StorageKeyName,
 } from '../lib/storage';
-import { debounce, generateId } from '../lib/utils';
+import { generateStudyPlan, hasMissedStudyTasks, StudyPlanError } from '../lib/studyPlan';
+import { purgePlannerItems, setPlannerDeletedAt, TrashRef, withoutDeletedPlannerData } from '../lib/trash';
+import { debounce, generateId, getToday } from '../lib/utils';
 import {
     CompletionState,
     Course,
@@ -20,9 +32,11 @@ import {
     LectureNoteMeta,
     LIMITS,
     PersonalTask,
+    PlannerHistory,
+    PlannerHistorySchema,
+    StudyPlan,
     Task,
     TaskStatus,
-    UndoSnapshot,
     Unit,
 } from '../types';
 
@@ -31,7 +45,7 @@ import {
 interface PlannerState {
     courses: Course[];
     completionState: CompletionState;
-    undoStack: UndoSnapshot[];
+    history: PlannerHistory;
     personalTasks: PersonalTask[];
     lectureNotesMeta: LectureNoteMeta[];
     isLoading: boolean;
@@ -41,7 +55,7 @@ interface PlannerState {
 const initialState: PlannerState = {
     courses: [],
     completionState: { completedTaskIds: [], completionHistory: {} },
-    undoStack: [],
+    history: { past: [], future: [] },
     personalTasks: [],
     lectureNotesMeta: [],
     isLoading: true,
@@ -50,6 +64,13 @@ const initialState: PlannerState = {
 
 // ================== ACTIONS ==================
 
+interface StudyPlanPayload {
+    courseId: string;
+    examId: string;
+    studyPlan: StudyPlan | undefined;
+    dueDates: Record<string, string>; // taskId -> dateISO
+}
+
 type PlannerAction =
     | { type: 'LOAD_DATA'; payload: Omit<PlannerState, 'isLoading' | 'error'> }
     | { type: 'SET_LOADING'; payload: boolean }
@@ -73,6 +94,9 @@ type PlannerAction =
     | { type: 'ADD_EXAM'; payload: { courseId: string; exam: Exam } }
     | { type: 'UPDATE_EXAM'; payload: { courseId: string; examId: string; updates: Partial<Exam> } }
     | { type: 'DELETE_EXAM'; payload: { courseId: string; examId: string } }
+    // Study plans; a rebalance is the same change made by the app, so it is not undoable
+    | { type: 'APPLY_STUDY_PLAN'; payload: StudyPlanPayload }
+    | { type: 'REBALANCE_STUDY_PLAN'; payload: StudyPlanPayload }
     // Personal Tasks
     | { type: 'ADD_PERSONAL_TASK'; payload: PersonalTask }
     | { type: 'UPDATE_PERSONAL_TASK'; payload: { id: string; updates: Partial<PersonalTask> } }
@@ -80,11 +104,22 @@ type PlannerAction =
     // Lecture Notes
     | { type: 'ADD_LECTURE_NOTE_META'; payload: LectureNoteMeta }
     | { type: 'DELETE_LECTURE_NOTE_META'; payload: string }
-    // Undo
+    // Trash
+    | { type: 'RESTORE_FROM_TRASH'; payload: TrashRef }
+    | { type: 'PURGE_FROM_TRASH'; payload: TrashRef[] }
+    // History
     | { type: 'UNDO' }
-    | { type: 'PUSH_UNDO_SNAPSHOT' }
+    | { type: 'REDO' }
     // Import
-    | { type: 'IMPORT_DATA'; payload: { courses: Course[]; completionState: CompletionState; personalTasks: PersonalTask[] } };
+    | {
+        type: 'IMPORT_DATA';
+        payload: {
+            courses: Course[];
+            completionState: CompletionState;
+            personalTasks: PersonalTask[];
+            lectureNotesMeta?: LectureNoteMeta[];
+        };
+    };
 
 // ================== REDUCER ==================
 
@@ -116,7 +151,7 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
         case 'DELETE_COURSE':
             return {
                 ...state,
-                courses: state.courses.filter(c => c.id !== action.payload),
+                ...setPlannerDeletedAt(toPlannerData(state), { type: 'course', id: action.payload }, new Date().toISOString()),
             };
 
         // Units
@@ -149,19 +184,24 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
         case 'DELETE_UNIT':
             return {
                 ...state,
-                courses: state.courses.map(c =>
-                    c.id === action.payload.courseId
-                        ? { ...c, units: c.units.filter(u => u.id !== action.payload.unitId), updatedAt: new Date().toISOString() }
-                        : c
+                ...setPlannerDeletedAt(
+                    toPlannerData(state),
+                    { type: 'unit', id: action.payload.unitId, courseId: action.payload.courseId },
+                    new Date().toISOString()
                 ),
             };
 
+        // Units in the trash are not on screen, so they are kept after the reordered ones
         case 'REORDER_UNITS':
             return {
                 ...state,
                 courses: state.courses.map(c =>
                     c.id === action.payload.courseId
-                        ? { ...c, units: action.payload.units, updatedAt: new Date().toISOString() }
+                        ? {
+                            ...c,
+                            units: [...action.payload.units, ...c.units.filter(u => u.deletedAt)],
+                            updatedAt: new Date().toISOString(),
+                        }
                         : c
                 ),
             };
@@ -210,34 +250,21 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
                 ),
             };
 
-        case 'DELETE_TASK': {
-            const newCompletedIds = state.completionState.completedTaskIds.filter(
-                id => id !== action.payload.taskId
-            );
-            const newHistory = { ...state.completionState.completionHistory };
-            delete newHistory[action.payload.taskId];
-
+        // Completions stay, so a restored task comes back as it was
+        case 'DELETE_TASK':
             return {
                 ...state,
-                courses: state.courses.map(c =>
-                    c.id === action.payload.courseId
-                        ? {
-                            ...c,
-                            units: c.units.map(u =>
-                                u.id === action.payload.unitId
-                                    ? { ...u, tasks: u.tasks.filter(t => t.id !== action.payload.taskId) }
-                                    : u
-                            ),
-                            updatedAt: new Date().toISOString(),
-                        }
-                        : c
+                ...setPlannerDeletedAt(
+                    toPlannerData(state),
+                    {
+                        type: 'task',
+                        id: action.payload.taskId,
+                        courseId: action.payload.courseId,
+                        unitId: action.payload.unitId,
+                    },
+                    new Date().toISOString()
                 ),
-                completionState: {
-                    completedTaskIds: newCompletedIds,
-                    completionHistory: newHistory,
-                },
             };
-        }
 
         case 'TOGGLE_TASK_COMPLETION': {
             const taskId = action.payload;
@@ -372,14 +399,43 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
             };
 
         case 'DELETE_EXAM':
+            return {
+                ...state,
+                ...setPlannerDeletedAt(
+                    toPlannerData(state),
+                    { type: 'exam', id: action.payload.examId, courseId: action.payload.courseId },
+                    new Date().toISOString()
+                ),
+            };
+
+        // The plan and the due dates it produced change together
+        case 'APPLY_STUDY_PLAN':
+        case 'REBALANCE_STUDY_PLAN': {
+            const { courseId, examId, studyPlan, dueDates } = action.payload;
+            const now = new Date().toISOString();
             return {
                 ...state,
                 courses: state.courses.map(c =>
-                    c.id === action.payload.courseId
-                        ? { ...c, exams: c.exams.filter(e => e.id !== action.payload.examId), updatedAt: new Date().toISOString() }
+                    c.id === courseId
+                        ? {
+                            ...c,
+                            units: c.units.map(u =>
+                                u.tasks.some(t => dueDates[t.id])
+                                    ? {
+                                        ...u,
+                                        tasks: u.tasks.map(t =>
+                                            dueDates[t.id] ? { ...t, dueDateISO: dueDates[t.id], updatedAt: now } : t
+                                        ),
+                                    }
+                                    : u
+                            ),
+                            exams: c.exams.map(e => (e.id === examId ? { ...e, studyPlan } : e)),
+                            updatedAt: now,
+                        }
                         : c
                 ),
             };
+        }
 
         // Personal Tasks
         case 'ADD_PERSONAL_TASK':
@@ -398,9 +454,20 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
         case 'DELETE_PERSONAL_TASK':
             return {
                 ...state,
-                personalTasks: state.personalTasks.filter(t => t.id !== action.payload),
+                ...setPlannerDeletedAt(
+                    toPlannerData(state),
+                    { type: 'personalTask', id: action.payload },
+                    new Date().toISOString()
+                ),
             };
 
+        // Trash
+        case 'RESTORE_FROM_TRASH':
+            return { ...state, ...setPlannerDeletedAt(toPlannerData(state), action.payload, undefined) };
+
+        case 'PURGE_FROM_TRASH':
+            return { ...state, ...purgePlannerItems(toPlannerData(state), action.payload) };
+
         // Lecture Notes
         case 'ADD_LECTURE_NOTE_META':
             return {
@@ -414,33 +481,6 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
                 lectureNotesMeta: state.lectureNotesMeta.filter(n => n.id !== action.payload),
             };
 
-        // Undo
-        case 'PUSH_UNDO_SNAPSHOT': {
-            const snapshot: UndoSnapshot = {
-                timestamp: new Date().toISOString(),
-                completedTaskIds: [...state.completionState.completedTaskIds],
-                completionHistory: { ...state.completionState.completionHistory },
-            };
-            return {
-                ...state,
-                undoStack: [...state.undoStack.slice(-LIMITS.MAX_UNDO_STACK + 1), snapshot],
-            };
-        }
-
-        case 'UNDO': {
-            if (state.undoStack.length === 0) return state;
-
-            const lastSnapshot = state.undoStack[state.undoStack.length - 1];
-            return {
-                ...state,
-                completionState: {
-                    completedTaskIds: lastSnapshot.completedTaskIds,
-                    completionHistory: lastSnapshot.completionHistory,
-                },
-                undoStack: state.undoStack.slice(0, -1),
-            };
-        }
-
         // Import
         case 'IMPORT_DATA':
             return {
@@ -448,7 +488,8 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
                 courses: action.payload.courses,
                 completionState: action.payload.completionState,
                 personalTasks: action.payload.personalTasks,
-                undoStack: [],
+                lectureNotesMeta: action.payload.lectureNotesMeta ?? state.lectureNotesMeta,
+                history: { past: [], future: [] },
             };
 
         default:
@@ -456,82 +497,218 @@ function plannerReducer(state: PlannerState, action: PlannerAction): PlannerStat
     }
 }
 
+// ================== HISTORY ==================
+
+// Actions that can be undone, with the label shown in undo toasts. Lecture
+// note metadata is left out because deleting it also deletes the PDF file,
+// and purging the trash is meant to be permanent.
+const HISTORY_LABELS: Partial<Record<PlannerAction['type'], string>> = {
+    ADD_COURSE: 'Ders ekleme',
+    UPDATE_COURSE: 'Ders düzenleme',
+    DELETE_COURSE: 'Ders silme',
+    ADD_UNIT: 'Ünite ekleme',
+    UPDATE_UNIT: 'Ünite düzenleme',
+    DELETE_UNIT: 'Ünite silme',
+    REORDER_UNITS: 'Ünite sıralama',
+    ADD_TASK: 'Görev ekleme',
+    UPDATE_TASK: 'Görev düzenleme',
+    DELETE_TASK: 'Görev silme',
+    TOGGLE_TASK_COMPLETION: 'Görev tamamlama',
+    UPDATE_TASK_STATUS: 'Görev durumu değişikliği',
+    ADD_EXAM: 'Sınav ekleme',
+    UPDATE_EXAM: 'Sınav düzenleme',
+    DELETE_EXAM: 'Sınav silme',
+    APPLY_STUDY_PLAN: 'Çalışma planı',
+    ADD_PERSONAL_TASK: 'Kişisel görev ekleme',
+    UPDATE_PERSONAL_TASK: 'Kişisel görev düzenleme',
+    DELETE_PERSONAL_TASK: 'Kişisel görev silme',
+    RESTORE_FROM_TRASH: 'Çöp kutusundan geri yükleme',
+};
+
+function toPlannerData(state: PlannerState): PlannerData {
+    return {
+        courses: state.courses,
+        completionState: state.completionState,
+        personalTasks: state.personalTasks,
+    };
+}
+
+// Records what each undoable action changed, so undo and redo can put
+// exactly those entities back
+function plannerHistoryReducer(state: PlannerState, action: RecordedAction<PlannerAction>): PlannerState {
+    if (action.type === 'UNDO' || action.type === 'REDO') {
+        const isUndo = action.type === 'UNDO';
+        const stack = isUndo ? state.history.past : state.history.future;
+        const entry = stack[stack.length - 1];
+        if (!entry) return state;
+
+        return {
+            ...state,
+            ...applyPlannerChanges(toPlannerData(state), entry.changes, isUndo ? 'before' : 'after'),
+            history: isUndo ? moveToFuture(state.history) : moveToPast(state.history),
+        };
+    }
+
+    const next = plannerReducer(state, action);
+    const label = HISTORY_LABELS[action.type];
+    if (!label || next === state) return next;
+
+    const changes = diffPlannerData(toPlannerData(state), toPlannerData(next));
+    if (isEmptyChangeSet(changes)) return next;
+    return { ...next, history: recordHistory(next.history, label, changes, action.historyId) };
+}
+
 // ================== CONTEXT ==================
 
+// Deletions return the id of the history entry they record, for undo toasts
 interface PlannerContextValue {
+    // Items in the trash are left out
     state: PlannerState;
+    // Everything that is stored, trash included; for sync and backups
+    storedState: PlannerState;
     // Courses
     addCourse: (title: string, code?: string) => void;
     updateCourse: (id: string, updates: Partial<Course>) => void;
-    deleteCourse: (id: string) => void;
+    deleteCourse: (id: string) => string;
     // Units
     addUnit: (courseId: string, title: string) => void;
     updateUnit: (courseId: string, unitId: string, updates: Partial<Unit>) => void;
-    deleteUnit: (courseId: string, unitId: string) => void;
+    deleteUnit: (courseId: string, unitId: string) => string;
     reorderUnits: (courseId: string, units: Unit[]) => void;
     // Tasks
     addTask: (courseId: string, unitId: string, text: string, options?: Partial<Task>) => void;
     updateTask: (courseId: string, unitId: string, taskId: string, updates: Partial<Task>) => void;
-    deleteTask: (courseId: string, unitId: string, taskId: string) => void;
+    deleteTask: (courseId: string, unitId: string, taskId: string) => string;
     toggleTaskCompletion: (taskId: string) => void;
     updateTaskStatus: (taskId: string, status: TaskStatus, courseId: string, unitId: string) => void;
     // Exams
     addExam: (courseId: string, title: string, examDateISO: string) => void;
     updateExam: (courseId: string, examId: string, updates: Partial<Exam>) => void;
-    deleteExam: (courseId: string, examId: string) => void;
+    deleteExam: (courseId: string, examId: string) => string;
+    // Study plans; `undefined` removes the plan and keeps the due dates
+    applyStudyPlan: (
+        courseId: string,
+        examId: string,
+        studyPlan: StudyPlan | undefined,
+        dueDates: Record<string, string>
+    ) => void;
     // Personal Tasks
     addPersonalTask: (text: string, options?: Partial<PersonalTask>) => void;
     updatePersonalTask: (id: string, updates: Partial<PersonalTask>) => void;
-    deletePersonalTask: (id: string) => void;
+    deletePersonalTask: (id: string) => string;
     // Lecture Notes
     addLectureNoteMeta: (meta: LectureNoteMeta) => void;
     deleteLectureNoteMeta: (id: string) => void;
-    // Undo
+    // Trash
+    restoreFromTrash: (ref: TrashRef) => void;
+    purgeFromTrash: (refs: TrashRef[]) => void;
+    // History
     undo: () => void;
+    redo: () => void;
     canUndo: boolean;
+    canRedo: boolean;
     // Import/Export
-    importData: (courses: Course[], completionState: CompletionState, personalTasks: PersonalTask[]) => void;
+    importData: (
+        courses: Course[],
+        completionState: CompletionState,
+        personalTasks: PersonalTask[],
+        lectureNotesMeta?: LectureNoteMeta[]
+    ) => Promise<void>;
 }
 
 const PlannerContext = createContext<PlannerContextValue | null>(null);
 
 // ================== PROVIDER ==================
 
+// Courses, tasks, completions and history live in IndexedDB; only this key stays in localStorage
+const PLANNER_KEYS: StorageKeyName[] = ['LECTURE_NOTES_META'];
+
 export function PlannerProvider({ children }: { children: React.ReactNode }) {
-    const [state, dispatch] = useReducer(plannerReducer, initialState);
+    const [storedState, dispatch] = useReducer(plannerHistoryReducer, initialState);
+    const state = useMemo<PlannerState>(
+        () => ({ ...storedState, ...withoutDeletedPlannerData(toPlannerData(storedState)) }),
+        [storedState]
+    );
+    // Planner data as it was last loaded from or written to IndexedDB; each
+    // save writes only the difference to it
+    const savedDataRef = useRef<PlannerData | null>(null);
+    const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
-    // Load data on mount
+    // Load data on mount, and again whenever another tab saved planner data
     useEffect(() => {
-        const courses = getCourses();
-        const completionState = getCompletionState();
-        const undoStack = getUndoStack();
-        const personalTasks = getPersonalTasks();
-        const lectureNotesMeta = getLectureNotesMeta();
-
-        dispatch({
-            type: 'LOAD_DATA',
-            payload: { courses, completionState, undoStack, personalTasks, lectureNotesMeta },
+        async function loadData() {
+            try {
+                const [data, history] = await Promise.all([
+                    loadPlannerData(),
+                    getHistory('planner', PlannerHistorySchema),
+                ]);
+                const lectureNotesMeta = getLectureNotesMeta();
+                markKeysLoaded(...PLANNER_KEYS);
+                savedDataRef.current = data;
+
+                dispatch({
+                    type: 'LOAD_DATA',
+                    payload: { ...data, history: history ?? { past: [], future: [] }, lectureNotesMeta },
+                });
+            } catch (error) {
+                console.error('Failed to load planner data:', error);
+                dispatch({ type: 'SET_ERROR', payload: 'Ders verileri yüklenemedi.' });
+            }
+        }
+
+        loadData();
+        return subscribeToCrossTabChanges([...PLANNER_KEYS, 'PLANNER_DATA'], loadData);
+    }, []);
+
+    // Saves run one at a time so each diff starts from what the previous one wrote
+    const queuePlannerSave = useCallback((next: PlannerData) => {
+        const run = saveQueueRef.current.then(async () => {
+            await savePlannerData(savedDataRef.current, next);
+            savedDataRef.current = next;
+            notifyDataSaved();
         });
+        // Left unchanged, the next save retries everything since the last success
+        saveQueueRef.current = run.catch(error => console.error('Failed to save planner data:', error));
+        return run;
     }, []);
 
     // Auto-save with debounce
     const debouncedSave = useMemo(
         () =>
             debounce(() => {
-                saveCourses(state.courses);
-                saveCompletionState(state.completionState);
-                saveUndoStack(state.undoStack);
-                savePersonalTasks(state.personalTasks);
-                saveLectureNotesMeta(state.lectureNotesMeta);
+                saveLectureNotesMeta(storedState.lectureNotesMeta);
             }, 500),
-        [state.courses, state.completionState, state.undoStack, state.personalTasks, state.lectureNotesMeta]
+        [storedState.lectureNotesMeta]
     );
 
     useEffect(() => {
-        if (!state.isLoading) {
+        if (!storedState.isLoading) {
             debouncedSave();
         }
-    }, [state, debouncedSave]);
+    }, [storedState, debouncedSave]);
+
+    // Write changed planner records once edits settle
+    useEffect(() => {
+        if (storedState.isLoading) return;
+
+        const next: PlannerData = {
+            courses: storedState.courses,
+            completionState: storedState.completionState,
+            personalTasks: storedState.personalTasks,
+        };
+        // Failures are logged by the queue
+        const timeout = setTimeout(() => queuePlannerSave(next).catch(() => undefined), 500);
+        return () => clearTimeout(timeout);
+    }, [storedState.isLoading, storedState.courses, storedState.completionState, storedState.personalTasks, queuePlannerSave]);
+
+    useEffect(() => {
+        if (storedState.isLoading) return;
+
+        const timeout = setTimeout(() => {
+            saveHistory('planner', storedState.history).catch(error => console.error('Failed to save history:', error));
+        }, 500);
+        return () => clearTimeout(timeout);
+    }, [storedState.isLoading, storedState.history]);
 
     // Actions
     const addCourse = useCallback((title: string, code?: string) => {
@@ -567,7 +744,9 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
     }, []);
 
     const deleteCourse = useCallback((id: string) => {
-        dispatch({ type: 'DELETE_COURSE', payload: id });
+        const historyId = generateId();
+        dispatch({ type: 'DELETE_COURSE', payload: id, historyId });
+        return historyId;
     }, []);
 
     const addUnit = useCallback((courseId: string, title: string) => {
@@ -594,7 +773,9 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
     }, []);
 
     const deleteUnit = useCallback((courseId: string, unitId: string) => {
-        dispatch({ type: 'DELETE_UNIT', payload: { courseId, unitId } });
+        const historyId = generateId();
+        dispatch({ type: 'DELETE_UNIT', payload: { courseId, unitId }, historyId });
+        return historyId;
     }, []);
 
     const reorderUnits = useCallback((courseId: string, units: Unit[]) => {
@@ -627,16 +808,16 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
     }, []);
 
     const deleteTask = useCallback((courseId: string, unitId: string, taskId: string) => {
-        dispatch({ type: 'DELETE_TASK', payload: { courseId, unitId, taskId } });
+        const historyId = generateId();
+        dispatch({ type: 'DELETE_TASK', payload: { courseId, unitId, taskId }, historyId });
+        return historyId;
     }, []);
 
     const toggleTaskCompletion = useCallback((taskId: string) => {
-        dispatch({ type: 'PUSH_UNDO_SNAPSHOT' });
         dispatch({ type: 'TOGGLE_TASK_COMPLETION', payload: taskId });
     }, []);
 
     const updateTaskStatus = useCallback((taskId: string, status: TaskStatus, courseId: string, unitId: string) => {
-        dispatch({ type: 'PUSH_UNDO_SNAPSHOT' });
         dispatch({ type: 'UPDATE_TASK_STATUS', payload: { taskId, status, courseId, unitId } });
     }, []);
 
@@ -663,9 +844,53 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
     }, []);
 
     const deleteExam = useCallback((courseId: string, examId: string) => {
-        dispatch({ type: 'DELETE_EXAM', payload: { courseId, examId } });
+        const historyId = generateId();
+        dispatch({ type: 'DELETE_EXAM', payload: { courseId, examId }, historyId });
+        return historyId;
+    }, []);
+
+    const applyStudyPlan = useCallback((
+        courseId: string,
+        examId: string,
+        studyPlan: StudyPlan | undefined,
+        dueDates: Record<string, string>
+    ) => {
+        dispatch({ type: 'APPLY_STUDY_PLAN', payload: { courseId, examId, studyPlan, dueDates } });
     }, []);
 
+    // Re-checked hourly so a session left open overnight notices the new day
+    const [today, setToday] = useState(getToday);
+    useEffect(() => {
+        const interval = setInterval(() => setToday(getToday()), 60 * 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Open study plan tasks that were due on an earlier day are spread over the days left
+    useEffect(() => {
+        if (state.isLoading) return;
+
+        const { completedTaskIds } = state.completionState;
+        state.courses.forEach(course => {
+            course.exams.forEach(exam => {
+                if (!exam.studyPlan || !hasMissedStudyTasks(course, exam, completedTaskIds, today)) return;
+                try {
+                    const { dueDates } = generateStudyPlan(course, exam, exam.studyPlan, completedTaskIds, today);
+                    dispatch({
+                        type: 'REBALANCE_STUDY_PLAN',
+                        payload: {
+                            courseId: course.id,
+                            examId: exam.id,
+                            studyPlan: { ...exam.studyPlan, rebalancedAt: new Date().toISOString() },
+                            dueDates,
+                        },
+                    });
+                } catch (error) {
+                    if (!(error instanceof StudyPlanError)) throw error;
+                }
+            });
+        });
+    }, [state.isLoading, state.courses, state.completionState, today]);
+
     const addPersonalTask = useCallback((text: string, options?: Partial<PersonalTask>) => {
         const task: PersonalTask = {
             id: generateId(),
@@ -684,7 +909,9 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
     }, []);
 
     const deletePersonalTask = useCallback((id: string) => {
-        dispatch({ type: 'DELETE_PERSONAL_TASK', payload: id });
+        const historyId = generateId();
+        dispatch({ type: 'DELETE_PERSONAL_TASK', payload: id, historyId });
+        return historyId;
     }, []);
 
     const addLectureNoteMeta = useCallback((meta: LectureNoteMeta) => {
@@ -695,17 +922,39 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
         dispatch({ type: 'DELETE_LECTURE_NOTE_META', payload: id });
     }, []);
 
+    const restoreFromTrash = useCallback((ref: TrashRef) => {
+        dispatch({ type: 'RESTORE_FROM_TRASH', payload: ref });
+    }, []);
+
+    const purgeFromTrash = useCallback((refs: TrashRef[]) => {
+        if (refs.length === 0) return;
+        dispatch({ type: 'PURGE_FROM_TRASH', payload: refs });
+    }, []);
+
     const undo = useCallback(() => {
         dispatch({ type: 'UNDO' });
     }, []);
 
-    const importData = useCallback((courses: Course[], completionState: CompletionState, personalTasks: PersonalTask[]) => {
-        dispatch({ type: 'IMPORT_DATA', payload: { courses, completionState, personalTasks } });
+    const redo = useCallback(() => {
+        dispatch({ type: 'REDO' });
     }, []);
 
+    const importData = useCallback((
+        courses: Course[],
+        completionState: CompletionState,
+        personalTasks: PersonalTask[],
+        lectureNotesMeta?: LectureNoteMeta[]
+    ) => {
+        dispatch({ type: 'IMPORT_DATA', payload: { courses, completionState, personalTasks, lectureNotesMeta } });
+        // Written right away rather than once edits settle, so callers know when it is stored
+        if (lectureNotesMeta) saveLectureNotesMeta(lectureNotesMeta);
+        return queuePlannerSave({ courses, completionState, personalTasks });
+    }, [queuePlannerSave]);
+
     const value = useMemo<PlannerContextValue>(
         () => ({
             state,
+            storedState,
             addCourse,
             updateCourse,
             deleteCourse,
@@ -721,17 +970,23 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
             addExam,
             updateExam,
             deleteExam,
+            applyStudyPlan,
             addPersonalTask,
             updatePersonalTask,
             deletePersonalTask,
             addLectureNoteMeta,
             deleteLectureNoteMeta,
+            restoreFromTrash,
+            purgeFromTrash,
             undo,
-            canUndo: state.undoStack.length > 0,
+            redo,
+            canUndo: state.history.past.length > 0,
+            canRedo: state.history.future.length > 0,
             importData,
         }),
         [
             state,
+            storedState,
             addCourse,
             updateCourse,
             deleteCourse,
@@ -747,12 +1002,16 @@ export function PlannerProvider({ children }: { children: React.ReactNode }) {
             addExam,
             updateExam,
             deleteExam,
+            applyStudyPlan,
             addPersonalTask,
             updatePersonalTask,
             deletePersonalTask,
             addLectureNoteMeta,
             deleteLectureNoteMeta,
+            restoreFromTrash,
+            purgeFromTrash,
             undo,
+            redo,
             importData,
         ]
     );
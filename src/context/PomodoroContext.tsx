@@ -0,0 +1,365 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { BACKUP_RESTORED_EVENT } from '../lib/backup';
+import { subscribeToCrossTabChanges } from '../lib/crossTab';
+import { FocusTotals, getFocusTotals } from '../lib/focus';
+import {
+    getAllFocusSessions,
+    getPomodoroSessionCounts,
+    getPomodoroTimerState,
+    markKeysLoaded,
+    saveFocusSession,
+    savePomodoroSessionCounts,
+    savePomodoroTimerState,
+} from '../lib/storage';
+import { formatDate, formatDuration, generateId, getToday } from '../lib/utils';
+import {
+    FocusSession,
+    FocusTarget,
+    LIMITS,
+    POMODORO_MODE_LABELS,
+    PomodoroMode,
+    PomodoroProfile,
+    PomodoroSettings,
+    PomodoroTimerState,
+} from '../types';
+import { useApp } from './AppContext';
+import { useNotifications } from './NotificationContext';
+
+// ================== CONTEXT ==================
+
+interface PomodoroContextValue {
+    mode: PomodoroMode;
+    isRunning: boolean;
+    isActive: boolean; // running, or paused partway through
+    timeLeft: number; // seconds
+    duration: number; // seconds, for the current interval
+    profile: PomodoroProfile;
+    step: number; // index of the current interval in profile.intervals
+    todaySessions: number;
+    todayFocusSeconds: number;
+    target: FocusTarget | undefined;
+    focusSessions: FocusSession[]; // oldest first
+    focusTotals: FocusTotals;
+    toggle: () => void;
+    reset: () => void;
+    switchMode: (mode: PomodoroMode) => void;
+    setProfile: (profileId: string) => void;
+    setTarget: (target: FocusTarget | undefined) => void;
+}
+
+const PomodoroContext = createContext<PomodoroContextValue | null>(null);
+
+// ================== HELPERS ==================
+
+function getActiveProfile(pomodoro: PomodoroSettings): PomodoroProfile {
+    return pomodoro.profiles.find(p => p.id === pomodoro.activeProfileId) ?? pomodoro.profiles[0];
+}
+
+// The profile may have been shortened since the step was stored
+function getIntervalSeconds(profile: PomodoroProfile, step: number): number {
+    return profile.intervals[step % profile.intervals.length].minutes * 60;
+}
+
+function getSecondsLeft(timer: PomodoroTimerState, duration: number, now: number): number {
+    if (timer.startTime === null) return timer.pausedLeft ?? duration;
+    return Math.max(duration - Math.floor((now - timer.startTime) / 1000), 0);
+}
+
+// ================== PROVIDER ==================
+
+export function PomodoroProvider({ children }: { children: React.ReactNode }) {
+    const { settings, updateSettings, addToast } = useApp();
+    const { notify } = useNotifications();
+
+    // Persisted on every change, so a reload or another tab picks the timer up
+    const [timer, setTimer] = useState<PomodoroTimerState>(() => getPomodoroTimerState());
+    const [now, setNow] = useState(() => Date.now());
+    const [todaySessions, setTodaySessions] = useState(() => getPomodoroSessionCounts()[getToday()] || 0);
+    const [focusSessions, setFocusSessions] = useState<FocusSession[]>([]);
+
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+
+    const profile = getActiveProfile(settings.pomodoro);
+    const { startTime, target } = timer;
+    const step = timer.step % profile.intervals.length;
+    const { mode } = profile.intervals[step];
+    const duration = getIntervalSeconds(profile, step);
+    const isRunning = startTime !== null;
+    const isActive = isRunning || timer.pausedLeft !== null;
+    // Derived from timestamps so a throttled background tab still shows the right time
+    const timeLeft = getSecondsLeft(timer, duration, now);
+
+    // Initialize audio
+    useEffect(() => {
+        audioRef.current = new Audio('/notification.mp3');
+        audioRef.current.volume = 0.5;
+    }, []);
+
+    useEffect(() => {
+        savePomodoroTimerState(timer);
+    }, [timer]);
+
+    // Pick up the timer and today's count from other tabs
+    useEffect(() => {
+        markKeysLoaded('POMODORO_TIMER', 'POMODORO_SESSIONS');
+        return subscribeToCrossTabChanges(['POMODORO_TIMER', 'POMODORO_SESSIONS'], () => {
+            setTimer(getPomodoroTimerState());
+            setTodaySessions(getPomodoroSessionCounts()[getToday()] || 0);
+            setNow(Date.now());
+            markKeysLoaded('POMODORO_TIMER', 'POMODORO_SESSIONS');
+        });
+    }, []);
+
+    // Load focus sessions; reload after a backup restore or a session recorded in another tab
+    useEffect(() => {
+        const loadSessions = () => {
+            getAllFocusSessions()
+                .then(setFocusSessions)
+                .catch(error => console.error('Failed to load focus sessions:', error));
+        };
+
+        loadSessions();
+        window.addEventListener(BACKUP_RESTORED_EVENT, loadSessions);
+        const unsubscribe = subscribeToCrossTabChanges(['FOCUS_SESSIONS'], loadSessions);
+        return () => {
+            window.removeEventListener(BACKUP_RESTORED_EVENT, loadSessions);
+            unsubscribe();
+        };
+    }, []);
+
+    const recordSession = useCallback((session: FocusSession) => {
+        setFocusSessions(prev => [...prev, session]);
+        saveFocusSession(session).catch(error => console.error('Failed to save focus session:', error));
+    }, []);
+
+    // Keeps the part of a session that was cut short, unless it was barely started
+    const recordInterrupted = useCallback((current: number) => {
+        if (timer.startedAt === null) return;
+
+        const elapsed = duration - getSecondsLeft(timer, duration, current);
+        if (elapsed < LIMITS.MIN_INTERRUPTED_SESSION_SEC) return;
+
+        recordSession({
+            id: generateId(),
+            mode,
+            startedAt: new Date(timer.startedAt).toISOString(),
+            endedAt: new Date(current).toISOString(),
+            durationSec: elapsed,
+            target: timer.target,
+            interrupted: true,
+        });
+    }, [timer, mode, duration, recordSession]);
+
+    const finish = useCallback((endedAt: number) => {
+        // Another tab may have finished this session already
+        const stored = getPomodoroTimerState();
+        if (stored.startTime !== timer.startTime || stored.step !== timer.step) {
+            setTimer(stored);
+            return;
+        }
+
+        if (settings.soundEnabled) {
+            audioRef.current?.play().catch(() => { });
+        }
+        addToast('success', `${POMODORO_MODE_LABELS[mode]} tamamlandı!`);
+
+        recordSession({
+            id: generateId(),
+            mode,
+            startedAt: new Date(timer.startedAt ?? endedAt - duration * 1000).toISOString(),
+            endedAt: new Date(endedAt).toISOString(),
+            durationSec: duration,
+            target: timer.target,
+            interrupted: false,
+        });
+
+        if (mode === 'work') {
+            // Daily counts feed the statistics page
+            const today = getToday();
+            const counts = getPomodoroSessionCounts();
+            counts[today] = (counts[today] || 0) + 1;
+            savePomodoroSessionCounts(counts);
+            setTodaySessions(counts[today]);
+        }
+
+        // The sequence repeats once its last interval is done
+        const nextStep = (step + 1) % profile.intervals.length;
+        const nextMode = profile.intervals[nextStep].mode;
+        const autoStart = nextMode === 'work' ? settings.pomodoro.autoStartWork : settings.pomodoro.autoStartBreaks;
+
+        // The next phase counts from when this one ended, not from when the
+        // tick noticed; one that would be over already (the app was closed)
+        // waits for the user instead
+        const current = Date.now();
+        const startNext = autoStart && current - endedAt < getIntervalSeconds(profile, nextStep) * 1000;
+        setTimer({
+            ...timer,
+            step: nextStep,
+            startTime: startNext ? endedAt : null,
+            pausedLeft: null,
+            startedAt: startNext ? endedAt : null,
+        });
+        setNow(current);
+
+        // The toast is enough while the app is on screen
+        if (settings.notifications.pomodoroAlerts && document.hidden) {
+            const nextInterval = profile.intervals[nextStep];
+            notify({
+                tag: 'pomodoro',
+                title: `${POMODORO_MODE_LABELS[mode]} tamamlandı`,
+                body: `Sıradaki: ${POMODORO_MODE_LABELS[nextInterval.mode]} · ${nextInterval.minutes} dk${startNext ? '' : ' (başlatılmayı bekliyor)'}`,
+                url: '/productivity',
+            });
+        }
+    }, [
+        timer,
+        mode,
+        step,
+        duration,
+        profile,
+        settings.soundEnabled,
+        settings.pomodoro,
+        settings.notifications.pomodoroAlerts,
+        addToast,
+        notify,
+        recordSession,
+    ]);
+
+    // Tick while running; also finishes a session that ran out while the page was closed
+    useEffect(() => {
+        if (startTime === null) return;
+
+        const endsAt = startTime + duration * 1000;
+        const tick = () => {
+            const current = Date.now();
+            if (current >= endsAt) {
+                finish(endsAt);
+            } else {
+                setNow(current);
+            }
+        };
+
+        const interval = setInterval(tick, 250);
+        return () => clearInterval(interval);
+    }, [startTime, duration, finish]);
+
+    // Remaining time in the tab title while a session is underway
+    useEffect(() => {
+        if (!isActive) return;
+
+        const originalTitle = document.title;
+        document.title = `${formatDuration(timeLeft)} · ${POMODORO_MODE_LABELS[mode]}${isRunning ? '' : ' (duraklatıldı)'}`;
+        return () => {
+            document.title = originalTitle;
+        };
+    }, [isActive, isRunning, timeLeft, mode]);
+
+    const toggle = useCallback(() => {
+        const current = Date.now();
+        setTimer(prev => {
+            const total = getIntervalSeconds(profile, prev.step);
+            const left = getSecondsLeft(prev, total, current);
+            return prev.startTime !== null
+                // Pause - keep the remaining time
+                ? { ...prev, startTime: null, pausedLeft: left }
+                // Start/Resume
+                : {
+                    ...prev,
+                    startTime: current - (total - left) * 1000,
+                    pausedLeft: null,
+                    startedAt: prev.startedAt ?? current,
+                };
+        });
+        setNow(current);
+    }, [profile]);
+
+    const reset = useCallback(() => {
+        recordInterrupted(Date.now());
+        setTimer(prev => ({ ...prev, startTime: null, pausedLeft: null, startedAt: null }));
+    }, [recordInterrupted]);
+
+    // Jumps to the next interval of that kind in the sequence; the current one if it already is
+    const switchMode = useCallback((newMode: PomodoroMode) => {
+        const count = profile.intervals.length;
+        const offset = profile.intervals.findIndex((_, i) => profile.intervals[(step + i) % count].mode === newMode);
+        if (offset === -1) return;
+
+        recordInterrupted(Date.now());
+        setTimer(prev => ({ ...prev, step: (step + offset) % count, startTime: null, pausedLeft: null, startedAt: null }));
+    }, [profile, step, recordInterrupted]);
+
+    const setProfile = useCallback((profileId: string) => {
+        if (profileId === profile.id) return;
+
+        recordInterrupted(Date.now());
+        updateSettings({ pomodoro: { ...settings.pomodoro, activeProfileId: profileId } });
+        setTimer(prev => ({ ...prev, step: 0, startTime: null, pausedLeft: null, startedAt: null }));
+    }, [profile.id, settings.pomodoro, updateSettings, recordInterrupted]);
+
+    const setTarget = useCallback((newTarget: FocusTarget | undefined) => {
+        setTimer(prev => ({ ...prev, target: newTarget }));
+    }, []);
+
+    const focusTotals = useMemo(() => getFocusTotals(focusSessions), [focusSessions]);
+
+    // Intervals differ in length now, so today's focus time comes from the recorded sessions
+    const todayFocusSeconds = useMemo(() => {
+        const today = getToday();
+        return focusSessions
+            .filter(session => session.mode === 'work' && formatDate(session.startedAt) === today)
+            .reduce((sum, session) => sum + session.durationSec, 0);
+    }, [focusSessions]);
+
+    const value = useMemo<PomodoroContextValue>(
+        () => ({
+            mode,
+            isRunning,
+            isActive,
+            timeLeft,
+            duration,
+            profile,
+            step,
+            todaySessions,
+            todayFocusSeconds,
+            target,
+            focusSessions,
+            focusTotals,
+            toggle,
+            reset,
+            switchMode,
+            setProfile,
+            setTarget,
+        }),
+        [
+            mode,
+            isRunning,
+            isActive,
+            timeLeft,
+            duration,
+            profile,
+            step,
+            todaySessions,
+            todayFocusSeconds,
+            target,
+            focusSessions,
+            focusTotals,
+            toggle,
+            reset,
+            switchMode,
+            setProfile,
+            setTarget,
+        ]
+    );
+
+    return <PomodoroContext.Provider value={value}>{children}</PomodoroContext.Provider>;
+}
+
+// ================== HOOK ==================
+
+export function usePomodoro(): PomodoroContextValue {
+    const context = useContext(PomodoroContext);
+    if (!context) {
+        throw new Error('usePomodoro must be used within a PomodoroProvider');
+    }
+    return context;
+}
@@ -0,0 +1,485 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { BackupFormatError, restoreStoredCollections } from '../lib/backup';
+import {
+    buildSyncBackup,
+    chooseSyncFolder,
+    forgetSyncFolder,
+    getSyncBase,
+    getSyncFileModified,
+    getSyncFolder,
+    hasFolderPermission,
+    isFolderSyncSupported,
+    isSyncFileCurrent,
+    readSyncFile,
+    saveSyncBase,
+    SyncDirectoryHandle,
+    writeSyncFile,
+} from '../lib/folderSync';
+import { backupToMergeSide, isSameMergeSide, MergeSide, mergeWithBase, unionById } from '../lib/merge';
+import { DATA_SAVED_EVENT } from '../lib/storage';
+import {
+    applySyncChanges,
+    clearServerConfig,
+    createHttpSyncAdapter,
+    diffSyncState,
+    enqueueChanges,
+    flushOutbox,
+    getDeviceId,
+    getOutbox,
+    getServerConfig,
+    pullChanges,
+    saveServerConfig,
+    saveServerCursor,
+    ServerSyncConfig,
+    SyncAdapter,
+    SyncServerError,
+} from '../lib/sync';
+import { SyncChange } from '../types';
+import { useApp } from './AppContext';
+import { useHabits } from './HabitsContext';
+import { usePlanner } from './PlannerContext';
+
+// ================== TYPES ==================
+
+export type FolderSyncStatus = 'unsupported' | 'disconnected' | 'needsPermission' | 'idle' | 'syncing' | 'error';
+
+export type ServerSyncStatus = 'disconnected' | 'offline' | 'idle' | 'syncing' | 'error';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const SERVER_PULL_INTERVAL_MS = 60 * 1000;
+
+const EMPTY_SIDE: MergeSide = {
+    courses: [],
+    completionState: { completedTaskIds: [], completionHistory: {} },
+    personalTasks: [],
+    habits: [],
+    habitLogs: [],
+};
+
+// ================== CONTEXT ==================
+
+interface SyncContextValue {
+    // Folder sync
+    folderStatus: FolderSyncStatus;
+    folderName: string | null;
+    lastSyncedAt: string | null;
+    syncError: string | null;
+    connectFolder: () => Promise<void>;
+    grantFolderPermission: () => Promise<void>;
+    disconnectFolder: () => Promise<void>;
+    syncFolderNow: () => Promise<void>;
+
+    // Server sync
+    serverStatus: ServerSyncStatus;
+    serverUrl: string | null;
+    pendingChanges: number;
+    lastServerSyncAt: string | null;
+    serverError: string | null;
+    connectServer: (config: ServerSyncConfig) => Promise<void>;
+    disconnectServer: () => Promise<void>;
+    syncServerNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextValue | null>(null);
+
+// ================== PROVIDER ==================
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+    const { settings } = useApp();
+    const { storedState: plannerState, importData } = usePlanner();
+    const { storedState: habitsState, importHabits } = useHabits();
+
+    const [folderStatus, setFolderStatus] = useState<FolderSyncStatus>(
+        isFolderSyncSupported() ? 'disconnected' : 'unsupported'
+    );
+    const [folderName, setFolderName] = useState<string | null>(null);
+    const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+    const [syncError, setSyncError] = useState<string | null>(null);
+
+    const handleRef = useRef<SyncDirectoryHandle | null>(null);
+    const lastSeenModifiedRef = useRef<number | null>(null);
+    const runningRef = useRef(false);
+    const pendingRef = useRef(false);
+
+    const [serverStatus, setServerStatus] = useState<ServerSyncStatus>('disconnected');
+    const [serverUrl, setServerUrl] = useState<string | null>(null);
+    const [pendingChanges, setPendingChanges] = useState(0);
+    const [lastServerSyncAt, setLastServerSyncAt] = useState<string | null>(null);
+    const [serverError, setServerError] = useState<string | null>(null);
+
+    const adapterRef = useRef<SyncAdapter | null>(null);
+    const deviceIdRef = useRef<string>('');
+    // State already queued for (or received from) the server
+    const baselineRef = useRef<MergeSide | null>(null);
+    const serverRunningRef = useRef(false);
+    const serverPendingRef = useRef(false);
+
+    // Sync runs outside render, so it reads the latest state through a ref
+    const isLoaded = !plannerState.isLoading && !habitsState.isLoading;
+    const latestRef = useRef({ plannerState, habitsState, settings, isLoaded });
+    useEffect(() => {
+        latestRef.current = { plannerState, habitsState, settings, isLoaded };
+    }, [plannerState, habitsState, settings, isLoaded]);
+
+    const getCurrentSide = useCallback((): MergeSide => {
+        const { plannerState: planner, habitsState: habits } = latestRef.current;
+        return {
+            courses: planner.courses,
+            completionState: planner.completionState,
+            personalTasks: planner.personalTasks,
+            habits: habits.habits,
+            habitLogs: Array.from(habits.habitLogs.values()).flat(),
+        };
+    }, []);
+
+    // Folder sync
+
+    const syncOnce = useCallback(async (handle: SyncDirectoryHandle) => {
+        const { plannerState: planner, settings: currentSettings } = latestRef.current;
+        const mine = getCurrentSide();
+
+        const remote = await readSyncFile(handle);
+        let merged = mine;
+        let lectureNotesMeta = planner.lectureNotesMeta;
+
+        if (remote) {
+            const baseBackup = await getSyncBase();
+            const theirs = backupToMergeSide(remote.backup, mine);
+            const base = baseBackup ? backupToMergeSide(baseBackup, mine) : null;
+
+            merged = mergeWithBase(mine, theirs, base);
+            lectureNotesMeta = unionById(planner.lectureNotesMeta, remote.backup.lectureNotesMeta ?? []);
+
+            if (!isSameMergeSide(merged, mine) || lectureNotesMeta.length !== planner.lectureNotesMeta.length) {
+                await Promise.all([
+                    importData(merged.courses, merged.completionState, merged.personalTasks, lectureNotesMeta),
+                    importHabits(merged.habits, merged.habitLogs),
+                ]);
+            }
+            if (remote.lastModified !== lastSeenModifiedRef.current) {
+                await restoreStoredCollections(remote.backup, 'merge');
+            }
+            lastSeenModifiedRef.current = remote.lastModified;
+        }
+
+        const outgoing = await buildSyncBackup(merged, lectureNotesMeta, currentSettings);
+        if (!remote || !isSyncFileCurrent(outgoing, remote.backup)) {
+            lastSeenModifiedRef.current = await writeSyncFile(handle, outgoing);
+        }
+        await saveSyncBase(outgoing);
+    }, [getCurrentSide, importData, importHabits]);
+
+    const runSync = useCallback(async () => {
+        const handle = handleRef.current;
+        if (!handle || !latestRef.current.isLoaded) return;
+
+        // A save during a running sync is picked up by one more pass
+        if (runningRef.current) {
+            pendingRef.current = true;
+            return;
+        }
+
+        runningRef.current = true;
+        setFolderStatus('syncing');
+        try {
+            do {
+                pendingRef.current = false;
+                await syncOnce(handle);
+            } while (pendingRef.current);
+
+            setFolderStatus('idle');
+            setLastSyncedAt(new Date().toISOString());
+            setSyncError(null);
+        } catch (error) {
+            console.error('Folder sync failed:', error);
+            if (error instanceof DOMException && error.name === 'NotAllowedError') {
+                setFolderStatus('needsPermission');
+            } else {
+                setFolderStatus('error');
+                setSyncError(error instanceof BackupFormatError ? error.message : 'Klasördeki dosya okunamadı ya da yazılamadı');
+            }
+        } finally {
+            runningRef.current = false;
+        }
+    }, [syncOnce]);
+
+    // Restore the remembered folder once both providers have loaded;
+    // permission has to be granted again per session
+    useEffect(() => {
+        if (!isLoaded || !isFolderSyncSupported()) return;
+
+        getSyncFolder()
+            .then(async handle => {
+                if (!handle) return;
+                handleRef.current = handle;
+                setFolderName(handle.name);
+                if (await hasFolderPermission(handle)) {
+                    setFolderStatus('idle');
+                    runSync();
+                } else {
+                    setFolderStatus('needsPermission');
+                }
+            })
+            .catch(error => console.error('Failed to restore sync folder:', error));
+    }, [isLoaded, runSync]);
+
+    // Sync after saves, on focus, and when another device changed the file
+    useEffect(() => {
+        const handleSaved = () => runSync();
+        const handleFocus = () => runSync();
+        const poll = setInterval(async () => {
+            const handle = handleRef.current;
+            if (!handle || runningRef.current) return;
+            const modified = await getSyncFileModified(handle);
+            if (modified !== null && modified !== lastSeenModifiedRef.current) {
+                runSync();
+            }
+        }, POLL_INTERVAL_MS);
+
+        window.addEventListener(DATA_SAVED_EVENT, handleSaved);
+        window.addEventListener('focus', handleFocus);
+        return () => {
+            window.removeEventListener(DATA_SAVED_EVENT, handleSaved);
+            window.removeEventListener('focus', handleFocus);
+            clearInterval(poll);
+        };
+    }, [runSync]);
+
+    const connectFolder = useCallback(async () => {
+        try {
+            const handle = await chooseSyncFolder();
+            handleRef.current = handle;
+            lastSeenModifiedRef.current = null;
+            setFolderName(handle.name);
+            setFolderStatus('idle');
+            await runSync();
+        } catch (error) {
+            // Closing the picker is not an error
+            if (error instanceof DOMException && error.name === 'AbortError') return;
+            console.error('Failed to choose sync folder:', error);
+            setFolderStatus('error');
+            setSyncError('Klasör seçilemedi');
+        }
+    }, [runSync]);
+
+    const grantFolderPermission = useCallback(async () => {
+        const handle = handleRef.current;
+        if (!handle) return;
+
+        if (await hasFolderPermission(handle, true)) {
+            setFolderStatus('idle');
+            await runSync();
+        }
+    }, [runSync]);
+
+    const disconnectFolder = useCallback(async () => {
+        await forgetSyncFolder();
+        handleRef.current = null;
+        lastSeenModifiedRef.current = null;
+        setFolderName(null);
+        setLastSyncedAt(null);
+        setSyncError(null);
+        setFolderStatus('disconnected');
+    }, []);
+
+    // Server sync
+
+    // Diffs against the baseline synchronously so no edit slips between
+    // reading the state and moving the baseline
+    const takeLocalChanges = useCallback((): SyncChange[] => {
+        if (!baselineRef.current) return [];
+
+        const current = getCurrentSide();
+        const changes = diffSyncState(baselineRef.current, current, deviceIdRef.current);
+        baselineRef.current = current;
+        return changes;
+    }, [getCurrentSide]);
+
+    const queueChanges = useCallback(async (changes: SyncChange[]) => {
+        if (changes.length === 0) return;
+        const outbox = await enqueueChanges(changes);
+        setPendingChanges(outbox.length);
+    }, []);
+
+    const serverSyncOnce = useCallback(async (adapter: SyncAdapter) => {
+        await queueChanges(takeLocalChanges());
+        await flushOutbox(adapter);
+
+        const { changes: remoteChanges, cursor } = await pullChanges(adapter, deviceIdRef.current);
+        if (remoteChanges.length > 0) {
+            // Edits made while the pull was in flight are queued, not overwritten
+            const localChanges = takeLocalChanges();
+            const current = getCurrentSide();
+            const applied = applySyncChanges(current, remoteChanges);
+            baselineRef.current = applied;
+            if (localChanges.length > 0) {
+                await queueChanges(localChanges);
+                serverPendingRef.current = true;
+            }
+
+            if (!isSameMergeSide(applied, current)) {
+                await Promise.all([
+                    importData(applied.courses, applied.completionState, applied.personalTasks),
+                    importHabits(applied.habits, applied.habitLogs),
+                ]);
+            }
+        }
+
+        // Only once the pulled changes are stored, or a closed tab would skip them for good
+        await saveServerCursor(cursor);
+    }, [getCurrentSide, importData, importHabits, queueChanges, takeLocalChanges]);
+
+    const runServerSync = useCallback(async () => {
+        const adapter = adapterRef.current;
+        if (!adapter || !latestRef.current.isLoaded) return;
+
+        if (!navigator.onLine) {
+            await queueChanges(takeLocalChanges());
+            setServerStatus('offline');
+            return;
+        }
+        if (serverRunningRef.current) {
+            serverPendingRef.current = true;
+            return;
+        }
+
+        serverRunningRef.current = true;
+        setServerStatus('syncing');
+        try {
+            do {
+                serverPendingRef.current = false;
+                await serverSyncOnce(adapter);
+            } while (serverPendingRef.current);
+
+            setServerStatus('idle');
+            setLastServerSyncAt(new Date().toISOString());
+            setServerError(null);
+        } catch (error) {
+            console.error('Server sync failed:', error);
+            if (!navigator.onLine) {
+                setServerStatus('offline');
+            } else {
+                setServerStatus('error');
+                setServerError(error instanceof SyncServerError ? error.message : 'Eşitleme başarısız oldu');
+            }
+        } finally {
+            serverRunningRef.current = false;
+            setPendingChanges((await getOutbox()).length);
+        }
+    }, [queueChanges, serverSyncOnce, takeLocalChanges]);
+
+    // Resume server sync for a configured server once both providers have loaded
+    useEffect(() => {
+        if (!isLoaded) return;
+
+        Promise.all([getServerConfig(), getDeviceId(), getOutbox()])
+            .then(([config, deviceId, outbox]) => {
+                deviceIdRef.current = deviceId;
+                if (!config) return;
+
+                adapterRef.current = createHttpSyncAdapter(config);
+                // Earlier edits were queued when they were saved
+                baselineRef.current ??= getCurrentSide();
+                setServerUrl(config.url);
+                setPendingChanges(outbox.length);
+                runServerSync();
+            })
+            .catch(error => console.error('Failed to restore server sync:', error));
+    }, [isLoaded, getCurrentSide, runServerSync]);
+
+    // Push after saves, pull periodically, and replay the queue when back online
+    useEffect(() => {
+        const handleSaved = () => runServerSync();
+        const handleOnline = () => runServerSync();
+        const handleOffline = () => {
+            if (adapterRef.current) setServerStatus('offline');
+        };
+        const poll = setInterval(() => runServerSync(), SERVER_PULL_INTERVAL_MS);
+
+        window.addEventListener(DATA_SAVED_EVENT, handleSaved);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener(DATA_SAVED_EVENT, handleSaved);
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            clearInterval(poll);
+        };
+    }, [runServerSync]);
+
+    /** Checks the server, then queues the whole local state as the first push. */
+    const connectServer = useCallback(async (config: ServerSyncConfig) => {
+        const adapter = createHttpSyncAdapter(config);
+        await adapter.pull(null);
+
+        await saveServerConfig(config);
+        deviceIdRef.current = await getDeviceId();
+        adapterRef.current = adapter;
+        baselineRef.current = EMPTY_SIDE;
+        setServerUrl(config.url);
+        setServerError(null);
+        await runServerSync();
+    }, [runServerSync]);
+
+    const disconnectServer = useCallback(async () => {
+        await clearServerConfig();
+        adapterRef.current = null;
+        baselineRef.current = null;
+        setServerUrl(null);
+        setPendingChanges(0);
+        setLastServerSyncAt(null);
+        setServerError(null);
+        setServerStatus('disconnected');
+    }, []);
+
+    const value = useMemo<SyncContextValue>(
+        () => ({
+            folderStatus,
+            folderName,
+            lastSyncedAt,
+            syncError,
+            connectFolder,
+            grantFolderPermission,
+            disconnectFolder,
+            syncFolderNow: runSync,
+            serverStatus,
+            serverUrl,
+            pendingChanges,
+            lastServerSyncAt,
+            serverError,
+            connectServer,
+            disconnectServer,
+            syncServerNow: runServerSync,
+        }),
+        [
+            folderStatus,
+            folderName,
+            lastSyncedAt,
+            syncError,
+            connectFolder,
+            grantFolderPermission,
+            disconnectFolder,
+            runSync,
+            serverStatus,
+            serverUrl,
+            pendingChanges,
+            lastServerSyncAt,
+            serverError,
+            connectServer,
+            disconnectServer,
+            runServerSync,
+        ]
+    );
+
+    return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+}
+
+// ================== HOOK ==================
+
+export function useSync(): SyncContextValue {
+    const context = useContext(SyncContext);
+    if (!context) {
+        throw new Error('useSync must be used within a SyncProvider');
+    }
+    return context;
+}
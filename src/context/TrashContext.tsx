@@ -0,0 +1,82 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { getHabitsTrash, getPlannerTrash, isTrashExpired, TrashItem } from '../lib/trash';
+import { useApp } from './AppContext';
+import { useHabits } from './HabitsContext';
+import { usePlanner } from './PlannerContext';
+
+// ================== CONTEXT ==================
+
+interface TrashContextValue {
+    items: TrashItem[]; // most recently deleted first
+    retentionDays: number;
+    restore: (item: TrashItem) => void;
+    purge: (items: TrashItem[]) => Promise<void>;
+}
+
+const TrashContext = createContext<TrashContextValue | null>(null);
+
+// ================== PROVIDER ==================
+
+export function TrashProvider({ children }: { children: React.ReactNode }) {
+    const { settings } = useApp();
+    const { storedState: plannerState, restoreFromTrash, purgeFromTrash } = usePlanner();
+    const { storedState: habitsState, restoreHabit, purgeHabits } = useHabits();
+    const [now, setNow] = useState(() => Date.now());
+
+    const isLoaded = !plannerState.isLoading && !habitsState.isLoading;
+    const retentionDays = settings.trashRetentionDays;
+
+    const items = useMemo(
+        () =>
+            [...getPlannerTrash(plannerState), ...getHabitsTrash(habitsState.habits)].sort((a, b) =>
+                b.deletedAt.localeCompare(a.deletedAt)
+            ),
+        [plannerState, habitsState.habits]
+    );
+
+    const restore = useCallback((item: TrashItem) => {
+        if (item.type === 'habit') {
+            restoreHabit(item.id);
+        } else {
+            restoreFromTrash(item);
+        }
+    }, [restoreFromTrash, restoreHabit]);
+
+    const purge = useCallback(async (toPurge: TrashItem[]) => {
+        purgeFromTrash(toPurge.filter(item => item.type !== 'habit'));
+        await purgeHabits(toPurge.filter(item => item.type === 'habit').map(item => item.id));
+    }, [purgeFromTrash, purgeHabits]);
+
+    // Re-checked hourly for sessions left open across days
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Auto-purge items that stayed in the trash longer than the retention period
+    useEffect(() => {
+        if (!isLoaded) return;
+
+        const expired = items.filter(item => isTrashExpired(item, retentionDays, now));
+        if (expired.length > 0) {
+            purge(expired).catch(error => console.error('Failed to purge trash:', error));
+        }
+    }, [isLoaded, items, retentionDays, now, purge]);
+
+    const value = useMemo<TrashContextValue>(
+        () => ({ items, retentionDays, restore, purge }),
+        [items, retentionDays, restore, purge]
+    );
+
+    return <TrashContext.Provider value={value}>{children}</TrashContext.Provider>;
+}
+
+// ================== HOOK ==================
+
+export function useTrash(): TrashContextValue {
+    const context = useContext(TrashContext);
+    if (!context) {
+        throw new Error('useTrash must be used within a TrashProvider');
+    }
+    return context;
+}
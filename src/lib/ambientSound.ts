@@ -0,0 +1,182 @@
+import { AmbientSound, AmbientVolumes } from '../types';
+
+// ================== BUFFERS ==================
+
+const NOISE_SECONDS = 4;
+const METRONOME_BPM = 60;
+const BINAURAL_BASE_HZ = 200;
+const BINAURAL_BEAT_HZ = 10; // alpha range
+const FADE_SECONDS = 0.3;
+
+type NoiseColor = 'white' | 'pink' | 'brown';
+
+function createNoiseBuffer(context: AudioContext, color: NoiseColor): AudioBuffer {
+    const length = NOISE_SECONDS * context.sampleRate;
+    const buffer = context.createBuffer(1, length, context.sampleRate);
+    const output = buffer.getChannelData(0);
+
+    // Pink noise: Paul Kellet's economy filter; brown noise: leaky integration
+    let b0 = 0, b1 = 0, b2 = 0;
+    let last = 0;
+    for (let i = 0; i < length; i++) {
+        const white = Math.random() * 2 - 1;
+        switch (color) {
+            case 'white':
+                output[i] = white;
+                break;
+            case 'pink':
+                b0 = 0.99765 * b0 + white * 0.099046;
+                b1 = 0.963 * b1 + white * 0.2965164;
+                b2 = 0.57 * b2 + white * 1.0526913;
+                output[i] = (b0 + b1 + b2 + white * 0.1848) * 0.25;
+                break;
+            case 'brown':
+                last = (last + 0.02 * white) / 1.02;
+                output[i] = last * 3.5;
+                break;
+        }
+    }
+    return buffer;
+}
+
+// One beat: a short decaying 1 kHz click followed by silence
+function createClickBuffer(context: AudioContext): AudioBuffer {
+    const length = Math.round((60 / METRONOME_BPM) * context.sampleRate);
+    const buffer = context.createBuffer(1, length, context.sampleRate);
+    const output = buffer.getChannelData(0);
+    const clickLength = Math.round(0.03 * context.sampleRate);
+
+    for (let i = 0; i < clickLength; i++) {
+        const t = i / context.sampleRate;
+        output[i] = Math.sin(2 * Math.PI * 1000 * t) * Math.exp(-t * 150);
+    }
+    return buffer;
+}
+
+// ================== ENGINE ==================
+
+/**
+ * Generates every ambient sound procedurally with the Web Audio API and
+ * mixes them through one gain per sound. The AudioContext is created on
+ * the first `start`, which has to follow a user gesture.
+ */
+export class AmbientSoundEngine {
+    private context: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private gains: Partial<Record<AmbientSound, GainNode>> = {};
+    private sources: AudioScheduledSourceNode[] = [];
+    private volumes: AmbientVolumes = { white: 0, pink: 0, brown: 0, rain: 0, metronome: 0, binaural: 0 };
+    private isPlaying = false;
+
+    private loop(buffer: AudioBuffer, destination: AudioNode): void {
+        const source = this.context!.createBufferSource();
+        source.buffer = buffer;
+        source.loop = true;
+        source.connect(destination);
+        this.sources.push(source);
+    }
+
+    private buildGraph(context: AudioContext, master: GainNode): void {
+        const channel = (sound: AmbientSound) => {
+            const gain = context.createGain();
+            gain.gain.value = this.volumes[sound];
+            gain.connect(master);
+            this.gains[sound] = gain;
+            return gain;
+        };
+
+        this.loop(createNoiseBuffer(context, 'white'), channel('white'));
+        this.loop(createNoiseBuffer(context, 'pink'), channel('pink'));
+        this.loop(createNoiseBuffer(context, 'brown'), channel('brown'));
+
+        // Rain: band-limited noise whose level drifts slowly, like gusts
+        const rainFilter = context.createBiquadFilter();
+        rainFilter.type = 'bandpass';
+        rainFilter.frequency.value = 2500;
+        rainFilter.Q.value = 0.6;
+        const rainSwell = context.createGain();
+        rainSwell.gain.value = 0.8;
+        const lfo = context.createOscillator();
+        lfo.frequency.value = 0.15;
+        const lfoDepth = context.createGain();
+        lfoDepth.gain.value = 0.2;
+        lfo.connect(lfoDepth).connect(rainSwell.gain);
+        this.sources.push(lfo);
+        rainFilter.connect(rainSwell).connect(channel('rain'));
+        this.loop(createNoiseBuffer(context, 'white'), rainFilter);
+
+        this.loop(createClickBuffer(context), channel('metronome'));
+
+        // Binaural: a slightly different pitch in each ear; needs headphones
+        const binaural = channel('binaural');
+        const merger = context.createChannelMerger(2);
+        merger.connect(binaural);
+        [BINAURAL_BASE_HZ, BINAURAL_BASE_HZ + BINAURAL_BEAT_HZ].forEach((frequency, ear) => {
+            const oscillator = context.createOscillator();
+            oscillator.frequency.value = frequency;
+            oscillator.connect(merger, 0, ear);
+            this.sources.push(oscillator);
+        });
+    }
+
+    start(): void {
+        if (this.isPlaying) return;
+
+        const context = this.context ?? new AudioContext();
+        const master = this.master ?? context.createGain();
+        if (!this.context) master.connect(context.destination);
+        this.context = context;
+        this.master = master;
+        void context.resume();
+
+        this.buildGraph(context, master);
+        master.gain.cancelScheduledValues(context.currentTime);
+        master.gain.setValueAtTime(0, context.currentTime);
+        master.gain.linearRampToValueAtTime(1, context.currentTime + FADE_SECONDS);
+        this.sources.forEach(source => source.start());
+        this.isPlaying = true;
+    }
+
+    stop(): void {
+        if (!this.isPlaying || !this.context || !this.master) return;
+
+        // Fade out instead of cutting off with a click
+        const { currentTime } = this.context;
+        this.master.gain.cancelScheduledValues(currentTime);
+        this.master.gain.setValueAtTime(this.master.gain.value, currentTime);
+        this.master.gain.linearRampToValueAtTime(0, currentTime + FADE_SECONDS);
+
+        const sources = this.sources;
+        const gains = Object.values(this.gains);
+        sources.forEach(source => source.stop(currentTime + FADE_SECONDS));
+        sources[0]?.addEventListener('ended', () => {
+            sources.forEach(source => source.disconnect());
+            gains.forEach(gain => gain.disconnect());
+        });
+
+        this.sources = [];
+        this.gains = {};
+        this.isPlaying = false;
+    }
+
+    setVolumes(volumes: AmbientVolumes): void {
+        this.volumes = volumes;
+        if (!this.context) return;
+
+        (Object.keys(volumes) as AmbientSound[]).forEach(sound => {
+            this.gains[sound]?.gain.setTargetAtTime(volumes[sound], this.context!.currentTime, 0.05);
+        });
+    }
+
+    /** Stops playback and releases the audio device. */
+    dispose(): void {
+        this.stop();
+        void this.context?.close();
+        this.context = null;
+        this.master = null;
+    }
+
+    get playing(): boolean {
+        return this.isPlaying;
+    }
+}
@@ -0,0 +1,26 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { BackupFormatError, decryptBackup, encryptBackup, isEncryptedBackup } from './backup';
+
+describe('encrypted backups', () => {
+    it('decrypt with the passphrase they were made with', async () => {
+        const envelope = await encryptBackup('{"version":"2.1.0"}', 'gizli parola');
+
+        expect(isEncryptedBackup(envelope)).toBe(true);
+        await expect(decryptBackup(envelope, 'gizli parola')).resolves.toBe('{"version":"2.1.0"}');
+        await expect(decryptBackup(envelope, 'yanlış')).rejects.toThrow(BackupFormatError);
+    });
+
+    it.each([
+        { name: 'a huge', iterations: 1e12 },
+        { name: 'a tiny', iterations: 1 },
+    ])('refuse $name iteration count before deriving a key', async ({ iterations }) => {
+        const envelope = await encryptBackup('{}', 'gizli parola');
+        const crafted = { ...envelope, kdf: { ...envelope.kdf, iterations } };
+
+        expect(isEncryptedBackup(crafted)).toBe(false);
+        await expect(decryptBackup(crafted, 'gizli parola')).rejects.toThrow(
+            new BackupFormatError('Geçersiz yedekleme dosyası')
+        );
+    });
+});
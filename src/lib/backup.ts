@@ -0,0 +1,307 @@
+import {
+    AppSettings,
+    BACKUP_FORMAT_VERSION,
+    BackupData,
+    BackupDataSchema,
+    CompletionState,
+    Course,
+    EncryptedBackup,
+    EncryptedBackupSchema,
+    Habit,
+    LectureNoteFile,
+    LectureNoteMeta,
+    LIMITS,
+    PersonalTask,
+} from '../types';
+import { mergeCalendarEvents, mergePomodoroSessions, mergeQuickNotes } from './merge';
+import {
+    applyMigrations,
+    deleteSnapshot,
+    getAllFocusSessions,
+    getAllHabitLogs,
+    getAllLectureNotes,
+    getAllSnapshots,
+    getCalendarEvents,
+    getHabits,
+    getLectureNotesMeta,
+    getPomodoroSessionCounts,
+    getQuickNotes,
+    getSettings,
+    loadPlannerData,
+    replaceAllFocusSessions,
+    saveCalendarEvents,
+    saveFocusSessions,
+    saveLectureNote,
+    savePomodoroSessionCounts,
+    saveQuickNotes,
+    saveSnapshot,
+    SnapshotCounts,
+} from './storage';
+import { generateId, getToday } from './utils';
+
+// Fired on window after a restore rewrote stores that components read directly
+export const BACKUP_RESTORED_EVENT = 'planex:backup-restored';
+
+// Thrown for files that are not usable backups; the message is user-facing
+export class BackupFormatError extends Error {}
+
+export interface BackupSource {
+    courses: Course[];
+    completionState: CompletionState;
+    personalTasks: PersonalTask[];
+    lectureNotesMeta: LectureNoteMeta[];
+    habits: Habit[];
+    settings: AppSettings;
+}
+
+export interface BackupOptions {
+    includeLectureNoteFiles?: boolean;
+}
+
+// ================== BINARY ENCODING ==================
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    const chunkSize = 0x8000;
+    let binary = '';
+
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+
+    return btoa(binary);
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+
+    return bytes.buffer;
+}
+
+// ================== ENCRYPTION ==================
+
+const PBKDF2_ITERATIONS = 600_000;
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+    return EncryptedBackupSchema.safeParse(data).success;
+}
+
+export async function encryptBackup(json: string, passphrase: string): Promise<EncryptedBackup> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+
+    return {
+        format: 'planex-encrypted-backup',
+        version: 1,
+        kdf: {
+            name: 'PBKDF2',
+            hash: 'SHA-256',
+            iterations: PBKDF2_ITERATIONS,
+            salt: arrayBufferToBase64(salt.buffer),
+        },
+        cipher: {
+            name: 'AES-GCM',
+            iv: arrayBufferToBase64(iv.buffer),
+        },
+        data: arrayBufferToBase64(ciphertext),
+    };
+}
+
+/** Returns the decrypted backup JSON; a wrong passphrase fails the GCM tag check. */
+export async function decryptBackup(envelope: EncryptedBackup, passphrase: string): Promise<string> {
+    // Checked again here, as deriving the key cannot be cancelled
+    if (!isEncryptedBackup(envelope)) {
+        throw new BackupFormatError('Geçersiz yedekleme dosyası');
+    }
+
+    const salt = new Uint8Array(base64ToArrayBuffer(envelope.kdf.salt));
+    const iv = new Uint8Array(base64ToArrayBuffer(envelope.cipher.iv));
+
+    try {
+        const key = await deriveKey(passphrase, salt, envelope.kdf.iterations);
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv },
+            key,
+            base64ToArrayBuffer(envelope.data)
+        );
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        throw new BackupFormatError('Parola yanlış ya da dosya bozuk');
+    }
+}
+
+// ================== EXPORT ==================
+
+export async function createBackup(source: BackupSource, options: BackupOptions = {}): Promise<BackupData> {
+    const habitLogs = await getAllHabitLogs();
+    const focusSessions = await getAllFocusSessions();
+
+    let lectureNoteFiles: LectureNoteFile[] | undefined;
+    if (options.includeLectureNoteFiles) {
+        const notes = await getAllLectureNotes();
+        lectureNoteFiles = notes.map(note => ({
+            id: note.id,
+            courseId: note.courseId,
+            mimeType: note.mimeType,
+            dataBase64: arrayBufferToBase64(note.data),
+        }));
+    }
+
+    return {
+        version: BACKUP_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        courses: source.courses,
+        completionState: source.completionState,
+        personalTasks: source.personalTasks,
+        habits: source.habits,
+        habitLogs,
+        calendarEvents: getCalendarEvents(),
+        quickNotes: getQuickNotes(),
+        pomodoroSessions: getPomodoroSessionCounts(),
+        focusSessions,
+        settings: source.settings,
+        lectureNotesMeta: source.lectureNotesMeta,
+        lectureNoteFiles,
+    };
+}
+
+// ================== IMPORT ==================
+
+/**
+ * Validates a parsed backup file. Accepts 1.x and 2.x files; throws with a
+ * user-facing message for anything else. Settings from older files are
+ * brought up to the current shape first (every settings step is idempotent).
+ */
+export function parseBackup(data: unknown): BackupData {
+    const migrated =
+        typeof data === 'object' && data !== null && 'settings' in data
+            ? { ...data, settings: applyMigrations('SETTINGS', data.settings, 1) }
+            : data;
+    const result = BackupDataSchema.safeParse(migrated);
+    if (!result.success) {
+        throw new BackupFormatError('Geçersiz yedekleme dosyası');
+    }
+
+    const major = parseInt(result.data.version.split('.')[0], 10);
+    const supportedMajor = parseInt(BACKUP_FORMAT_VERSION.split('.')[0], 10);
+    if (Number.isNaN(major) || major > supportedMajor) {
+        throw new BackupFormatError('Bu yedek daha yeni bir uygulama sürümüyle oluşturulmuş');
+    }
+
+    return result.data;
+}
+
+/**
+ * Writes the parts of a backup that are not owned by a context provider.
+ * Collections missing from the backup (1.x files) are left as they are.
+ * In merge mode local items are kept and only new ones are added.
+ */
+export async function restoreStoredCollections(backup: BackupData, mode: 'replace' | 'merge' = 'replace'): Promise<void> {
+    const merge = mode === 'merge';
+
+    if (backup.calendarEvents) {
+        saveCalendarEvents(merge ? mergeCalendarEvents(getCalendarEvents(), backup.calendarEvents) : backup.calendarEvents);
+    }
+    if (backup.quickNotes) {
+        saveQuickNotes(merge ? mergeQuickNotes(getQuickNotes(), backup.quickNotes) : backup.quickNotes);
+    }
+    if (backup.pomodoroSessions) {
+        savePomodoroSessionCounts(
+            merge ? mergePomodoroSessions(getPomodoroSessionCounts(), backup.pomodoroSessions) : backup.pomodoroSessions
+        );
+    }
+    if (backup.focusSessions) {
+        // Sessions never change once recorded, so merging is a union by id
+        await (merge ? saveFocusSessions(backup.focusSessions) : replaceAllFocusSessions(backup.focusSessions));
+    }
+    if (backup.lectureNoteFiles) {
+        await Promise.all(
+            backup.lectureNoteFiles.map(file =>
+                saveLectureNote({
+                    id: file.id,
+                    courseId: file.courseId,
+                    mimeType: file.mimeType,
+                    data: base64ToArrayBuffer(file.dataBase64),
+                })
+            )
+        );
+    }
+
+    window.dispatchEvent(new Event(BACKUP_RESTORED_EVENT));
+}
+
+// ================== AUTOMATIC SNAPSHOTS ==================
+
+export function countBackupEntities(backup: BackupData): SnapshotCounts {
+    const units = backup.courses.flatMap(course => course.units);
+
+    return {
+        courses: backup.courses.length,
+        tasks: units.reduce((sum, unit) => sum + unit.tasks.length, 0),
+        exams: backup.courses.reduce((sum, course) => sum + course.exams.length, 0),
+        personalTasks: backup.personalTasks.length,
+        habits: backup.habits.length,
+        habitLogs: backup.habitLogs?.length ?? 0,
+    };
+}
+
+/**
+ * Stores a snapshot of the persisted state unless one was already taken
+ * today, then drops the oldest ones beyond `LIMITS.MAX_SNAPSHOTS`. PDF files
+ * are left out to keep snapshots small.
+ */
+export async function takeDailySnapshot(): Promise<boolean> {
+    const snapshots = await getAllSnapshots();
+    const today = getToday();
+
+    if (snapshots.some(snapshot => snapshot.createdAt.startsWith(today))) {
+        return false;
+    }
+
+    const { courses, completionState, personalTasks } = await loadPlannerData();
+    const backup = await createBackup({
+        courses,
+        completionState,
+        personalTasks,
+        lectureNotesMeta: getLectureNotesMeta(),
+        habits: getHabits(),
+        settings: getSettings(),
+    });
+
+    await saveSnapshot({
+        id: generateId(),
+        createdAt: backup.exportedAt,
+        counts: countBackupEntities(backup),
+        backup,
+    });
+
+    const outdated = snapshots.slice(LIMITS.MAX_SNAPSHOTS - 1);
+    await Promise.all(outdated.map(snapshot => deleteSnapshot(snapshot.id)));
+
+    return true;
+}
@@ -0,0 +1,70 @@
+import type { StorageKeyName } from './storage';
+
+// ================== CROSS-TAB MESSAGES ==================
+
+/** Storage keys plus the IndexedDB planner data, habit logs and focus sessions, which have no key of their own */
+export type CrossTabKey = StorageKeyName | 'PLANNER_DATA' | 'HABIT_LOGS' | 'FOCUS_SESSIONS';
+
+const CHANNEL_NAME = 'planex-changes';
+// Fallback for browsers without BroadcastChannel: the storage event fires
+// in every other tab when this key changes
+const PING_KEY = 'planex_crosstab_ping';
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+    if (channel === undefined) {
+        channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    }
+    return channel;
+}
+
+function isCrossTabKey(value: unknown): value is CrossTabKey {
+    return typeof value === 'string';
+}
+
+/** Tells the other open tabs that `key` was just written. */
+export function broadcastChange(key: CrossTabKey): void {
+    const activeChannel = getChannel();
+    if (activeChannel) {
+        activeChannel.postMessage({ key });
+        return;
+    }
+
+    try {
+        localStorage.setItem(PING_KEY, JSON.stringify({ key, at: Date.now() }));
+    } catch {
+        // Losing a ping only delays the other tab until its next reload
+    }
+}
+
+/**
+ * Calls `listener` when another tab changed one of `keys`. A tab never
+ * receives its own messages. Returns an unsubscribe function.
+ */
+export function subscribeToCrossTabChanges(keys: CrossTabKey[], listener: (key: CrossTabKey) => void): () => void {
+    const wanted = new Set<CrossTabKey>(keys);
+    const handle = (key: unknown) => {
+        if (isCrossTabKey(key) && wanted.has(key)) {
+            listener(key);
+        }
+    };
+
+    const activeChannel = getChannel();
+    if (activeChannel) {
+        const handleMessage = (event: MessageEvent) => handle(event.data?.key);
+        activeChannel.addEventListener('message', handleMessage);
+        return () => activeChannel.removeEventListener('message', handleMessage);
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key !== PING_KEY || !event.newValue) return;
+        try {
+            handle(JSON.parse(event.newValue).key);
+        } catch {
+            // Ignore malformed pings
+        }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+}
@@ -0,0 +1,172 @@
+import { FocusSession, FocusTarget } from '../types';
+import type { PlannerData } from './storage';
+import { formatDate } from './utils';
+
+// ================== TOTALS ==================
+
+/** Seconds of work sessions per linked entity; breaks do not count as focus time. */
+export interface FocusTotals {
+    byCourse: Record<string, number>;
+    byUnit: Record<string, number>;
+    byTask: Record<string, number>;
+    byPersonalTask: Record<string, number>;
+}
+
+function addTo(totals: Record<string, number>, id: string | undefined, seconds: number): void {
+    if (!id) return;
+    totals[id] = (totals[id] ?? 0) + seconds;
+}
+
+export function getFocusTotals(sessions: FocusSession[]): FocusTotals {
+    const totals: FocusTotals = { byCourse: {}, byUnit: {}, byTask: {}, byPersonalTask: {} };
+
+    sessions.forEach(session => {
+        if (session.mode !== 'work' || !session.target) return;
+        const { courseId, unitId, taskId, personalTaskId } = session.target;
+        addTo(totals.byCourse, courseId, session.durationSec);
+        addTo(totals.byUnit, unitId, session.durationSec);
+        addTo(totals.byTask, taskId, session.durationSec);
+        addTo(totals.byPersonalTask, personalTaskId, session.durationSec);
+    });
+
+    return totals;
+}
+
+export function formatFocusTime(seconds: number): string {
+    const totalMinutes = Math.floor(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes} dk`;
+    return minutes === 0 ? `${hours} sa` : `${hours} sa ${minutes} dk`;
+}
+
+// ================== TARGETS ==================
+
+/**
+ * Human-readable name of a target, most specific part last, e.g.
+ * "Fizik · Ünite 1 · Problem seti". Null when the target is empty or
+ * points at something that no longer exists.
+ */
+export function describeFocusTarget(target: FocusTarget | undefined, data: PlannerData): string | null {
+    if (!target) return null;
+
+    if (target.personalTaskId) {
+        return data.personalTasks.find(task => task.id === target.personalTaskId)?.text ?? null;
+    }
+
+    const course = data.courses.find(c => c.id === target.courseId);
+    if (!course) return null;
+    const parts = [course.title];
+
+    if (target.unitId) {
+        const unit = course.units.find(u => u.id === target.unitId);
+        if (!unit) return null;
+        parts.push(unit.title);
+
+        if (target.taskId) {
+            const task = unit.tasks.find(t => t.id === target.taskId);
+            if (!task) return null;
+            parts.push(task.text);
+        }
+    }
+
+    return parts.join(' · ');
+}
+
+// ================== ANALYTICS ==================
+
+export type FocusGranularity = 'day' | 'week' | 'month';
+
+export interface FocusBucket {
+    key: string; // dateISO of the day, the week's Monday, or YYYY-MM
+    seconds: number;
+}
+
+export interface FocusAnalytics {
+    totalSeconds: number;
+    activeDays: number;
+    buckets: FocusBucket[]; // oldest first; empty buckets included
+    byCourse: Array<{ courseId: string | null; seconds: number }>; // most first; null = not spent on a course
+    byHour: number[]; // 24 entries, by the local hour a session started in
+    completionRate: number | null; // share of work sessions that ran to the end; null without any
+    longestStreak: number; // most consecutive days with focus time
+}
+
+function getWeekKey(dateISO: string): string {
+    const date = new Date(`${dateISO}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return formatDate(date);
+}
+
+function getBucketKey(dateISO: string, granularity: FocusGranularity): string {
+    switch (granularity) {
+        case 'day':
+            return dateISO;
+        case 'week':
+            return getWeekKey(dateISO);
+        case 'month':
+            return dateISO.slice(0, 7);
+    }
+}
+
+/**
+ * Focus statistics over `days` (ascending dateISO list). Only work sessions
+ * count; a session belongs to the day it started on.
+ */
+export function getFocusAnalytics(
+    sessions: FocusSession[],
+    days: string[],
+    granularity: FocusGranularity
+): FocusAnalytics {
+    const inRange = new Set(days);
+    const byDay = new Map<string, number>();
+    const byCourse = new Map<string | null, number>();
+    const byHour = new Array<number>(24).fill(0);
+    let totalSeconds = 0;
+    let finished = 0;
+    let worked = 0;
+
+    sessions.forEach(session => {
+        if (session.mode !== 'work') return;
+        const dateISO = formatDate(session.startedAt);
+        if (!inRange.has(dateISO)) return;
+
+        worked++;
+        if (!session.interrupted) finished++;
+
+        totalSeconds += session.durationSec;
+        byDay.set(dateISO, (byDay.get(dateISO) ?? 0) + session.durationSec);
+        const courseId = session.target?.courseId ?? null;
+        byCourse.set(courseId, (byCourse.get(courseId) ?? 0) + session.durationSec);
+        byHour[new Date(session.startedAt).getHours()] += session.durationSec;
+    });
+
+    const buckets: FocusBucket[] = [];
+    let streak = 0;
+    let longestStreak = 0;
+    days.forEach(dateISO => {
+        const seconds = byDay.get(dateISO) ?? 0;
+        const key = getBucketKey(dateISO, granularity);
+        const last = buckets[buckets.length - 1];
+        if (last?.key === key) {
+            last.seconds += seconds;
+        } else {
+            buckets.push({ key, seconds });
+        }
+
+        streak = seconds > 0 ? streak + 1 : 0;
+        longestStreak = Math.max(longestStreak, streak);
+    });
+
+    return {
+        totalSeconds,
+        activeDays: byDay.size,
+        buckets,
+        byCourse: Array.from(byCourse, ([courseId, seconds]) => ({ courseId, seconds })).sort(
+            (a, b) => b.seconds - a.seconds
+        ),
+        byHour,
+        completionRate: worked > 0 ? finished / worked : null,
+        longestStreak,
+    };
+}
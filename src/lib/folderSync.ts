@@ -0,0 +1,176 @@
+import { AppSettings, BACKUP_FORMAT_VERSION, BackupData, LectureNoteMeta } from '../types';
+import { parseBackup } from './backup';
+import { backupToMergeSide, isSameMergeSide, MergeSide } from './merge';
+import {
+    deleteSyncState,
+    getAllFocusSessions,
+    getCalendarEvents,
+    getPomodoroSessionCounts,
+    getQuickNotes,
+    getSyncState,
+    saveSyncState,
+} from './storage';
+
+// ================== TYPES ==================
+
+type PermissionDescriptor = { mode: 'read' | 'readwrite' };
+
+// Permission methods are not in the DOM typings yet
+export interface SyncDirectoryHandle extends FileSystemDirectoryHandle {
+    queryPermission(descriptor: PermissionDescriptor): Promise<PermissionState>;
+    requestPermission(descriptor: PermissionDescriptor): Promise<PermissionState>;
+}
+
+declare global {
+    interface Window {
+        showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+    }
+}
+
+export interface SyncFile {
+    backup: BackupData;
+    lastModified: number;
+}
+
+export const SYNC_FILE_NAME = 'planex-sync.json';
+
+const HANDLE_KEY = 'folderHandle';
+const BASE_KEY = 'folderBase';
+const READWRITE: PermissionDescriptor = { mode: 'readwrite' };
+
+// ================== FOLDER HANDLE ==================
+
+export function isFolderSyncSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+}
+
+/** Asks the user for a folder and remembers it. Must run from a user gesture. */
+export async function chooseSyncFolder(): Promise<SyncDirectoryHandle> {
+    if (!window.showDirectoryPicker) {
+        throw new Error('File System Access API is not available');
+    }
+
+    const handle = (await window.showDirectoryPicker({ id: 'planex-sync', mode: 'readwrite' })) as SyncDirectoryHandle;
+    await saveSyncState(HANDLE_KEY, handle);
+    // A different folder has a different history
+    await deleteSyncState(BASE_KEY);
+    return handle;
+}
+
+export async function getSyncFolder(): Promise<SyncDirectoryHandle | null> {
+    return getSyncState<SyncDirectoryHandle>(HANDLE_KEY);
+}
+
+export async function forgetSyncFolder(): Promise<void> {
+    await deleteSyncState(HANDLE_KEY);
+    await deleteSyncState(BASE_KEY);
+}
+
+/**
+ * Checks write access to the folder. Browsers drop the grant between
+ * sessions, so `request` should only be set from a user gesture.
+ */
+export async function hasFolderPermission(handle: SyncDirectoryHandle, request = false): Promise<boolean> {
+    if ((await handle.queryPermission(READWRITE)) === 'granted') {
+        return true;
+    }
+    if (!request) {
+        return false;
+    }
+    return (await handle.requestPermission(READWRITE)) === 'granted';
+}
+
+// ================== SYNC FILE ==================
+
+/** Reads the shared sync file; returns null when no device has written it yet. */
+export async function readSyncFile(handle: FileSystemDirectoryHandle): Promise<SyncFile | null> {
+    let fileHandle: FileSystemFileHandle;
+    try {
+        fileHandle = await handle.getFileHandle(SYNC_FILE_NAME);
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'NotFoundError') {
+            return null;
+        }
+        throw error;
+    }
+
+    const file = await fileHandle.getFile();
+    return {
+        backup: parseBackup(JSON.parse(await file.text())),
+        lastModified: file.lastModified,
+    };
+}
+
+/** Returns the sync file's modification time without parsing it, or null when missing. */
+export async function getSyncFileModified(handle: FileSystemDirectoryHandle): Promise<number | null> {
+    try {
+        const fileHandle = await handle.getFileHandle(SYNC_FILE_NAME);
+        return (await fileHandle.getFile()).lastModified;
+    } catch {
+        return null;
+    }
+}
+
+export async function writeSyncFile(handle: FileSystemDirectoryHandle, backup: BackupData): Promise<number> {
+    const fileHandle = await handle.getFileHandle(SYNC_FILE_NAME, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(JSON.stringify(backup));
+    await writable.close();
+    return (await fileHandle.getFile()).lastModified;
+}
+
+// ================== MERGE BASE ==================
+
+/** The last state both this device and the folder agreed on. */
+export async function getSyncBase(): Promise<BackupData | null> {
+    return getSyncState<BackupData>(BASE_KEY);
+}
+
+export async function saveSyncBase(backup: BackupData): Promise<void> {
+    await saveSyncState(BASE_KEY, backup);
+}
+
+// ================== PAYLOAD ==================
+
+/** Builds the file contents from merged data plus the locally stored collections. */
+export async function buildSyncBackup(
+    merged: MergeSide,
+    lectureNotesMeta: LectureNoteMeta[],
+    settings: AppSettings
+): Promise<BackupData> {
+    return {
+        version: BACKUP_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        courses: merged.courses,
+        completionState: merged.completionState,
+        personalTasks: merged.personalTasks,
+        habits: merged.habits,
+        habitLogs: merged.habitLogs,
+        calendarEvents: getCalendarEvents(),
+        quickNotes: getQuickNotes(),
+        pomodoroSessions: getPomodoroSessionCounts(),
+        focusSessions: await getAllFocusSessions(),
+        settings,
+        lectureNotesMeta,
+    };
+}
+
+/** True when writing `next` would not change the synced data in `current`. Settings are not synced. */
+export function isSyncFileCurrent(next: BackupData, current: BackupData): boolean {
+    const collections = (backup: BackupData) => JSON.stringify([
+        backup.calendarEvents ?? [],
+        backup.quickNotes ?? [],
+        backup.pomodoroSessions ?? {},
+        [...(backup.focusSessions ?? [])].sort((a, b) => a.id.localeCompare(b.id)),
+        backup.lectureNotesMeta ?? [],
+    ]);
+
+    const nextSide: MergeSide = {
+        courses: next.courses,
+        completionState: next.completionState,
+        personalTasks: next.personalTasks,
+        habits: next.habits,
+        habitLogs: next.habitLogs ?? [],
+    };
+    return isSameMergeSide(nextSide, backupToMergeSide(current, nextSide)) && collections(next) === collections(current);
+}
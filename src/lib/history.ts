@@ -0,0 +1,348 @@
+import {
+    Course,
+    Habit,
+    HabitLog,
+    HabitsChangeSet,
+    LIMITS,
+    PersonalTask,
+    PlannerChangeSet,
+    Task,
+} from '../types';
+import type { PlannerData } from './storage';
+import { generateId } from './utils';
+
+// ================== HISTORY STACK ==================
+
+export interface HistoryEntry<T> {
+    id: string;
+    label: string;
+    at: string;
+    changes: T;
+}
+
+export interface HistoryStack<T> {
+    past: HistoryEntry<T>[];
+    future: HistoryEntry<T>[];
+}
+
+export type HistorySide = 'before' | 'after';
+
+export interface HistoryChange<S> {
+    id: string;
+    before: S | null;
+    after: S | null;
+}
+
+export function isEmptyChangeSet(changes: object): boolean {
+    return Object.values(changes).every((list: unknown[]) => list.length === 0);
+}
+
+// Actions may bring the id their history entry gets, so the caller can
+// point an undo button at exactly that entry
+export type RecordedAction<A> = A & { historyId?: string };
+
+/** Adds a command to the history; a new command drops everything that was undone. */
+export function recordHistory<T>(
+    stack: HistoryStack<T>,
+    label: string,
+    changes: T,
+    id: string = generateId()
+): HistoryStack<T> {
+    const entry: HistoryEntry<T> = { id, label, at: new Date().toISOString(), changes };
+    return {
+        past: [...stack.past.slice(-LIMITS.MAX_UNDO_STACK + 1), entry],
+        future: [],
+    };
+}
+
+export function moveToFuture<T>(stack: HistoryStack<T>): HistoryStack<T> {
+    const entry = stack.past[stack.past.length - 1];
+    return entry ? { past: stack.past.slice(0, -1), future: [...stack.future, entry] } : stack;
+}
+
+export function moveToPast<T>(stack: HistoryStack<T>): HistoryStack<T> {
+    const entry = stack.future[stack.future.length - 1];
+    return entry ? { past: [...stack.past, entry], future: stack.future.slice(0, -1) } : stack;
+}
+
+// ================== LIST HELPERS ==================
+
+interface Indexed {
+    index: number;
+}
+
+// Reducers keep untouched objects, so an item that kept its identity and
+// position did not change
+function diffList<T, S extends Indexed>(
+    prev: T[],
+    next: T[],
+    getId: (item: T) => string,
+    toSide: (item: T, index: number) => S
+): HistoryChange<S>[] {
+    const prevById = new Map(prev.map((item, index) => [getId(item), { item, index }]));
+    const changes: HistoryChange<S>[] = [];
+
+    next.forEach((item, index) => {
+        const id = getId(item);
+        const before = prevById.get(id);
+        prevById.delete(id);
+        if (before?.item === item && before.index === index) return;
+        changes.push({ id, before: before ? toSide(before.item, before.index) : null, after: toSide(item, index) });
+    });
+    prevById.forEach(({ item, index }, id) => {
+        changes.push({ id, before: toSide(item, index), after: null });
+    });
+
+    return changes;
+}
+
+// Removes every changed item, then inserts the wanted side in index order
+function applyListChanges<T, S extends Indexed>(
+    items: T[],
+    changes: HistoryChange<S>[],
+    side: HistorySide,
+    getId: (item: T) => string,
+    fromSide: (value: S) => T
+): T[] {
+    if (changes.length === 0) return items;
+
+    const changedIds = new Set(changes.map(change => change.id));
+    const result = items.filter(item => !changedIds.has(getId(item)));
+    changes
+        .map(change => change[side])
+        .filter((value): value is S => value !== null)
+        .sort((a, b) => a.index - b.index)
+        .forEach(value => result.splice(Math.min(value.index, result.length), 0, fromSide(value)));
+
+    return result;
+}
+
+// ================== PLANNER CHANGES ==================
+
+type PlannerTaskSide = NonNullable<PlannerChangeSet['tasks'][number]['before']>;
+type CompletionSide = NonNullable<PlannerChangeSet['completions'][number]['before']>;
+
+function toCourseShell(course: Course): Course {
+    return { ...course, units: course.units.map(unit => ({ ...unit, tasks: [] })) };
+}
+
+function getTaskSides(course: Course): Map<string, PlannerTaskSide> {
+    const sides = new Map<string, PlannerTaskSide>();
+    course.units.forEach(unit => {
+        unit.tasks.forEach((task, index) => {
+            sides.set(task.id, { courseId: course.id, unitId: unit.id, index, task });
+        });
+    });
+    return sides;
+}
+
+function getCompletionSides(data: PlannerData): Map<string, CompletionSide> {
+    const { completedTaskIds, completionHistory } = data.completionState;
+    const completed = new Set(completedTaskIds);
+    const sides = new Map<string, CompletionSide>();
+    new Set([...completedTaskIds, ...Object.keys(completionHistory)]).forEach(taskId => {
+        sides.set(taskId, { completed: completed.has(taskId), completedAt: completionHistory[taskId] });
+    });
+    return sides;
+}
+
+export function diffPlannerData(prev: PlannerData, next: PlannerData): PlannerChangeSet {
+    const courses = diffList(prev.courses, next.courses, c => c.id, (course, index) => ({
+        index,
+        course: toCourseShell(course),
+    }));
+
+    // Tasks only need comparing inside courses that changed
+    const prevTasks = new Map<string, PlannerTaskSide>();
+    const nextTasks = new Map<string, PlannerTaskSide>();
+    const prevCourses = new Map(prev.courses.map(course => [course.id, course]));
+    const nextCourses = new Map(next.courses.map(course => [course.id, course]));
+    courses.forEach(({ id }) => {
+        const before = prevCourses.get(id);
+        const after = nextCourses.get(id);
+        if (before === after) return;
+        if (before) getTaskSides(before).forEach((side, taskId) => prevTasks.set(taskId, side));
+        if (after) getTaskSides(after).forEach((side, taskId) => nextTasks.set(taskId, side));
+    });
+
+    const tasks: PlannerChangeSet['tasks'] = [];
+    nextTasks.forEach((after, taskId) => {
+        const before = prevTasks.get(taskId) ?? null;
+        prevTasks.delete(taskId);
+        if (
+            before?.task === after.task &&
+            before.courseId === after.courseId &&
+            before.unitId === after.unitId &&
+            before.index === after.index
+        ) {
+            return;
+        }
+        tasks.push({ id: taskId, before, after });
+    });
+    prevTasks.forEach((before, taskId) => tasks.push({ id: taskId, before, after: null }));
+
+    const completions: PlannerChangeSet['completions'] = [];
+    if (prev.completionState !== next.completionState) {
+        const prevSides = getCompletionSides(prev);
+        getCompletionSides(next).forEach((after, taskId) => {
+            const before = prevSides.get(taskId) ?? null;
+            prevSides.delete(taskId);
+            if (before?.completed === after.completed && before.completedAt === after.completedAt) return;
+            completions.push({ id: taskId, before, after });
+        });
+        prevSides.forEach((before, taskId) => completions.push({ id: taskId, before, after: null }));
+    }
+
+    return {
+        courses,
+        tasks,
+        personalTasks: diffList(prev.personalTasks, next.personalTasks, t => t.id, (task, index) => ({ index, task })),
+        completions,
+    };
+}
+
+function updateUnitTasks(
+    courses: Course[],
+    courseId: string,
+    unitId: string,
+    update: (tasks: Task[]) => Task[]
+): Course[] {
+    return courses.map(course =>
+        course.id === courseId
+            ? {
+                ...course,
+                units: course.units.map(unit => (unit.id === unitId ? { ...unit, tasks: update(unit.tasks) } : unit)),
+            }
+            : course
+    );
+}
+
+/**
+ * Puts every entity of a change set back to one side. Restored entities get
+ * a fresh `updatedAt` so sync treats the undo as the newest edit.
+ */
+export function applyPlannerChanges(data: PlannerData, changes: PlannerChangeSet, side: HistorySide): PlannerData {
+    const now = new Date().toISOString();
+
+    // Course shells keep the tasks their units currently hold
+    const currentTasks = new Map<string, Task[]>();
+    data.courses.forEach(course => {
+        course.units.forEach(unit => currentTasks.set(`${course.id}|${unit.id}`, unit.tasks));
+    });
+    let courses = applyListChanges(data.courses, changes.courses, side, c => c.id, ({ course }) => ({
+        ...course,
+        units: course.units.map(unit => ({ ...unit, tasks: currentTasks.get(`${course.id}|${unit.id}`) ?? [] })),
+        updatedAt: now,
+    }));
+
+    // Tasks: take each changed task out of wherever it is now, then insert the wanted side
+    const changedTaskIds = new Set(changes.tasks.map(change => change.id));
+    if (changedTaskIds.size > 0) {
+        courses = courses.map(course =>
+            course.units.some(unit => unit.tasks.some(task => changedTaskIds.has(task.id)))
+                ? {
+                    ...course,
+                    units: course.units.map(unit => ({
+                        ...unit,
+                        tasks: unit.tasks.filter(task => !changedTaskIds.has(task.id)),
+                    })),
+                }
+                : course
+        );
+        changes.tasks
+            .map(change => change[side])
+            .filter((value): value is PlannerTaskSide => value !== null)
+            .sort((a, b) => a.index - b.index)
+            .forEach(({ courseId, unitId, index, task }) => {
+                courses = updateUnitTasks(courses, courseId, unitId, tasks => {
+                    const next = [...tasks];
+                    next.splice(Math.min(index, next.length), 0, { ...task, updatedAt: now });
+                    return next;
+                });
+            });
+    }
+
+    let { completedTaskIds, completionHistory } = data.completionState;
+    if (changes.completions.length > 0) {
+        const changedIds = new Set(changes.completions.map(change => change.id));
+        completedTaskIds = completedTaskIds.filter(id => !changedIds.has(id));
+        completionHistory = { ...completionHistory };
+        changes.completions.forEach(change => {
+            delete completionHistory[change.id];
+            const value = change[side];
+            if (value?.completed) completedTaskIds.push(change.id);
+            if (value?.completedAt) completionHistory[change.id] = value.completedAt;
+        });
+    }
+
+    return {
+        courses,
+        completionState:
+            changes.completions.length > 0 ? { completedTaskIds, completionHistory } : data.completionState,
+        personalTasks: applyListChanges(
+            data.personalTasks,
+            changes.personalTasks,
+            side,
+            (t: PersonalTask) => t.id,
+            ({ task }) => ({ ...task, updatedAt: now })
+        ),
+    };
+}
+
+// ================== HABITS CHANGES ==================
+
+export interface HabitsData {
+    habits: Habit[];
+    habitLogs: Map<string, HabitLog[]>; // habitId -> logs
+}
+
+function habitLogId(log: HabitLog): string {
+    return `${log.habitId}|${log.dateISO}`;
+}
+
+export function diffHabitsData(prev: HabitsData, next: HabitsData): HabitsChangeSet {
+    const habitLogs: HabitsChangeSet['habitLogs'] = [];
+    const habitIds = new Set([...prev.habitLogs.keys(), ...next.habitLogs.keys()]);
+
+    habitIds.forEach(habitId => {
+        const prevLogs = prev.habitLogs.get(habitId) || [];
+        const nextLogs = next.habitLogs.get(habitId) || [];
+        if (prevLogs === nextLogs) return;
+
+        const prevById = new Map(prevLogs.map(log => [habitLogId(log), log]));
+        nextLogs.forEach(log => {
+            const id = habitLogId(log);
+            const before = prevById.get(id) ?? null;
+            prevById.delete(id);
+            if (before !== log) habitLogs.push({ id, before, after: log });
+        });
+        prevById.forEach((before, id) => habitLogs.push({ id, before, after: null }));
+    });
+
+    return {
+        habits: diffList(prev.habits, next.habits, h => h.id, (habit, index) => ({ index, habit })),
+        habitLogs,
+    };
+}
+
+export function applyHabitsChanges(data: HabitsData, changes: HabitsChangeSet, side: HistorySide): HabitsData {
+    const now = new Date().toISOString();
+    const habits = applyListChanges(data.habits, changes.habits, side, h => h.id, ({ habit }) => ({
+        ...habit,
+        updatedAt: now,
+    }));
+
+    if (changes.habitLogs.length === 0) {
+        return { habits, habitLogs: data.habitLogs };
+    }
+
+    const habitLogs = new Map(data.habitLogs);
+    changes.habitLogs.forEach(change => {
+        const habitId = (change.before ?? change.after)!.habitId;
+        const logs = (habitLogs.get(habitId) || []).filter(log => habitLogId(log) !== change.id);
+        const value = change[side];
+        habitLogs.set(habitId, value ? [...logs, value] : logs);
+    });
+
+    return { habits, habitLogs };
+}
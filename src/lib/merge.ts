@@ -0,0 +1,523 @@
+import type {
+    BackupData,
+    CalendarEvent,
+    CompletionState,
+    Course,
+    Exam,
+    Habit,
+    HabitLog,
+    PersonalTask,
+    PomodoroSessionCounts,
+    QuickNote,
+    Task,
+    Unit,
+} from '../types';
+
+// ================== TYPES ==================
+
+export type MergeEntityType = 'course' | 'unit' | 'task' | 'exam' | 'personalTask' | 'habit' | 'habitLog';
+
+export type MergeStrategy = 'keepMine' | 'takeTheirs' | 'newestWins';
+
+export type MergeStrategies = Record<MergeEntityType, MergeStrategy>;
+
+export type ChangeKind = 'added' | 'changed' | 'deleted';
+
+export interface EntityChange {
+    entityType: MergeEntityType;
+    id: string;
+    kind: ChangeKind;
+    title: string;
+    context?: string;
+    mineUpdatedAt?: string;
+    theirsUpdatedAt?: string;
+}
+
+export type BackupDiff = Record<MergeEntityType, EntityChange[]>;
+
+/** The data a merge works on, for either side */
+export interface MergeSide {
+    courses: Course[];
+    completionState: CompletionState;
+    personalTasks: PersonalTask[];
+    habits: Habit[];
+    habitLogs: HabitLog[];
+}
+
+export const MERGE_ENTITY_TYPES: MergeEntityType[] = [
+    'course',
+    'unit',
+    'task',
+    'exam',
+    'personalTask',
+    'habit',
+    'habitLog',
+];
+
+export const DEFAULT_MERGE_STRATEGIES: MergeStrategies = {
+    course: 'newestWins',
+    unit: 'newestWins',
+    task: 'newestWins',
+    exam: 'newestWins',
+    personalTask: 'newestWins',
+    habit: 'newestWins',
+    habitLog: 'newestWins',
+};
+
+// ================== HELPERS ==================
+
+interface Keyed {
+    id: string;
+}
+
+type Side = 'mine' | 'theirs';
+
+function habitLogKey(log: HabitLog): string {
+    return `${log.habitId}|${log.dateISO}`;
+}
+
+function withLogIds(logs: HabitLog[]): Array<HabitLog & Keyed> {
+    return logs.map(log => ({ ...log, id: habitLogKey(log) }));
+}
+
+function stripLogId(log: HabitLog & Keyed): HabitLog {
+    return {
+        habitId: log.habitId,
+        dateISO: log.dateISO,
+        done: log.done,
+        value: log.value,
+        entries: log.entries,
+        skipped: log.skipped,
+        timestamp: log.timestamp,
+    };
+}
+
+// Course and unit fields without their nested lists, for change detection
+function courseShell(course: Course): unknown {
+    return { ...course, units: undefined, exams: undefined };
+}
+
+function unitShell(unit: Unit): unknown {
+    return { ...unit, tasks: undefined };
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function pickWinner<T>(
+    strategy: MergeStrategy,
+    mine: T,
+    theirs: T,
+    getUpdatedAt: (item: T) => string | undefined
+): Side {
+    if (strategy === 'keepMine') return 'mine';
+    if (strategy === 'takeTheirs') return 'theirs';
+
+    const mineTime = getUpdatedAt(mine);
+    const theirsTime = getUpdatedAt(theirs);
+    if (!mineTime || !theirsTime) return 'mine';
+    return theirsTime > mineTime ? 'theirs' : 'mine';
+}
+
+/**
+ * Decides whether an entity that only exists locally survives the merge.
+ * With newest-wins it is kept when it was touched after the backup was
+ * exported (created here later); otherwise it is treated as deleted there.
+ * Entities without a timestamp are always kept.
+ */
+function keepLocalOnly(strategy: MergeStrategy, updatedAt: string | undefined, exportedAt: string): boolean {
+    if (strategy === 'keepMine') return true;
+    if (strategy === 'takeTheirs') return false;
+    return !updatedAt || updatedAt > exportedAt;
+}
+
+interface MergeListOptions<T extends Keyed> {
+    strategy: MergeStrategy;
+    exportedAt: string;
+    getUpdatedAt: (item: T) => string | undefined;
+    mergeChildren?: (mine: T, theirs: T, winner: T) => T;
+    onPick?: (item: T, side: Side) => void;
+}
+
+function mergeById<T extends Keyed>(mine: T[], theirs: T[], options: MergeListOptions<T>): T[] {
+    const { strategy, exportedAt, getUpdatedAt, mergeChildren, onPick } = options;
+    const theirsById = new Map(theirs.map(item => [item.id, item]));
+    const mineIds = new Set(mine.map(item => item.id));
+    const result: T[] = [];
+
+    mine.forEach(mineItem => {
+        const theirsItem = theirsById.get(mineItem.id);
+
+        if (!theirsItem) {
+            if (keepLocalOnly(strategy, getUpdatedAt(mineItem), exportedAt)) {
+                result.push(mineItem);
+                onPick?.(mineItem, 'mine');
+            }
+            return;
+        }
+
+        const side = pickWinner(strategy, mineItem, theirsItem, getUpdatedAt);
+        const winner = side === 'mine' ? mineItem : theirsItem;
+        const merged = mergeChildren ? mergeChildren(mineItem, theirsItem, winner) : winner;
+        result.push(merged);
+        onPick?.(merged, side);
+    });
+
+    theirs.forEach(theirsItem => {
+        if (mineIds.has(theirsItem.id)) return;
+        result.push(theirsItem);
+        onPick?.(theirsItem, 'theirs');
+    });
+
+    return result;
+}
+
+function diffById<T extends Keyed>(
+    entityType: MergeEntityType,
+    mine: T[],
+    theirs: T[],
+    describe: (item: T) => { title: string; context?: string },
+    compareShape: (item: T) => unknown,
+    getUpdatedAt: (item: T) => string | undefined
+): EntityChange[] {
+    const theirsById = new Map(theirs.map(item => [item.id, item]));
+    const mineIds = new Set(mine.map(item => item.id));
+    const changes: EntityChange[] = [];
+
+    mine.forEach(mineItem => {
+        const theirsItem = theirsById.get(mineItem.id);
+        if (!theirsItem) {
+            changes.push({
+                entityType,
+                id: mineItem.id,
+                kind: 'deleted',
+                ...describe(mineItem),
+                mineUpdatedAt: getUpdatedAt(mineItem),
+            });
+        } else if (!isSame(compareShape(mineItem), compareShape(theirsItem))) {
+            changes.push({
+                entityType,
+                id: mineItem.id,
+                kind: 'changed',
+                ...describe(theirsItem),
+                mineUpdatedAt: getUpdatedAt(mineItem),
+                theirsUpdatedAt: getUpdatedAt(theirsItem),
+            });
+        }
+    });
+
+    theirs.forEach(theirsItem => {
+        if (mineIds.has(theirsItem.id)) return;
+        changes.push({
+            entityType,
+            id: theirsItem.id,
+            kind: 'added',
+            ...describe(theirsItem),
+            theirsUpdatedAt: getUpdatedAt(theirsItem),
+        });
+    });
+
+    return changes;
+}
+
+// ================== DIFF ==================
+
+/** 1.x backups carry no habit logs; the current logs stand in so none look deleted. */
+export function backupToMergeSide(backup: BackupData, current: MergeSide): MergeSide {
+    return {
+        courses: backup.courses,
+        completionState: backup.completionState,
+        personalTasks: backup.personalTasks,
+        habits: backup.habits,
+        habitLogs: backup.habitLogs ?? current.habitLogs,
+    };
+}
+
+/** Lists what differs between the current data and an incoming backup, by entity type. */
+export function diffBackup(mine: MergeSide, theirs: MergeSide): BackupDiff {
+    const diff: BackupDiff = {
+        course: [],
+        unit: [],
+        task: [],
+        exam: [],
+        personalTask: [],
+        habit: [],
+        habitLog: [],
+    };
+
+    diff.course = diffById(
+        'course',
+        mine.courses,
+        theirs.courses,
+        c => ({ title: c.title }),
+        courseShell,
+        c => c.updatedAt
+    );
+
+    // Nested entities are compared inside courses present on both sides;
+    // children of added or deleted courses are covered by the course entry.
+    const theirsCourses = new Map(theirs.courses.map(c => [c.id, c]));
+    mine.courses.forEach(mineCourse => {
+        const theirsCourse = theirsCourses.get(mineCourse.id);
+        if (!theirsCourse) return;
+
+        diff.unit.push(...diffById(
+            'unit',
+            mineCourse.units,
+            theirsCourse.units,
+            u => ({ title: u.title, context: mineCourse.title }),
+            unitShell,
+            () => undefined
+        ));
+
+        diff.exam.push(...diffById<Exam>(
+            'exam',
+            mineCourse.exams,
+            theirsCourse.exams,
+            e => ({ title: e.title, context: mineCourse.title }),
+            e => e,
+            () => undefined
+        ));
+
+        const theirsUnits = new Map(theirsCourse.units.map(u => [u.id, u]));
+        mineCourse.units.forEach(mineUnit => {
+            const theirsUnit = theirsUnits.get(mineUnit.id);
+            if (!theirsUnit) return;
+
+            diff.task.push(...diffById<Task>(
+                'task',
+                mineUnit.tasks,
+                theirsUnit.tasks,
+                t => ({ title: t.text, context: `${mineCourse.title} / ${mineUnit.title}` }),
+                t => t,
+                t => t.updatedAt
+            ));
+        });
+    });
+
+    diff.personalTask = diffById(
+        'personalTask',
+        mine.personalTasks,
+        theirs.personalTasks,
+        t => ({ title: t.text }),
+        t => t,
+        t => t.updatedAt
+    );
+
+    diff.habit = diffById(
+        'habit',
+        mine.habits,
+        theirs.habits,
+        h => ({ title: `${h.emoji} ${h.title}` }),
+        h => h,
+        h => h.updatedAt
+    );
+
+    const habitTitles = new Map([...theirs.habits, ...mine.habits].map(h => [h.id, h.title]));
+    diff.habitLog = diffById(
+        'habitLog',
+        withLogIds(mine.habitLogs),
+        withLogIds(theirs.habitLogs),
+        l => ({ title: l.dateISO, context: habitTitles.get(l.habitId) }),
+        l => ({ done: l.done, value: l.value, entries: l.entries, skipped: l.skipped }),
+        l => l.timestamp
+    );
+
+    return diff;
+}
+
+// ================== MERGE ==================
+
+/**
+ * Merges an incoming backup into the current data. Each entity type follows
+ * its own strategy; nested entities are merged inside the winning course.
+ */
+export function mergeBackup(mine: MergeSide, theirs: MergeSide, strategies: MergeStrategies, exportedAt: string): MergeSide {
+    const taskOrigins = new Map<string, Side>();
+
+    const mergeUnit = (mineUnit: Unit, theirsUnit: Unit, winner: Unit): Unit => ({
+        ...winner,
+        tasks: mergeById(mineUnit.tasks, theirsUnit.tasks, {
+            strategy: strategies.task,
+            exportedAt,
+            getUpdatedAt: t => t.updatedAt,
+            onPick: (task, side) => taskOrigins.set(task.id, side),
+        }),
+    });
+
+    const mergeCourse = (mineCourse: Course, theirsCourse: Course, winner: Course): Course => ({
+        ...winner,
+        units: mergeById(mineCourse.units, theirsCourse.units, {
+            strategy: strategies.unit,
+            exportedAt,
+            getUpdatedAt: () => undefined,
+            mergeChildren: mergeUnit,
+        }),
+        exams: mergeById(mineCourse.exams, theirsCourse.exams, {
+            strategy: strategies.exam,
+            exportedAt,
+            getUpdatedAt: () => undefined,
+        }),
+    });
+
+    const courses = mergeById(mine.courses, theirs.courses, {
+        strategy: strategies.course,
+        exportedAt,
+        getUpdatedAt: c => c.updatedAt,
+        mergeChildren: mergeCourse,
+        onPick: (course, side) => {
+            // Whole courses taken from one side bring their tasks along
+            course.units.forEach(unit => unit.tasks.forEach(task => {
+                if (!taskOrigins.has(task.id)) taskOrigins.set(task.id, side);
+            }));
+        },
+    });
+
+    // Completion state follows the side each task was taken from
+    const completedTaskIds: string[] = [];
+    const completionHistory: Record<string, string> = {};
+    courses.forEach(course => course.units.forEach(unit => unit.tasks.forEach(task => {
+        const source = taskOrigins.get(task.id) === 'theirs' ? theirs.completionState : mine.completionState;
+        if (source.completedTaskIds.includes(task.id)) {
+            completedTaskIds.push(task.id);
+        }
+        if (source.completionHistory[task.id]) {
+            completionHistory[task.id] = source.completionHistory[task.id];
+        }
+    })));
+
+    const personalTasks = mergeById(mine.personalTasks, theirs.personalTasks, {
+        strategy: strategies.personalTask,
+        exportedAt,
+        getUpdatedAt: t => t.updatedAt,
+    });
+
+    const habits = mergeById(mine.habits, theirs.habits, {
+        strategy: strategies.habit,
+        exportedAt,
+        getUpdatedAt: h => h.updatedAt,
+    });
+
+    const habitIds = new Set(habits.map(h => h.id));
+    const habitLogs = mergeById(withLogIds(mine.habitLogs), withLogIds(theirs.habitLogs), {
+        strategy: strategies.habitLog,
+        exportedAt,
+        getUpdatedAt: l => l.timestamp,
+    })
+        .filter(log => habitIds.has(log.habitId))
+        .map(stripLogId);
+
+    return {
+        courses,
+        completionState: { completedTaskIds, completionHistory },
+        personalTasks,
+        habits,
+        habitLogs,
+    };
+}
+
+// ================== THREE-WAY MERGE ==================
+
+function collectIds(side: MergeSide): Set<string> {
+    const ids = new Set<string>();
+    side.courses.forEach(course => {
+        ids.add(course.id);
+        course.exams.forEach(exam => ids.add(exam.id));
+        course.units.forEach(unit => {
+            ids.add(unit.id);
+            unit.tasks.forEach(task => ids.add(task.id));
+        });
+    });
+    side.personalTasks.forEach(task => ids.add(task.id));
+    side.habits.forEach(habit => ids.add(habit.id));
+    side.habitLogs.forEach(log => ids.add(habitLogKey(log)));
+    return ids;
+}
+
+function withoutIds(side: MergeSide, ids: Set<string>): MergeSide {
+    const keep = (id: string) => !ids.has(id);
+    return {
+        ...side,
+        courses: side.courses.filter(course => keep(course.id)).map(course => ({
+            ...course,
+            exams: course.exams.filter(exam => keep(exam.id)),
+            units: course.units.filter(unit => keep(unit.id)).map(unit => ({
+                ...unit,
+                tasks: unit.tasks.filter(task => keep(task.id)),
+            })),
+        })),
+        personalTasks: side.personalTasks.filter(task => keep(task.id)),
+        habits: side.habits.filter(habit => keep(habit.id)),
+        habitLogs: side.habitLogs.filter(log => keep(habitLogKey(log))),
+    };
+}
+
+/**
+ * Merges two copies that share a common ancestor, as used by sync. Entities
+ * that were in the base but are gone on one side count as deleted there and
+ * are dropped from the other; the rest is merged newest-wins. Without a base
+ * nothing is treated as deleted.
+ */
+export function mergeWithBase(mine: MergeSide, theirs: MergeSide, base: MergeSide | null): MergeSide {
+    if (!base) {
+        return mergeBackup(mine, theirs, DEFAULT_MERGE_STRATEGIES, '');
+    }
+
+    const baseIds = collectIds(base);
+    const mineIds = collectIds(mine);
+    const theirsIds = collectIds(theirs);
+    const deletedHere = new Set([...baseIds].filter(id => !mineIds.has(id)));
+    const deletedThere = new Set([...baseIds].filter(id => !theirsIds.has(id)));
+
+    return mergeBackup(
+        withoutIds(mine, deletedThere),
+        withoutIds(theirs, deletedHere),
+        DEFAULT_MERGE_STRATEGIES,
+        ''
+    );
+}
+
+// Log and completion order carry no meaning, so they are sorted before comparing
+function normalizeSide(side: MergeSide): unknown {
+    return {
+        ...side,
+        completionState: {
+            completedTaskIds: [...side.completionState.completedTaskIds].sort(),
+            completionHistory: Object.fromEntries(Object.entries(side.completionState.completionHistory).sort()),
+        },
+        habitLogs: [...side.habitLogs].sort((a, b) => habitLogKey(a).localeCompare(habitLogKey(b))),
+    };
+}
+
+export function isSameMergeSide(a: MergeSide, b: MergeSide): boolean {
+    return isSame(normalizeSide(a), normalizeSide(b));
+}
+
+// ================== STORED COLLECTIONS ==================
+
+/** Union of local and incoming items; local copies win on id clashes. */
+export function unionById<T extends Keyed>(mine: T[], theirs: T[]): T[] {
+    const mineIds = new Set(mine.map(item => item.id));
+    return [...mine, ...theirs.filter(item => !mineIds.has(item.id))];
+}
+
+export function mergeCalendarEvents(mine: CalendarEvent[], theirs: CalendarEvent[]): CalendarEvent[] {
+    return unionById(mine, theirs);
+}
+
+export function mergeQuickNotes(mine: QuickNote[], theirs: QuickNote[]): QuickNote[] {
+    return mergeById(mine, theirs, {
+        strategy: 'newestWins',
+        exportedAt: '',
+        getUpdatedAt: n => n.updatedAt,
+    });
+}
+
+export function mergePomodoroSessions(mine: PomodoroSessionCounts, theirs: PomodoroSessionCounts): PomodoroSessionCounts {
+    const merged = { ...mine };
+    Object.entries(theirs).forEach(([dateISO, count]) => {
+        merged[dateISO] = Math.max(merged[dateISO] || 0, count);
+    });
+    return merged;
+}
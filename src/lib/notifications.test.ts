@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_APP_SETTINGS, Habit, HabitLog } from '../types';
+import { getDueReminders, getPendingHabits, getReminders, ReminderSources } from './notifications';
+import { getLocalDateISO } from './utils';
+
+const settings = { ...DEFAULT_APP_SETTINGS.notifications, enabled: true, habitReminderTime: '20:00' };
+const sources: ReminderSources = { courses: [], personalTasks: [], calendarEvents: [], pendingHabits: ['✨ Kitap oku'] };
+
+describe('habit reminders across time zones', () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+        process.env.TZ = originalTimeZone;
+    });
+
+    it.each([
+        // 20:30 on Jan 4 in New York is already Jan 5 in UTC
+        { timeZone: 'America/New_York', time: '20:00', now: '2026-01-05T01:30:00.000Z', day: '2026-01-04' },
+        // 07:30 on Jan 5 in Tokyo is still Jan 4 in UTC
+        { timeZone: 'Asia/Tokyo', time: '07:00', now: '2026-01-04T22:30:00.000Z', day: '2026-01-05' },
+        { timeZone: 'UTC', time: '20:00', now: '2026-01-04T20:30:00.000Z', day: '2026-01-04' },
+    ])('fires the $time reminder on the local day in $timeZone', ({ timeZone, time, now, day }) => {
+        process.env.TZ = timeZone;
+        const nowMs = Date.parse(now);
+        const today = getLocalDateISO(new Date(nowMs));
+
+        expect(today).toBe(day);
+        const reminders = getReminders(sources, { ...settings, habitReminderTime: time }, today);
+        expect(getDueReminders(reminders, {}, nowMs)).toEqual([expect.objectContaining({ tag: `habits-${day}` })]);
+    });
+
+    it('leaves out a habit finished on the local day after UTC midnight', () => {
+        process.env.TZ = 'America/New_York';
+        const nowMs = Date.parse('2026-01-05T01:30:00.000Z'); // 20:30 on Jan 4 local
+        const today = getLocalDateISO(new Date(nowMs));
+        const habit: Habit = {
+            id: 'h1',
+            title: 'Kitap oku',
+            emoji: '📚',
+            type: 'boolean',
+            frequency: { type: 'specificDays', days: [0, 1, 2, 3, 4, 5, 6] },
+            sortMode: 'manual',
+            isArchived: false,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-01T00:00:00.000Z',
+        };
+        const done: HabitLog = { habitId: 'h1', dateISO: '2026-01-04', done: true, timestamp: '2026-01-04T23:00:00.000Z' };
+        const logs = new Map([['h1', [done]]]);
+
+        const pendingHabits = getPendingHabits([habit], logs, [], today);
+        expect(pendingHabits).toEqual([]);
+        expect(getPendingHabits([habit], new Map(), [], today)).toEqual(['📚 Kitap oku']);
+
+        const reminders = getReminders({ ...sources, pendingHabits }, settings, today);
+        expect(getDueReminders(reminders, {}, nowMs)).toEqual([]);
+    });
+
+    it('does not fire before local 20:00', () => {
+        process.env.TZ = 'America/New_York';
+        const nowMs = Date.parse('2026-01-05T00:30:00.000Z'); // 19:30 local
+
+        const reminders = getReminders(sources, settings, getLocalDateISO(new Date(nowMs)));
+        expect(getDueReminders(reminders, {}, nowMs)).toEqual([]);
+    });
+});
@@ -0,0 +1,215 @@
+import {
+    CalendarEvent,
+    Course,
+    Habit,
+    HabitLog,
+    NotificationLog,
+    NotificationSettings,
+    PersonalTask,
+    VacationRange,
+} from '../types';
+import { isHabitCompleted, isHabitDueOnDate, isHabitPausedOn } from './utils';
+
+// ================== PERMISSION ==================
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export function getNotificationPermission(): NotificationPermissionState {
+    return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    return Notification.requestPermission();
+}
+
+// ================== DELIVERY ==================
+
+export interface AppNotification {
+    tag: string; // one per reminder; the system replaces a notification with the same tag
+    title: string;
+    body: string;
+    url?: string; // page to open on click
+}
+
+/** Message the service worker posts to the page when a notification is clicked. */
+export const NOTIFICATION_CLICK_MESSAGE = 'planex-notification-click';
+
+/**
+ * Shows a system notification through the service worker where one is
+ * active (it keeps working on mobile and lets a click focus the app),
+ * otherwise through the page. `onClick` only applies to the page fallback.
+ */
+export async function showNotification(notification: AppNotification, onClick?: () => void): Promise<void> {
+    if (getNotificationPermission() !== 'granted') return;
+
+    const options: NotificationOptions = {
+        body: notification.body,
+        tag: notification.tag,
+        icon: '/pwa-192x192.png',
+        data: { url: notification.url ?? '/' },
+    };
+
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration?.active) {
+        await registration.showNotification(notification.title, options);
+        return;
+    }
+
+    const shown = new Notification(notification.title, options);
+    shown.onclick = () => {
+        window.focus();
+        onClick?.();
+        shown.close();
+    };
+}
+
+// ================== REMINDERS ==================
+
+export interface Reminder extends AppNotification {
+    fireAt: number; // epoch ms
+}
+
+export interface ReminderSources {
+    courses: Course[];
+    personalTasks: PersonalTask[];
+    calendarEvents: CalendarEvent[];
+    pendingHabits: string[]; // titles of habits due today and not done yet
+}
+
+/** Reminders missed while the app was closed still fire if they are at most this old. */
+const REMINDER_CATCH_UP_MS = 6 * 60 * 60 * 1000;
+const LOG_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local wall-clock time on a dateISO day
+function getFireTime(dateISO: string, time: string): number {
+    return new Date(`${dateISO}T${time}:00`).getTime();
+}
+
+function shiftDate(dateISO: string, days: number): string {
+    return new Date(new Date(`${dateISO}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Titles of the habits due on `today` that are neither done nor paused.
+ * `today` must be the day the reminder is for, so a habit finished this
+ * evening is not checked against tomorrow's log.
+ */
+export function getPendingHabits(
+    habits: Habit[],
+    habitLogs: Map<string, HabitLog[]>,
+    vacations: VacationRange[],
+    today: string
+): string[] {
+    return habits
+        .filter(habit => !habit.isArchived && isHabitDueOnDate(habit, today))
+        .filter(habit => {
+            const log = habitLogs.get(habit.id)?.find(l => l.dateISO === today) ?? null;
+            return !isHabitCompleted(habit, log) && !isHabitPausedOn(log, today, vacations);
+        })
+        .map(habit => `${habit.emoji} ${habit.title}`);
+}
+
+/**
+ * Every reminder the settings ask for on `today`, whether or not its time
+ * has come. `today` is the local date, as reminder times are local.
+ */
+export function getReminders(sources: ReminderSources, settings: NotificationSettings, today: string): Reminder[] {
+    const reminders: Reminder[] = [];
+    const morning = getFireTime(today, settings.reminderTime);
+
+    if (settings.habitReminder && settings.habitReminderTime && sources.pendingHabits.length > 0) {
+        const names = sources.pendingHabits.slice(0, 3).join(', ');
+        const more = sources.pendingHabits.length > 3 ? ` ve ${sources.pendingHabits.length - 3} tane daha` : '';
+        reminders.push({
+            tag: `habits-${today}`,
+            title: 'Alışkanlık hatırlatması',
+            body: `Bugün bekleyenler: ${names}${more}`,
+            url: '/habits',
+            fireAt: getFireTime(today, settings.habitReminderTime),
+        });
+    }
+
+    if (settings.examReminder) {
+        const days = settings.examReminderDays ?? 3;
+        const examDate = shiftDate(today, days);
+        sources.courses.forEach(course => {
+            course.exams
+                .filter(exam => exam.examDateISO.split('T')[0] === examDate)
+                .forEach(exam => {
+                    reminders.push({
+                        tag: `exam-${exam.id}-${examDate}`,
+                        title: `${exam.title} · ${days} gün kaldı`,
+                        body: course.title,
+                        url: `/courses/${course.id}`,
+                        fireAt: morning,
+                    });
+                });
+        });
+    }
+
+    if (settings.taskReminder) {
+        sources.courses.forEach(course => {
+            course.units.forEach(unit => {
+                unit.tasks
+                    .filter(task => task.dueDateISO?.split('T')[0] === today && task.status !== 'done')
+                    .forEach(task => {
+                        reminders.push({
+                            tag: `task-${task.id}-${today}`,
+                            title: 'Bugün teslim',
+                            body: `${task.text} · ${course.title}`,
+                            url: `/courses/${course.id}`,
+                            fireAt: morning,
+                        });
+                    });
+            });
+        });
+        sources.personalTasks
+            .filter(task => task.dueDateISO?.split('T')[0] === today && task.status !== 'done')
+            .forEach(task => {
+                reminders.push({
+                    tag: `personal-${task.id}-${today}`,
+                    title: 'Bugün teslim',
+                    body: task.text,
+                    url: '/personal',
+                    fireAt: morning,
+                });
+            });
+    }
+
+    if (settings.eventReminder) {
+        sources.calendarEvents
+            .filter(event => event.type === 'reminder' && event.dateISO === today)
+            .forEach(event => {
+                reminders.push({
+                    tag: `event-${event.id}-${today}`,
+                    title: event.title,
+                    body: event.description || 'Takvim hatırlatması',
+                    url: '/calendar',
+                    fireAt: morning,
+                });
+            });
+    }
+
+    return reminders;
+}
+
+/** Reminders whose time has come, that were not shown yet and are not too old to matter. */
+export function getDueReminders(reminders: Reminder[], log: NotificationLog, now: number): Reminder[] {
+    return reminders.filter(
+        reminder => reminder.fireAt <= now && now - reminder.fireAt <= REMINDER_CATCH_UP_MS && !log[reminder.tag]
+    );
+}
+
+/** Adds the shown reminders to the log and drops entries old enough to never match again. */
+export function updateNotificationLog(log: NotificationLog, shown: Reminder[], now: number): NotificationLog {
+    const next: NotificationLog = {};
+    Object.entries(log).forEach(([tag, sentAt]) => {
+        if (now - new Date(sentAt).getTime() < LOG_RETENTION_MS) next[tag] = sentAt;
+    });
+    shown.forEach(reminder => {
+        next[reminder.tag] = new Date(now).toISOString();
+    });
+    return next;
+}
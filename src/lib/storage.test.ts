@@ -0,0 +1,309 @@
+// @vitest-environment happy-dom
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    AppSettings,
+    AppSettingsSchema,
+    Course,
+    DEFAULT_APP_SETTINGS,
+    DEFAULT_POMODORO_TIMER_STATE,
+    HabitLog,
+    HabitLogSchema,
+    PomodoroTimerStateSchema,
+} from '../types';
+
+// The module keeps the open database and the reported issues, so every
+// test imports a fresh copy against empty storage
+let storage: typeof import('./storage');
+
+beforeEach(async () => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    storage = await import('./storage');
+});
+
+const SETTINGS_KEY = 'planex_settings_v1';
+const TIMER_KEY = 'planex_pomodoro_timer_v1';
+const VERSIONS_KEY = 'planex_schema_versions';
+const PRE_MIGRATION_PREFIX = 'planex_premigration_';
+
+// Settings as the first release saved them
+const SETTINGS_V1 = {
+    theme: 'dark',
+    soundEnabled: false,
+    rightPanelOpen: true,
+    language: 'tr',
+    pomodoro: {
+        workDuration: 50,
+        shortBreakDuration: 10,
+        longBreakDuration: 20,
+        sessionsUntilLongBreak: 2,
+        autoStartBreaks: true,
+        autoStartWork: false,
+    },
+    notifications: { enabled: true, habitReminderTime: '21:00', examReminder: true, examReminderDays: 3 },
+};
+
+function readJson(key: string): unknown {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+}
+
+function storedVersions(): Record<string, number> {
+    return readJson(VERSIONS_KEY) as Record<string, number>;
+}
+
+describe('runStorageMigrations', () => {
+    it('brings version 1 settings to the current schema', () => {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(SETTINGS_V1));
+
+        expect(storage.runStorageMigrations()).toEqual([]);
+
+        const settings = AppSettingsSchema.parse(readJson(SETTINGS_KEY));
+        expect(settings.theme).toBe('dark');
+        expect(settings.notifications).toMatchObject({ enabled: true, habitReminderTime: '21:00', habitReminder: true });
+        expect(settings.pomodoro.profiles[0]).toMatchObject({
+            name: 'Klasik 50/10',
+            intervals: [
+                { mode: 'work', minutes: 50 },
+                { mode: 'shortBreak', minutes: 10 },
+                { mode: 'work', minutes: 50 },
+                { mode: 'longBreak', minutes: 20 },
+            ],
+        });
+        expect(settings.pomodoro.autoStartBreaks).toBe(true);
+        expect(settings.ambient).toEqual(DEFAULT_APP_SETTINGS.ambient);
+        expect(settings.habitPause).toEqual(DEFAULT_APP_SETTINGS.habitPause);
+        expect(storedVersions()[SETTINGS_KEY]).toBe(storage.getSchemaVersion('SETTINGS'));
+    });
+
+    it('keeps a copy of the data from before the migration', () => {
+        const raw = JSON.stringify(SETTINGS_V1);
+        localStorage.setItem(SETTINGS_KEY, raw);
+
+        storage.runStorageMigrations();
+
+        expect(readJson(PRE_MIGRATION_PREFIX + SETTINGS_KEY)).toMatchObject({ fromVersion: 1, raw });
+    });
+
+    it('runs only the steps after the stored version', () => {
+        const settingsV5: Partial<AppSettings> = { ...DEFAULT_APP_SETTINGS, theme: 'light' };
+        delete settingsV5.habitPause;
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settingsV5));
+        localStorage.setItem(VERSIONS_KEY, JSON.stringify({ [SETTINGS_KEY]: 5 }));
+
+        expect(storage.runStorageMigrations()).toEqual([]);
+        expect(readJson(SETTINGS_KEY)).toMatchObject({ theme: 'light', habitPause: DEFAULT_APP_SETTINGS.habitPause });
+        expect(readJson(PRE_MIGRATION_PREFIX + SETTINGS_KEY)).toMatchObject({ fromVersion: 5 });
+    });
+
+    it.each([
+        { mode: 'work', sessions: 2, step: 4 },
+        { mode: 'shortBreak', sessions: 2, step: 3 },
+        { mode: 'longBreak', sessions: 0, step: 0 },
+    ])('moves a $mode timer after $sessions sessions to step $step', ({ mode, sessions, step }) => {
+        localStorage.setItem(TIMER_KEY, JSON.stringify({ mode, sessions, startTime: null, pausedLeft: 120 }));
+
+        expect(storage.runStorageMigrations()).toEqual([]);
+        expect(PomodoroTimerStateSchema.parse(readJson(TIMER_KEY))).toMatchObject({ step, pausedLeft: 120 });
+    });
+
+    it('leaves current data alone without taking a copy', () => {
+        const raw = JSON.stringify(DEFAULT_APP_SETTINGS);
+        localStorage.setItem(SETTINGS_KEY, raw);
+        localStorage.setItem(VERSIONS_KEY, JSON.stringify({ [SETTINGS_KEY]: storage.getSchemaVersion('SETTINGS') }));
+
+        expect(storage.runStorageMigrations()).toEqual([]);
+        expect(localStorage.getItem(SETTINGS_KEY)).toBe(raw);
+        expect(localStorage.getItem(PRE_MIGRATION_PREFIX + SETTINGS_KEY)).toBeNull();
+    });
+
+    it('reports data that is still invalid after migrating and leaves it untouched', () => {
+        const raw = JSON.stringify({ ...SETTINGS_V1, theme: 'neon' });
+        localStorage.setItem(SETTINGS_KEY, raw);
+
+        const issues = storage.runStorageMigrations();
+
+        expect(issues).toEqual([expect.objectContaining({ name: 'SETTINGS', kind: 'validation', hasPreMigrationCopy: true })]);
+        expect(localStorage.getItem(SETTINGS_KEY)).toBe(raw);
+        expect(storedVersions()[SETTINGS_KEY]).toBeUndefined();
+    });
+
+    it('reports data saved by a newer version', () => {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(DEFAULT_APP_SETTINGS));
+        localStorage.setItem(VERSIONS_KEY, JSON.stringify({ [SETTINGS_KEY]: 99 }));
+
+        expect(storage.runStorageMigrations()).toEqual([expect.objectContaining({ kind: 'newerVersion' })]);
+    });
+
+    it('reports data that is not JSON', () => {
+        localStorage.setItem(SETTINGS_KEY, '{not json');
+
+        expect(storage.runStorageMigrations()).toEqual([expect.objectContaining({ kind: 'parse' })]);
+    });
+});
+
+describe('STORAGE_MIGRATIONS', () => {
+    it.each([
+        { name: 'SETTINGS' as const, data: DEFAULT_APP_SETTINGS },
+        { name: 'POMODORO_TIMER' as const, data: DEFAULT_POMODORO_TIMER_STATE },
+    ])('$name steps leave current data unchanged', ({ name, data }) => {
+        expect(storage.applyMigrations(name, data, 1)).toEqual(data);
+    });
+
+    it('lists the steps of every key in version order', () => {
+        Object.values(storage.STORAGE_MIGRATIONS).forEach(steps => {
+            steps.forEach((step, i) => expect(step.toVersion).toBe(i + 2));
+        });
+    });
+});
+
+describe('recovery', () => {
+    it('offers the pre-migration copy and starts the key over after a quarantine', async () => {
+        const raw = JSON.stringify({ ...SETTINGS_V1, theme: 'neon' });
+        localStorage.setItem(SETTINGS_KEY, raw);
+        storage.runStorageMigrations();
+
+        expect(JSON.parse(storage.exportPreMigrationCopy('SETTINGS')!)).toMatchObject({ key: SETTINGS_KEY, fromVersion: 1, raw });
+
+        storage.quarantineStorageKey('SETTINGS');
+        expect(localStorage.getItem(`planex_quarantine_${SETTINGS_KEY}`)).toBe(raw);
+
+        // The next load finds nothing to migrate instead of the same failure
+        vi.resetModules();
+        const reloaded = await import('./storage');
+        expect(reloaded.runStorageMigrations()).toEqual([]);
+    });
+
+    it('has no copy to offer for keys that were never migrated', () => {
+        expect(storage.exportPreMigrationCopy('SETTINGS')).toBeNull();
+    });
+});
+
+// ================== INDEXEDDB ==================
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+/** A database as version 7 of the app left it, with the given habit logs. */
+async function createDatabaseAtVersion7(logs: HabitLog[]): Promise<void> {
+    const open = indexedDB.open('PlanExDB', 7);
+    open.onupgradeneeded = () => {
+        storage.DB_MIGRATIONS.filter(step => step.version <= 7).forEach(step => step.upgrade(open.result, open.transaction!));
+    };
+    const db = await request(open);
+    const transaction = db.transaction('habitLogs', 'readwrite');
+    logs.forEach(log => transaction.objectStore('habitLogs').put(log));
+    await new Promise(resolve => (transaction.oncomplete = resolve));
+    db.close();
+}
+
+async function readStore(storeName: string): Promise<unknown[]> {
+    const db = await request(indexedDB.open('PlanExDB'));
+    const records = await request(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+    db.close();
+    return records;
+}
+
+describe('DB_MIGRATIONS', () => {
+    const valueLog: HabitLog = { habitId: 'h', dateISO: '2026-01-05', value: 3, timestamp: '2026-01-05T08:00:00.000Z' };
+    const doneLog: HabitLog = { habitId: 'h', dateISO: '2026-01-06', done: true, timestamp: '2026-01-06T08:00:00.000Z' };
+
+    it('moves habit log values into check-in entries', async () => {
+        await createDatabaseAtVersion7([valueLog, doneLog]);
+
+        const logs = await storage.getAllHabitLogs();
+
+        logs.forEach(log => expect(HabitLogSchema.safeParse(log).success).toBe(true));
+        expect(logs.find(log => log.dateISO === valueLog.dateISO)).toEqual({
+            ...valueLog,
+            entries: [{ id: 'h|2026-01-05', amount: 3, timestamp: valueLog.timestamp }],
+        });
+        expect(logs.find(log => log.dateISO === doneLog.dateISO)).toEqual(doneLog);
+    });
+
+    it('copies the habit logs aside before rewriting them', async () => {
+        await createDatabaseAtVersion7([valueLog, doneLog]);
+
+        await storage.getAllHabitLogs();
+
+        expect(await readStore('preMigrationCopies')).toEqual([
+            expect.objectContaining({ id: 'habitLogs@v7', store: 'habitLogs', fromVersion: 7, records: [valueLog, doneLog] }),
+        ]);
+    });
+
+    it('takes no copies when creating a new database', async () => {
+        expect(await storage.getAllHabitLogs()).toEqual([]);
+        expect(await readStore('preMigrationCopies')).toEqual([]);
+    });
+});
+
+describe('updateHabitLog', () => {
+    const append = (amount: number) => (log: HabitLog | null): HabitLog => {
+        const entries = [...(log?.entries ?? []), { id: String(amount), amount, timestamp: '2026-01-05T08:00:00.000Z' }];
+        return { habitId: 'h', dateISO: '2026-01-05', entries, timestamp: '2026-01-05T08:00:00.000Z' };
+    };
+
+    it('builds overlapping updates of a day on each other', async () => {
+        const [first, second] = await Promise.all([
+            storage.updateHabitLog('h', '2026-01-05', append(250)),
+            storage.updateHabitLog('h', '2026-01-05', append(500)),
+        ]);
+
+        expect(first?.entries?.map(entry => entry.amount)).toEqual([250]);
+        expect(second?.entries?.map(entry => entry.amount)).toEqual([250, 500]);
+        expect(await storage.getHabitLog('h', '2026-01-05')).toEqual(second);
+    });
+
+    it('writes nothing when the update returns null', async () => {
+        expect(await storage.updateHabitLog('h', '2026-01-05', () => null)).toBeNull();
+        expect(await storage.getHabitLog('h', '2026-01-05')).toBeNull();
+    });
+});
+
+describe('legacy planner data', () => {
+    const course: Course = {
+        id: 'c1',
+        title: 'Fizik',
+        units: [
+            {
+                id: 'u1',
+                title: 'Ünite 1',
+                order: 0,
+                tasks: [{ id: 't1', text: 'Oku', status: 'done', createdAt: '2026-01-01', updatedAt: '2026-01-01' }],
+            },
+        ],
+        exams: [],
+        createdAt: '2026-01-01',
+        updatedAt: '2026-01-01',
+    };
+    const completionState = { completedTaskIds: ['t1'], completionHistory: { t1: '2026-01-02T10:00:00.000Z' } };
+
+    it('moves the localStorage keys into IndexedDB and keeps their raw copies', async () => {
+        localStorage.setItem('planex_courses_v1', JSON.stringify([course]));
+        localStorage.setItem('planex_completion_v1', JSON.stringify(completionState));
+
+        const data = await storage.loadPlannerData();
+
+        expect(data).toEqual({ courses: [course], completionState, personalTasks: [] });
+        expect(localStorage.getItem('planex_courses_v1')).toBeNull();
+        expect(localStorage.getItem('planex_completion_v1')).toBeNull();
+        expect(await readStore('preMigrationCopies')).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ id: 'planex_courses_v1@localStorage', raw: JSON.stringify([course]) }),
+                expect.objectContaining({ id: 'planex_completion_v1@localStorage', raw: JSON.stringify(completionState) }),
+            ])
+        );
+    });
+
+    it('leaves invalid legacy data in localStorage', async () => {
+        localStorage.setItem('planex_courses_v1', JSON.stringify([{ id: 1 }]));
+
+        await expect(storage.loadPlannerData()).rejects.toThrow();
+        expect(localStorage.getItem('planex_courses_v1')).not.toBeNull();
+    });
+});
@@ -2,36 +2,138 @@ import { z } from 'zod';
 import {
     AppSettings,
     AppSettingsSchema,
+    BackupData,
+    CalendarEvent,
+    CalendarEventSchema,
     CompletionState,
     CompletionStateSchema,
     Course,
     CourseSchema,
+    DEFAULT_AMBIENT_SETTINGS,
     DEFAULT_APP_SETTINGS,
+    DEFAULT_POMODORO_PROFILES,
+    DEFAULT_POMODORO_TIMER_STATE,
+    FocusSession,
+    FocusSessionSchema,
     Habit,
     HabitLog,
     HabitLogSchema,
     HabitSchema,
     LectureNoteMeta,
     LectureNoteMetaSchema,
-    LIMITS,
+    NotificationLog,
+    NotificationLogSchema,
     PersonalTask,
     PersonalTaskSchema,
-    UndoSnapshot,
-    UndoSnapshotSchema,
+    PomodoroSessionCounts,
+    PomodoroSessionCountsSchema,
+    PomodoroTimerState,
+    PomodoroTimerStateSchema,
+    QuickNote,
+    QuickNoteSchema,
+    Task,
 } from '../types';
+import { broadcastChange } from './crossTab';
+import { getHabitLogEntries } from './utils';
 
 // ================== STORAGE KEYS ==================
 
 const STORAGE_KEYS = {
     COURSES: 'planex_courses_v1',
     COMPLETION: 'planex_completion_v1',
-    UNDO_STACK: 'planex_undo_stack_v1',
     PERSONAL_TASKS: 'planex_personal_tasks_v1',
     HABITS: 'planex_habits_v1',
     SETTINGS: 'planex_settings_v1',
     LECTURE_NOTES_META: 'planex_lecture_notes_meta_v1',
+    CALENDAR_EVENTS: 'planex-calendar-events',
+    QUICK_NOTES: 'planex-quick-notes',
+    POMODORO_SESSIONS: 'pomodoroSessions',
+    POMODORO_TIMER: 'planex_pomodoro_timer_v1',
+    NOTIFICATION_LOG: 'planex_notification_log_v1',
 } as const;
 
+export type StorageKeyName = keyof typeof STORAGE_KEYS;
+
+// Bookkeeping keys used by the migration pipeline
+const SCHEMA_VERSIONS_KEY = 'planex_schema_versions';
+const PRE_MIGRATION_PREFIX = 'planex_premigration_';
+const QUARANTINE_PREFIX = 'planex_quarantine_';
+const REVISIONS_KEY = 'planex_revisions';
+// Completion-only undo snapshots from before the command history; nothing reads them anymore
+const LEGACY_UNDO_STACK_KEY = 'planex_undo_stack_v1';
+
+const STORAGE_SCHEMAS: Record<StorageKeyName, z.ZodType> = {
+    COURSES: z.array(CourseSchema),
+    COMPLETION: CompletionStateSchema,
+    PERSONAL_TASKS: z.array(PersonalTaskSchema),
+    HABITS: z.array(HabitSchema),
+    SETTINGS: AppSettingsSchema,
+    LECTURE_NOTES_META: z.array(LectureNoteMetaSchema),
+    CALENDAR_EVENTS: z.array(CalendarEventSchema),
+    QUICK_NOTES: z.array(QuickNoteSchema),
+    POMODORO_SESSIONS: PomodoroSessionCountsSchema,
+    POMODORO_TIMER: PomodoroTimerStateSchema,
+    NOTIFICATION_LOG: NotificationLogSchema,
+};
+
+// ================== STORAGE ISSUES ==================
+
+export interface StorageIssue {
+    name: StorageKeyName;
+    key: string;
+    kind: 'parse' | 'validation' | 'migration' | 'newerVersion';
+    message: string;
+    hasPreMigrationCopy: boolean;
+}
+
+// Keys listed here failed to load. They are never written back until the
+// user resolves them on the recovery screen, so broken data is not replaced
+// by defaults.
+const storageIssues = new Map<string, StorageIssue>();
+
+function reportStorageIssue(name: StorageKeyName, kind: StorageIssue['kind'], message: string): void {
+    const key = STORAGE_KEYS[name];
+    console.error(`Storage issue in ${key} (${kind}):`, message);
+    storageIssues.set(key, {
+        name,
+        key,
+        kind,
+        message,
+        hasPreMigrationCopy: localStorage.getItem(PRE_MIGRATION_PREFIX + key) !== null,
+    });
+}
+
+export function getStorageIssues(): StorageIssue[] {
+    return Array.from(storageIssues.values());
+}
+
+// ================== QUOTA ERRORS ==================
+
+// Thrown when the browser refuses a write for lack of space; the message is user-facing
+export class StorageQuotaError extends Error {}
+
+// Fired on window when a background save hits the quota. Writes the user
+// started directly throw StorageQuotaError instead, so the caller can say
+// what failed.
+export const STORAGE_QUOTA_EXCEEDED_EVENT = 'planex:storage-quota-exceeded';
+
+function isQuotaExceededError(error: unknown): boolean {
+    return (
+        error instanceof DOMException &&
+        (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+    );
+}
+
+function toWriteError(error: unknown, message: string): Error {
+    return isQuotaExceededError(error)
+        ? new StorageQuotaError('Depolama alanı dolu, değişiklikler kaydedilemedi.')
+        : new Error(message);
+}
+
+function reportQuotaExceeded(): void {
+    window.dispatchEvent(new Event(STORAGE_QUOTA_EXCEEDED_EVENT));
+}
+
 // ================== LOCAL STORAGE HELPERS ==================
 
 function safeJsonParse<T>(json: string | null, fallback: T): T {
@@ -53,105 +155,607 @@ function validateWithSchema<T>(data: unknown, schema: z.ZodSchema<T>, fallback:
     return fallback;
 }
 
-// ================== COURSES ==================
+function readKey<T>(name: StorageKeyName, schema: z.ZodSchema<T>, fallback: T): T {
+    const raw = localStorage.getItem(STORAGE_KEYS[name]);
+    if (raw === null) return fallback;
 
-export function getCourses(): Course[] {
-    const raw = localStorage.getItem(STORAGE_KEYS.COURSES);
-    const parsed = safeJsonParse(raw, []);
-    return validateWithSchema(parsed, z.array(CourseSchema), []);
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        reportStorageIssue(name, 'parse', 'Kayıtlı veri JSON olarak okunamadı.');
+        return fallback;
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+        reportStorageIssue(name, 'validation', result.error.message);
+        return fallback;
+    }
+    return result.data;
 }
 
-export function saveCourses(courses: Course[]): void {
-    localStorage.setItem(STORAGE_KEYS.COURSES, JSON.stringify(courses));
+// ================== CROSS-TAB REVISIONS ==================
+
+// Every write bumps a per-key revision shared by all tabs. A tab remembers
+// the revision its in-memory state was loaded from; if another tab wrote
+// since, this tab's state is stale and its write is dropped instead of
+// overwriting the newer data. Keys that were never marked are not guarded.
+const loadedRevisions = new Map<StorageKeyName, number>();
+
+function getRevisions(): Partial<Record<StorageKeyName, number>> {
+    return safeJsonParse(localStorage.getItem(REVISIONS_KEY), {});
 }
 
-// ================== COMPLETION STATE ==================
+/** Records that the caller's state now reflects the stored value of these keys. */
+export function markKeysLoaded(...names: StorageKeyName[]): void {
+    const revisions = getRevisions();
+    names.forEach(name => loadedRevisions.set(name, revisions[name] ?? 0));
+}
 
-const defaultCompletionState: CompletionState = {
-    completedTaskIds: [],
-    completionHistory: {},
+function writeKey(name: StorageKeyName, value: unknown): void {
+    const key = STORAGE_KEYS[name];
+    if (storageIssues.has(key)) return;
+
+    // Unchanged values are not written, which also keeps tabs that just
+    // reloaded each other's data from echoing it back
+    const serialized = JSON.stringify(value);
+    if (localStorage.getItem(key) === serialized) return;
+
+    const revisions = getRevisions();
+    const current = revisions[name] ?? 0;
+    const loaded = loadedRevisions.get(name);
+    if (loaded !== undefined && current > loaded) {
+        console.warn(`Skipped stale write to ${key}; another tab saved newer data`);
+        return;
+    }
+
+    try {
+        localStorage.setItem(key, serialized);
+    } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        console.error(`Storage quota exceeded while writing ${key}`);
+        reportQuotaExceeded();
+        return;
+    }
+    revisions[name] = current + 1;
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+    if (loaded !== undefined) {
+        loadedRevisions.set(name, current + 1);
+    }
+    broadcastChange(name);
+}
+
+// ================== MIGRATIONS ==================
+
+export interface StorageMigrationStep {
+    /** Schema version the data is at after this step */
+    toVersion: number;
+    description: string;
+    migrate: (data: unknown) => unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toMinutes(value: unknown, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 1), 180) : fallback;
+}
+
+// The single work/short/long configuration of settings v2 as a profile's sequence
+function buildClassicIntervals(pomodoro: Record<string, unknown>) {
+    const work = toMinutes(pomodoro.workDuration, 25);
+    const shortBreak = toMinutes(pomodoro.shortBreakDuration, 5);
+    const longBreak = toMinutes(pomodoro.longBreakDuration, 15);
+    const rounds = Math.min(toMinutes(pomodoro.sessionsUntilLongBreak, 4), 10);
+
+    return Array.from({ length: rounds }).flatMap((_, i) => [
+        { mode: 'work' as const, minutes: work },
+        i < rounds - 1
+            ? { mode: 'shortBreak' as const, minutes: shortBreak }
+            : { mode: 'longBreak' as const, minutes: longBreak },
+    ]);
+}
+
+/**
+ * Ordered migration steps per localStorage key. Data without a recorded
+ * version is treated as version 1 (the first release). Append new steps
+ * here whenever a schema in `types` changes shape.
+ */
+export const STORAGE_MIGRATIONS: Record<StorageKeyName, StorageMigrationStep[]> = {
+    COURSES: [],
+    COMPLETION: [],
+    PERSONAL_TASKS: [],
+    HABITS: [],
+    SETTINGS: [
+        {
+            toVersion: 2,
+            description: 'Fill settings fields missing from older saves with defaults',
+            migrate: (data) => {
+                if (!isRecord(data)) return data;
+                return {
+                    ...DEFAULT_APP_SETTINGS,
+                    ...data,
+                    pomodoro: { ...DEFAULT_APP_SETTINGS.pomodoro, ...(isRecord(data.pomodoro) ? data.pomodoro : {}) },
+                    notifications: {
+                        ...DEFAULT_APP_SETTINGS.notifications,
+                        ...(isRecord(data.notifications) ? data.notifications : {}),
+                    },
+                };
+            },
+        },
+        {
+            toVersion: 3,
+            description: 'Turn the single Pomodoro configuration into a profile next to the built-in ones',
+            migrate: (data) => {
+                if (!isRecord(data) || !isRecord(data.pomodoro) || typeof data.pomodoro.workDuration !== 'number') {
+                    return data;
+                }
+                const { autoStartBreaks, autoStartWork } = data.pomodoro;
+                const [classic, ...others] = DEFAULT_POMODORO_PROFILES;
+                return {
+                    ...data,
+                    pomodoro: {
+                        profiles: [
+                            {
+                                ...classic,
+                                name: `Klasik ${toMinutes(data.pomodoro.workDuration, 25)}/${toMinutes(data.pomodoro.shortBreakDuration, 5)}`,
+                                intervals: buildClassicIntervals(data.pomodoro),
+                            },
+                            ...others,
+                        ],
+                        activeProfileId: classic.id,
+                        autoStartBreaks: autoStartBreaks === true,
+                        autoStartWork: autoStartWork === true,
+                    },
+                };
+            },
+        },
+        {
+            toVersion: 4,
+            description: 'Add the ambient sound mixer settings',
+            migrate: (data) => {
+                if (!isRecord(data) || isRecord(data.ambient)) return data;
+                return { ...data, ambient: DEFAULT_AMBIENT_SETTINGS };
+            },
+        },
+        {
+            toVersion: 5,
+            description: 'Fill the new reminder and Pomodoro alert switches with defaults',
+            migrate: (data) => {
+                if (!isRecord(data)) return data;
+                return {
+                    ...data,
+                    notifications: {
+                        ...DEFAULT_APP_SETTINGS.notifications,
+                        ...(isRecord(data.notifications) ? data.notifications : {}),
+                    },
+                };
+            },
+        },
+        {
+            toVersion: 6,
+            description: 'Add vacation ranges and freeze tokens for habits',
+            migrate: (data) => {
+                if (!isRecord(data) || isRecord(data.habitPause)) return data;
+                return { ...data, habitPause: DEFAULT_APP_SETTINGS.habitPause };
+            },
+        },
+    ],
+    LECTURE_NOTES_META: [],
+    CALENDAR_EVENTS: [],
+    QUICK_NOTES: [],
+    POMODORO_SESSIONS: [],
+    POMODORO_TIMER: [
+        {
+            toVersion: 2,
+            description: 'Track the position in the profile sequence instead of mode and session count',
+            migrate: (data) => {
+                if (!isRecord(data) || typeof data.step === 'number') return data;
+                const { mode, sessions, ...rest } = data;
+                const done = typeof sessions === 'number' ? sessions : 0;
+                // Work of round n sits at 2n, the break after it at 2n + 1
+                return { ...rest, step: mode === 'work' ? done * 2 : Math.max(done * 2 - 1, 0) };
+            },
+        },
+    ],
+    NOTIFICATION_LOG: [],
 };
 
-export function getCompletionState(): CompletionState {
-    const raw = localStorage.getItem(STORAGE_KEYS.COMPLETION);
-    const parsed = safeJsonParse(raw, defaultCompletionState);
-    return validateWithSchema(parsed, CompletionStateSchema, defaultCompletionState);
+export function getSchemaVersion(name: StorageKeyName): number {
+    const steps = STORAGE_MIGRATIONS[name];
+    return steps.length > 0 ? steps[steps.length - 1].toVersion : 1;
+}
+
+export function applyMigrations(name: StorageKeyName, data: unknown, fromVersion: number): unknown {
+    return STORAGE_MIGRATIONS[name]
+        .filter(step => step.toVersion > fromVersion)
+        .reduce((current, step) => step.migrate(current), data);
 }
 
-export function saveCompletionState(state: CompletionState): void {
-    localStorage.setItem(STORAGE_KEYS.COMPLETION, JSON.stringify(state));
+function getStoredVersions(): Partial<Record<string, number>> {
+    const parsed = safeJsonParse<unknown>(localStorage.getItem(SCHEMA_VERSIONS_KEY), {});
+    return validateWithSchema(parsed, z.record(z.string(), z.number()), {});
 }
 
-// ================== UNDO STACK ==================
+/**
+ * Brings every localStorage key up to its current schema version and
+ * validates the result. Must run before any provider reads storage.
+ * Returns the keys that could not be loaded; those are left untouched.
+ */
+export function runStorageMigrations(): StorageIssue[] {
+    const versions = getStoredVersions();
+
+    (Object.keys(STORAGE_KEYS) as StorageKeyName[]).forEach(name => {
+        const key = STORAGE_KEYS[name];
+        const targetVersion = getSchemaVersion(name);
+        const raw = localStorage.getItem(key);
+
+        if (raw === null) {
+            versions[key] = targetVersion;
+            return;
+        }
 
-export function getUndoStack(): UndoSnapshot[] {
-    const raw = localStorage.getItem(STORAGE_KEYS.UNDO_STACK);
-    const parsed = safeJsonParse(raw, []);
-    return validateWithSchema(parsed, z.array(UndoSnapshotSchema), []);
+        let data: unknown;
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            reportStorageIssue(name, 'parse', 'Kayıtlı veri JSON olarak okunamadı.');
+            return;
+        }
+
+        const fromVersion = versions[key] ?? 1;
+        if (fromVersion > targetVersion) {
+            reportStorageIssue(
+                name,
+                'newerVersion',
+                `Veri şema sürümü ${fromVersion}, uygulama en fazla ${targetVersion} destekliyor.`
+            );
+            return;
+        }
+
+        if (fromVersion < targetVersion) {
+            localStorage.setItem(
+                PRE_MIGRATION_PREFIX + key,
+                JSON.stringify({ fromVersion, savedAt: new Date().toISOString(), raw })
+            );
+            try {
+                data = applyMigrations(name, data, fromVersion);
+            } catch (error) {
+                reportStorageIssue(name, 'migration', error instanceof Error ? error.message : String(error));
+                return;
+            }
+        }
+
+        const result = STORAGE_SCHEMAS[name].safeParse(data);
+        if (!result.success) {
+            reportStorageIssue(name, 'validation', result.error.message);
+            return;
+        }
+
+        if (fromVersion < targetVersion) {
+            localStorage.setItem(key, JSON.stringify(data));
+        }
+        versions[key] = targetVersion;
+    });
+
+    localStorage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify(versions));
+    localStorage.removeItem(LEGACY_UNDO_STACK_KEY);
+    return getStorageIssues();
 }
 
-export function saveUndoStack(stack: UndoSnapshot[]): void {
-    const trimmed = stack.slice(-LIMITS.MAX_UNDO_STACK);
-    localStorage.setItem(STORAGE_KEYS.UNDO_STACK, JSON.stringify(trimmed));
+// ================== RECOVERY ==================
+
+/** Every localStorage key that belongs to Plan.Ex, including bookkeeping keys. */
+function getOwnLocalStorageKeys(): string[] {
+    const ownKeys = new Set<string>(Object.values(STORAGE_KEYS));
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && (key.startsWith('planex_') || ownKeys.has(key))) {
+            keys.push(key);
+        }
+    }
+    return keys;
 }
 
-// ================== PERSONAL TASKS ==================
+/** Raw contents of every Plan.Ex localStorage key, including pre-migration copies. */
+export function exportRawStorage(): string {
+    const dump: Record<string, string | null> = {};
+    getOwnLocalStorageKeys().forEach(key => {
+        dump[key] = localStorage.getItem(key);
+    });
+    return JSON.stringify({ exportedAt: new Date().toISOString(), localStorage: dump }, null, 2);
+}
 
-export function getPersonalTasks(): PersonalTask[] {
-    const raw = localStorage.getItem(STORAGE_KEYS.PERSONAL_TASKS);
-    const parsed = safeJsonParse(raw, []);
-    return validateWithSchema(parsed, z.array(PersonalTaskSchema), []);
+/** Moves the broken value aside so the key starts over from defaults. */
+export function quarantineStorageKey(name: StorageKeyName): void {
+    const key = STORAGE_KEYS[name];
+    const raw = localStorage.getItem(key);
+    if (raw !== null) {
+        localStorage.setItem(QUARANTINE_PREFIX + key, raw);
+        localStorage.removeItem(key);
+    }
+    storageIssues.delete(key);
 }
 
-export function savePersonalTasks(tasks: PersonalTask[]): void {
-    localStorage.setItem(STORAGE_KEYS.PERSONAL_TASKS, JSON.stringify(tasks));
+/**
+ * The copy of a key taken before its last migration, as a file to keep.
+ * Putting it back would only run the same failing migration again, so it
+ * is offered for download next to the quarantine instead.
+ */
+export function exportPreMigrationCopy(name: StorageKeyName): string | null {
+    const key = STORAGE_KEYS[name];
+    const copy = safeJsonParse<{ fromVersion?: number; savedAt?: string; raw?: string } | null>(
+        localStorage.getItem(PRE_MIGRATION_PREFIX + key),
+        null
+    );
+    if (!copy || typeof copy.raw !== 'string') return null;
+
+    return JSON.stringify({ key, fromVersion: copy.fromVersion, savedAt: copy.savedAt, raw: copy.raw }, null, 2);
 }
 
 // ================== HABITS ==================
 
 export function getHabits(): Habit[] {
-    const raw = localStorage.getItem(STORAGE_KEYS.HABITS);
-    const parsed = safeJsonParse(raw, []);
-    return validateWithSchema(parsed, z.array(HabitSchema), []);
+    return readKey('HABITS', z.array(HabitSchema), []);
 }
 
 export function saveHabits(habits: Habit[]): void {
-    localStorage.setItem(STORAGE_KEYS.HABITS, JSON.stringify(habits));
+    writeKey('HABITS', habits);
 }
 
 // ================== SETTINGS ==================
 
 export function getSettings(): AppSettings {
-    const raw = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-    const parsed = safeJsonParse(raw, DEFAULT_APP_SETTINGS);
-    return validateWithSchema(parsed, AppSettingsSchema, DEFAULT_APP_SETTINGS);
+    return readKey('SETTINGS', AppSettingsSchema, DEFAULT_APP_SETTINGS);
 }
 
 export function saveSettings(settings: AppSettings): void {
-    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+    writeKey('SETTINGS', settings);
 }
 
 // ================== LECTURE NOTES META ==================
 
 export function getLectureNotesMeta(): LectureNoteMeta[] {
-    const raw = localStorage.getItem(STORAGE_KEYS.LECTURE_NOTES_META);
-    const parsed = safeJsonParse(raw, []);
-    return validateWithSchema(parsed, z.array(LectureNoteMetaSchema), []);
+    return readKey('LECTURE_NOTES_META', z.array(LectureNoteMetaSchema), []);
 }
 
 export function saveLectureNotesMeta(meta: LectureNoteMeta[]): void {
-    localStorage.setItem(STORAGE_KEYS.LECTURE_NOTES_META, JSON.stringify(meta));
+    writeKey('LECTURE_NOTES_META', meta);
+}
+
+// ================== CALENDAR EVENTS ==================
+
+export function getCalendarEvents(): CalendarEvent[] {
+    return readKey('CALENDAR_EVENTS', z.array(CalendarEventSchema), []);
+}
+
+export function saveCalendarEvents(events: CalendarEvent[]): void {
+    writeKey('CALENDAR_EVENTS', events);
+}
+
+// ================== QUICK NOTES ==================
+
+export function getQuickNotes(): QuickNote[] {
+    return readKey('QUICK_NOTES', z.array(QuickNoteSchema), []);
+}
+
+export function saveQuickNotes(notes: QuickNote[]): void {
+    writeKey('QUICK_NOTES', notes);
+}
+
+// ================== POMODORO SESSIONS ==================
+
+export function getPomodoroSessionCounts(): PomodoroSessionCounts {
+    return readKey('POMODORO_SESSIONS', PomodoroSessionCountsSchema, {});
+}
+
+export function savePomodoroSessionCounts(counts: PomodoroSessionCounts): void {
+    writeKey('POMODORO_SESSIONS', counts);
+}
+
+export function getPomodoroTimerState(): PomodoroTimerState {
+    return readKey('POMODORO_TIMER', PomodoroTimerStateSchema, DEFAULT_POMODORO_TIMER_STATE);
+}
+
+export function savePomodoroTimerState(state: PomodoroTimerState): void {
+    writeKey('POMODORO_TIMER', state);
+}
+
+// ================== NOTIFICATION LOG ==================
+
+export function getNotificationLog(): NotificationLog {
+    return readKey('NOTIFICATION_LOG', NotificationLogSchema, {});
+}
+
+export function saveNotificationLog(log: NotificationLog): void {
+    writeKey('NOTIFICATION_LOG', log);
 }
 
 // ================== INDEXEDDB FOR PDF & HABIT LOGS ==================
 
 const DB_NAME = 'PlanExDB';
-const DB_VERSION = 1;
 const STORES = {
     LECTURE_NOTES: 'lectureNotes',
     HABIT_LOGS: 'habitLogs',
+    PRE_MIGRATION: 'preMigrationCopies',
+    SNAPSHOTS: 'snapshots',
+    SYNC_STATE: 'syncState',
+    COURSES: 'courses',
+    TASKS: 'tasks',
+    PERSONAL_TASKS: 'personalTasks',
+    COMPLETIONS: 'completions',
+    HISTORY: 'history',
+    FOCUS_SESSIONS: 'focusSessions',
 } as const;
 
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+export interface DatabaseMigrationStep {
+    version: number;
+    description: string;
+    /** Stores whose records are copied to `preMigrationCopies` before the step runs */
+    backupStores?: StoreName[];
+    upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Ordered IndexedDB schema steps. The database version is the highest step
+ * version, so adding a step here is all that is needed to trigger it.
+ */
+export const DB_MIGRATIONS: DatabaseMigrationStep[] = [
+    {
+        version: 1,
+        description: 'Create lecture note and habit log stores',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.LECTURE_NOTES)) {
+                db.createObjectStore(STORES.LECTURE_NOTES, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.HABIT_LOGS)) {
+                const habitLogsStore = db.createObjectStore(STORES.HABIT_LOGS, { keyPath: ['habitId', 'dateISO'] });
+                habitLogsStore.createIndex('habitId', 'habitId', { unique: false });
+                habitLogsStore.createIndex('dateISO', 'dateISO', { unique: false });
+            }
+        },
+    },
+    {
+        version: 2,
+        description: 'Add store for pre-migration copies',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.PRE_MIGRATION)) {
+                db.createObjectStore(STORES.PRE_MIGRATION, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 3,
+        description: 'Add store for automatic snapshots',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.SNAPSHOTS)) {
+                const snapshotsStore = db.createObjectStore(STORES.SNAPSHOTS, { keyPath: 'id' });
+                snapshotsStore.createIndex('createdAt', 'createdAt', { unique: false });
+            }
+        },
+    },
+    {
+        version: 4,
+        description: 'Add store for sync state',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.SYNC_STATE)) {
+                db.createObjectStore(STORES.SYNC_STATE, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 5,
+        description: 'Add normalized planner stores',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.COURSES)) {
+                db.createObjectStore(STORES.COURSES, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.TASKS)) {
+                const tasksStore = db.createObjectStore(STORES.TASKS, { keyPath: 'id' });
+                tasksStore.createIndex('courseId', 'courseId', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(STORES.PERSONAL_TASKS)) {
+                db.createObjectStore(STORES.PERSONAL_TASKS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.COMPLETIONS)) {
+                db.createObjectStore(STORES.COMPLETIONS, { keyPath: 'taskId' });
+            }
+        },
+    },
+    {
+        version: 6,
+        description: 'Add store for undo history',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.HISTORY)) {
+                db.createObjectStore(STORES.HISTORY, { keyPath: 'domain' });
+            }
+        },
+    },
+    {
+        version: 7,
+        description: 'Add store for focus sessions',
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(STORES.FOCUS_SESSIONS)) {
+                const focusSessionsStore = db.createObjectStore(STORES.FOCUS_SESSIONS, { keyPath: 'id' });
+                focusSessionsStore.createIndex('startedAt', 'startedAt', { unique: false });
+            }
+        },
+    },
+    {
+        version: 8,
+        description: 'Move habit log values into check-in entries',
+        backupStores: [STORES.HABIT_LOGS],
+        upgrade: (_db, transaction) => {
+            // Logs stay keyed by day; a day's value becomes its first entry
+            const request = transaction.objectStore(STORES.HABIT_LOGS).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return;
+
+                const log = cursor.value as HabitLog;
+                if (!log.entries && log.value) {
+                    cursor.update({ ...log, entries: getHabitLogEntries(log) });
+                }
+                cursor.continue();
+            };
+        },
+    },
+];
+
+const DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version;
+
+function copyStoresBeforeMigration(
+    transaction: IDBTransaction,
+    storeNames: StoreName[],
+    fromVersion: number,
+    done: () => void
+): void {
+    const [storeName, ...rest] = storeNames;
+    if (!storeName) {
+        done();
+        return;
+    }
+
+    const request = transaction.objectStore(storeName).getAll();
+    request.onsuccess = () => {
+        transaction.objectStore(STORES.PRE_MIGRATION).put({
+            id: `${storeName}@v${fromVersion}`,
+            store: storeName,
+            fromVersion,
+            savedAt: new Date().toISOString(),
+            records: request.result || [],
+        });
+        copyStoresBeforeMigration(transaction, rest, fromVersion, done);
+    };
+}
+
+function runDatabaseMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+    const pending = DB_MIGRATIONS.filter(step => step.version > oldVersion);
+
+    // Steps run one after another inside the single versionchange
+    // transaction; a step that needs a backup waits until its copy is read.
+    const runStep = (index: number) => {
+        const step = pending[index];
+        if (!step) return;
+
+        const toCopy = oldVersion > 0
+            ? (step.backupStores || []).filter(name => db.objectStoreNames.contains(name))
+            : [];
+
+        copyStoresBeforeMigration(transaction, toCopy, oldVersion, () => {
+            step.upgrade(db, transaction);
+            runStep(index + 1);
+        });
+    };
+
+    runStep(0);
+}
+
 let dbInstance: IDBDatabase | null = null;
 
 export function openDatabase(): Promise<IDBDatabase> {
@@ -173,19 +777,308 @@ export function openDatabase(): Promise<IDBDatabase> {
         };
 
         request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
+            const db = request.result;
+            runDatabaseMigrations(db, request.transaction!, event.oldVersion);
+        };
+    });
+}
 
-            // Lecture Notes Store
-            if (!db.objectStoreNames.contains(STORES.LECTURE_NOTES)) {
-                db.createObjectStore(STORES.LECTURE_NOTES, { keyPath: 'id' });
-            }
+// ================== PLANNER DATA ==================
 
-            // Habit Logs Store
-            if (!db.objectStoreNames.contains(STORES.HABIT_LOGS)) {
-                const habitLogsStore = db.createObjectStore(STORES.HABIT_LOGS, { keyPath: ['habitId', 'dateISO'] });
-                habitLogsStore.createIndex('habitId', 'habitId', { unique: false });
-                habitLogsStore.createIndex('dateISO', 'dateISO', { unique: false });
+export interface PlannerData {
+    courses: Course[];
+    completionState: CompletionState;
+    personalTasks: PersonalTask[];
+}
+
+// Courses are stored without their tasks; each task is its own record so
+// editing one task rewrites only that record
+interface StoredCourse {
+    id: string;
+    order: number;
+    course: Course;
+}
+
+interface StoredTask {
+    id: string;
+    courseId: string;
+    unitId: string;
+    order: number;
+    task: Task;
+}
+
+interface StoredPersonalTask {
+    id: string;
+    order: number;
+    task: PersonalTask;
+}
+
+interface StoredCompletion {
+    taskId: string;
+    completed: boolean;
+    completedAt?: string;
+}
+
+const PLANNER_STORES: StoreName[] = [STORES.COURSES, STORES.TASKS, STORES.PERSONAL_TASKS, STORES.COMPLETIONS];
+
+const defaultCompletionState: CompletionState = {
+    completedTaskIds: [],
+    completionHistory: {},
+};
+
+function toStoredCourse(course: Course, order: number): StoredCourse {
+    return {
+        id: course.id,
+        order,
+        course: { ...course, units: course.units.map(unit => ({ ...unit, tasks: [] })) },
+    };
+}
+
+function getStoredTasks(course: Course): Map<string, StoredTask> {
+    const tasks = new Map<string, StoredTask>();
+    course.units.forEach(unit => {
+        unit.tasks.forEach((task, order) => {
+            tasks.set(task.id, { id: task.id, courseId: course.id, unitId: unit.id, order, task });
+        });
+    });
+    return tasks;
+}
+
+function getStoredCompletions(state: CompletionState): Map<string, StoredCompletion> {
+    const completions = new Map<string, StoredCompletion>();
+    const completed = new Set(state.completedTaskIds);
+    new Set([...state.completedTaskIds, ...Object.keys(state.completionHistory)]).forEach(taskId => {
+        completions.set(taskId, {
+            taskId,
+            completed: completed.has(taskId),
+            completedAt: state.completionHistory[taskId],
+        });
+    });
+    return completions;
+}
+
+function deleteTasksOfCourse(store: IDBObjectStore, courseId: string): void {
+    const request = store.index('courseId').openKeyCursor(IDBKeyRange.only(courseId));
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+    };
+}
+
+/**
+ * Queues the record writes that turn `prev` into `next` on a transaction
+ * spanning the planner stores and returns how many were queued. Reducers
+ * keep untouched objects, so unchanged courses and tasks are skipped by
+ * identity. A null `prev` replaces everything.
+ */
+function writePlannerChanges(transaction: IDBTransaction, prev: PlannerData | null, next: PlannerData): number {
+    const coursesStore = transaction.objectStore(STORES.COURSES);
+    const tasksStore = transaction.objectStore(STORES.TASKS);
+    const personalTasksStore = transaction.objectStore(STORES.PERSONAL_TASKS);
+    const completionsStore = transaction.objectStore(STORES.COMPLETIONS);
+    let writes = 0;
+
+    if (!prev) {
+        PLANNER_STORES.forEach(name => transaction.objectStore(name).clear());
+        writes += PLANNER_STORES.length;
+    }
+
+    // Courses and their tasks. Task deletes wait until every course was
+    // visited, so a task that moved to another course is not deleted after
+    // its new record was written.
+    const prevCourses = new Map((prev?.courses ?? []).map((course, order) => [course.id, { course, order }]));
+    const writtenTaskIds = new Set<string>();
+    const removedTaskIds: string[] = [];
+    next.courses.forEach((course, order) => {
+        const before = prevCourses.get(course.id);
+        prevCourses.delete(course.id);
+        if (before?.course === course && before.order === order) return;
+
+        coursesStore.put(toStoredCourse(course, order));
+        writes++;
+
+        const prevTasks = before ? getStoredTasks(before.course) : new Map<string, StoredTask>();
+        getStoredTasks(course).forEach((record, taskId) => {
+            const old = prevTasks.get(taskId);
+            prevTasks.delete(taskId);
+            writtenTaskIds.add(taskId);
+            if (old?.task === record.task && old.unitId === record.unitId && old.order === record.order) return;
+            tasksStore.put(record);
+            writes++;
+        });
+        prevTasks.forEach((_record, taskId) => removedTaskIds.push(taskId));
+    });
+    removedTaskIds
+        .filter(taskId => !writtenTaskIds.has(taskId))
+        .forEach(taskId => {
+            tasksStore.delete(taskId);
+            writes++;
+        });
+    prevCourses.forEach((_entry, courseId) => {
+        coursesStore.delete(courseId);
+        deleteTasksOfCourse(tasksStore, courseId);
+        writes++;
+    });
+
+    // Personal tasks
+    const prevPersonal = new Map((prev?.personalTasks ?? []).map((task, order) => [task.id, { task, order }]));
+    next.personalTasks.forEach((task, order) => {
+        const before = prevPersonal.get(task.id);
+        prevPersonal.delete(task.id);
+        if (before?.task === task && before.order === order) return;
+        personalTasksStore.put({ id: task.id, order, task } satisfies StoredPersonalTask);
+        writes++;
+    });
+    prevPersonal.forEach((_entry, id) => {
+        personalTasksStore.delete(id);
+        writes++;
+    });
+
+    // Completion history
+    if (prev?.completionState !== next.completionState) {
+        const prevCompletions = getStoredCompletions(prev?.completionState ?? defaultCompletionState);
+        getStoredCompletions(next.completionState).forEach((record, taskId) => {
+            const old = prevCompletions.get(taskId);
+            prevCompletions.delete(taskId);
+            if (old?.completed === record.completed && old.completedAt === record.completedAt) return;
+            completionsStore.put(record);
+            writes++;
+        });
+        prevCompletions.forEach((_record, taskId) => {
+            completionsStore.delete(taskId);
+            writes++;
+        });
+    }
+
+    return writes;
+}
+
+function getAllFrom<T>(transaction: IDBTransaction, storeName: StoreName): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+        const request = transaction.objectStore(storeName).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(new Error(`Failed to read ${storeName}`));
+    });
+}
+
+async function readPlannerData(): Promise<PlannerData> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PLANNER_STORES, 'readonly');
+    const [storedCourses, storedTasks, storedPersonalTasks, storedCompletions] = await Promise.all([
+        getAllFrom<StoredCourse>(transaction, STORES.COURSES),
+        getAllFrom<StoredTask>(transaction, STORES.TASKS),
+        getAllFrom<StoredPersonalTask>(transaction, STORES.PERSONAL_TASKS),
+        getAllFrom<StoredCompletion>(transaction, STORES.COMPLETIONS),
+    ]);
+
+    const tasksByUnit = new Map<string, StoredTask[]>();
+    storedTasks.forEach(record => {
+        const key = `${record.courseId}|${record.unitId}`;
+        tasksByUnit.set(key, [...(tasksByUnit.get(key) || []), record]);
+    });
+
+    const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+    const courses = storedCourses.sort(byOrder).map(({ course }) => ({
+        ...course,
+        units: course.units.map(unit => ({
+            ...unit,
+            tasks: (tasksByUnit.get(`${course.id}|${unit.id}`) || []).sort(byOrder).map(record => record.task),
+        })),
+    }));
+
+    const completionState: CompletionState = { completedTaskIds: [], completionHistory: {} };
+    storedCompletions.forEach(record => {
+        if (record.completed) completionState.completedTaskIds.push(record.taskId);
+        if (record.completedAt) completionState.completionHistory[record.taskId] = record.completedAt;
+    });
+
+    return {
+        courses,
+        completionState,
+        personalTasks: storedPersonalTasks.sort(byOrder).map(record => record.task),
+    };
+}
+
+// Planner data lived in these localStorage keys before it moved to IndexedDB
+const LEGACY_PLANNER_KEYS: StorageKeyName[] = ['COURSES', 'COMPLETION', 'PERSONAL_TASKS'];
+
+async function migrateLegacyPlannerData(): Promise<void> {
+    const present = LEGACY_PLANNER_KEYS.filter(name => localStorage.getItem(STORAGE_KEYS[name]) !== null);
+    if (present.length === 0) return;
+
+    const data: PlannerData = {
+        courses: readKey('COURSES', z.array(CourseSchema), []),
+        completionState: readKey('COMPLETION', CompletionStateSchema, defaultCompletionState),
+        personalTasks: readKey('PERSONAL_TASKS', z.array(PersonalTaskSchema), []),
+    };
+    if (present.some(name => storageIssues.has(STORAGE_KEYS[name]))) {
+        throw new Error('Legacy planner data failed validation');
+    }
+
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([...PLANNER_STORES, STORES.PRE_MIGRATION], 'readwrite');
+        const savedAt = new Date().toISOString();
+
+        // The raw strings are kept so the move can be undone by hand
+        present.forEach(name => {
+            const key = STORAGE_KEYS[name];
+            transaction.objectStore(STORES.PRE_MIGRATION).put({
+                id: `${key}@localStorage`,
+                store: key,
+                savedAt,
+                raw: localStorage.getItem(key),
+            });
+        });
+        writePlannerChanges(transaction, null, data);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => reject(toWriteError(transaction.error, 'Failed to migrate planner data'));
+    });
+
+    present.forEach(name => localStorage.removeItem(STORAGE_KEYS[name]));
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+/**
+ * Loads courses, personal tasks and completion history. The first call
+ * moves data still kept in the old localStorage keys into IndexedDB.
+ */
+export async function loadPlannerData(): Promise<PlannerData> {
+    if (!legacyMigration) {
+        legacyMigration = migrateLegacyPlannerData().catch(error => {
+            legacyMigration = null;
+            throw error;
+        });
+    }
+    await legacyMigration;
+    return readPlannerData();
+}
+
+/**
+ * Writes only the records that differ between `prev`, the data last
+ * loaded or saved, and `next`. Pass null as `prev` to replace everything.
+ */
+export async function savePlannerData(prev: PlannerData | null, next: PlannerData): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PLANNER_STORES, 'readwrite');
+        const writes = writePlannerChanges(transaction, prev, next);
+
+        transaction.oncomplete = () => {
+            if (writes > 0) {
+                broadcastChange('PLANNER_DATA');
             }
+            resolve();
+        };
+        transaction.onabort = () => {
+            if (isQuotaExceededError(transaction.error)) {
+                reportQuotaExceeded();
+            }
+            reject(toWriteError(transaction.error, 'Failed to save planner data'));
         };
     });
 }
@@ -204,10 +1097,11 @@ export async function saveLectureNote(note: StoredLectureNote): Promise<void> {
     return new Promise((resolve, reject) => {
         const transaction = db.transaction(STORES.LECTURE_NOTES, 'readwrite');
         const store = transaction.objectStore(STORES.LECTURE_NOTES);
-        const request = store.put(note);
+        store.put(note);
 
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(new Error('Failed to save lecture note'));
+        // Quota errors abort the transaction after the put itself succeeded
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => reject(toWriteError(transaction.error, 'Failed to save lecture note'));
     });
 }
 
@@ -254,10 +1148,53 @@ export async function saveHabitLog(log: HabitLog): Promise<void> {
     return new Promise((resolve, reject) => {
         const transaction = db.transaction(STORES.HABIT_LOGS, 'readwrite');
         const store = transaction.objectStore(STORES.HABIT_LOGS);
-        const request = store.put(log);
+        store.put(log);
 
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(new Error('Failed to save habit log'));
+        transaction.oncomplete = () => {
+            broadcastChange('HABIT_LOGS');
+            resolve();
+        };
+        transaction.onabort = () => {
+            if (isQuotaExceededError(transaction.error)) {
+                reportQuotaExceeded();
+            }
+            reject(toWriteError(transaction.error, 'Failed to save habit log'));
+        };
+    });
+}
+
+/**
+ * Reads a day's log and writes what `update` makes of it in one transaction,
+ * so quick repeated changes each build on the one before. Resolves with the
+ * written log, or null when `update` returned null and nothing was written.
+ */
+export async function updateHabitLog(
+    habitId: string,
+    dateISO: string,
+    update: (log: HabitLog | null) => HabitLog | null
+): Promise<HabitLog | null> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.HABIT_LOGS, 'readwrite');
+        const store = transaction.objectStore(STORES.HABIT_LOGS);
+        const request = store.get([habitId, dateISO]);
+        let next: HabitLog | null = null;
+
+        request.onsuccess = () => {
+            next = update(request.result || null);
+            if (next) store.put(next);
+        };
+
+        transaction.oncomplete = () => {
+            if (next) broadcastChange('HABIT_LOGS');
+            resolve(next);
+        };
+        transaction.onabort = () => {
+            if (isQuotaExceededError(transaction.error)) {
+                reportQuotaExceeded();
+            }
+            reject(toWriteError(transaction.error, 'Failed to update habit log'));
+        };
     });
 }
 
@@ -326,7 +1263,10 @@ export async function deleteHabitLog(habitId: string, dateISO: string): Promise<
         const store = transaction.objectStore(STORES.HABIT_LOGS);
         const request = store.delete([habitId, dateISO]);
 
-        request.onsuccess = () => resolve();
+        request.onsuccess = () => {
+            broadcastChange('HABIT_LOGS');
+            resolve();
+        };
         request.onerror = () => reject(new Error('Failed to delete habit log'));
     });
 }
@@ -351,13 +1291,404 @@ export async function deleteHabitLogsByHabitId(habitId: string): Promise<void> {
             const request = store.delete([log.habitId, log.dateISO]);
             request.onsuccess = () => {
                 completed++;
-                if (completed === total) resolve();
+                if (completed === total) {
+                    broadcastChange('HABIT_LOGS');
+                    resolve();
+                }
             };
             request.onerror = () => reject(new Error('Failed to delete habit logs'));
         });
     });
 }
 
+export async function replaceAllHabitLogs(logs: HabitLog[]): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.HABIT_LOGS, 'readwrite');
+        const store = transaction.objectStore(STORES.HABIT_LOGS);
+
+        store.clear();
+        logs.forEach(log => store.put(log));
+
+        transaction.oncomplete = () => {
+            broadcastChange('HABIT_LOGS');
+            resolve();
+        };
+        transaction.onabort = () => reject(toWriteError(transaction.error, 'Failed to replace habit logs'));
+    });
+}
+
+/** Writes and deletes logs in one transaction, e.g. when undoing a command. */
+export async function updateHabitLogs(put: HabitLog[], remove: HabitLog[]): Promise<void> {
+    if (put.length === 0 && remove.length === 0) return;
+
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.HABIT_LOGS, 'readwrite');
+        const store = transaction.objectStore(STORES.HABIT_LOGS);
+
+        remove.forEach(log => store.delete([log.habitId, log.dateISO]));
+        put.forEach(log => store.put(log));
+
+        transaction.oncomplete = () => {
+            broadcastChange('HABIT_LOGS');
+            resolve();
+        };
+        transaction.onabort = () => reject(toWriteError(transaction.error, 'Failed to update habit logs'));
+    });
+}
+
+// ================== FOCUS SESSIONS ==================
+
+export async function saveFocusSession(session: FocusSession): Promise<void> {
+    await saveFocusSessions([session]);
+}
+
+/** Adds sessions, overwriting ones with the same id. */
+export async function saveFocusSessions(sessions: FocusSession[]): Promise<void> {
+    if (sessions.length === 0) return;
+
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.FOCUS_SESSIONS, 'readwrite');
+        const store = transaction.objectStore(STORES.FOCUS_SESSIONS);
+        sessions.forEach(session => store.put(session));
+
+        transaction.oncomplete = () => {
+            broadcastChange('FOCUS_SESSIONS');
+            resolve();
+        };
+        transaction.onabort = () => {
+            if (isQuotaExceededError(transaction.error)) {
+                reportQuotaExceeded();
+            }
+            reject(toWriteError(transaction.error, 'Failed to save focus sessions'));
+        };
+    });
+}
+
+/** Every stored session, oldest first. Records that no longer match the schema are skipped. */
+export async function getAllFocusSessions(): Promise<FocusSession[]> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.FOCUS_SESSIONS, 'readonly');
+        const request = transaction.objectStore(STORES.FOCUS_SESSIONS).index('startedAt').getAll();
+
+        request.onsuccess = () => {
+            const sessions: FocusSession[] = [];
+            (request.result || []).forEach(record => {
+                const result = FocusSessionSchema.safeParse(record);
+                if (result.success) {
+                    sessions.push(result.data);
+                } else {
+                    console.warn('Skipping unreadable focus session:', result.error);
+                }
+            });
+            resolve(sessions);
+        };
+        request.onerror = () => reject(new Error('Failed to get focus sessions'));
+    });
+}
+
+export async function replaceAllFocusSessions(sessions: FocusSession[]): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.FOCUS_SESSIONS, 'readwrite');
+        const store = transaction.objectStore(STORES.FOCUS_SESSIONS);
+
+        store.clear();
+        sessions.forEach(session => store.put(session));
+
+        transaction.oncomplete = () => {
+            broadcastChange('FOCUS_SESSIONS');
+            resolve();
+        };
+        transaction.onabort = () => reject(toWriteError(transaction.error, 'Failed to replace focus sessions'));
+    });
+}
+
+// ================== SNAPSHOTS ==================
+
+export interface SnapshotCounts {
+    courses: number;
+    tasks: number;
+    exams: number;
+    personalTasks: number;
+    habits: number;
+    habitLogs: number;
+}
+
+export interface StoredSnapshot {
+    id: string;
+    createdAt: string;
+    counts: SnapshotCounts;
+    backup: BackupData;
+}
+
+export async function saveSnapshot(snapshot: StoredSnapshot): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.SNAPSHOTS, 'readwrite');
+        const store = transaction.objectStore(STORES.SNAPSHOTS);
+        store.put(snapshot);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => reject(toWriteError(transaction.error, 'Failed to save snapshot'));
+    });
+}
+
+/** Returns all snapshots, newest first. */
+export async function getAllSnapshots(): Promise<StoredSnapshot[]> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.SNAPSHOTS, 'readonly');
+        const store = transaction.objectStore(STORES.SNAPSHOTS);
+        const request = store.index('createdAt').getAll();
+
+        request.onsuccess = () => resolve((request.result || []).reverse());
+        request.onerror = () => reject(new Error('Failed to get snapshots'));
+    });
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.SNAPSHOTS, 'readwrite');
+        const store = transaction.objectStore(STORES.SNAPSHOTS);
+        const request = store.delete(id);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(new Error('Failed to delete snapshot'));
+    });
+}
+
+// ================== SYNC STATE ==================
+
+// Fired on window after a provider finished a debounced save
+export const DATA_SAVED_EVENT = 'planex:data-saved';
+
+export function notifyDataSaved(): void {
+    window.dispatchEvent(new Event(DATA_SAVED_EVENT));
+}
+
+/** Reads a sync record; values may be anything structured-cloneable, e.g. file handles. */
+export async function getSyncState<T>(id: string): Promise<T | null> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.SYNC_STATE, 'readonly');
+        const store = transaction.objectStore(STORES.SYNC_STATE);
+        const request = store.get(id);
+
+        request.onsuccess = () => resolve(request.result ? (request.result.value as T) : null);
+        request.onerror = () => reject(new Error('Failed to get sync state'));
+    });
+}
+
+export async function saveSyncState(id: string, value: unknown): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.SYNC_STATE, 'readwrite');
+        const store = transaction.objectStore(STORES.SYNC_STATE);
+        const request = store.put({ id, value });
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(new Error('Failed to save sync state'));
+    });
+}
+
+export async function deleteSyncState(id: string): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.SYNC_STATE, 'readwrite');
+        const store = transaction.objectStore(STORES.SYNC_STATE);
+        const request = store.delete(id);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(new Error('Failed to delete sync state'));
+    });
+}
+
+// ================== UNDO HISTORY ==================
+
+export type HistoryDomain = 'planner' | 'habits';
+
+/** Reads a persisted history; anything that no longer matches `schema` is dropped. */
+export async function getHistory<T>(domain: HistoryDomain, schema: z.ZodType<T>): Promise<T | null> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.HISTORY, 'readonly');
+        const store = transaction.objectStore(STORES.HISTORY);
+        const request = store.get(domain);
+
+        request.onsuccess = () => {
+            if (!request.result) {
+                resolve(null);
+                return;
+            }
+            const result = schema.safeParse(request.result.stack);
+            if (!result.success) {
+                console.warn(`Discarding unreadable ${domain} history:`, result.error);
+            }
+            resolve(result.success ? result.data : null);
+        };
+        request.onerror = () => reject(new Error('Failed to get history'));
+    });
+}
+
+export async function saveHistory(domain: HistoryDomain, stack: unknown): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.HISTORY, 'readwrite');
+        transaction.objectStore(STORES.HISTORY).put({ domain, stack });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => {
+            if (isQuotaExceededError(transaction.error)) {
+                reportQuotaExceeded();
+            }
+            reject(toWriteError(transaction.error, 'Failed to save history'));
+        };
+    });
+}
+
+// ================== STORAGE USAGE ==================
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+}
+
+/** Origin-wide usage as reported by the browser; null where the API is missing. */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+
+    const [estimate, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+}
+
+/** Asks the browser not to evict Plan.Ex data when the disk runs low. */
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+}
+
+// Sizes are approximate: records are measured as JSON, which is close to
+// but not exactly what the browser keeps on disk. PDFs are exact.
+export interface StorageUsage {
+    /** Course id -> bytes of the course record and its tasks */
+    plannerByCourse: Record<string, number>;
+    /** Course id -> bytes of its uploaded PDFs */
+    lectureNotesByCourse: Record<string, number>;
+    /** Habit id -> bytes of its logs */
+    habitLogsByHabit: Record<string, number>;
+    personalTasks: number;
+    focusSessions: number;
+    completions: number;
+    snapshots: number;
+    preMigrationCopies: number;
+    syncState: number;
+    localStorageKeys: Array<{ key: string; bytes: number }>;
+}
+
+function measureRecord(record: unknown): number {
+    return JSON.stringify(record)?.length ?? 0;
+}
+
+// Visits records one by one so large PDFs are never all in memory at once
+function forEachRecord<T>(transaction: IDBTransaction, storeName: StoreName, visit: (record: T) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            visit(cursor.value as T);
+            cursor.continue();
+        };
+        request.onerror = () => reject(new Error(`Failed to read ${storeName}`));
+    });
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const usage: StorageUsage = {
+        plannerByCourse: {},
+        lectureNotesByCourse: {},
+        habitLogsByHabit: {},
+        personalTasks: 0,
+        focusSessions: 0,
+        completions: 0,
+        snapshots: 0,
+        preMigrationCopies: 0,
+        syncState: 0,
+        localStorageKeys: getOwnLocalStorageKeys().map(key => ({
+            key,
+            // localStorage keeps strings as UTF-16
+            bytes: (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2,
+        })),
+    };
+    const add = (totals: Record<string, number>, id: string, bytes: number) => {
+        totals[id] = (totals[id] ?? 0) + bytes;
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+        [
+            STORES.COURSES,
+            STORES.TASKS,
+            STORES.LECTURE_NOTES,
+            STORES.HABIT_LOGS,
+            STORES.FOCUS_SESSIONS,
+            STORES.PERSONAL_TASKS,
+            STORES.COMPLETIONS,
+            STORES.SNAPSHOTS,
+            STORES.PRE_MIGRATION,
+            STORES.SYNC_STATE,
+        ],
+        'readonly'
+    );
+
+    await Promise.all([
+        forEachRecord<StoredCourse>(transaction, STORES.COURSES, record =>
+            add(usage.plannerByCourse, record.id, measureRecord(record))
+        ),
+        forEachRecord<StoredTask>(transaction, STORES.TASKS, record =>
+            add(usage.plannerByCourse, record.courseId, measureRecord(record))
+        ),
+        forEachRecord<StoredLectureNote>(transaction, STORES.LECTURE_NOTES, note =>
+            add(usage.lectureNotesByCourse, note.courseId, note.data.byteLength)
+        ),
+        forEachRecord<HabitLog>(transaction, STORES.HABIT_LOGS, log =>
+            add(usage.habitLogsByHabit, log.habitId, measureRecord(log))
+        ),
+        forEachRecord(transaction, STORES.FOCUS_SESSIONS, record => {
+            usage.focusSessions += measureRecord(record);
+        }),
+        forEachRecord(transaction, STORES.PERSONAL_TASKS, record => {
+            usage.personalTasks += measureRecord(record);
+        }),
+        forEachRecord(transaction, STORES.COMPLETIONS, record => {
+            usage.completions += measureRecord(record);
+        }),
+        forEachRecord(transaction, STORES.SNAPSHOTS, record => {
+            usage.snapshots += measureRecord(record);
+        }),
+        forEachRecord(transaction, STORES.PRE_MIGRATION, record => {
+            usage.preMigrationCopies += measureRecord(record);
+        }),
+        forEachRecord(transaction, STORES.SYNC_STATE, record => {
+            usage.syncState += measureRecord(record);
+        }),
+    ]);
+
+    return usage;
+}
+
 // ================== CLEAR ALL DATA ==================
 
 export async function clearAllData(): Promise<void> {
@@ -365,21 +1696,30 @@ export async function clearAllData(): Promise<void> {
     Object.values(STORAGE_KEYS).forEach(key => {
         localStorage.removeItem(key);
     });
+    localStorage.removeItem(SCHEMA_VERSIONS_KEY);
+    localStorage.removeItem(REVISIONS_KEY);
 
     // Clear IndexedDB
     const db = await openDatabase();
-    const transaction = db.transaction([STORES.LECTURE_NOTES, STORES.HABIT_LOGS], 'readwrite');
-
-    await Promise.all([
-        new Promise<void>((resolve, reject) => {
-            const request = transaction.objectStore(STORES.LECTURE_NOTES).clear();
-            request.onsuccess = () => resolve();
-            request.onerror = () => reject();
-        }),
-        new Promise<void>((resolve, reject) => {
-            const request = transaction.objectStore(STORES.HABIT_LOGS).clear();
-            request.onsuccess = () => resolve();
-            request.onerror = () => reject();
-        }),
-    ]);
+    const storeNames: StoreName[] = [
+        STORES.LECTURE_NOTES,
+        STORES.HABIT_LOGS,
+        STORES.SNAPSHOTS,
+        STORES.SYNC_STATE,
+        STORES.HISTORY,
+        STORES.FOCUS_SESSIONS,
+        ...PLANNER_STORES,
+    ];
+    const transaction = db.transaction(storeNames, 'readwrite');
+
+    await Promise.all(
+        storeNames.map(
+            name =>
+                new Promise<void>((resolve, reject) => {
+                    const request = transaction.objectStore(name).clear();
+                    request.onsuccess = () => resolve();
+                    request.onerror = () => reject();
+                })
+        )
+    );
 }
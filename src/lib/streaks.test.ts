@@ -0,0 +1,435 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Habit, HabitLog, VacationRange } from '../types';
+import { calculateHabitStreak, MAX_FREEZES, StreakOptions } from './streaks';
+
+// 2026-01-01 is a Thursday; weeks start on Monday (Jan 5, 12, ...)
+const CREATED_AT = '2026-01-01T12:00:00.000Z';
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+function makeHabit(overrides: Partial<Habit> = {}): Habit {
+    return {
+        id: 'h',
+        title: 'Test',
+        emoji: '✨',
+        type: 'boolean',
+        frequency: { type: 'specificDays', days: EVERY_DAY },
+        isArchived: false,
+        createdAt: CREATED_AT,
+        updatedAt: CREATED_AT,
+        ...overrides,
+    };
+}
+
+function jan(...days: number[]): string[] {
+    return days.map(day => `2026-01-${String(day).padStart(2, '0')}`);
+}
+
+function range(from: number, to: number): number[] {
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function doneLogs(dates: string[]): HabitLog[] {
+    return dates.map(dateISO => ({ habitId: 'h', dateISO, done: true, timestamp: `${dateISO}T12:00:00.000Z` }));
+}
+
+function valueLogs(values: Record<string, number>): HabitLog[] {
+    return Object.entries(values).map(([dateISO, value]) => ({
+        habitId: 'h',
+        dateISO,
+        value,
+        timestamp: `${dateISO}T12:00:00.000Z`,
+    }));
+}
+
+interface StreakCase {
+    name: string;
+    habit: Habit;
+    logs: HabitLog[];
+    today: string;
+    options?: StreakOptions;
+    current: number;
+    best: number;
+}
+
+function expectStreak({ habit, logs, today, options, current, best }: StreakCase) {
+    const streak = calculateHabitStreak(habit, logs, today, options);
+    expect({ current: streak.current, best: streak.best }).toEqual({ current, best });
+}
+
+describe('calculateHabitStreak', () => {
+    describe('due days', () => {
+        const cases: StreakCase[] = [
+            { name: 'no logs', habit: makeHabit(), logs: [], today: '2026-01-10', current: 0, best: 0 },
+            {
+                name: 'every day done',
+                habit: makeHabit(),
+                logs: doneLogs(jan(...range(1, 10))),
+                today: '2026-01-10',
+                current: 10,
+                best: 10,
+            },
+            {
+                name: 'today still open does not break the streak',
+                habit: makeHabit(),
+                logs: doneLogs(jan(...range(1, 9))),
+                today: '2026-01-10',
+                current: 9,
+                best: 9,
+            },
+            {
+                name: 'a missed day resets the current streak only',
+                habit: makeHabit(),
+                logs: doneLogs(jan(1, 2, 3, 5, 6)),
+                today: '2026-01-06',
+                current: 2,
+                best: 3,
+            },
+            {
+                name: 'specific days ignore days that are not due',
+                habit: makeHabit({ frequency: { type: 'specificDays', days: [1, 3, 5] } }),
+                logs: doneLogs(jan(2, 5, 7, 9, 12)),
+                today: '2026-01-13',
+                current: 5,
+                best: 5,
+            },
+            {
+                name: 'specific days break on a missed due day',
+                habit: makeHabit({ frequency: { type: 'specificDays', days: [1, 3, 5] } }),
+                logs: doneLogs(jan(2, 5, 9, 12)),
+                today: '2026-01-13',
+                current: 2,
+                best: 2,
+            },
+            {
+                name: 'every x days counts from the creation day',
+                habit: makeHabit({ frequency: { type: 'everyXDays', interval: 3 } }),
+                logs: doneLogs(jan(1, 4, 7, 10)),
+                today: '2026-01-11',
+                current: 4,
+                best: 4,
+            },
+            {
+                name: 'every x days counts from the start date when there is one',
+                habit: makeHabit({ frequency: { type: 'everyXDays', interval: 3 }, startISO: '2026-01-02' }),
+                logs: doneLogs(jan(1, 2, 4, 5, 8)),
+                today: '2026-01-11',
+                current: 3,
+                best: 3,
+            },
+            {
+                name: 'month days past the end of a month fall on its last day',
+                habit: makeHabit({ frequency: { type: 'monthDays', days: [31] } }),
+                logs: doneLogs(['2026-01-31', '2026-02-28']),
+                today: '2026-03-15',
+                current: 2,
+                best: 2,
+            },
+            {
+                name: 'days after the end date are left out',
+                habit: makeHabit({ endISO: '2026-01-05' }),
+                logs: doneLogs(jan(...range(1, 5))),
+                today: '2026-01-20',
+                current: 5,
+                best: 5,
+            },
+        ];
+
+        it.each(cases)('$name', expectStreak);
+
+        it('reports days as the unit', () => {
+            expect(calculateHabitStreak(makeHabit(), [], '2026-01-10').unit).toBe('day');
+        });
+    });
+
+    describe('weekly target', () => {
+        const weekly = makeHabit({ frequency: { type: 'weeklyTarget', timesPerWeek: 3 } });
+
+        const cases: StreakCase[] = [
+            {
+                // Jan 1-4 is 4 of 7 days, so the first week needs round(3 * 4 / 7) = 2
+                name: 'a partial first week needs a share of the target',
+                habit: weekly,
+                logs: doneLogs(jan(1, 2, 5, 6, 7)),
+                today: '2026-01-14',
+                current: 2,
+                best: 2,
+            },
+            {
+                name: 'a partial first week below its share is missed',
+                habit: weekly,
+                logs: doneLogs(jan(1, 5, 6, 7)),
+                today: '2026-01-14',
+                current: 1,
+                best: 1,
+            },
+            {
+                name: 'sunday belongs to the week that started on monday',
+                habit: weekly,
+                logs: doneLogs(jan(1, 2, 5, 6, 11, 12, 13, 14)),
+                today: '2026-01-14',
+                current: 3,
+                best: 3,
+            },
+            {
+                name: 'monday starts a new week',
+                habit: weekly,
+                logs: doneLogs(jan(1, 2, 5, 6, 12, 13, 14)),
+                today: '2026-01-14',
+                current: 1,
+                best: 1,
+            },
+            {
+                name: 'the current week is not missed before it ends',
+                habit: weekly,
+                logs: doneLogs(jan(1, 2)),
+                today: '2026-01-10',
+                current: 1,
+                best: 1,
+            },
+        ];
+
+        it.each(cases)('$name', expectStreak);
+
+        it('reports weeks as the unit', () => {
+            expect(calculateHabitStreak(weekly, [], '2026-01-10').unit).toBe('week');
+        });
+    });
+
+    describe('monthly target', () => {
+        const monthly = makeHabit({ frequency: { type: 'monthlyTarget', timesPerMonth: 4 } });
+
+        const cases: StreakCase[] = [
+            {
+                name: 'full months met, the current one still open',
+                habit: monthly,
+                logs: doneLogs([...jan(3, 10, 17, 24), '2026-02-02', '2026-02-09', '2026-02-16', '2026-02-23']),
+                today: '2026-03-10',
+                current: 2,
+                best: 2,
+            },
+            {
+                // Mar 1-10 is 10 of 31 days, so March is on pace with round(4 * 10 / 31) = 1
+                name: 'the current month counts once it is on pace',
+                habit: monthly,
+                logs: doneLogs([...jan(3, 10, 17, 24), '2026-02-02', '2026-02-09', '2026-02-16', '2026-02-23', '2026-03-02']),
+                today: '2026-03-10',
+                current: 3,
+                best: 3,
+            },
+            {
+                name: 'a month below the target breaks the streak',
+                habit: monthly,
+                logs: doneLogs([...jan(3, 10, 17, 24), '2026-02-02', '2026-02-09', '2026-02-16']),
+                today: '2026-03-10',
+                current: 0,
+                best: 1,
+            },
+            {
+                // Jan 16-31 is 16 of 31 days, so the first month needs round(4 * 16 / 31) = 2
+                name: 'a partial first month needs a share of the target',
+                habit: makeHabit({ ...monthly, createdAt: '2026-01-16T12:00:00.000Z' }),
+                logs: doneLogs(jan(20, 25)),
+                today: '2026-02-10',
+                current: 1,
+                best: 1,
+            },
+        ];
+
+        it.each(cases)('$name', expectStreak);
+
+        it('reports months as the unit', () => {
+            expect(calculateHabitStreak(monthly, [], '2026-01-10').unit).toBe('month');
+        });
+    });
+
+    describe('rolling window', () => {
+        const rolling = makeHabit({ frequency: { type: 'timesPerPeriod', times: 2, periodDays: 7 } });
+
+        const cases: StreakCase[] = [
+            {
+                name: 'every window holds the target',
+                habit: rolling,
+                logs: doneLogs(jan(1, 4, 8)),
+                today: '2026-01-10',
+                current: 10,
+                best: 10,
+            },
+            {
+                // Jan 6-9 close windows with a single completion
+                name: 'windows short of the target are missed',
+                habit: rolling,
+                logs: doneLogs(jan(1, 9, 10)),
+                today: '2026-01-10',
+                current: 1,
+                best: 5,
+            },
+        ];
+
+        it.each(cases)('$name', expectStreak);
+    });
+
+    describe('skips and vacations', () => {
+        const vacations: VacationRange[] = [{ id: 'v', startISO: '2026-01-05', endISO: '2026-01-06' }];
+
+        const cases: StreakCase[] = [
+            {
+                name: 'a skipped day neither extends nor breaks the streak',
+                habit: makeHabit(),
+                logs: [
+                    ...doneLogs(jan(1, 2, 3, 4, 6, 7)),
+                    { habitId: 'h', dateISO: '2026-01-05', skipped: true, timestamp: '2026-01-05T12:00:00.000Z' },
+                ],
+                today: '2026-01-07',
+                current: 6,
+                best: 6,
+            },
+            {
+                name: 'vacation days are paused',
+                habit: makeHabit(),
+                logs: doneLogs(jan(1, 2, 3, 4, 7)),
+                today: '2026-01-07',
+                options: { vacations },
+                current: 5,
+                best: 5,
+            },
+            {
+                name: 'a day done on vacation still counts',
+                habit: makeHabit(),
+                logs: doneLogs(jan(1, 2, 3, 4, 5, 7)),
+                today: '2026-01-07',
+                options: { vacations },
+                current: 6,
+                best: 6,
+            },
+            {
+                // Jan 5-9 off leaves 2 days, so the week needs round(3 * 2 / 7) = 1
+                name: 'vacation lowers a weekly target',
+                habit: makeHabit({ frequency: { type: 'weeklyTarget', timesPerWeek: 3 } }),
+                logs: doneLogs(jan(1, 2, 10)),
+                today: '2026-01-12',
+                options: { vacations: [{ id: 'v', startISO: '2026-01-05', endISO: '2026-01-09' }] },
+                current: 2,
+                best: 2,
+            },
+        ];
+
+        it.each(cases)('$name', expectStreak);
+    });
+
+    describe('freeze tokens', () => {
+        it('covers a missed day with a token earned by a week in a row', () => {
+            const logs = doneLogs(jan(...range(1, 7), 9, 10));
+            const streak = calculateHabitStreak(makeHabit(), logs, '2026-01-10', { freezeTokens: true });
+
+            expect(streak).toMatchObject({ current: 9, best: 9, freezesLeft: 0, frozen: ['2026-01-08'] });
+        });
+
+        it('breaks the streak when tokens are off', () => {
+            const logs = doneLogs(jan(...range(1, 7), 9, 10));
+            const streak = calculateHabitStreak(makeHabit(), logs, '2026-01-10');
+
+            expect(streak).toMatchObject({ current: 2, best: 7, freezesLeft: 0, frozen: [] });
+        });
+
+        it('breaks the streak once the tokens run out', () => {
+            const logs = doneLogs(jan(...range(1, 7), 10));
+            const streak = calculateHabitStreak(makeHabit(), logs, '2026-01-10', { freezeTokens: true });
+
+            expect(streak).toMatchObject({ current: 1, best: 7, frozen: ['2026-01-08'] });
+        });
+
+        it('keeps at most MAX_FREEZES unused tokens', () => {
+            const logs = doneLogs(jan(...range(1, 28)));
+            const streak = calculateHabitStreak(makeHabit(), logs, '2026-01-28', { freezeTokens: true });
+
+            expect(streak.freezesLeft).toBe(MAX_FREEZES);
+        });
+
+        it('earns tokens per week under a weekly target', () => {
+            const habit = makeHabit({ frequency: { type: 'weeklyTarget', timesPerWeek: 1 } });
+            const logs = doneLogs(jan(1, 5, 12, 19, 26));
+            const streak = calculateHabitStreak(habit, logs, '2026-02-10', { freezeTokens: true });
+
+            // Four weeks in a row earn one token, which covers the week of Feb 2
+            expect(streak).toMatchObject({ current: 5, freezesLeft: 0, frozen: ['2026-02-02'] });
+        });
+    });
+
+    describe('quit and limit habits', () => {
+        const cases: StreakCase[] = [
+            {
+                name: 'quit: days without a slip are clean',
+                habit: makeHabit({ type: 'quit' }),
+                logs: [],
+                today: '2026-01-10',
+                current: 10,
+                best: 10,
+            },
+            {
+                name: 'quit: a slip restarts the count',
+                habit: makeHabit({ type: 'quit' }),
+                logs: valueLogs({ '2026-01-05': 1 }),
+                today: '2026-01-10',
+                current: 5,
+                best: 5,
+            },
+            {
+                name: 'quit: a taken back slip is clean again',
+                habit: makeHabit({ type: 'quit' }),
+                logs: [{ habitId: 'h', dateISO: '2026-01-05', timestamp: '2026-01-05T12:00:00.000Z' }],
+                today: '2026-01-10',
+                current: 10,
+                best: 10,
+            },
+            {
+                name: 'limit: going over breaks the streak',
+                habit: makeHabit({ type: 'limit', target: 2 }),
+                logs: valueLogs({ '2026-01-03': 3, '2026-01-04': 2 }),
+                today: '2026-01-10',
+                current: 7,
+                best: 7,
+            },
+            {
+                name: 'limit: staying at the limit keeps it',
+                habit: makeHabit({ type: 'limit', target: 2 }),
+                logs: valueLogs({ '2026-01-03': 2 }),
+                today: '2026-01-10',
+                current: 10,
+                best: 10,
+            },
+            {
+                name: 'quit: days before the habit existed are not counted',
+                habit: makeHabit({ type: 'quit', createdAt: '2026-01-08T12:00:00.000Z' }),
+                logs: [],
+                today: '2026-01-10',
+                current: 3,
+                best: 3,
+            },
+        ];
+
+        it.each(cases)('$name', expectStreak);
+    });
+
+    describe('time zones', () => {
+        const originalTimeZone = process.env.TZ;
+
+        afterEach(() => {
+            process.env.TZ = originalTimeZone;
+        });
+
+        // Created late on Jan 1 UTC, which is already Jan 2 east of UTC
+        const habit = makeHabit({
+            frequency: { type: 'weeklyTarget', timesPerWeek: 3 },
+            createdAt: '2026-01-01T23:30:00.000Z',
+        });
+        const logs = doneLogs(jan(1, 2, 5, 6, 11));
+
+        it.each(['UTC', 'America/Los_Angeles', 'Asia/Tokyo', 'Pacific/Kiritimati'])(
+            'counts calendar days the same in %s',
+            timeZone => {
+                process.env.TZ = timeZone;
+                expect(calculateHabitStreak(habit, logs, '2026-01-14')).toMatchObject({ current: 2, best: 2 });
+            }
+        );
+    });
+});
@@ -0,0 +1,201 @@
+import { FrequencyRule, Habit, HabitLog, VacationRange } from '../types';
+import {
+    formatDate,
+    getDayNumber,
+    getDaysInMonth,
+    getTargetRate,
+    getToday,
+    isHabitCompleted,
+    isHabitDueOnDate,
+} from './utils';
+
+// ================== STREAKS ==================
+
+export type StreakUnit = 'day' | 'week' | 'month';
+
+export const STREAK_UNIT_LABELS: Record<StreakUnit, string> = {
+    day: 'gün',
+    week: 'hafta',
+    month: 'ay',
+};
+
+export interface HabitStreak {
+    current: number;
+    best: number;
+    unit: StreakUnit; // weeks or months met for those targets, days otherwise
+    freezesLeft: number; // always 0 when freeze tokens are off
+    frozen: string[]; // missed days (period starts for weekly and monthly targets) a token covered
+}
+
+export interface StreakOptions {
+    vacations?: VacationRange[];
+    freezeTokens?: boolean;
+}
+
+// A token is earned for this many periods met in a row; unused ones are capped
+export const FREEZE_EARN_PERIODS: Record<StreakUnit, number> = { day: 7, week: 4, month: 2 };
+export const MAX_FREEZES = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'paused' periods neither extend nor break a streak: skipped days,
+// vacations, and the current period while it can still be met
+type PeriodStatus = 'met' | 'missed' | 'paused';
+
+interface Period {
+    day: number;
+    status: PeriodStatus;
+}
+
+interface HabitDays {
+    done: Set<number>;
+    isPaused: (day: number) => boolean;
+    first: number; // the start date, else creation or an earlier imported log
+    last: number; // today, or the end date of a habit that has ended
+    today: number;
+}
+
+// 1970-01-01 (day 0) was a Thursday; 0 = Sunday like Date.getDay()
+function getWeekday(day: number): number {
+    return (day + 4) % 7;
+}
+
+function getWeekStartDay(day: number): number {
+    return day - ((getWeekday(day) + 6) % 7);
+}
+
+function toDateISO(day: number): string {
+    return formatDate(new Date(day * DAY_MS));
+}
+
+function getHabitDays(habit: Habit, logs: HabitLog[], today: string, vacations: VacationRange[]): HabitDays {
+    const todayNumber = getDayNumber(today);
+    const start = habit.startISO ? getDayNumber(habit.startISO) : null;
+    const last = habit.endISO ? Math.min(getDayNumber(habit.endISO), todayNumber) : todayNumber;
+    const logsByDay = new Map<number, HabitLog>();
+    const skipped = new Set<number>();
+    let first = start ?? getDayNumber(formatDate(habit.createdAt));
+
+    logs.forEach(log => {
+        const day = getDayNumber(log.dateISO);
+        if (day > last || (start !== null && day < start)) return;
+        logsByDay.set(day, log);
+        if (log.skipped) skipped.add(day);
+        if (isHabitCompleted(habit, log)) first = Math.min(first, day);
+    });
+
+    // Walks the calendar, as quit and limit habits are kept on days without a log
+    const done = new Set<number>();
+    for (let day = first; day <= last; day++) {
+        if (isHabitCompleted(habit, logsByDay.get(day) ?? null)) done.add(day);
+    }
+
+    const ranges = vacations.map(range => [getDayNumber(range.startISO), getDayNumber(range.endISO)]);
+    const isPaused = (day: number) => skipped.has(day) || ranges.some(([from, to]) => from <= day && day <= to);
+
+    return { done, isPaused, first, last, today: todayNumber };
+}
+
+function* getDuePeriods(habit: Habit, days: HabitDays): Generator<Period> {
+    for (let day = days.first; day <= days.last; day++) {
+        if (!isHabitDueOnDate(habit, toDateISO(day))) continue;
+
+        let status: PeriodStatus = 'missed';
+        if (days.done.has(day)) status = 'met';
+        else if (day === days.today || days.isPaused(day)) status = 'paused';
+        yield { day, status };
+    }
+}
+
+// A target over the days `from`..`to` (`length` days in full). Days outside
+// the habit's history and paused days lower the target in proportion; a
+// target that rounds to nothing is met by any completion.
+function getTargetStatus(days: HabitDays, from: number, to: number, times: number, length: number): PeriodStatus {
+    let done = 0;
+    let available = 0;
+    for (let day = Math.max(from, days.first); day <= Math.min(to, days.last); day++) {
+        if (days.done.has(day)) done++;
+        if (days.done.has(day) || !days.isPaused(day)) available++;
+    }
+    const target = Math.round((times * available) / length);
+
+    if (target === 0) return done > 0 ? 'met' : 'paused';
+    if (done >= target) return 'met';
+    return to >= days.today ? 'paused' : 'missed';
+}
+
+function* getTargetPeriods(frequency: FrequencyRule, days: HabitDays): Generator<Period> {
+    if (frequency.type === 'weeklyTarget') {
+        for (let week = getWeekStartDay(days.first); week <= days.last; week += 7) {
+            yield { day: week, status: getTargetStatus(days, week, week + 6, frequency.timesPerWeek, 7) };
+        }
+    } else if (frequency.type === 'monthlyTarget') {
+        const firstDate = new Date(days.first * DAY_MS);
+        let month = Date.UTC(firstDate.getUTCFullYear(), firstDate.getUTCMonth(), 1) / DAY_MS;
+        while (month <= days.last) {
+            const length = getDaysInMonth(toDateISO(month));
+            yield { day: month, status: getTargetStatus(days, month, month + length - 1, frequency.timesPerMonth, length) };
+            month += length;
+        }
+    } else if (frequency.type === 'timesPerPeriod') {
+        // Every day closes a window of the last `periodDays` days
+        for (let day = days.first; day <= days.last; day++) {
+            const from = day - frequency.periodDays + 1;
+            yield { day, status: getTargetStatus(days, from, day, frequency.times, frequency.periodDays) };
+        }
+    }
+}
+
+function countRuns(periods: Iterable<Period>, earnEvery: number): Omit<HabitStreak, 'unit'> {
+    let current = 0;
+    let best = 0;
+    let freezesLeft = 0;
+    let metSinceToken = 0;
+    const frozen: string[] = [];
+
+    for (const { day, status } of periods) {
+        if (status === 'met') {
+            current++;
+            best = Math.max(best, current);
+            if (earnEvery > 0 && ++metSinceToken === earnEvery) {
+                freezesLeft = Math.min(freezesLeft + 1, MAX_FREEZES);
+                metSinceToken = 0;
+            }
+        } else if (status === 'missed') {
+            if (freezesLeft > 0) {
+                freezesLeft--;
+                frozen.push(toDateISO(day));
+            } else {
+                current = 0;
+                metSinceToken = 0;
+            }
+        }
+    }
+    return { current, best, freezesLeft, frozen };
+}
+
+function getStreakUnit(frequency: FrequencyRule): StreakUnit {
+    if (frequency.type === 'weeklyTarget') return 'week';
+    if (frequency.type === 'monthlyTarget') return 'month';
+    return 'day';
+}
+
+/**
+ * Current and best streak of a habit up to `today` (or its end date), over
+ * its whole history. Dates are calendar days (dateISO), never shifted by the
+ * local time zone.
+ */
+export function calculateHabitStreak(
+    habit: Habit,
+    logs: HabitLog[],
+    today: string = getToday(),
+    { vacations = [], freezeTokens = false }: StreakOptions = {}
+): HabitStreak {
+    const days = getHabitDays(habit, logs, today, vacations);
+    const unit = getStreakUnit(habit.frequency);
+    const periods = getTargetRate(habit.frequency, today) === null
+        ? getDuePeriods(habit, days)
+        : getTargetPeriods(habit.frequency, days);
+
+    return { ...countRuns(periods, freezeTokens ? FREEZE_EARN_PERIODS[unit] : 0), unit };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Course, Exam, StudyPlan, Task } from '../types';
+import { generateStudyPlan, hasMissedStudyTasks, StudyPlanError } from './studyPlan';
+
+const STAMP = '2026-01-01T00:00:00.000Z';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+    return { id, text: id, status: 'todo', createdAt: STAMP, updatedAt: STAMP, ...overrides };
+}
+
+function makeCourse(tasks: Task[]): Course {
+    return {
+        id: 'c1',
+        title: 'Analiz',
+        units: [{ id: 'u1', title: 'Limit', order: 0, tasks }],
+        exams: [],
+        createdAt: STAMP,
+        updatedAt: STAMP,
+    };
+}
+
+function makePlan(overrides: Partial<StudyPlan> = {}): StudyPlan {
+    // 2 hours of 60-minute tasks: two tasks fit in a day
+    return { unitIds: ['u1'], hoursPerDay: 2, minutesPerTask: 60, reviewDays: 0, createdAt: STAMP, ...overrides };
+}
+
+function makeExam(examDateISO: string, studyPlan?: StudyPlan): Exam {
+    return { id: 'e1', title: 'Vize', examDateISO, studyPlan };
+}
+
+const tasks = (count: number) => Array.from({ length: count }, (_, i) => makeTask(`t${i + 1}`));
+
+describe('generateStudyPlan', () => {
+    it('fills days in order up to what the daily hours allow', () => {
+        const result = generateStudyPlan(makeCourse(tasks(5)), makeExam('2026-01-15'), makePlan(), [], '2026-01-05');
+
+        expect(result.tasksPerDay).toBe(2);
+        expect(result.isOverloaded).toBe(false);
+        expect(result.dueDates).toEqual({
+            t1: '2026-01-05',
+            t2: '2026-01-05',
+            t3: '2026-01-06',
+            t4: '2026-01-06',
+            t5: '2026-01-07',
+        });
+    });
+
+    it('spreads tasks evenly and flags the plan when the hours run out', () => {
+        const result = generateStudyPlan(makeCourse(tasks(9)), makeExam('2026-01-08'), makePlan(), [], '2026-01-05');
+
+        expect(result.isOverloaded).toBe(true);
+        expect(result.studyDays).toEqual(['2026-01-05', '2026-01-06', '2026-01-07']);
+        expect(Object.values(result.dueDates)).toEqual([
+            '2026-01-05', '2026-01-05', '2026-01-05',
+            '2026-01-06', '2026-01-06', '2026-01-06',
+            '2026-01-07', '2026-01-07', '2026-01-07',
+        ]);
+    });
+
+    it('plans everything for today when the exam is tomorrow', () => {
+        const result = generateStudyPlan(
+            makeCourse(tasks(3)),
+            makeExam('2026-01-06T09:00:00.000Z'),
+            makePlan({ reviewDays: 2 }),
+            [],
+            '2026-01-05'
+        );
+
+        expect(result.studyDays).toEqual(['2026-01-05']);
+        expect(result.reviewDays).toEqual([]);
+        expect(result.isOverloaded).toBe(true);
+        expect(new Set(Object.values(result.dueDates))).toEqual(new Set(['2026-01-05']));
+    });
+
+    it('gives up review days before the last study day', () => {
+        const result = generateStudyPlan(
+            makeCourse(tasks(2)),
+            makeExam('2026-01-08'),
+            makePlan({ reviewDays: 7 }),
+            [],
+            '2026-01-05'
+        );
+
+        expect(result.studyDays).toEqual(['2026-01-05']);
+        expect(result.reviewDays).toEqual(['2026-01-06', '2026-01-07']);
+        expect(result.dueDates).toEqual({ t1: '2026-01-05', t2: '2026-01-05' });
+    });
+
+    it('leaves out done and completed tasks', () => {
+        const course = makeCourse([makeTask('t1', { status: 'done' }), makeTask('t2'), makeTask('t3')]);
+        const result = generateStudyPlan(course, makeExam('2026-01-10'), makePlan(), ['t2'], '2026-01-05');
+
+        expect(result.dueDates).toEqual({ t3: '2026-01-05' });
+    });
+
+    it.each([
+        { name: 'the exam is today', examDateISO: '2026-01-05', course: makeCourse(tasks(1)) },
+        { name: 'nothing is left to do', examDateISO: '2026-01-10', course: makeCourse([]) },
+    ])('refuses to plan when $name', ({ examDateISO, course }) => {
+        expect(() => generateStudyPlan(course, makeExam(examDateISO), makePlan(), [], '2026-01-05')).toThrow(StudyPlanError);
+    });
+});
+
+describe('hasMissedStudyTasks', () => {
+    const plan = makePlan();
+
+    it('moves a missed task to the days left', () => {
+        const course = makeCourse([
+            makeTask('t1', { dueDateISO: '2026-01-05' }),
+            makeTask('t2', { dueDateISO: '2026-01-06' }),
+            makeTask('t3', { dueDateISO: '2026-01-07' }),
+        ]);
+        const exam = makeExam('2026-01-10', plan);
+
+        expect(hasMissedStudyTasks(course, exam, [], '2026-01-05')).toBe(false);
+        expect(hasMissedStudyTasks(course, exam, [], '2026-01-06')).toBe(true);
+
+        const { dueDates } = generateStudyPlan(course, exam, plan, [], '2026-01-06');
+        expect(dueDates).toEqual({ t1: '2026-01-06', t2: '2026-01-06', t3: '2026-01-07' });
+        const rebalanced = makeCourse(course.units[0].tasks.map(task => ({ ...task, dueDateISO: dueDates[task.id] })));
+        expect(hasMissedStudyTasks(rebalanced, exam, [], '2026-01-06')).toBe(false);
+    });
+
+    it.each([
+        { name: 'the task is done', completed: ['t1'], today: '2026-01-06', examDateISO: '2026-01-10', studyPlan: plan },
+        { name: 'the exam has passed', completed: [], today: '2026-01-10', examDateISO: '2026-01-10', studyPlan: plan },
+        { name: 'the exam has no plan', completed: [], today: '2026-01-06', examDateISO: '2026-01-10', studyPlan: undefined },
+    ])('ignores overdue tasks when $name', ({ completed, today, examDateISO, studyPlan }) => {
+        const course = makeCourse([makeTask('t1', { dueDateISO: '2026-01-05' })]);
+        expect(hasMissedStudyTasks(course, makeExam(examDateISO, studyPlan), completed, today)).toBe(false);
+    });
+});
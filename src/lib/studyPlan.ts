@@ -0,0 +1,97 @@
+import { Course, Exam, StudyPlan, Task } from '../types';
+import { formatDate } from './utils';
+
+export class StudyPlanError extends Error {}
+
+export interface StudyPlanResult {
+    dueDates: Record<string, string>; // taskId -> dateISO
+    studyDays: string[];
+    reviewDays: string[];
+    tasksPerDay: number; // what the available hours allow
+    isOverloaded: boolean; // more tasks than the hours allow; spread evenly, days get more than tasksPerDay
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isTaskDone(task: Task, completedTaskIds: Set<string>): boolean {
+    return task.status === 'done' || completedTaskIds.has(task.id);
+}
+
+/** Days from `from` up to, not including, the exam day. */
+function getDaysBefore(from: string, examDateISO: string): string[] {
+    const days: string[] = [];
+    const end = new Date(`${examDateISO.split('T')[0]}T00:00:00Z`).getTime();
+    for (let time = new Date(`${from}T00:00:00Z`).getTime(); time < end; time += DAY_MS) {
+        days.push(formatDate(new Date(time)));
+    }
+    return days;
+}
+
+/** Incomplete tasks of the covered units, in unit order and then task order. */
+export function getStudyPlanTasks(course: Course, unitIds: string[], completedTaskIds: string[]): Task[] {
+    const covered = new Set(unitIds);
+    const completed = new Set(completedTaskIds);
+    return [...course.units]
+        .filter(unit => covered.has(unit.id))
+        .sort((a, b) => a.order - b.order)
+        .flatMap(unit => unit.tasks.filter(task => !isTaskDone(task, completed)));
+}
+
+/**
+ * Schedules the incomplete tasks of the covered units from `today` towards
+ * the exam, filling each day up to what the daily hours allow and leaving
+ * the last `reviewDays` free. Review days give way first when time is short;
+ * a plan always keeps one study day. When even that is not enough, tasks are
+ * spread evenly over the study days and the plan is marked overloaded.
+ */
+export function generateStudyPlan(
+    course: Course,
+    exam: Exam,
+    plan: Pick<StudyPlan, 'unitIds' | 'hoursPerDay' | 'minutesPerTask' | 'reviewDays'>,
+    completedTaskIds: string[],
+    today: string
+): StudyPlanResult {
+    const days = getDaysBefore(today, exam.examDateISO);
+    if (days.length === 0) {
+        throw new StudyPlanError('Sınava plan yapılacak gün kalmamış');
+    }
+
+    const tasks = getStudyPlanTasks(course, plan.unitIds, completedTaskIds);
+    if (tasks.length === 0) {
+        throw new StudyPlanError('Seçilen ünitelerde tamamlanmamış görev yok');
+    }
+
+    const reviewCount = Math.min(plan.reviewDays, days.length - 1);
+    const studyDays = days.slice(0, days.length - reviewCount);
+    const tasksPerDay = Math.max(Math.floor((plan.hoursPerDay * 60) / plan.minutesPerTask), 1);
+
+    const isOverloaded = tasks.length > tasksPerDay * studyDays.length;
+
+    const dueDates: Record<string, string> = {};
+    tasks.forEach((task, i) => {
+        const dayIndex = isOverloaded
+            ? Math.floor((i * studyDays.length) / tasks.length)
+            : Math.floor(i / tasksPerDay);
+        dueDates[task.id] = studyDays[dayIndex];
+    });
+
+    return {
+        dueDates,
+        studyDays,
+        reviewDays: days.slice(studyDays.length),
+        tasksPerDay,
+        isOverloaded,
+    };
+}
+
+/**
+ * Whether a planned exam has tasks that were due before `today` and are
+ * still open, so the rest of the plan should move them forward.
+ */
+export function hasMissedStudyTasks(course: Course, exam: Exam, completedTaskIds: string[], today: string): boolean {
+    if (!exam.studyPlan || exam.examDateISO.split('T')[0] <= today) return false;
+
+    return getStudyPlanTasks(course, exam.studyPlan.unitIds, completedTaskIds).some(
+        task => task.dueDateISO !== undefined && task.dueDateISO.split('T')[0] < today
+    );
+}
@@ -0,0 +1,63 @@
+// @vitest-environment happy-dom
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SyncChange } from '../types';
+import type { SyncAdapter } from './sync';
+
+// The storage module keeps the open database, so every test imports a
+// fresh copy against an empty one
+let sync: typeof import('./sync');
+
+beforeEach(async () => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    sync = await import('./sync');
+});
+
+function makeChange(entityId: string, deviceId: string): SyncChange {
+    return {
+        id: `change-${entityId}`,
+        deviceId,
+        entityType: 'habit',
+        entityId,
+        op: 'upsert',
+        changedAt: '2026-01-05T10:00:00.000Z',
+    };
+}
+
+// Serves a fixed log and remembers which cursors it was asked for
+function makeAdapter(changes: SyncChange[]): SyncAdapter & { cursors: (string | null)[] } {
+    const cursors: (string | null)[] = [];
+    return {
+        cursors,
+        pull: async cursor => {
+            cursors.push(cursor);
+            return { changes: changes.slice(Number(cursor ?? 0)), cursor: String(changes.length) };
+        },
+        push: async () => undefined,
+    };
+}
+
+describe('pullChanges', () => {
+    it("leaves out this device's own changes", async () => {
+        const adapter = makeAdapter([makeChange('h1', 'other'), makeChange('h2', 'me')]);
+
+        const result = await sync.pullChanges(adapter, 'me');
+
+        expect(result).toEqual({ changes: [makeChange('h1', 'other')], cursor: '2' });
+    });
+
+    it('pulls the same changes again until their cursor is saved', async () => {
+        const adapter = makeAdapter([makeChange('h1', 'other'), makeChange('h2', 'other')]);
+
+        const first = await sync.pullChanges(adapter, 'me');
+        // The tab closed before the pulled changes were stored
+        const again = await sync.pullChanges(adapter, 'me');
+        expect(again.changes).toEqual(first.changes);
+
+        await sync.saveServerCursor(again.cursor);
+        expect((await sync.pullChanges(adapter, 'me')).changes).toEqual([]);
+        expect(adapter.cursors).toEqual([null, null, '2']);
+    });
+});
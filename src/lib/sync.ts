@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import {
+    Course,
+    CourseSchema,
+    Habit,
+    HabitLog,
+    HabitLogSchema,
+    HabitSchema,
+    PersonalTask,
+    PersonalTaskSchema,
+    SyncChange,
+    SyncEntityType,
+    SyncPullResult,
+    SyncPullResultSchema,
+} from '../types';
+import { MergeSide } from './merge';
+import { deleteSyncState, getSyncState, saveSyncState } from './storage';
+import { generateId } from './utils';
+
+// ================== ADAPTER ==================
+
+/**
+ * A sync backend. Changes are entity-level; the cursor is opaque to the app
+ * and only handed back to the same backend on the next pull.
+ */
+export interface SyncAdapter {
+    pull: (cursor: string | null) => Promise<SyncPullResult>;
+    push: (changes: SyncChange[]) => Promise<void>;
+}
+
+export interface ServerSyncConfig {
+    url: string;
+    token?: string;
+}
+
+// Thrown for failed server requests; the message is user-facing
+export class SyncServerError extends Error {}
+
+export function createHttpSyncAdapter(config: ServerSyncConfig): SyncAdapter {
+    const baseUrl = config.url.endsWith('/') ? config.url : `${config.url}/`;
+
+    const request = async (path: string, init: RequestInit = {}): Promise<unknown> => {
+        let response: Response;
+        try {
+            response = await fetch(new URL(path, baseUrl), {
+                ...init,
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+                },
+            });
+        } catch {
+            throw new SyncServerError('Sunucuya ulaşılamadı');
+        }
+
+        if (response.status === 401) {
+            throw new SyncServerError('Sunucu erişim anahtarını kabul etmedi');
+        }
+        if (!response.ok) {
+            throw new SyncServerError(`Sunucu hatası (${response.status})`);
+        }
+        return response.json();
+    };
+
+    return {
+        pull: async (cursor) => {
+            const data = await request(`changes?since=${encodeURIComponent(cursor ?? '')}`);
+            const result = SyncPullResultSchema.safeParse(data);
+            if (!result.success) {
+                throw new SyncServerError('Sunucudan geçersiz yanıt alındı');
+            }
+            return result.data;
+        },
+        push: async (changes) => {
+            await request('changes', { method: 'POST', body: JSON.stringify({ changes }) });
+        },
+    };
+}
+
+// ================== CHANGE DETECTION ==================
+
+function habitLogId(log: HabitLog): string {
+    return `${log.habitId}|${log.dateISO}`;
+}
+
+function diffList<T>(
+    entityType: SyncEntityType,
+    prev: T[],
+    next: T[],
+    getId: (item: T) => string,
+    makeChange: (entityType: SyncEntityType, entityId: string, op: SyncChange['op'], data?: unknown) => SyncChange
+): SyncChange[] {
+    const prevById = new Map(prev.map(item => [getId(item), item]));
+    const nextIds = new Set(next.map(getId));
+    const changes: SyncChange[] = [];
+
+    next.forEach(item => {
+        const before = prevById.get(getId(item));
+        if (!before || JSON.stringify(before) !== JSON.stringify(item)) {
+            changes.push(makeChange(entityType, getId(item), 'upsert', item));
+        }
+    });
+    prevById.forEach((_item, id) => {
+        if (!nextIds.has(id)) {
+            changes.push(makeChange(entityType, id, 'delete'));
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Turns the difference between two states into entity changes. Courses
+ * travel whole, with their units, tasks and exams; task completion is its
+ * own entity keyed by task id.
+ */
+export function diffSyncState(prev: MergeSide, next: MergeSide, deviceId: string): SyncChange[] {
+    const changedAt = new Date().toISOString();
+    const makeChange = (entityType: SyncEntityType, entityId: string, op: SyncChange['op'], data?: unknown): SyncChange => ({
+        id: generateId(),
+        deviceId,
+        entityType,
+        entityId,
+        op,
+        data,
+        changedAt,
+    });
+
+    const completions = (side: MergeSide) =>
+        side.completionState.completedTaskIds.map(taskId => ({
+            taskId,
+            completedAt: side.completionState.completionHistory[taskId] ?? null,
+        }));
+
+    return [
+        ...diffList('course', prev.courses, next.courses, c => c.id, makeChange),
+        ...diffList('personalTask', prev.personalTasks, next.personalTasks, t => t.id, makeChange),
+        ...diffList('habit', prev.habits, next.habits, h => h.id, makeChange),
+        ...diffList('habitLog', prev.habitLogs, next.habitLogs, habitLogId, makeChange),
+        ...diffList('taskCompletion', completions(prev), completions(next), c => c.taskId, makeChange),
+    ];
+}
+
+// ================== APPLYING CHANGES ==================
+
+function upsertNewest<T>(
+    items: T[],
+    incoming: T,
+    getId: (item: T) => string,
+    getUpdatedAt: (item: T) => string
+): T[] {
+    const index = items.findIndex(item => getId(item) === getId(incoming));
+    if (index === -1) {
+        return [...items, incoming];
+    }
+    // A newer local edit wins over an older remote one
+    if (getUpdatedAt(items[index]) > getUpdatedAt(incoming)) {
+        return items;
+    }
+    return items.map((item, i) => (i === index ? incoming : item));
+}
+
+function parseData<T>(schema: z.ZodType<T>, data: unknown): T | null {
+    const result = schema.safeParse(data);
+    return result.success ? result.data : null;
+}
+
+const TaskCompletionSchema = z.object({
+    taskId: z.string(),
+    completedAt: z.string().nullable(),
+});
+
+/** Applies pulled changes in order; invalid payloads are skipped. */
+export function applySyncChanges(side: MergeSide, changes: SyncChange[]): MergeSide {
+    let { courses, personalTasks, habits, habitLogs } = side;
+    let completedTaskIds = side.completionState.completedTaskIds;
+    let completionHistory = side.completionState.completionHistory;
+
+    changes.forEach(change => {
+        const isDelete = change.op === 'delete';
+
+        switch (change.entityType) {
+            case 'course': {
+                const course = isDelete ? null : parseData<Course>(CourseSchema, change.data);
+                if (isDelete) courses = courses.filter(c => c.id !== change.entityId);
+                else if (course) courses = upsertNewest(courses, course, c => c.id, c => c.updatedAt);
+                break;
+            }
+            case 'personalTask': {
+                const task = isDelete ? null : parseData<PersonalTask>(PersonalTaskSchema, change.data);
+                if (isDelete) personalTasks = personalTasks.filter(t => t.id !== change.entityId);
+                else if (task) personalTasks = upsertNewest(personalTasks, task, t => t.id, t => t.updatedAt);
+                break;
+            }
+            case 'habit': {
+                const habit = isDelete ? null : parseData<Habit>(HabitSchema, change.data);
+                if (isDelete) habits = habits.filter(h => h.id !== change.entityId);
+                else if (habit) habits = upsertNewest(habits, habit, h => h.id, h => h.updatedAt);
+                break;
+            }
+            case 'habitLog': {
+                const log = isDelete ? null : parseData<HabitLog>(HabitLogSchema, change.data);
+                if (isDelete) habitLogs = habitLogs.filter(l => habitLogId(l) !== change.entityId);
+                else if (log) habitLogs = upsertNewest(habitLogs, log, habitLogId, l => l.timestamp);
+                break;
+            }
+            case 'taskCompletion': {
+                const completion = isDelete ? null : parseData(TaskCompletionSchema, change.data);
+                completedTaskIds = completedTaskIds.filter(id => id !== change.entityId);
+                completionHistory = { ...completionHistory };
+                delete completionHistory[change.entityId];
+
+                if (completion) {
+                    completedTaskIds = [...completedTaskIds, completion.taskId];
+                    if (completion.completedAt) {
+                        completionHistory[completion.taskId] = completion.completedAt;
+                    }
+                }
+                break;
+            }
+        }
+    });
+
+    return {
+        courses,
+        completionState: { completedTaskIds, completionHistory },
+        personalTasks,
+        habits,
+        habitLogs,
+    };
+}
+
+// ================== OFFLINE QUEUE ==================
+
+const OUTBOX_KEY = 'serverOutbox';
+const CURSOR_KEY = 'serverCursor';
+const CONFIG_KEY = 'serverConfig';
+const DEVICE_ID_KEY = 'deviceId';
+
+// Outbox updates are read-modify-write, so they run one at a time
+let outboxQueue: Promise<unknown> = Promise.resolve();
+
+function updateOutbox(update: (outbox: SyncChange[]) => SyncChange[]): Promise<SyncChange[]> {
+    const run = outboxQueue.then(async () => {
+        const outbox = update((await getSyncState<SyncChange[]>(OUTBOX_KEY)) || []);
+        await saveSyncState(OUTBOX_KEY, outbox);
+        return outbox;
+    });
+    outboxQueue = run.catch(() => undefined);
+    return run;
+}
+
+export async function getOutbox(): Promise<SyncChange[]> {
+    return (await getSyncState<SyncChange[]>(OUTBOX_KEY)) || [];
+}
+
+/** Queues changes for the server; an entity keeps only its latest queued change. */
+export function enqueueChanges(changes: SyncChange[]): Promise<SyncChange[]> {
+    const key = (change: SyncChange) => `${change.entityType}:${change.entityId}`;
+    const replaced = new Set(changes.map(key));
+
+    return updateOutbox(outbox => [...outbox.filter(change => !replaced.has(key(change))), ...changes]);
+}
+
+/** Pushes everything queued so far and returns how many changes were sent. */
+export async function flushOutbox(adapter: SyncAdapter): Promise<number> {
+    const pending = await getOutbox();
+    if (pending.length === 0) return 0;
+
+    await adapter.push(pending);
+
+    const sentIds = new Set(pending.map(change => change.id));
+    await updateOutbox(outbox => outbox.filter(change => !sentIds.has(change.id)));
+    return pending.length;
+}
+
+/**
+ * Pulls changes since the stored cursor, leaving out this device's own.
+ * The new cursor is not stored; save it with `saveServerCursor` once the
+ * changes are, so a pull that never got stored is fetched again.
+ */
+export async function pullChanges(adapter: SyncAdapter, deviceId: string): Promise<SyncPullResult> {
+    const result = await adapter.pull(await getSyncState<string>(CURSOR_KEY));
+    return { ...result, changes: result.changes.filter(change => change.deviceId !== deviceId) };
+}
+
+export async function saveServerCursor(cursor: string): Promise<void> {
+    await saveSyncState(CURSOR_KEY, cursor);
+}
+
+// ================== SERVER CONFIG ==================
+
+export async function getServerConfig(): Promise<ServerSyncConfig | null> {
+    return getSyncState<ServerSyncConfig>(CONFIG_KEY);
+}
+
+export async function saveServerConfig(config: ServerSyncConfig): Promise<void> {
+    await saveSyncState(CONFIG_KEY, config);
+    // A different server has its own history
+    await deleteSyncState(CURSOR_KEY);
+    await deleteSyncState(OUTBOX_KEY);
+}
+
+export async function clearServerConfig(): Promise<void> {
+    await deleteSyncState(CONFIG_KEY);
+    await deleteSyncState(CURSOR_KEY);
+    await deleteSyncState(OUTBOX_KEY);
+}
+
+export async function getDeviceId(): Promise<string> {
+    const existing = await getSyncState<string>(DEVICE_ID_KEY);
+    if (existing) return existing;
+
+    const deviceId = generateId();
+    await saveSyncState(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+}
@@ -0,0 +1,290 @@
+import { Course, Habit, Unit } from '../types';
+import type { PlannerData } from './storage';
+
+// ================== TRASH ITEMS ==================
+
+export type TrashItemType = 'course' | 'unit' | 'task' | 'exam' | 'personalTask' | 'habit';
+
+/** Points at one soft-deleted entity; units, tasks and exams also name their parents. */
+export interface TrashRef {
+    type: TrashItemType;
+    id: string;
+    courseId?: string;
+    unitId?: string;
+}
+
+export interface TrashItem extends TrashRef {
+    title: string;
+    location?: string; // course (and unit) the item was in
+    deletedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When an item in the trash is due to be removed for good. */
+export function getTrashExpiry(item: TrashItem, retentionDays: number): string {
+    return new Date(new Date(item.deletedAt).getTime() + retentionDays * DAY_MS).toISOString();
+}
+
+export function isTrashExpired(item: TrashItem, retentionDays: number, now: number = Date.now()): boolean {
+    return new Date(getTrashExpiry(item, retentionDays)).getTime() <= now;
+}
+
+// Only the outermost deleted entity is listed; whatever was inside it
+// comes back or goes away together with it
+export function getPlannerTrash(data: PlannerData): TrashItem[] {
+    const items: TrashItem[] = [];
+
+    data.courses.forEach(course => {
+        if (course.deletedAt) {
+            items.push({ type: 'course', id: course.id, title: course.title, deletedAt: course.deletedAt });
+            return;
+        }
+
+        course.units.forEach(unit => {
+            if (unit.deletedAt) {
+                items.push({
+                    type: 'unit',
+                    id: unit.id,
+                    courseId: course.id,
+                    title: unit.title,
+                    location: course.title,
+                    deletedAt: unit.deletedAt,
+                });
+                return;
+            }
+            unit.tasks.forEach(task => {
+                if (!task.deletedAt) return;
+                items.push({
+                    type: 'task',
+                    id: task.id,
+                    courseId: course.id,
+                    unitId: unit.id,
+                    title: task.text,
+                    location: `${course.title} · ${unit.title}`,
+                    deletedAt: task.deletedAt,
+                });
+            });
+        });
+
+        course.exams.forEach(exam => {
+            if (!exam.deletedAt) return;
+            items.push({
+                type: 'exam',
+                id: exam.id,
+                courseId: course.id,
+                title: exam.title,
+                location: course.title,
+                deletedAt: exam.deletedAt,
+            });
+        });
+    });
+
+    data.personalTasks.forEach(task => {
+        if (!task.deletedAt) return;
+        items.push({ type: 'personalTask', id: task.id, title: task.text, deletedAt: task.deletedAt });
+    });
+
+    return items;
+}
+
+export function getHabitsTrash(habits: Habit[]): TrashItem[] {
+    return habits
+        .filter(habit => habit.deletedAt)
+        .map(habit => ({
+            type: 'habit' as const,
+            id: habit.id,
+            title: `${habit.emoji} ${habit.title}`,
+            deletedAt: habit.deletedAt!,
+        }));
+}
+
+// ================== VISIBLE DATA ==================
+
+function collectTaskIds(units: Unit[], into: Set<string>): void {
+    units.forEach(unit => unit.tasks.forEach(task => into.add(task.id)));
+}
+
+// Returns the same course object when nothing inside it is deleted
+function withoutDeletedChildren(course: Course, hiddenTaskIds: Set<string>): Course {
+    let changed = false;
+
+    const units = course.units.flatMap(unit => {
+        if (unit.deletedAt) {
+            collectTaskIds([unit], hiddenTaskIds);
+            changed = true;
+            return [];
+        }
+        if (!unit.tasks.some(task => task.deletedAt)) return [unit];
+
+        changed = true;
+        return [{
+            ...unit,
+            tasks: unit.tasks.filter(task => {
+                if (task.deletedAt) hiddenTaskIds.add(task.id);
+                return !task.deletedAt;
+            }),
+        }];
+    });
+    const exams = course.exams.filter(exam => !exam.deletedAt);
+
+    return changed || exams.length !== course.exams.length ? { ...course, units, exams } : course;
+}
+
+/**
+ * Planner data as the pages see it: soft-deleted entities and the
+ * completions of hidden tasks are left out. Untouched objects keep their
+ * identity.
+ */
+export function withoutDeletedPlannerData(data: PlannerData): PlannerData {
+    const hiddenTaskIds = new Set<string>();
+
+    const courses = data.courses.flatMap(course => {
+        if (course.deletedAt) {
+            collectTaskIds(course.units, hiddenTaskIds);
+            return [];
+        }
+        return [withoutDeletedChildren(course, hiddenTaskIds)];
+    });
+    const coursesChanged =
+        courses.length !== data.courses.length || courses.some((course, index) => course !== data.courses[index]);
+
+    const personalTasks = data.personalTasks.filter(task => !task.deletedAt);
+
+    let completionState = data.completionState;
+    if (hiddenTaskIds.size > 0) {
+        const completionHistory = { ...completionState.completionHistory };
+        hiddenTaskIds.forEach(taskId => delete completionHistory[taskId]);
+        completionState = {
+            completedTaskIds: completionState.completedTaskIds.filter(id => !hiddenTaskIds.has(id)),
+            completionHistory,
+        };
+    }
+
+    return {
+        courses: coursesChanged ? courses : data.courses,
+        completionState,
+        personalTasks: personalTasks.length !== data.personalTasks.length ? personalTasks : data.personalTasks,
+    };
+}
+
+// ================== DELETE / RESTORE / PURGE ==================
+
+function updateCourse(courses: Course[], courseId: string | undefined, update: (course: Course) => Course): Course[] {
+    return courses.map(course => (course.id === courseId ? update(course) : course));
+}
+
+/**
+ * Sets or (with `undefined`) clears the `deletedAt` marker of one planner
+ * entity. The change counts as an edit, so `updatedAt` moves forward too.
+ */
+export function setPlannerDeletedAt(data: PlannerData, ref: TrashRef, deletedAt: string | undefined): PlannerData {
+    const now = new Date().toISOString();
+
+    switch (ref.type) {
+        case 'course':
+            return {
+                ...data,
+                courses: updateCourse(data.courses, ref.id, course => ({ ...course, deletedAt, updatedAt: now })),
+            };
+
+        case 'unit':
+            return {
+                ...data,
+                courses: updateCourse(data.courses, ref.courseId, course => ({
+                    ...course,
+                    units: course.units.map(unit => (unit.id === ref.id ? { ...unit, deletedAt } : unit)),
+                    updatedAt: now,
+                })),
+            };
+
+        case 'task':
+            return {
+                ...data,
+                courses: updateCourse(data.courses, ref.courseId, course => ({
+                    ...course,
+                    units: course.units.map(unit =>
+                        unit.id === ref.unitId
+                            ? {
+                                ...unit,
+                                tasks: unit.tasks.map(task =>
+                                    task.id === ref.id ? { ...task, deletedAt, updatedAt: now } : task
+                                ),
+                            }
+                            : unit
+                    ),
+                    updatedAt: now,
+                })),
+            };
+
+        case 'exam':
+            return {
+                ...data,
+                courses: updateCourse(data.courses, ref.courseId, course => ({
+                    ...course,
+                    exams: course.exams.map(exam => (exam.id === ref.id ? { ...exam, deletedAt } : exam)),
+                    updatedAt: now,
+                })),
+            };
+
+        case 'personalTask':
+            return {
+                ...data,
+                personalTasks: data.personalTasks.map(task =>
+                    task.id === ref.id ? { ...task, deletedAt, updatedAt: now } : task
+                ),
+            };
+
+        default:
+            return data;
+    }
+}
+
+/** Removes planner entities for good, together with the completions of every task they held. */
+export function purgePlannerItems(data: PlannerData, refs: TrashRef[]): PlannerData {
+    const ids = new Set(refs.map(ref => ref.id));
+    const purgedTaskIds = new Set<string>();
+
+    const courses = data.courses.flatMap(course => {
+        if (ids.has(course.id)) {
+            collectTaskIds(course.units, purgedTaskIds);
+            return [];
+        }
+
+        const touched =
+            course.exams.some(exam => ids.has(exam.id)) ||
+            course.units.some(unit => ids.has(unit.id) || unit.tasks.some(task => ids.has(task.id)));
+        if (!touched) return [course];
+
+        return [{
+            ...course,
+            units: course.units.flatMap(unit => {
+                if (ids.has(unit.id)) {
+                    collectTaskIds([unit], purgedTaskIds);
+                    return [];
+                }
+                return [{
+                    ...unit,
+                    tasks: unit.tasks.filter(task => {
+                        if (ids.has(task.id)) purgedTaskIds.add(task.id);
+                        return !ids.has(task.id);
+                    }),
+                }];
+            }),
+            exams: course.exams.filter(exam => !ids.has(exam.id)),
+            updatedAt: new Date().toISOString(),
+        }];
+    });
+
+    const completionHistory = { ...data.completionState.completionHistory };
+    purgedTaskIds.forEach(taskId => delete completionHistory[taskId]);
+
+    return {
+        courses,
+        completionState: {
+            completedTaskIds: data.completionState.completedTaskIds.filter(id => !purgedTaskIds.has(id)),
+            completionHistory,
+        },
+        personalTasks: data.personalTasks.filter(task => !ids.has(task.id)),
+    };
+}
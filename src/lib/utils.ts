@@ -1,5 +1,5 @@
 import { type ClassValue, clsx } from 'clsx';
-import type { Course, Exam, Habit, HabitLog, Task } from '../types';
+import type { Course, Exam, FrequencyRule, Habit, HabitLog, HabitLogEntry, Task, VacationRange } from '../types';
 
 // ================== CLASS NAME UTILITY ==================
 
@@ -41,6 +41,24 @@ export function getToday(): string {
     return formatDate(new Date());
 }
 
+/** The local calendar date as a dateISO, for days that must match local wall-clock times. */
+export function getLocalDateISO(date: Date = new Date()): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Whole days since 1970-01-01 for a dateISO, independent of the local time zone. */
+export function getDayNumber(dateISO: string): number {
+    return Math.floor(Date.parse(`${dateISO.slice(0, 10)}T00:00:00Z`) / (24 * 60 * 60 * 1000));
+}
+
+/** Number of days in the month of a dateISO. */
+export function getDaysInMonth(dateISO: string): number {
+    const [year, month] = dateISO.split('-').map(Number);
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
 export function getDaysUntil(dateISO: string): number {
     const target = new Date(dateISO);
     const today = new Date();
@@ -100,31 +118,82 @@ export function getLastNDays(n: number): string[] {
 
 // ================== HABIT UTILITIES ==================
 
+/** Quit and limit habits: kept unless a slip or too much was logged. */
+export function isNegativeHabit(habit: Habit): boolean {
+    return habit.type === 'quit' || habit.type === 'limit';
+}
+
 export function isHabitDueOnDate(habit: Habit, dateISO: string): boolean {
     const { frequency } = habit;
-    const date = new Date(dateISO);
+    if ((habit.startISO && dateISO < habit.startISO) || (habit.endISO && dateISO > habit.endISO)) {
+        return false;
+    }
+    // Without logs to go by, days before a negative habit existed are not counted as kept
+    if (isNegativeHabit(habit) && !habit.startISO && dateISO < formatDate(habit.createdAt)) {
+        return false;
+    }
 
     switch (frequency.type) {
         case 'weeklyTarget':
-            return true; // Any day counts towards weekly target
+        case 'monthlyTarget':
+        case 'timesPerPeriod':
+            return true; // Any day counts towards the target
 
         case 'specificDays':
-            return frequency.days.includes(date.getDay());
+            return frequency.days.includes(new Date(`${dateISO}T00:00:00Z`).getUTCDay());
 
         case 'everyXDays': {
-            const createdDate = new Date(habit.createdAt);
-            const diffDays = Math.floor(
-                (date.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24)
-            );
+            const anchor = habit.startISO ?? formatDate(habit.createdAt);
+            const diffDays = getDayNumber(dateISO) - getDayNumber(anchor);
             return diffDays >= 0 && diffDays % frequency.interval === 0;
         }
 
+        case 'monthDays': {
+            const dayOfMonth = Number(dateISO.slice(8, 10));
+            const lastDay = getDaysInMonth(dateISO);
+            return frequency.days.some(day => Math.min(day, lastDay) === dayOfMonth);
+        }
+
         default:
             return false;
     }
 }
 
+export function isOnVacation(dateISO: string, vacations: VacationRange[]): boolean {
+    return vacations.some(range => range.startISO <= dateISO && dateISO <= range.endISO);
+}
+
+/** Skipped days and vacation days neither count as done nor as missed. */
+export function isHabitPausedOn(log: HabitLog | null | undefined, dateISO: string, vacations: VacationRange[]): boolean {
+    return log?.skipped === true || isOnVacation(dateISO, vacations);
+}
+
+/**
+ * Completions a single day is expected to carry under a target rule (N per
+ * week, month or rolling window); null for rules with fixed due days.
+ */
+export function getTargetRate(frequency: FrequencyRule, dateISO: string): number | null {
+    switch (frequency.type) {
+        case 'weeklyTarget':
+            return frequency.timesPerWeek / 7;
+        case 'monthlyTarget':
+            return frequency.timesPerMonth / getDaysInMonth(dateISO);
+        case 'timesPerPeriod':
+            return frequency.times / frequency.periodDays;
+        default:
+            return null;
+    }
+}
+
 export function isHabitCompleted(habit: Habit, log: HabitLog | null): boolean {
+    if (habit.type === 'limit') {
+        return (log?.value ?? 0) <= (habit.target ?? 0);
+    }
+
+    if (habit.type === 'quit') {
+        return !log?.value;
+    }
+
     if (!log) return false;
 
     if (habit.type === 'boolean') {
@@ -139,59 +208,37 @@ export function isHabitCompleted(habit: Habit, log: HabitLog | null): boolean {
     return false;
 }
 
-export function calculateHabitStreak(
-    habit: Habit,
-    logs: HabitLog[],
-    endDate: string = getToday()
-): { current: number; best: number } {
-    const logMap = new Map(logs.map(log => [log.dateISO, log]));
-
-    let currentStreak = 0;
-    let bestStreak = 0;
-    let tempStreak = 0;
-
-    // Check backwards from endDate
-    const checkDate = new Date(endDate);
-    let consecutiveMisses = 0;
-
-    for (let i = 0; i < 365; i++) {
-        const dateISO = formatDate(checkDate);
-        const log = logMap.get(dateISO);
-        const isDue = isHabitDueOnDate(habit, dateISO);
-
-        if (isDue) {
-            if (isHabitCompleted(habit, log || null)) {
-                tempStreak++;
-                consecutiveMisses = 0;
-                if (i < 30) currentStreak = tempStreak; // Only count recent for current streak
-            } else {
-                consecutiveMisses++;
-
-                // For weeklyTarget, allow flexibility
-                if (habit.frequency.type === 'weeklyTarget') {
-                    if (consecutiveMisses > 7) {
-                        bestStreak = Math.max(bestStreak, tempStreak);
-                        tempStreak = 0;
-                    }
-                } else {
-                    bestStreak = Math.max(bestStreak, tempStreak);
-                    tempStreak = 0;
-                }
-            }
-        }
-
-        checkDate.setDate(checkDate.getDate() - 1);
+/**
+ * Whether a habit was kept on a past day, for views that walk the calendar.
+ * Negative habits have no log on most kept days, so only their due days up
+ * to today count.
+ */
+export function isHabitKeptOn(habit: Habit, log: HabitLog | null | undefined, dateISO: string): boolean {
+    if (isNegativeHabit(habit) && (dateISO > getToday() || !isHabitDueOnDate(habit, dateISO))) {
+        return false;
     }
+    return isHabitCompleted(habit, log ?? null);
+}
 
-    bestStreak = Math.max(bestStreak, tempStreak);
+/**
+ * Check-ins of a day, oldest first. A value logged before entries existed
+ * (an old backup or another device) reads as a single entry.
+ */
+export function getHabitLogEntries(log: HabitLog | null | undefined): HabitLogEntry[] {
+    if (!log) return [];
+    if (log.entries) return log.entries;
+    return log.value ? [{ id: `${log.habitId}|${log.dateISO}`, amount: log.value, timestamp: log.timestamp }] : [];
+}
 
-    return { current: currentStreak, best: bestStreak };
+export function sumHabitLogEntries(entries: HabitLogEntry[]): number {
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
 }
 
 export function calculateHabitScore(
     habit: Habit,
     logs: HabitLog[],
-    daysToConsider: number = 30
+    daysToConsider: number = 30,
+    vacations: VacationRange[] = []
 ): number {
     const recentDays = getLastNDays(daysToConsider);
     const logMap = new Map(logs.map(log => [log.dateISO, log]));
@@ -202,11 +249,14 @@ export function calculateHabitScore(
     recentDays.forEach((dateISO, index) => {
         const weight = Math.pow(1.05, index); // Exponential weight for recent days
         const isDue = isHabitDueOnDate(habit, dateISO);
+        const log = logMap.get(dateISO);
+        const isDone = isHabitCompleted(habit, log || null);
 
-        if (isDue) {
-            totalWeight += weight;
-            const log = logMap.get(dateISO);
-            if (isHabitCompleted(habit, log || null)) {
+        // Paused days only count when the habit was done anyway. Under target
+        // rules a day only carries its share of the target.
+        if (isDue && (isDone || !isHabitPausedOn(log, dateISO, vacations))) {
+            totalWeight += weight * (getTargetRate(habit.frequency, dateISO) ?? 1);
+            if (isDone) {
                 achievedWeight += weight;
             }
         }
@@ -214,38 +264,36 @@ export function calculateHabitScore(
 
     if (totalWeight === 0) return 100;
 
-    return Math.round((achievedWeight / totalWeight) * 100);
+    return Math.min(Math.round((achievedWeight / totalWeight) * 100), 100);
 }
 
 export function getWeeklyProgress(
     habit: Habit,
     logs: HabitLog[],
-    weekStartDate: Date = getWeekStart(new Date())
+    weekStartDate: Date = getWeekStart(new Date()),
+    vacations: VacationRange[] = []
 ): { completed: number; target: number } {
     const weekEnd = getWeekEnd(weekStartDate);
     const weekDays = getDaysInRange(weekStartDate, weekEnd);
     const logMap = new Map(logs.map(log => [log.dateISO, log]));
 
     let completed = 0;
-    let target = 0;
+    let expected = 0;
 
     weekDays.forEach(dateISO => {
         const isDue = isHabitDueOnDate(habit, dateISO);
-        if (isDue) {
-            target++;
-            const log = logMap.get(dateISO);
-            if (isHabitCompleted(habit, log || null)) {
+        const log = logMap.get(dateISO);
+        const isDone = isHabitCompleted(habit, log || null);
+        if (isDue && (isDone || !isHabitPausedOn(log, dateISO, vacations))) {
+            expected += getTargetRate(habit.frequency, dateISO) ?? 1;
+            if (isDone) {
                 completed++;
             }
         }
     });
 
-    // Adjust target for weeklyTarget frequency
-    if (habit.frequency.type === 'weeklyTarget') {
-        target = habit.frequency.timesPerWeek;
-    }
-
-    return { completed, target };
+    // Target rules spread their target over the week; rounded first so float sums stay exact
+    return { completed, target: Math.ceil(Math.round(expected * 1000) / 1000) };
 }
 
 // ================== TASK UTILITIES ==================
@@ -2,9 +2,17 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import { RecoveryScreen } from './components/features/RecoveryScreen';
+import { AmbientSoundProvider } from './context/AmbientSoundContext';
 import { AppProvider } from './context/AppContext';
 import { HabitsProvider } from './context/HabitsContext';
+import { HistoryProvider } from './context/HistoryContext';
+import { NotificationProvider } from './context/NotificationContext';
 import { PlannerProvider } from './context/PlannerContext';
+import { PomodoroProvider } from './context/PomodoroContext';
+import { SyncProvider } from './context/SyncContext';
+import { TrashProvider } from './context/TrashContext';
+import { runStorageMigrations } from './lib/storage';
 import './index.css';
 
 // Register service worker for PWA
@@ -16,16 +24,35 @@ if ('serviceWorker' in navigator) {
     });
 }
 
+// Migrate stored data before any provider reads it
+const storageIssues = runStorageMigrations();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <React.StrictMode>
-        <BrowserRouter>
-            <AppProvider>
-                <PlannerProvider>
-                    <HabitsProvider>
-                        <App />
-                    </HabitsProvider>
-                </PlannerProvider>
-            </AppProvider>
-        </BrowserRouter>
+        {storageIssues.length > 0 ? (
+            <RecoveryScreen issues={storageIssues} />
+        ) : (
+            <BrowserRouter>
+                <AppProvider>
+                    <PlannerProvider>
+                        <HabitsProvider>
+                            <HistoryProvider>
+                                <TrashProvider>
+                                    <SyncProvider>
+                                        <NotificationProvider>
+                                            <PomodoroProvider>
+                                                <AmbientSoundProvider>
+                                                    <App />
+                                                </AmbientSoundProvider>
+                                            </PomodoroProvider>
+                                        </NotificationProvider>
+                                    </SyncProvider>
+                                </TrashProvider>
+                            </HistoryProvider>
+                        </HabitsProvider>
+                    </PlannerProvider>
+                </AppProvider>
+            </BrowserRouter>
+        )}
     </React.StrictMode>
 );
@@ -1,11 +1,14 @@
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Plus, Trash2, Upload } from 'lucide-react';
-import React, { useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Button, IconButton } from '../components/ui/Button';
 import { Badge, Card } from '../components/ui/Card';
 import { Input, Textarea } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { useApp } from '../context/AppContext';
 import { usePlanner } from '../context/PlannerContext';
+import { BACKUP_RESTORED_EVENT } from '../lib/backup';
+import { subscribeToCrossTabChanges } from '../lib/crossTab';
+import { getCalendarEvents, markKeysLoaded, saveCalendarEvents } from '../lib/storage';
 import { cn, generateId, getDaysUntil } from '../lib/utils';
 import { CalendarEvent, Course, Exam } from '../types';
 
@@ -17,22 +20,6 @@ interface CalendarDay {
     events: CalendarEvent[];
 }
 
-// Local storage for calendar events
-const CALENDAR_EVENTS_KEY = 'planex-calendar-events';
-
-function getCalendarEvents(): CalendarEvent[] {
-    try {
-        const data = localStorage.getItem(CALENDAR_EVENTS_KEY);
-        return data ? JSON.parse(data) : [];
-    } catch {
-        return [];
-    }
-}
-
-function saveCalendarEvents(events: CalendarEvent[]): void {
-    localStorage.setItem(CALENDAR_EVENTS_KEY, JSON.stringify(events));
-}
-
 export function CalendarPage() {
     const { state } = usePlanner();
     const { addToast } = useApp();
@@ -49,6 +36,22 @@ export function CalendarPage() {
         type: 'event' as 'event' | 'reminder' | 'deadline',
     });
 
+    // Reload after a backup restore or a save in another tab
+    useEffect(() => {
+        markKeysLoaded('CALENDAR_EVENTS');
+        const reload = () => {
+            setCalendarEvents(getCalendarEvents());
+            markKeysLoaded('CALENDAR_EVENTS');
+        };
+
+        window.addEventListener(BACKUP_RESTORED_EVENT, reload);
+        const unsubscribe = subscribeToCrossTabChanges(['CALENDAR_EVENTS'], reload);
+        return () => {
+            window.removeEventListener(BACKUP_RESTORED_EVENT, reload);
+            unsubscribe();
+        };
+    }, []);
+
     const { days, monthName, year } = useMemo(() => {
         const year = currentDate.getFullYear();
         const month = currentDate.getMonth();
@@ -2,6 +2,7 @@ import { AnimatePresence, motion } from 'framer-motion';
 import {
     ArrowLeft,
     Calendar,
+    CalendarClock,
     CheckCircle,
     ChevronDown,
     ChevronRight,
@@ -14,19 +15,24 @@ import {
     Plus,
     Search as SearchIcon,
     Star,
+    Timer,
     Trash2,
     Upload,
     Youtube
 } from 'lucide-react';
 import React, { useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
+import { StudyPlanModal } from '../components/features/StudyPlanModal';
 import { Button, IconButton } from '../components/ui/Button';
 import { Badge, Card, EmptyState, ProgressBar } from '../components/ui/Card';
 import { Input, Select, Textarea } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { useApp } from '../context/AppContext';
+import { useHistory } from '../context/HistoryContext';
 import { usePlanner } from '../context/PlannerContext';
-import { deleteLectureNote, getLectureNote, saveLectureNote } from '../lib/storage';
+import { usePomodoro } from '../context/PomodoroContext';
+import { describeFocusTarget, formatFocusTime } from '../lib/focus';
+import { deleteLectureNote, getLectureNote, saveLectureNote, StorageQuotaError } from '../lib/storage';
 import {
     calculateCourseProgress,
     cn,
@@ -70,6 +76,8 @@ export function CourseDetailPage() {
         deleteLectureNoteMeta,
     } = usePlanner();
     const { addToast } = useApp();
+    const { undoAction } = useHistory();
+    const { focusTotals, isActive: isFocusActive, setTarget } = usePomodoro();
 
     const course = state.courses.find((c) => c.id === courseId);
 
@@ -81,6 +89,7 @@ export function CourseDetailPage() {
     const [editingUnit, setEditingUnit] = useState<Unit | null>(null);
     const [editingTask, setEditingTask] = useState<{ task: Task; unitId: string } | null>(null);
     const [editingExam, setEditingExam] = useState<Exam | null>(null);
+    const [planningExam, setPlanningExam] = useState<Exam | null>(null);
     const [deleteConfirm, setDeleteConfirm] = useState<{ type: string; id: string; parentId?: string } | null>(null);
 
     // Form states
@@ -170,14 +179,14 @@ export function CourseDetailPage() {
         if (!deleteConfirm) return;
 
         if (deleteConfirm.type === 'unit') {
-            deleteUnit(course.id, deleteConfirm.id);
-            addToast('success', 'Ünite silindi');
+            const historyId = deleteUnit(course.id, deleteConfirm.id);
+            addToast('success', 'Ünite çöp kutusuna taşındı', 6000, undoAction(historyId));
         } else if (deleteConfirm.type === 'task' && deleteConfirm.parentId) {
-            deleteTask(course.id, deleteConfirm.parentId, deleteConfirm.id);
-            addToast('success', 'Görev silindi');
+            const historyId = deleteTask(course.id, deleteConfirm.parentId, deleteConfirm.id);
+            addToast('success', 'Görev çöp kutusuna taşındı', 6000, undoAction(historyId));
         } else if (deleteConfirm.type === 'exam') {
-            deleteExam(course.id, deleteConfirm.id);
-            addToast('success', 'Sınav silindi');
+            const historyId = deleteExam(course.id, deleteConfirm.id);
+            addToast('success', 'Sınav çöp kutusuna taşındı', 6000, undoAction(historyId));
         }
 
         setDeleteConfirm(null);
@@ -215,7 +224,7 @@ export function CourseDetailPage() {
             addToast('success', 'PDF yüklendi');
         } catch (error) {
             console.error('Upload failed:', error);
-            addToast('error', 'PDF yüklenemedi');
+            addToast('error', error instanceof StorageQuotaError ? error.message : 'PDF yüklenemedi');
         }
 
         e.target.value = '';
@@ -249,6 +258,13 @@ export function CourseDetailPage() {
         }
     };
 
+    // Makes the task the target of the next Pomodoro session
+    const handleFocusTask = (unitId: string, taskId: string) => {
+        const target = { courseId: course.id, unitId, taskId };
+        setTarget(target);
+        addToast('info', `Odak hedefi: ${describeFocusTarget(target, state)}`);
+    };
+
     const openExternalSearch = (text: string, engine: 'google' | 'youtube' | 'chatgpt') => {
         const encodedText = encodeURIComponent(text);
         const urls = {
@@ -287,6 +303,10 @@ export function CourseDetailPage() {
                         </span>
                         <ProgressBar value={progress.percentage} color={course.color} className="w-32" />
                         <span className="text-sm font-medium text-primary">{progress.percentage}%</span>
+                        <span className="text-sm text-secondary flex items-center gap-1" title="Toplam odak süresi">
+                            <Timer className="w-4 h-4" />
+                            {formatFocusTime(focusTotals.byCourse[course.id] ?? 0)}
+                        </span>
                     </div>
                 </div>
             </div>
@@ -350,6 +370,8 @@ export function CourseDetailPage() {
                                                 <h3 className="font-medium text-primary">{unit.title}</h3>
                                                 <p className="text-sm text-secondary">
                                                     {completedTasks}/{unit.tasks.length} görev
+                                                    {focusTotals.byUnit[unit.id] > 0 &&
+                                                        ` • ${formatFocusTime(focusTotals.byUnit[unit.id])} odak`}
                                                 </p>
                                             </div>
                                             <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
@@ -432,9 +454,25 @@ export function CourseDetailPage() {
                                                                             >
                                                                                 {statusLabels[task.status]}
                                                                             </Badge>
+                                                                            {focusTotals.byTask[task.id] > 0 && (
+                                                                                <span className="text-xs text-secondary flex items-center gap-1">
+                                                                                    <Timer className="w-3 h-3" />
+                                                                                    {formatFocusTime(focusTotals.byTask[task.id])}
+                                                                                </span>
+                                                                            )}
                                                                         </div>
                                                                     </div>
                                                                     <div className="flex items-center gap-1">
+                                                                        <IconButton
+                                                                            size="sm"
+                                                                            title="Bu göreve odaklan"
+                                                                            disabled={isFocusActive}
+                                                                            onClick={() =>
+                                                                                handleFocusTask(unit.id, task.id)
+                                                                            }
+                                                                        >
+                                                                            <Timer className="w-3 h-3" />
+                                                                        </IconButton>
                                                                         <IconButton
                                                                             size="sm"
                                                                             title="Google'da Ara"
@@ -542,6 +580,15 @@ export function CourseDetailPage() {
                                                     </p>
                                                 </div>
                                                 <div className="flex items-center gap-2">
+                                                    {!isPast && (
+                                                        <IconButton
+                                                            size="sm"
+                                                            onClick={() => setPlanningExam(exam)}
+                                                            title="Çalışmamı planla"
+                                                        >
+                                                            <CalendarClock className="w-4 h-4" />
+                                                        </IconButton>
+                                                    )}
                                                     <IconButton
                                                         size="sm"
                                                         onClick={() => {
@@ -575,6 +622,9 @@ export function CourseDetailPage() {
                                                         {daysLeft} gün kaldı
                                                     </Badge>
                                                 )}
+                                                {exam.studyPlan && !isPast && (
+                                                    <Badge color="#22c55e" className="ml-2">Çalışma planı var</Badge>
+                                                )}
                                             </div>
                                         </Card>
                                     );
@@ -751,6 +801,13 @@ export function CourseDetailPage() {
                 </form>
             </Modal>
 
+            {/* Study Plan Modal */}
+            <StudyPlanModal
+                course={course}
+                exam={planningExam && (course.exams.find(e => e.id === planningExam.id) ?? null)}
+                onClose={() => setPlanningExam(null)}
+            />
+
             {/* Add/Edit Exam Modal */}
             <Modal
                 isOpen={isAddExamOpen}
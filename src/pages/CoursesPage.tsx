@@ -7,6 +7,7 @@ import { Card, EmptyState, ProgressBar } from '../components/ui/Card';
 import { Input } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { useApp } from '../context/AppContext';
+import { useHistory } from '../context/HistoryContext';
 import { usePlanner } from '../context/PlannerContext';
 import { calculateCourseProgress, cn } from '../lib/utils';
 import { COURSE_COLORS, Course } from '../types';
@@ -14,6 +15,7 @@ import { COURSE_COLORS, Course } from '../types';
 export function CoursesPage() {
     const { state, addCourse, updateCourse, deleteCourse } = usePlanner();
     const { addToast } = useApp();
+    const { undoAction } = useHistory();
 
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [editingCourse, setEditingCourse] = useState<Course | null>(null);
@@ -60,9 +62,9 @@ export function CoursesPage() {
     };
 
     const handleDelete = (id: string) => {
-        deleteCourse(id);
+        const historyId = deleteCourse(id);
         setDeleteConfirm(null);
-        addToast('success', 'Ders silindi');
+        addToast('success', 'Ders çöp kutusuna taşındı', 6000, undoAction(historyId));
     };
 
     return (
@@ -251,7 +253,7 @@ export function CoursesPage() {
                 size="sm"
             >
                 <p className="text-secondary mb-6">
-                    Bu dersi silmek istediğinize emin misiniz? Tüm üniteler, görevler ve sınavlar da silinecek.
+                    Bu dersi silmek istediğinize emin misiniz? Ders, üniteleri, görevleri ve sınavlarıyla birlikte çöp kutusuna taşınacak.
                 </p>
                 <div className="flex justify-end gap-3">
                     <Button variant="secondary" onClick={() => setDeleteConfirm(null)}>
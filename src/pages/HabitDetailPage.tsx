@@ -5,27 +5,77 @@ import {
     Circle,
     Edit2,
     Flame,
+    ShieldX,
+    SkipForward,
+    Snowflake,
     Target,
     Trash2,
-    TrendingUp
+    TrendingUp,
+    Undo2
 } from 'lucide-react';
 import { useMemo, useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
+import { HabitEntryInput, HabitLimitCounter } from '../components/features/HabitControls';
 import { Button, IconButton } from '../components/ui/Button';
 import { Card, CardHeader, EmptyState, ProgressRing } from '../components/ui/Card';
 import { Input } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { useHabits } from '../context/HabitsContext';
-import { cn, formatDateDisplay, getLastNDays } from '../lib/utils';
+import { STREAK_UNIT_LABELS } from '../lib/streaks';
+import {
+    cn,
+    formatDateDisplay,
+    getHabitLogEntries,
+    getLastNDays,
+    getToday,
+    isHabitCompleted,
+    isHabitKeptOn,
+    isNegativeHabit,
+    isOnVacation,
+    sumHabitLogEntries,
+} from '../lib/utils';
 import { Habit } from '../types';
 
+const ENTRY_HISTORY_DAYS = 14;
+
+type HeatmapStatus = 'done' | 'slipped' | 'skipped' | 'vacation' | 'frozen' | 'missed';
+
+const HEATMAP_LABELS: Record<HeatmapStatus, string> = {
+    done: ' ✓',
+    slipped: ' ✗',
+    skipped: ' · atlandı',
+    vacation: ' · tatil',
+    frozen: ' · donduruldu',
+    missed: '',
+};
+
+const HEATMAP_COLORS: Record<Exclude<HeatmapStatus, 'done'>, string> = {
+    slipped: '#ef4444',
+    skipped: 'var(--color-text-tertiary)',
+    vacation: 'var(--color-text-tertiary)',
+    frozen: '#38bdf8',
+    missed: 'var(--color-bg-secondary)',
+};
+
 export function HabitDetailPage() {
     const { habitId } = useParams<{ habitId: string }>();
     const navigate = useNavigate();
-    const { state, getHabitWithStats, getHabitLogs, logHabit, updateHabit, deleteHabit } = useHabits();
+    const {
+        state,
+        getHabitWithStats,
+        getHabitLogs,
+        logHabit,
+        skipHabit,
+        addHabitEntry,
+        removeHabitEntry,
+        vacations,
+        freezeTokens,
+        updateHabit,
+        deleteHabit,
+    } = useHabits();
 
     const habit = state.habits.find(h => h.id === habitId);
-    const habitStats = habit ? getHabitWithStats(habit.id) : null;
+    const habitStats = useMemo(() => (habit ? getHabitWithStats(habit.id) : null), [habit, getHabitWithStats]);
     const logs = habit ? getHabitLogs(habit.id) : [];
 
     const [heatmapMonths] = useState(3);
@@ -40,19 +90,30 @@ export function HabitDetailPage() {
         const days = heatmapMonths * 30;
         const lastNDays = getLastNDays(days);
         const logMap = new Map(logs.map(l => [l.dateISO, l]));
+        const frozenDates = new Set(habitStats?.frozenDates);
 
-        return lastNDays.map(dateISO => {
+        const getStatus = (dateISO: string): HeatmapStatus => {
             const log = logMap.get(dateISO);
+            if (isHabitKeptOn(habit, log, dateISO)) return 'done';
+            if (log && isNegativeHabit(habit) && !isHabitCompleted(habit, log)) return 'slipped';
+            if (log?.skipped) return 'skipped';
+            if (isOnVacation(dateISO, vacations)) return 'vacation';
+            return frozenDates.has(dateISO) ? 'frozen' : 'missed';
+        };
+
+        return lastNDays.map(dateISO => {
             const date = new Date(dateISO);
+            const status = getStatus(dateISO);
             return {
                 dateISO,
                 date,
-                done: log?.done || false,
-                value: log?.value,
+                done: status === 'done',
+                value: logMap.get(dateISO)?.value,
+                status,
                 dayOfWeek: date.getDay(),
             };
         });
-    }, [habit, logs, heatmapMonths]);
+    }, [habit, logs, heatmapMonths, vacations, habitStats]);
 
     // Group heatmap by weeks
     const heatmapWeeks = useMemo(() => {
@@ -86,8 +147,7 @@ export function HabitDetailPage() {
             const weekDays = last8Weeks.slice(i * 7, (i + 1) * 7);
             let completed = 0;
             weekDays.forEach(day => {
-                const log = logMap.get(day);
-                if (log?.done || (habit?.type === 'numeric' && log?.value && log.value >= (habit?.target || 0))) {
+                if (habit && isHabitKeptOn(habit, logMap.get(day), day)) {
                     completed++;
                 }
             });
@@ -119,6 +179,8 @@ export function HabitDetailPage() {
         );
     }
 
+    const streakSuffix = ` (${STREAK_UNIT_LABELS[habitStats.streakUnit]})`;
+
     const openEditModal = () => {
         if (!habit) return;
         setEditFormData({
@@ -148,9 +210,25 @@ export function HabitDetailPage() {
         logHabit(habit.id, today, todayLog?.done ? undefined : true);
     };
 
-    const todayLog = logs.find(l => l.dateISO === new Date().toISOString().split('T')[0]);
-    const isCompletedToday = todayLog?.done ||
-        (habit.type === 'numeric' && todayLog?.value && todayLog.value >= (habit.target || 0));
+    // Marks a day that was not done as a day off, or takes the mark back
+    const toggleSkip = (dateISO: string) => {
+        const log = logs.find(l => l.dateISO === dateISO);
+        skipHabit(habit.id, dateISO, !log?.skipped);
+    };
+
+    const today = getToday();
+    const todayLog = logs.find(l => l.dateISO === today);
+    const { isCompletedToday, todayValue, todayEntries } = habitStats;
+    const hasEntries = habit.type === 'numeric' || habit.type === 'limit';
+    const entryHistory = hasEntries
+        ? logs
+            .map(log => ({ dateISO: log.dateISO, entries: getHabitLogEntries(log) }))
+            .filter(day => day.entries.length > 0)
+            .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+            .slice(0, ENTRY_HISTORY_DAYS)
+        : [];
+    const isNegative = isNegativeHabit(habit);
+    const limit = habit.target ?? 0;
 
     return (
         <div className="space-y-6 animate-fade-in">
@@ -197,7 +275,15 @@ export function HabitDetailPage() {
                         <Flame className="w-6 h-6" style={{ color: habit.color }} />
                     </div>
                     <p className="text-3xl font-bold text-primary">{habitStats.currentStreak}</p>
-                    <p className="text-sm text-secondary">Güncel Seri</p>
+                    <p className="text-sm text-secondary">
+                        {habit.type === 'quit' ? 'Temiz Gün' : `Güncel Seri${streakSuffix}`}
+                    </p>
+                    {freezeTokens && (
+                        <p className="text-xs text-tertiary mt-1 flex items-center justify-center gap-1">
+                            <Snowflake className="w-3 h-3 text-sky-500" />
+                            {habitStats.freezesLeft} dondurma hakkı
+                        </p>
+                    )}
                 </Card>
 
                 <Card className="text-center">
@@ -205,16 +291,28 @@ export function HabitDetailPage() {
                         <TrendingUp className="w-6 h-6 text-purple-500" />
                     </div>
                     <p className="text-3xl font-bold text-primary">{habitStats.longestStreak}</p>
-                    <p className="text-sm text-secondary">En Uzun Seri</p>
+                    <p className="text-sm text-secondary">
+                        {habit.type === 'quit' ? 'En Uzun Temiz Dönem' : `En Uzun Seri${streakSuffix}`}
+                    </p>
                 </Card>
 
-                <Card className="text-center">
-                    <div className="p-3 rounded-full bg-green-500/10 w-fit mx-auto mb-2">
-                        <CheckCircle className="w-6 h-6 text-green-500" />
-                    </div>
-                    <p className="text-3xl font-bold text-primary">{habitStats.totalCompletions}</p>
-                    <p className="text-sm text-secondary">Toplam Tamamlama</p>
-                </Card>
+                {isNegative ? (
+                    <Card className="text-center">
+                        <div className="p-3 rounded-full bg-red-500/10 w-fit mx-auto mb-2">
+                            <ShieldX className="w-6 h-6 text-red-500" />
+                        </div>
+                        <p className="text-3xl font-bold text-primary">{habitStats.totalSlips}</p>
+                        <p className="text-sm text-secondary">{habit.type === 'quit' ? 'Toplam Kayma' : 'Sınırın Aşıldığı Gün'}</p>
+                    </Card>
+                ) : (
+                    <Card className="text-center">
+                        <div className="p-3 rounded-full bg-green-500/10 w-fit mx-auto mb-2">
+                            <CheckCircle className="w-6 h-6 text-green-500" />
+                        </div>
+                        <p className="text-3xl font-bold text-primary">{habitStats.totalCompletions}</p>
+                        <p className="text-sm text-secondary">Toplam Tamamlama</p>
+                    </Card>
+                )}
 
                 <Card className="text-center">
                     <div className="p-3 rounded-full bg-blue-500/10 w-fit mx-auto mb-2">
@@ -249,17 +347,16 @@ export function HabitDetailPage() {
                                         key={`${weekIndex}-${dayIndex}`}
                                         className={cn(
                                             'w-4 h-4 rounded-sm',
-                                            day ? (
-                                                day.done ? 'cursor-pointer' : 'cursor-pointer'
-                                            ) : ''
+                                            day && !day.done && !isNegative && 'cursor-pointer'
                                         )}
                                         style={{
                                             backgroundColor: day ? (
-                                                day.done ? habit.color : 'var(--color-bg-secondary)'
+                                                day.status === 'done' ? habit.color : HEATMAP_COLORS[day.status]
                                             ) : 'transparent',
                                             opacity: day?.done ? 1 : 0.5,
                                         }}
-                                        title={day ? `${formatDateDisplay(day.dateISO)}${day.done ? ' ✓' : ''}` : ''}
+                                        onClick={day && !day.done && !isNegative ? () => toggleSkip(day.dateISO) : undefined}
+                                        title={day ? `${formatDateDisplay(day.dateISO)}${HEATMAP_LABELS[day.status]}` : ''}
                                     />
                                 ))}
                             </div>
@@ -268,15 +365,35 @@ export function HabitDetailPage() {
 
                     {/* Legend */}
                     <div className="flex items-center gap-4 mt-4 pt-4 border-t border-default text-sm text-secondary">
+                        {isNegative ? (
+                            <div className="flex items-center gap-2">
+                                <div className="w-4 h-4 rounded-sm opacity-50" style={{ backgroundColor: HEATMAP_COLORS.slipped }} />
+                                <span>{habit.type === 'quit' ? 'Kayma' : 'Sınır aşıldı'}</span>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <div className="w-4 h-4 rounded-sm bg-secondary" />
+                                <span>Yapılmadı</span>
+                            </div>
+                        )}
                         <div className="flex items-center gap-2">
-                            <div className="w-4 h-4 rounded-sm bg-secondary" />
-                            <span>Yapılmadı</span>
+                            <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: habit.color }} />
+                            <span>{isNegative ? 'Temiz' : 'Yapıldı'}</span>
                         </div>
                         <div className="flex items-center gap-2">
-                            <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: habit.color }} />
-                            <span>Yapıldı</span>
+                            <div className="w-4 h-4 rounded-sm opacity-50" style={{ backgroundColor: 'var(--color-text-tertiary)' }} />
+                            <span>Atlandı / Tatil</span>
                         </div>
+                        {freezeTokens && (
+                            <div className="flex items-center gap-2">
+                                <div className="w-4 h-4 rounded-sm opacity-50" style={{ backgroundColor: '#38bdf8' }} />
+                                <span>Donduruldu</span>
+                            </div>
+                        )}
                     </div>
+                    {!isNegative && (
+                        <p className="text-xs text-tertiary mt-2">Yapılmayan bir güne tıklayarak o günü atlayabilirsin.</p>
+                    )}
                 </Card>
 
                 {/* Today's Status */}
@@ -284,24 +401,111 @@ export function HabitDetailPage() {
                     <Card className="text-center">
                         <h3 className="font-semibold text-primary mb-4">Bugün</h3>
 
-                        <ProgressRing
-                            value={isCompletedToday ? 100 : 0}
-                            size={120}
-                            strokeWidth={10}
-                            color={habit.color}
-                        >
-                            <button onClick={toggleToday} className="p-2">
-                                {isCompletedToday ? (
-                                    <CheckCircle className="w-12 h-12" style={{ color: habit.color }} />
-                                ) : (
-                                    <Circle className="w-12 h-12 text-secondary hover:text-primary transition-colors" />
-                                )}
-                            </button>
-                        </ProgressRing>
-
+                        {habit.type === 'quit' && (
+                            <>
+                                <p className="text-5xl font-bold" style={{ color: habit.color }}>
+                                    {habitStats.currentStreak}
+                                </p>
+                                <p className="text-secondary mt-1 mb-4">gün temiz</p>
+                                <Button
+                                    variant={todayValue > 0 ? 'secondary' : 'danger'}
+                                    size="sm"
+                                    onClick={() => logHabit(habit.id, today, undefined, todayValue > 0 ? undefined : 1)}
+                                    leftIcon={todayValue > 0 ? <Undo2 className="w-4 h-4" /> : <ShieldX className="w-4 h-4" />}
+                                >
+                                    {todayValue > 0 ? 'Kaymayı Geri Al' : 'Bugün Kaydım'}
+                                </Button>
+                            </>
+                        )}
+
+                        {habit.type === 'limit' && (
+                            <>
+                                <ProgressRing
+                                    value={limit > 0 ? Math.min((todayValue / limit) * 100, 100) : todayValue > 0 ? 100 : 0}
+                                    size={120}
+                                    strokeWidth={10}
+                                    color={isCompletedToday ? habit.color : HEATMAP_COLORS.slipped}
+                                >
+                                    <span className="text-2xl font-bold text-primary">{todayValue}</span>
+                                </ProgressRing>
+                                <div className="flex justify-center mt-4">
+                                    <HabitLimitCounter
+                                        habit={habit}
+                                        value={todayValue}
+                                        size="md"
+                                        onIncrement={() => addHabitEntry(habit.id, today, 1)}
+                                        onDecrement={() => {
+                                            const last = todayEntries[todayEntries.length - 1];
+                                            if (last) removeHabitEntry(habit.id, today, last.id);
+                                        }}
+                                    />
+                                </div>
+                                <p className="text-secondary mt-2">
+                                    {isCompletedToday ? `Sınıra ${limit - todayValue} kaldı` : 'Sınır aşıldı'}
+                                </p>
+                            </>
+                        )}
+
+                        {habit.type === 'numeric' && (
+                            <>
+                                <ProgressRing
+                                    value={Math.min((todayValue / (habit.target || 1)) * 100, 100)}
+                                    size={120}
+                                    strokeWidth={10}
+                                    color={habit.color}
+                                >
+                                    <span className="text-2xl font-bold text-primary">{todayValue}</span>
+                                </ProgressRing>
+                                <div className="flex justify-center mt-4">
+                                    <HabitEntryInput
+                                        habit={habit}
+                                        value={todayValue}
+                                        defaultAmount={todayEntries[todayEntries.length - 1]?.amount}
+                                        onAdd={(amount) => addHabitEntry(habit.id, today, amount)}
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        {habit.type === 'boolean' && (
+                            <ProgressRing
+                                value={isCompletedToday ? 100 : 0}
+                                size={120}
+                                strokeWidth={10}
+                                color={habit.color}
+                            >
+                                <button onClick={toggleToday} className="p-2">
+                                    {isCompletedToday ? (
+                                        <CheckCircle className="w-12 h-12" style={{ color: habit.color }} />
+                                    ) : (
+                                        <Circle className="w-12 h-12 text-secondary hover:text-primary transition-colors" />
+                                    )}
+                                </button>
+                            </ProgressRing>
+                        )}
+
+                        {!isNegative && (
+                        <>
                         <p className="text-secondary mt-4">
-                            {isCompletedToday ? 'Tamamlandı! 🎉' : 'Tamamlamak için tıkla'}
+                            {isCompletedToday
+                                ? 'Tamamlandı! 🎉'
+                                : habitStats.isPausedToday
+                                    ? 'Bugün mola'
+                                    : habit.type === 'numeric' ? 'Miktar ekleyerek ilerle' : 'Tamamlamak için tıkla'}
                         </p>
+                        {!isCompletedToday && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="mt-2"
+                                onClick={() => toggleSkip(getToday())}
+                                leftIcon={<SkipForward className="w-4 h-4" />}
+                            >
+                                {todayLog?.skipped ? 'Atlamayı Kaldır' : 'Bugünü Atla'}
+                            </Button>
+                        )}
+                        </>
+                        )}
                     </Card>
 
                     {/* Weekly Trend */}
@@ -331,6 +535,49 @@ export function HabitDetailPage() {
                             })}
                         </div>
                     </Card>
+
+                    {/* Entry History */}
+                    {hasEntries && (
+                        <Card>
+                            <CardHeader title="Kayıt Geçmişi" />
+
+                            {entryHistory.length === 0 ? (
+                                <p className="text-sm text-secondary mt-4">Henüz kayıt yok.</p>
+                            ) : (
+                                <div className="mt-4 space-y-4 max-h-80 overflow-y-auto">
+                                    {entryHistory.map(day => (
+                                        <div key={day.dateISO}>
+                                            <p className="text-xs font-medium text-tertiary mb-1">
+                                                {formatDateDisplay(day.dateISO)} · {sumHabitLogEntries(day.entries)}
+                                                {habit.unit && ` ${habit.unit}`}
+                                            </p>
+                                            {day.entries.map(entry => (
+                                                <div key={entry.id} className="flex items-center gap-3 py-1">
+                                                    <span className="text-sm text-secondary tabular-nums">
+                                                        {new Date(entry.timestamp).toLocaleTimeString('tr-TR', {
+                                                            hour: '2-digit',
+                                                            minute: '2-digit',
+                                                        })}
+                                                    </span>
+                                                    <span className="flex-1 text-sm text-primary">
+                                                        +{entry.amount}
+                                                        {habit.unit && ` ${habit.unit}`}
+                                                    </span>
+                                                    <IconButton
+                                                        size="sm"
+                                                        onClick={() => removeHabitEntry(habit.id, day.dateISO, entry.id)}
+                                                        title="Kaydı sil"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </IconButton>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </Card>
+                    )}
                 </div>
             </div>
 
@@ -400,7 +647,7 @@ export function HabitDetailPage() {
             >
                 <div className="space-y-4">
                     <p className="text-secondary">
-                        "{habit?.title}" alışkanlığını silmek istediğinizden emin misiniz? Bu işlem geri alınamaz.
+                        "{habit?.title}" alışkanlığını silmek istediğinizden emin misiniz? Alışkanlık kayıtlarıyla birlikte çöp kutusuna taşınacak.
                     </p>
                     <div className="flex gap-3">
                         <Button
@@ -8,55 +8,98 @@ import {
     Edit2,
     Flame,
     MoreVertical,
+    Palmtree,
     Plus,
+    SkipForward,
+    Snowflake,
     Target,
     Trash2,
 } from 'lucide-react';
 import React, { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { HabitEntryInput, HabitLimitCounter, HabitSlipToggle } from '../components/features/HabitControls';
+import { HabitPauseModal } from '../components/features/HabitPauseModal';
 import { Button, IconButton } from '../components/ui/Button';
 import { Badge, Card, EmptyState, ProgressBar } from '../components/ui/Card';
 import { Input, Select } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { useApp } from '../context/AppContext';
 import { useHabits } from '../context/HabitsContext';
-import { cn } from '../lib/utils';
-import { FrequencyRule, Habit, HABIT_COLORS } from '../types';
+import { useHistory } from '../context/HistoryContext';
+import { STREAK_UNIT_LABELS } from '../lib/streaks';
+import { cn, formatDateDisplay, getToday, isNegativeHabit, isOnVacation } from '../lib/utils';
+import { FrequencyRule, Habit, HABIT_COLORS, HabitLogEntry, HabitType } from '../types';
 
-const frequencyTypeLabels = {
+const frequencyTypeLabels: Record<FrequencyRule['type'], string> = {
     weeklyTarget: 'Haftalık Hedef',
     specificDays: 'Belirli Günler',
     everyXDays: 'Her X Günde Bir',
+    monthlyTarget: 'Aylık Hedef',
+    monthDays: 'Ayın Belirli Günleri',
+    timesPerPeriod: 'Y Günde X Kez',
+};
+
+const habitTypeLabels: Record<HabitType, string> = {
+    boolean: 'Onay Kutusu (Yaptım/Yapmadım)',
+    numeric: 'Sayısal (Hedef miktar)',
+    limit: 'Üst Sınır (En fazla)',
+    quit: 'Bırakma (Temiz gün sayısı)',
 };
 
 const dayLabels = ['Paz', 'Pzt', 'Sal', 'Çar', 'Per', 'Cum', 'Cmt'];
 
 export function HabitsDashboardPage() {
-    const { state, addHabit, updateHabit, deleteHabit, logHabit, getTodayHabits, getHabitWithStats } = useHabits();
+    const {
+        state,
+        addHabit,
+        updateHabit,
+        deleteHabit,
+        logHabit,
+        skipHabit,
+        addHabitEntry,
+        removeHabitEntry,
+        vacations,
+        freezeTokens,
+        getTodayHabits,
+        getHabitWithStats,
+        getHabitLogs,
+    } = useHabits();
     const { addToast } = useApp();
+    const { undoAction } = useHistory();
 
     const [showArchived, setShowArchived] = useState(false);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
     const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
     const [openMenu, setOpenMenu] = useState<string | null>(null);
+    const [isPauseModalOpen, setIsPauseModalOpen] = useState(false);
 
     const [formData, setFormData] = useState({
         title: '',
         description: '',
         emoji: '✨',
         color: HABIT_COLORS[0] as string,
-        type: 'boolean' as 'boolean' | 'numeric',
+        type: 'boolean' as HabitType,
         target: 1,
         unit: '',
         frequencyType: 'weeklyTarget' as FrequencyRule['type'],
         weeklyTarget: 7,
         specificDays: [1, 2, 3, 4, 5] as number[],
         everyXDays: 1,
+        monthlyTarget: 4,
+        monthDays: [1] as number[],
+        periodTimes: 3,
+        periodDays: 10,
+        startISO: '',
+        endISO: '',
     });
 
     const todayHabits = useMemo(() => getTodayHabits(), [getTodayHabits]);
-    const todayCompleted = todayHabits.filter(h => h.isCompletedToday).length;
+    // Skipped habits and vacations leave today's goal
+    const todayGoal = todayHabits.filter(h => h.isCompletedToday || !h.isPausedToday);
+    const todayCompleted = todayGoal.filter(h => h.isCompletedToday).length;
+    const today = getToday();
+    const activeVacation = vacations.find(v => isOnVacation(today, [v]));
 
     const displayHabits = useMemo(() => {
         return state.habits
@@ -65,6 +108,8 @@ export function HabitsDashboardPage() {
             .filter(Boolean) as ReturnType<typeof getHabitWithStats>[];
     }, [state.habits, showArchived, getHabitWithStats]);
 
+    const isNegativeForm = formData.type === 'limit' || formData.type === 'quit';
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -73,8 +118,24 @@ export function HabitsDashboardPage() {
             return;
         }
 
+        if (formData.startISO && formData.endISO && formData.endISO < formData.startISO) {
+            addToast('error', 'Bitiş tarihi başlangıçtan önce olamaz');
+            return;
+        }
+
+        if (!isNegativeForm && formData.frequencyType === 'monthDays' && formData.monthDays.length === 0) {
+            addToast('error', 'Ayın en az bir gününü seçin');
+            return;
+        }
+
+        const hasAmount = formData.type === 'numeric' || formData.type === 'limit';
+
         let frequency: FrequencyRule;
-        switch (formData.frequencyType) {
+        switch (isNegativeForm ? 'daily' : formData.frequencyType) {
+            // Quit and limit habits are kept or broken every day
+            case 'daily':
+                frequency = { type: 'specificDays', days: [0, 1, 2, 3, 4, 5, 6] };
+                break;
             case 'weeklyTarget':
                 frequency = { type: 'weeklyTarget', timesPerWeek: formData.weeklyTarget };
                 break;
@@ -84,6 +145,19 @@ export function HabitsDashboardPage() {
             case 'everyXDays':
                 frequency = { type: 'everyXDays', interval: formData.everyXDays };
                 break;
+            case 'monthlyTarget':
+                frequency = { type: 'monthlyTarget', timesPerMonth: formData.monthlyTarget };
+                break;
+            case 'monthDays':
+                frequency = { type: 'monthDays', days: formData.monthDays };
+                break;
+            case 'timesPerPeriod':
+                frequency = {
+                    type: 'timesPerPeriod',
+                    times: Math.min(formData.periodTimes, formData.periodDays),
+                    periodDays: formData.periodDays,
+                };
+                break;
         }
 
         const habitData = {
@@ -92,9 +166,11 @@ export function HabitsDashboardPage() {
             emoji: formData.emoji,
             color: formData.color,
             type: formData.type,
-            target: formData.type === 'numeric' ? formData.target : undefined,
-            unit: formData.type === 'numeric' ? formData.unit : undefined,
+            target: hasAmount ? formData.target : undefined,
+            unit: hasAmount ? formData.unit : undefined,
             frequency,
+            startISO: formData.startISO || undefined,
+            endISO: formData.endISO || undefined,
         };
 
         if (editingHabit) {
@@ -123,6 +199,12 @@ export function HabitsDashboardPage() {
             weeklyTarget: 7,
             specificDays: [1, 2, 3, 4, 5],
             everyXDays: 1,
+            monthlyTarget: 4,
+            monthDays: [1],
+            periodTimes: 3,
+            periodDays: 10,
+            startISO: '',
+            endISO: '',
         });
     };
 
@@ -141,6 +223,12 @@ export function HabitsDashboardPage() {
             weeklyTarget: habit.frequency.type === 'weeklyTarget' ? habit.frequency.timesPerWeek : 7,
             specificDays: habit.frequency.type === 'specificDays' ? habit.frequency.days : [1, 2, 3, 4, 5],
             everyXDays: habit.frequency.type === 'everyXDays' ? habit.frequency.interval : 1,
+            monthlyTarget: habit.frequency.type === 'monthlyTarget' ? habit.frequency.timesPerMonth : 4,
+            monthDays: habit.frequency.type === 'monthDays' ? habit.frequency.days : [1],
+            periodTimes: habit.frequency.type === 'timesPerPeriod' ? habit.frequency.times : 3,
+            periodDays: habit.frequency.type === 'timesPerPeriod' ? habit.frequency.periodDays : 10,
+            startISO: habit.startISO || '',
+            endISO: habit.endISO || '',
         });
         setOpenMenu(null);
     };
@@ -149,15 +237,34 @@ export function HabitsDashboardPage() {
         logHabit(habitId, new Date().toISOString().split('T')[0], isCompleted ? undefined : true);
     };
 
+    const logSlip = (habitId: string, hasSlipped: boolean) => {
+        logHabit(habitId, today, undefined, hasSlipped ? undefined : 1);
+    };
+
+    const removeLastEntry = (habitId: string, entries: HabitLogEntry[]) => {
+        const last = entries[entries.length - 1];
+        if (last) removeHabitEntry(habitId, today, last.id);
+    };
+
+    const toggleSkip = (habitId: string, isSkipped: boolean) => {
+        skipHabit(habitId, today, !isSkipped);
+        setOpenMenu(null);
+    };
+
     const handleDelete = (id: string) => {
-        deleteHabit(id);
+        const historyId = deleteHabit(id);
         setDeleteConfirm(null);
-        addToast('success', 'Alışkanlık silindi');
+        addToast('success', 'Alışkanlık çöp kutusuna taşındı', 6000, undoAction(historyId));
     };
 
     const toggleArchive = (habit: Habit) => {
-        updateHabit(habit.id, { isArchived: !habit.isArchived });
-        addToast('success', habit.isArchived ? 'Alışkanlık geri yüklendi' : 'Alışkanlık arşivlendi');
+        const historyId = updateHabit(habit.id, { isArchived: !habit.isArchived });
+        addToast(
+            'success',
+            habit.isArchived ? 'Alışkanlık geri yüklendi' : 'Alışkanlık arşivlendi',
+            6000,
+            undoAction(historyId)
+        );
         setOpenMenu(null);
     };
 
@@ -168,10 +275,17 @@ export function HabitsDashboardPage() {
                 <div>
                     <h1 className="text-2xl font-bold text-primary">Alışkanlıklar</h1>
                     <p className="text-secondary mt-1">
-                        Bugün: {todayCompleted}/{todayHabits.length} tamamlandı
+                        Bugün: {todayCompleted}/{todayGoal.length} tamamlandı
                     </p>
                 </div>
                 <div className="flex gap-2">
+                    <Button
+                        variant="secondary"
+                        onClick={() => setIsPauseModalOpen(true)}
+                        leftIcon={<Palmtree className="w-4 h-4" />}
+                    >
+                        Tatiller
+                    </Button>
                     <Button
                         variant="secondary"
                         onClick={() => setShowArchived(!showArchived)}
@@ -185,17 +299,28 @@ export function HabitsDashboardPage() {
                 </div>
             </div>
 
+            {/* Vacation */}
+            {activeVacation && (
+                <div className="flex items-center gap-3 p-4 rounded-lg bg-green-500/10 border border-green-500/20">
+                    <Palmtree className="w-5 h-5 text-green-500 flex-shrink-0" />
+                    <p className="text-sm text-green-600 dark:text-green-400">
+                        {formatDateDisplay(activeVacation.endISO)} tarihine kadar tatildesin
+                        {activeVacation.note && ` (${activeVacation.note})`}; seriler duraklatıldı.
+                    </p>
+                </div>
+            )}
+
             {/* Today's Progress */}
-            {!showArchived && todayHabits.length > 0 && (
+            {!showArchived && todayGoal.length > 0 && (
                 <Card>
                     <div className="flex items-center justify-between mb-4">
                         <h3 className="font-semibold text-primary">Bugünkü İlerleme</h3>
                         <span className="text-sm text-secondary">
-                            {Math.round((todayCompleted / todayHabits.length) * 100)}%
+                            {Math.round((todayCompleted / todayGoal.length) * 100)}%
                         </span>
                     </div>
                     <ProgressBar
-                        value={(todayCompleted / todayHabits.length) * 100}
+                        value={(todayCompleted / todayGoal.length) * 100}
                         color="#22c55e"
                     />
                 </Card>
@@ -223,6 +348,7 @@ export function HabitsDashboardPage() {
                             const todayData = todayHabits.find(h => h.habit.id === habit.habit.id);
                             const isCompletedToday = todayData?.isCompletedToday || false;
                             const isDueToday = todayData !== undefined;
+                            const isSkippedToday = getHabitLogs(habit.habit.id).some(l => l.dateISO === today && l.skipped);
 
                             return (
                                 <motion.div
@@ -247,7 +373,24 @@ export function HabitsDashboardPage() {
 
                                         <div className="flex items-start gap-3 pt-2">
                                             {/* Toggle */}
-                                            {isDueToday && !habit.habit.isArchived && (
+                                            {isDueToday && !habit.habit.isArchived && habit.habit.type === 'quit' && (
+                                                <HabitSlipToggle
+                                                    habit={habit.habit}
+                                                    slipped={habit.todayValue > 0}
+                                                    onToggle={() => logSlip(habit.habit.id, habit.todayValue > 0)}
+                                                    className="mt-1 flex-shrink-0"
+                                                />
+                                            )}
+                                            {isDueToday && !habit.habit.isArchived && habit.habit.type === 'numeric' && (
+                                                <div className="mt-1 flex-shrink-0" title={isCompletedToday ? 'Hedefe ulaşıldı' : 'Hedefe ulaşılmadı'}>
+                                                    {isCompletedToday ? (
+                                                        <CheckCircle className="w-6 h-6" style={{ color: habit.habit.color }} />
+                                                    ) : (
+                                                        <Circle className="w-6 h-6 text-secondary" />
+                                                    )}
+                                                </div>
+                                            )}
+                                            {isDueToday && !habit.habit.isArchived && habit.habit.type === 'boolean' && (
                                                 <button
                                                     onClick={() => toggleHabit(habit.habit.id, isCompletedToday)}
                                                     className="mt-1 flex-shrink-0"
@@ -282,12 +425,28 @@ export function HabitsDashboardPage() {
 
                                                 {/* Stats */}
                                                 <div className="flex items-center gap-4 mt-3">
-                                                    <div className="flex items-center gap-1">
+                                                    <div
+                                                        className="flex items-center gap-1"
+                                                        title={
+                                                            habit.habit.type === 'quit'
+                                                                ? 'Son kaymadan beri temiz gün'
+                                                                : `Üst üste tutturulan ${STREAK_UNIT_LABELS[habit.streakUnit]}`
+                                                        }
+                                                    >
                                                         <Flame className="w-4 h-4 text-orange-500" />
                                                         <span className="text-sm font-medium text-primary">
                                                             {habit.currentStreak}
+                                                            {habit.streakUnit !== 'day' && ` ${STREAK_UNIT_LABELS[habit.streakUnit]}`}
                                                         </span>
                                                     </div>
+                                                    {freezeTokens && habit.freezesLeft > 0 && (
+                                                        <div className="flex items-center gap-1" title="Dondurma hakkı">
+                                                            <Snowflake className="w-4 h-4 text-sky-500" />
+                                                            <span className="text-sm font-medium text-primary">
+                                                                {habit.freezesLeft}
+                                                            </span>
+                                                        </div>
+                                                    )}
                                                     <div className="flex items-center gap-1">
                                                         <BarChart3 className="w-4 h-4 text-blue-500" />
                                                         <span className="text-sm font-medium text-primary">
@@ -296,10 +455,40 @@ export function HabitsDashboardPage() {
                                                     </div>
                                                     {!isDueToday && !habit.habit.isArchived && (
                                                         <Badge size="sm" color="#94a3b8">
-                                                            Bugün yok
+                                                            {habit.habit.endISO && habit.habit.endISO < today
+                                                                ? 'Sona erdi'
+                                                                : habit.habit.startISO && habit.habit.startISO > today
+                                                                    ? 'Henüz başlamadı'
+                                                                    : 'Bugün yok'}
+                                                        </Badge>
+                                                    )}
+                                                    {isDueToday && !habit.habit.isArchived && !isCompletedToday && habit.isPausedToday && (
+                                                        <Badge size="sm" color="#94a3b8">
+                                                            {isSkippedToday ? 'Atlandı' : 'Tatil'}
                                                         </Badge>
                                                     )}
                                                 </div>
+
+                                                {habit.habit.type === 'limit' && isDueToday && !habit.habit.isArchived && (
+                                                    <div className="mt-3">
+                                                        <HabitLimitCounter
+                                                            habit={habit.habit}
+                                                            value={habit.todayValue}
+                                                            onIncrement={() => addHabitEntry(habit.habit.id, today, 1)}
+                                                            onDecrement={() => removeLastEntry(habit.habit.id, habit.todayEntries)}
+                                                        />
+                                                    </div>
+                                                )}
+                                                {habit.habit.type === 'numeric' && isDueToday && !habit.habit.isArchived && (
+                                                    <div className="mt-3">
+                                                        <HabitEntryInput
+                                                            habit={habit.habit}
+                                                            value={habit.todayValue}
+                                                            defaultAmount={habit.todayEntries[habit.todayEntries.length - 1]?.amount}
+                                                            onAdd={(amount) => addHabitEntry(habit.habit.id, today, amount)}
+                                                        />
+                                                    </div>
+                                                )}
                                             </div>
 
                                             {/* Menu */}
@@ -325,6 +514,15 @@ export function HabitsDashboardPage() {
                                                                 <Edit2 className="w-4 h-4" />
                                                                 Düzenle
                                                             </button>
+                                                            {isDueToday && !habit.habit.isArchived && !isNegativeHabit(habit.habit) && (
+                                                                <button
+                                                                    className="w-full px-3 py-2 text-left text-sm text-secondary hover:bg-secondary flex items-center gap-2"
+                                                                    onClick={() => toggleSkip(habit.habit.id, isSkippedToday)}
+                                                                >
+                                                                    <SkipForward className="w-4 h-4" />
+                                                                    {isSkippedToday ? 'Atlamayı Kaldır' : 'Bugünü Atla'}
+                                                                </button>
+                                                            )}
                                                             <button
                                                                 className="w-full px-3 py-2 text-left text-sm text-secondary hover:bg-secondary flex items-center gap-2"
                                                                 onClick={() => toggleArchive(habit.habit)}
@@ -364,6 +562,8 @@ export function HabitsDashboardPage() {
                 </div>
             )}
 
+            <HabitPauseModal isOpen={isPauseModalOpen} onClose={() => setIsPauseModalOpen(false)} />
+
             {/* Add/Edit Modal */}
             <Modal
                 isOpen={isAddModalOpen || !!editingHabit}
@@ -423,22 +623,26 @@ export function HabitsDashboardPage() {
                     <Select
                         label="Tür"
                         value={formData.type}
-                        onChange={(e) => setFormData({ ...formData, type: e.target.value as 'boolean' | 'numeric' })}
-                        options={[
-                            { value: 'boolean', label: 'Onay Kutusu (Yaptım/Yapmadım)' },
-                            { value: 'numeric', label: 'Sayısal (Hedef miktar)' },
-                        ]}
+                        onChange={(e) => {
+                            const type = e.target.value as HabitType;
+                            setFormData({ ...formData, type, target: type === 'limit' ? 2 : Math.max(formData.target, 1) });
+                        }}
+                        options={Object.entries(habitTypeLabels).map(([value, label]) => ({ value, label }))}
                     />
 
                     {/* Numeric Options */}
-                    {formData.type === 'numeric' && (
+                    {(formData.type === 'numeric' || formData.type === 'limit') && (
                         <div className="grid grid-cols-2 gap-4">
                             <Input
                                 type="number"
-                                label="Günlük Hedef"
-                                min={1}
+                                label={formData.type === 'limit' ? 'Günlük Üst Sınır' : 'Günlük Hedef'}
+                                min={formData.type === 'limit' ? 0 : 1}
                                 value={formData.target}
-                                onChange={(e) => setFormData({ ...formData, target: parseInt(e.target.value) || 1 })}
+                                onChange={(e) => {
+                                    const value = parseInt(e.target.value);
+                                    const min = formData.type === 'limit' ? 0 : 1;
+                                    setFormData({ ...formData, target: Number.isNaN(value) ? min : Math.max(value, min) });
+                                }}
                             />
                             <Input
                                 label="Birim"
@@ -450,14 +654,22 @@ export function HabitsDashboardPage() {
                     )}
 
                     {/* Frequency */}
-                    <Select
-                        label="Sıklık"
-                        value={formData.frequencyType}
-                        onChange={(e) => setFormData({ ...formData, frequencyType: e.target.value as FrequencyRule['type'] })}
-                        options={Object.entries(frequencyTypeLabels).map(([value, label]) => ({ value, label }))}
-                    />
+                    {isNegativeForm ? (
+                        <p className="text-sm text-secondary">
+                            {formData.type === 'quit'
+                                ? 'Her gün takip edilir; kaydığın günü işaretleyene kadar gün temiz sayılır.'
+                                : 'Her gün takip edilir; sınırı aşmadığın sürece gün başarılı sayılır.'}
+                        </p>
+                    ) : (
+                        <Select
+                            label="Sıklık"
+                            value={formData.frequencyType}
+                            onChange={(e) => setFormData({ ...formData, frequencyType: e.target.value as FrequencyRule['type'] })}
+                            options={Object.entries(frequencyTypeLabels).map(([value, label]) => ({ value, label }))}
+                        />
+                    )}
 
-                    {formData.frequencyType === 'weeklyTarget' && (
+                    {!isNegativeForm && formData.frequencyType === 'weeklyTarget' && (
                         <div>
                             <label className="block text-sm font-medium text-secondary mb-1">
                                 Haftada kaç kez?
@@ -474,7 +686,7 @@ export function HabitsDashboardPage() {
                         </div>
                     )}
 
-                    {formData.frequencyType === 'specificDays' && (
+                    {!isNegativeForm && formData.frequencyType === 'specificDays' && (
                         <div>
                             <label className="block text-sm font-medium text-secondary mb-2">Günler</label>
                             <div className="flex gap-2">
@@ -502,7 +714,7 @@ export function HabitsDashboardPage() {
                         </div>
                     )}
 
-                    {formData.frequencyType === 'everyXDays' && (
+                    {!isNegativeForm && formData.frequencyType === 'everyXDays' && (
                         <Input
                             type="number"
                             label="Kaç günde bir?"
@@ -513,6 +725,94 @@ export function HabitsDashboardPage() {
                         />
                     )}
 
+                    {!isNegativeForm && formData.frequencyType === 'monthlyTarget' && (
+                        <div>
+                            <label className="block text-sm font-medium text-secondary mb-1">
+                                Ayda kaç kez?
+                            </label>
+                            <input
+                                type="range"
+                                min={1}
+                                max={31}
+                                value={formData.monthlyTarget}
+                                onChange={(e) => setFormData({ ...formData, monthlyTarget: parseInt(e.target.value) })}
+                                className="w-full"
+                            />
+                            <p className="text-sm text-secondary text-center mt-1">{formData.monthlyTarget} gün/ay</p>
+                        </div>
+                    )}
+
+                    {!isNegativeForm && formData.frequencyType === 'monthDays' && (
+                        <div>
+                            <label className="block text-sm font-medium text-secondary mb-2">Ayın günleri</label>
+                            <div className="grid grid-cols-7 gap-1">
+                                {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                                    <button
+                                        key={day}
+                                        type="button"
+                                        className={cn(
+                                            'h-9 rounded-lg text-sm font-medium transition-colors',
+                                            formData.monthDays.includes(day)
+                                                ? 'bg-[var(--color-accent)] text-white'
+                                                : 'bg-secondary text-secondary'
+                                        )}
+                                        onClick={() => {
+                                            const days = formData.monthDays.includes(day)
+                                                ? formData.monthDays.filter(d => d !== day)
+                                                : [...formData.monthDays, day].sort((a, b) => a - b);
+                                            setFormData({ ...formData, monthDays: days });
+                                        }}
+                                    >
+                                        {day}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-tertiary mt-2">
+                                Kısa aylarda, olmayan günler ayın son gününe kayar.
+                            </p>
+                        </div>
+                    )}
+
+                    {!isNegativeForm && formData.frequencyType === 'timesPerPeriod' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <Input
+                                type="number"
+                                label="Kaç kez?"
+                                min={1}
+                                max={formData.periodDays}
+                                value={formData.periodTimes}
+                                onChange={(e) => setFormData({ ...formData, periodTimes: Math.max(parseInt(e.target.value) || 1, 1) })}
+                            />
+                            <Input
+                                type="number"
+                                label="Kaç günde?"
+                                min={2}
+                                max={365}
+                                value={formData.periodDays}
+                                onChange={(e) => setFormData({
+                                    ...formData,
+                                    periodDays: Math.min(Math.max(parseInt(e.target.value) || 2, 2), 365),
+                                })}
+                            />
+                        </div>
+                    )}
+
+                    {/* Date bounds */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <Input
+                            type="date"
+                            label="Başlangıç (Opsiyonel)"
+                            value={formData.startISO}
+                            onChange={(e) => setFormData({ ...formData, startISO: e.target.value })}
+                        />
+                        <Input
+                            type="date"
+                            label="Bitiş (Opsiyonel)"
+                            value={formData.endISO}
+                            onChange={(e) => setFormData({ ...formData, endISO: e.target.value })}
+                        />
+                    </div>
+
                     <div className="flex justify-end gap-3 pt-4">
                         <Button type="button" variant="secondary" onClick={closeModal}>
                             İptal
@@ -7,6 +7,7 @@ import {
     ListTodo,
     Plus,
     Star,
+    Timer,
     Trash2,
 } from 'lucide-react';
 import React, { useState } from 'react';
@@ -15,7 +16,10 @@ import { Badge, Card, EmptyState } from '../components/ui/Card';
 import { Input, Select, Textarea } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { useApp } from '../context/AppContext';
+import { useHistory } from '../context/HistoryContext';
 import { usePlanner } from '../context/PlannerContext';
+import { usePomodoro } from '../context/PomodoroContext';
+import { formatFocusTime } from '../lib/focus';
 import { cn, formatDateDisplay } from '../lib/utils';
 import { PersonalTask, TaskStatus } from '../types';
 
@@ -36,6 +40,8 @@ const statusColors: Record<TaskStatus, string> = {
 export function PersonalTasksPage() {
     const { state, addPersonalTask, updatePersonalTask, deletePersonalTask } = usePlanner();
     const { addToast } = useApp();
+    const { undoAction } = useHistory();
+    const { focusTotals, isActive: isFocusActive, setTarget } = usePomodoro();
 
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [editingTask, setEditingTask] = useState<PersonalTask | null>(null);
@@ -112,10 +118,16 @@ export function PersonalTasksPage() {
         updatePersonalTask(task.id, { status: newStatus });
     };
 
+    // Makes the task the target of the next Pomodoro session
+    const handleFocus = (task: PersonalTask) => {
+        setTarget({ personalTaskId: task.id });
+        addToast('info', `Odak hedefi: ${task.text}`);
+    };
+
     const handleDelete = (id: string) => {
-        deletePersonalTask(id);
+        const historyId = deletePersonalTask(id);
         setDeleteConfirm(null);
-        addToast('success', 'Görev silindi');
+        addToast('success', 'Görev çöp kutusuna taşındı', 6000, undoAction(historyId));
     };
 
     return (
@@ -225,10 +237,24 @@ export function PersonalTasksPage() {
                                                 <Badge color={statusColors[task.status]}>
                                                     {statusLabels[task.status]}
                                                 </Badge>
+                                                {focusTotals.byPersonalTask[task.id] > 0 && (
+                                                    <span className="flex items-center gap-1 text-secondary text-sm">
+                                                        <Timer className="w-4 h-4" />
+                                                        {formatFocusTime(focusTotals.byPersonalTask[task.id])}
+                                                    </span>
+                                                )}
                                             </div>
                                         </div>
 
                                         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <IconButton
+                                                size="sm"
+                                                title="Bu göreve odaklan"
+                                                disabled={isFocusActive || task.status === 'done'}
+                                                onClick={() => handleFocus(task)}
+                                            >
+                                                <Timer className="w-4 h-4" />
+                                            </IconButton>
                                             <IconButton size="sm" onClick={() => openEditModal(task)}>
                                                 <Edit2 className="w-4 h-4" />
                                             </IconButton>
@@ -313,7 +339,7 @@ export function PersonalTasksPage() {
                 size="sm"
             >
                 <p className="text-secondary mb-6">
-                    Bu görevi silmek istediğinize emin misiniz?
+                    Bu görevi silmek istediğinize emin misiniz? Görev çöp kutusuna taşınacak.
                 </p>
                 <div className="flex justify-end gap-3">
                     <Button variant="secondary" onClick={() => setDeleteConfirm(null)}>
@@ -1,32 +1,200 @@
-import { BarChart3, CheckCircle, Target, Timer, TrendingUp } from 'lucide-react';
-import { useMemo } from 'react';
+import { CheckCircle, Clock, Flame, Target, Timer, TrendingUp } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Button } from '../components/ui/Button';
 import { Card, CardHeader, ProgressBar, ProgressRing } from '../components/ui/Card';
+import { Select } from '../components/ui/Input';
 import { useHabits } from '../context/HabitsContext';
 import { usePlanner } from '../context/PlannerContext';
-import { formatDuration, getLastNDays } from '../lib/utils';
-
-// Get Pomodoro sessions from localStorage
-function getPomodoroStats() {
-    try {
-        const storedSessions = JSON.parse(localStorage.getItem('pomodoroSessions') || '{}');
-        const today = new Date().toISOString().split('T')[0];
-        const todaySessions = storedSessions[today] || 0;
-
-        // Calculate total sessions
-        let totalSessions = 0;
-        Object.values(storedSessions).forEach((count: any) => {
-            totalSessions += count;
-        });
-
-        return { todaySessions, totalSessions };
-    } catch {
-        return { todaySessions: 0, totalSessions: 0 };
+import { usePomodoro } from '../context/PomodoroContext';
+import { FocusBucket, FocusGranularity, formatFocusTime, getFocusAnalytics } from '../lib/focus';
+import { formatDateShort, getLastNDays, isHabitKeptOn } from '../lib/utils';
+
+const rangeOptions = [
+    { value: '7', label: 'Son 7 gün' },
+    { value: '30', label: 'Son 30 gün' },
+    { value: '90', label: 'Son 90 gün' },
+    { value: '365', label: 'Son 1 yıl' },
+];
+
+const granularityLabels: Record<FocusGranularity, string> = {
+    day: 'Gün',
+    week: 'Hafta',
+    month: 'Ay',
+};
+
+// At most this many bars get a label under them
+const MAX_CHART_LABELS = 12;
+
+function formatBucketLabel(bucket: FocusBucket, granularity: FocusGranularity): string {
+    if (granularity === 'month') {
+        return new Date(`${bucket.key}-01`).toLocaleDateString('tr-TR', { month: 'short', year: '2-digit' });
     }
+    return formatDateShort(bucket.key);
+}
+
+function FocusAnalyticsCard() {
+    const { state: plannerState } = usePlanner();
+    const { focusSessions } = usePomodoro();
+
+    const [rangeDays, setRangeDays] = useState(30);
+    const [granularity, setGranularity] = useState<FocusGranularity>('day');
+
+    const analytics = useMemo(
+        () => getFocusAnalytics(focusSessions, getLastNDays(rangeDays), granularity),
+        [focusSessions, rangeDays, granularity]
+    );
+
+    const maxBucket = Math.max(...analytics.buckets.map(b => b.seconds), 1);
+    const maxHour = Math.max(...analytics.byHour, 1);
+    const labelEvery = Math.ceil(analytics.buckets.length / MAX_CHART_LABELS);
+
+    const getCourse = (courseId: string | null) => plannerState.courses.find(c => c.id === courseId);
+
+    return (
+        <Card className="lg:col-span-2">
+            <CardHeader
+                title="Odak Analizi"
+                subtitle="Pomodoro çalışma oturumlarına göre"
+                action={
+                    <div className="w-40">
+                        <Select
+                            value={String(rangeDays)}
+                            onChange={(e) => setRangeDays(Number(e.target.value))}
+                            options={rangeOptions}
+                        />
+                    </div>
+                }
+            />
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-4 bg-secondary rounded-lg text-center">
+                    <Timer className="w-6 h-6 text-orange-500 mx-auto mb-2" />
+                    <p className="text-xl font-bold text-primary">{formatFocusTime(analytics.totalSeconds)}</p>
+                    <p className="text-sm text-secondary">Toplam Odak</p>
+                </div>
+                <div className="p-4 bg-secondary rounded-lg text-center">
+                    <Clock className="w-6 h-6 text-blue-500 mx-auto mb-2" />
+                    <p className="text-xl font-bold text-primary">
+                        {formatFocusTime(analytics.activeDays > 0 ? analytics.totalSeconds / analytics.activeDays : 0)}
+                    </p>
+                    <p className="text-sm text-secondary">Aktif Gün Ortalaması</p>
+                </div>
+                <div className="p-4 bg-secondary rounded-lg text-center">
+                    <CheckCircle className="w-6 h-6 text-green-500 mx-auto mb-2" />
+                    <p className="text-xl font-bold text-primary">
+                        {analytics.completionRate === null ? '—' : `${Math.round(analytics.completionRate * 100)}%`}
+                    </p>
+                    <p className="text-sm text-secondary">Tamamlanan Oturum</p>
+                </div>
+                <div className="p-4 bg-secondary rounded-lg text-center">
+                    <Flame className="w-6 h-6 text-red-500 mx-auto mb-2" />
+                    <p className="text-xl font-bold text-primary">{analytics.longestStreak} gün</p>
+                    <p className="text-sm text-secondary">En Uzun Seri</p>
+                </div>
+            </div>
+
+            {/* Minutes per day / week / month */}
+            <div className="mt-6">
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-medium text-primary">Odak Süresi</h3>
+                    <div className="flex gap-1">
+                        {(Object.keys(granularityLabels) as FocusGranularity[]).map(g => (
+                            <Button
+                                key={g}
+                                size="sm"
+                                variant={granularity === g ? 'primary' : 'secondary'}
+                                onClick={() => setGranularity(g)}
+                            >
+                                {granularityLabels[g]}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex items-end gap-1 h-40">
+                    {analytics.buckets.map(bucket => (
+                        <div
+                            key={bucket.key}
+                            className="flex-1 h-full flex flex-col justify-end"
+                            title={`${formatBucketLabel(bucket, granularity)}: ${formatFocusTime(bucket.seconds)}`}
+                        >
+                            <div
+                                className="w-full rounded-t bg-orange-500 transition-all duration-500"
+                                style={{ height: `${(bucket.seconds / maxBucket) * 100}%` }}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-1 mt-2">
+                    {analytics.buckets.map((bucket, index) => (
+                        <p key={bucket.key} className="flex-1 text-xs text-tertiary text-center truncate">
+                            {index % labelEvery === 0 ? formatBucketLabel(bucket, granularity) : ''}
+                        </p>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-6 mt-6">
+                {/* By course */}
+                <div>
+                    <h3 className="font-medium text-primary mb-3">Derslere Göre</h3>
+                    {analytics.byCourse.length === 0 ? (
+                        <p className="text-sm text-secondary">Bu aralıkta odak oturumu yok</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {analytics.byCourse.map(({ courseId, seconds }) => {
+                                const course = getCourse(courseId);
+                                return (
+                                    <div key={courseId ?? 'none'}>
+                                        <div className="flex items-center justify-between mb-1 text-sm">
+                                            <span className="text-primary truncate">
+                                                {course?.title ?? (courseId ? 'Silinmiş ders' : 'Ders dışı')}
+                                            </span>
+                                            <span className="text-secondary ml-2">{formatFocusTime(seconds)}</span>
+                                        </div>
+                                        <ProgressBar
+                                            value={(seconds / analytics.totalSeconds) * 100}
+                                            color={course?.color ?? '#94a3b8'}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                {/* Time of day */}
+                <div>
+                    <h3 className="font-medium text-primary mb-3">Günün Saatlerine Göre</h3>
+                    <div className="flex items-end gap-0.5 h-32">
+                        {analytics.byHour.map((seconds, hour) => (
+                            <div
+                                key={hour}
+                                className="flex-1 h-full flex flex-col justify-end"
+                                title={`${String(hour).padStart(2, '0')}:00: ${formatFocusTime(seconds)}`}
+                            >
+                                <div
+                                    className="w-full rounded-t bg-[var(--color-accent)]"
+                                    style={{ height: `${(seconds / maxHour) * 100}%` }}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-between mt-2 text-xs text-tertiary">
+                        {[0, 6, 12, 18, 23].map(hour => (
+                            <span key={hour}>{String(hour).padStart(2, '0')}:00</span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </Card>
+    );
 }
 
 export function StatisticsPage() {
     const { state: plannerState } = usePlanner();
     const { state: habitsState, getTodayHabits, getHabitLogs } = useHabits();
+    const { todaySessions } = usePomodoro();
 
     // Calculate daily completion stats for last 7 days
     const dailyStats = useMemo(() => {
@@ -45,8 +213,7 @@ export function StatisticsPage() {
             let completedHabits = 0;
             habitsState.habits.forEach(habit => {
                 const logs = getHabitLogs(habit.id);
-                const dayLog = logs.find(l => l.dateISO === dateISO);
-                if (dayLog?.done || (habit.type === 'numeric' && dayLog?.value && dayLog.value >= (habit.target || 0))) {
+                if (isHabitKeptOn(habit, logs.find(l => l.dateISO === dateISO), dateISO)) {
                     completedHabits++;
                 }
             });
@@ -158,35 +325,12 @@ export function StatisticsPage() {
                     <div className="p-3 rounded-full bg-orange-500/10 w-fit mx-auto mb-3">
                         <Timer className="w-6 h-6 text-orange-500" />
                     </div>
-                    <p className="text-2xl font-bold text-primary">{getPomodoroStats().todaySessions}</p>
+                    <p className="text-2xl font-bold text-primary">{todaySessions}</p>
                     <p className="text-sm text-secondary">Bugünkü Pomodoro</p>
                 </Card>
             </div>
 
             <div className="grid lg:grid-cols-2 gap-6">
-                {/* Pomodoro Summary */}
-                <Card>
-                    <CardHeader title="Pomodoro Özeti" subtitle="Çalışma istatistikleri" />
-                    <div className="grid grid-cols-2 gap-4 mt-4">
-                        <div className="p-4 bg-secondary rounded-lg text-center">
-                            <Timer className="w-8 h-8 text-orange-500 mx-auto mb-2" />
-                            <p className="text-2xl font-bold text-primary">{getPomodoroStats().todaySessions}</p>
-                            <p className="text-sm text-secondary">Bugün</p>
-                        </div>
-                        <div className="p-4 bg-secondary rounded-lg text-center">
-                            <BarChart3 className="w-8 h-8 text-blue-500 mx-auto mb-2" />
-                            <p className="text-2xl font-bold text-primary">{getPomodoroStats().totalSessions}</p>
-                            <p className="text-sm text-secondary">Toplam</p>
-                        </div>
-                    </div>
-                    <div className="mt-4 p-4 bg-secondary rounded-lg">
-                        <div className="flex justify-between items-center">
-                            <span className="text-secondary">Bugünkü Çalışma Süresi</span>
-                            <span className="font-bold text-primary">{formatDuration(getPomodoroStats().todaySessions * 25 * 60)}</span>
-                        </div>
-                    </div>
-                </Card>
-
                 {/* Weekly Activity Chart */}
                 <Card>
                     <CardHeader title="Haftalık Aktivite" subtitle="Son 7 günlük tamamlama" />
@@ -264,6 +408,9 @@ export function StatisticsPage() {
                     </div>
                 </Card>
 
+                {/* Focus Analytics */}
+                <FocusAnalyticsCard />
+
                 {/* Course Progress */}
                 <Card className="lg:col-span-2">
                     <CardHeader title="Ders İlerlemesi" />
@@ -0,0 +1,176 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+import { Button, IconButton } from '../components/ui/Button';
+import { Card, EmptyState } from '../components/ui/Card';
+import { Select } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { useApp } from '../context/AppContext';
+import { useTrash } from '../context/TrashContext';
+import { getTrashExpiry, TrashItem, TrashItemType } from '../lib/trash';
+import { formatDateDisplay, getDaysUntil } from '../lib/utils';
+
+const typeLabels: Record<TrashItemType, string> = {
+    course: 'Dersler',
+    unit: 'Üniteler',
+    task: 'Görevler',
+    exam: 'Sınavlar',
+    personalTask: 'Kişisel Görevler',
+    habit: 'Alışkanlıklar',
+};
+
+const typeOrder: TrashItemType[] = ['course', 'unit', 'task', 'exam', 'personalTask', 'habit'];
+
+const retentionOptions = [7, 14, 30, 60, 90].map(days => ({ value: String(days), label: `${days} gün` }));
+
+export function TrashPage() {
+    const { updateSettings, addToast } = useApp();
+    const { items, retentionDays, restore, purge } = useTrash();
+
+    const [purgeConfirm, setPurgeConfirm] = useState<TrashItem[] | null>(null);
+
+    const groups = typeOrder
+        .map(type => ({ type, items: items.filter(item => item.type === type) }))
+        .filter(group => group.items.length > 0);
+
+    const getDaysLeft = (item: TrashItem) => Math.max(getDaysUntil(getTrashExpiry(item, retentionDays)), 0);
+
+    const handleRestore = (item: TrashItem) => {
+        restore(item);
+        addToast('success', `"${item.title}" geri yüklendi`);
+    };
+
+    const handlePurge = async () => {
+        if (!purgeConfirm) return;
+
+        const count = purgeConfirm.length;
+        setPurgeConfirm(null);
+        try {
+            await purge(purgeConfirm);
+            addToast('success', count === 1 ? 'Öğe kalıcı olarak silindi' : `${count} öğe kalıcı olarak silindi`);
+        } catch (error) {
+            console.error('Purge failed:', error);
+            addToast('error', 'Öğeler silinemedi');
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Header */}
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                    <h1 className="text-2xl font-bold text-primary">Çöp Kutusu</h1>
+                    <p className="text-secondary mt-1">{items.length} öğe</p>
+                </div>
+                <Button
+                    variant="danger"
+                    onClick={() => setPurgeConfirm(items)}
+                    disabled={items.length === 0}
+                    leftIcon={<Trash2 className="w-4 h-4" />}
+                >
+                    Çöp Kutusunu Boşalt
+                </Button>
+            </div>
+
+            {/* Retention */}
+            <Card>
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                    <p className="text-sm text-secondary">
+                        Silinen öğeler bu süre sonunda kalıcı olarak silinir.
+                    </p>
+                    <div className="w-32">
+                        <Select
+                            value={String(retentionDays)}
+                            onChange={(e) => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+                            options={
+                                retentionOptions.some(option => option.value === String(retentionDays))
+                                    ? retentionOptions
+                                    : [...retentionOptions, { value: String(retentionDays), label: `${retentionDays} gün` }]
+                            }
+                        />
+                    </div>
+                </div>
+            </Card>
+
+            {/* Items */}
+            {groups.length === 0 ? (
+                <EmptyState
+                    icon={<Trash2 className="w-8 h-8 text-tertiary" />}
+                    title="Çöp kutusu boş"
+                    description="Sildiğiniz dersler, görevler ve alışkanlıklar burada bir süre saklanır"
+                />
+            ) : (
+                groups.map(group => (
+                    <div key={group.type} className="space-y-3">
+                        <h2 className="text-sm font-semibold text-tertiary uppercase tracking-wider">
+                            {typeLabels[group.type]} ({group.items.length})
+                        </h2>
+                        <AnimatePresence mode="popLayout">
+                            {group.items.map(item => (
+                                <motion.div
+                                    key={item.id}
+                                    initial={{ opacity: 0, y: 10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    exit={{ opacity: 0, x: -10 }}
+                                    layout
+                                >
+                                    <Card className="group">
+                                        <div className="flex items-center gap-4">
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-medium text-primary truncate">{item.title}</p>
+                                                {item.location && (
+                                                    <p className="text-sm text-secondary truncate">{item.location}</p>
+                                                )}
+                                                <p className="text-xs text-tertiary mt-1">
+                                                    {formatDateDisplay(item.deletedAt)} tarihinde silindi ·{' '}
+                                                    {getDaysLeft(item)} gün sonra kalıcı olarak silinecek
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-1">
+                                                <IconButton
+                                                    onClick={() => handleRestore(item)}
+                                                    title="Geri yükle"
+                                                >
+                                                    <RotateCcw className="w-4 h-4" />
+                                                </IconButton>
+                                                <IconButton
+                                                    onClick={() => setPurgeConfirm([item])}
+                                                    title="Kalıcı olarak sil"
+                                                >
+                                                    <X className="w-4 h-4" />
+                                                </IconButton>
+                                            </div>
+                                        </div>
+                                    </Card>
+                                </motion.div>
+                            ))}
+                        </AnimatePresence>
+                    </div>
+                ))
+            )}
+
+            {/* Purge Confirmation */}
+            <Modal
+                isOpen={!!purgeConfirm}
+                onClose={() => setPurgeConfirm(null)}
+                title="Kalıcı Olarak Sil"
+                size="sm"
+            >
+                <p className="text-secondary mb-6">
+                    {purgeConfirm?.length === 1
+                        ? `"${purgeConfirm[0].title}" kalıcı olarak silinecek.`
+                        : `${purgeConfirm?.length ?? 0} öğe kalıcı olarak silinecek.`}{' '}
+                    Bu işlem geri alınamaz.
+                </p>
+                <div className="flex justify-end gap-3">
+                    <Button variant="secondary" onClick={() => setPurgeConfirm(null)}>
+                        İptal
+                    </Button>
+                    <Button variant="danger" onClick={handlePurge}>
+                        Sil
+                    </Button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
@@ -15,6 +15,7 @@ export const TaskSchema = z.object({
     note: z.string().optional(),
     createdAt: z.string(),
     updatedAt: z.string(),
+    deletedAt: z.string().optional(),
 });
 export type Task = z.infer<typeof TaskSchema>;
 
@@ -23,14 +24,28 @@ export const UnitSchema = z.object({
     title: z.string().max(200),
     order: z.number(),
     tasks: z.array(TaskSchema),
+    deletedAt: z.string().optional(),
 });
 export type Unit = z.infer<typeof UnitSchema>;
 
+// How preparation for an exam is spread over the days before it
+export const StudyPlanSchema = z.object({
+    unitIds: z.array(z.string()), // units the exam covers
+    hoursPerDay: z.number().min(0.5).max(16),
+    minutesPerTask: z.number().int().min(5).max(480),
+    reviewDays: z.number().int().min(0).max(14), // last days before the exam, kept free of tasks
+    createdAt: z.string(),
+    rebalancedAt: z.string().optional(), // last time missed tasks were moved forward
+});
+export type StudyPlan = z.infer<typeof StudyPlanSchema>;
+
 export const ExamSchema = z.object({
     id: z.string(),
     title: z.string().max(200),
     examDateISO: z.string(),
     description: z.string().optional(),
+    studyPlan: StudyPlanSchema.optional(),
+    deletedAt: z.string().optional(),
 });
 export type Exam = z.infer<typeof ExamSchema>;
 
@@ -55,6 +70,7 @@ export const CourseSchema = z.object({
     exams: z.array(ExamSchema),
     createdAt: z.string(),
     updatedAt: z.string(),
+    deletedAt: z.string().optional(),
 });
 export type Course = z.infer<typeof CourseSchema>;
 
@@ -75,19 +91,27 @@ export const CompletionStateSchema = z.object({
 });
 export type CompletionState = z.infer<typeof CompletionStateSchema>;
 
-export const UndoSnapshotSchema = z.object({
-    timestamp: z.string(),
-    completedTaskIds: z.array(z.string()),
-    completionHistory: z.record(z.string(), z.string()),
-});
-export type UndoSnapshot = z.infer<typeof UndoSnapshotSchema>;
-
 export const PersonalTaskSchema = TaskSchema;
 export type PersonalTask = Task;
 
+export const QuickNoteSchema = z.object({
+    id: z.string(),
+    content: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+export type QuickNote = z.infer<typeof QuickNoteSchema>;
+
 // ================== HABITS TYPES ==================
 
-export const FrequencyTypeSchema = z.enum(['weeklyTarget', 'specificDays', 'everyXDays']);
+export const FrequencyTypeSchema = z.enum([
+    'weeklyTarget',
+    'specificDays',
+    'everyXDays',
+    'monthlyTarget',
+    'monthDays',
+    'timesPerPeriod',
+]);
 export type FrequencyType = z.infer<typeof FrequencyTypeSchema>;
 
 export const FrequencyRuleSchema = z.discriminatedUnion('type', [
@@ -103,10 +127,27 @@ export const FrequencyRuleSchema = z.discriminatedUnion('type', [
         type: z.literal('everyXDays'),
         interval: z.number().min(1).max(365),
     }),
+    z.object({
+        type: z.literal('monthlyTarget'),
+        timesPerMonth: z.number().min(1).max(31),
+    }),
+    // Days past the end of a shorter month fall on its last day
+    z.object({
+        type: z.literal('monthDays'),
+        days: z.array(z.number().min(1).max(31)),
+    }),
+    // Rolling window: any `periodDays` days in a row hold `times` completions
+    z.object({
+        type: z.literal('timesPerPeriod'),
+        times: z.number().min(1).max(365),
+        periodDays: z.number().min(2).max(365),
+    }),
 ]);
 export type FrequencyRule = z.infer<typeof FrequencyRuleSchema>;
 
-export const HabitTypeSchema = z.enum(['boolean', 'numeric']);
+// 'limit' keeps the day's value at or under `target`; 'quit' logs slips as
+// `value`. Both are daily and count days with nothing logged as kept.
+export const HabitTypeSchema = z.enum(['boolean', 'numeric', 'limit', 'quit']);
 export type HabitType = z.infer<typeof HabitTypeSchema>;
 
 export const SortModeSchema = z.enum(['manual', 'name', 'colorGroup']);
@@ -122,56 +163,240 @@ export const HabitSchema = z.object({
     unit: z.string().optional(),
     color: z.string().optional(),
     frequency: FrequencyRuleSchema,
+    // Optional inclusive bounds; the habit is not due outside them
+    startISO: z.string().optional(),
+    endISO: z.string().optional(),
     sortMode: SortModeSchema.optional(),
     manualOrder: z.number().optional(),
     isArchived: z.boolean().default(false),
     createdAt: z.string(),
     updatedAt: z.string(),
+    deletedAt: z.string().optional(),
 });
 export type Habit = z.infer<typeof HabitSchema>;
 
+// One check-in of a numeric or limit habit ("+250 ml")
+export const HabitLogEntrySchema = z.object({
+    id: z.string(),
+    amount: z.number(),
+    timestamp: z.string(),
+});
+export type HabitLogEntry = z.infer<typeof HabitLogEntrySchema>;
+
 export const HabitLogSchema = z.object({
     habitId: z.string(),
     dateISO: z.string(),
     done: z.boolean().optional(),
-    value: z.number().optional(),
+    value: z.number().optional(), // the sum of `entries` when there are any
+    entries: z.array(HabitLogEntrySchema).optional(),
+    skipped: z.boolean().optional(), // a day off for this habit; neither done nor missed
     timestamp: z.string(),
 });
 export type HabitLog = z.infer<typeof HabitLogSchema>;
 
+// Inclusive date range in which no habit is expected
+export const VacationRangeSchema = z.object({
+    id: z.string(),
+    startISO: z.string(),
+    endISO: z.string(),
+    note: z.string().max(100).optional(),
+});
+export type VacationRange = z.infer<typeof VacationRangeSchema>;
+
+export const HabitPauseSettingsSchema = z.object({
+    vacations: z.array(VacationRangeSchema),
+    // Long streaks earn tokens that cover a missed day (or week) automatically
+    freezeTokens: z.boolean(),
+});
+export type HabitPauseSettings = z.infer<typeof HabitPauseSettingsSchema>;
+
+// ================== HISTORY TYPES ==================
+
+// One entity touched by an undoable command, as it was before and after;
+// null on either side means the entity did not exist then
+function historyChangeSchema<T extends z.ZodType>(value: T) {
+    return z.object({
+        id: z.string(),
+        before: value.nullable(),
+        after: value.nullable(),
+    });
+}
+
+// Courses are recorded without their tasks; tasks are recorded one by one
+export const PlannerChangeSetSchema = z.object({
+    courses: z.array(historyChangeSchema(z.object({ index: z.number(), course: CourseSchema }))),
+    tasks: z.array(
+        historyChangeSchema(
+            z.object({ courseId: z.string(), unitId: z.string(), index: z.number(), task: TaskSchema })
+        )
+    ),
+    personalTasks: z.array(historyChangeSchema(z.object({ index: z.number(), task: PersonalTaskSchema }))),
+    completions: z.array(
+        historyChangeSchema(z.object({ completed: z.boolean(), completedAt: z.string().optional() }))
+    ),
+});
+export type PlannerChangeSet = z.infer<typeof PlannerChangeSetSchema>;
+
+export const HabitsChangeSetSchema = z.object({
+    habits: z.array(historyChangeSchema(z.object({ index: z.number(), habit: HabitSchema }))),
+    habitLogs: z.array(historyChangeSchema(HabitLogSchema)),
+});
+export type HabitsChangeSet = z.infer<typeof HabitsChangeSetSchema>;
+
+function historyStackSchema<T extends z.ZodType>(changes: T) {
+    const entry = z.object({
+        id: z.string(),
+        label: z.string(),
+        at: z.string(),
+        changes,
+    });
+    return z.object({ past: z.array(entry), future: z.array(entry) });
+}
+
+export const PlannerHistorySchema = historyStackSchema(PlannerChangeSetSchema);
+export type PlannerHistory = z.infer<typeof PlannerHistorySchema>;
+
+export const HabitsHistorySchema = historyStackSchema(HabitsChangeSetSchema);
+export type HabitsHistory = z.infer<typeof HabitsHistorySchema>;
+
 // ================== SETTINGS TYPES ==================
 
+export const PomodoroModeSchema = z.enum(['work', 'shortBreak', 'longBreak']);
+export type PomodoroMode = z.infer<typeof PomodoroModeSchema>;
+
+// One step of a profile's sequence, e.g. 50 minutes of work
+export const PomodoroIntervalSchema = z.object({
+    mode: PomodoroModeSchema,
+    minutes: z.number().int().min(1).max(180),
+});
+export type PomodoroInterval = z.infer<typeof PomodoroIntervalSchema>;
+
+// A named sequence of intervals that repeats, e.g. "Derin Çalışma 50/10"
+export const PomodoroProfileSchema = z.object({
+    id: z.string(),
+    name: z.string().min(1).max(40),
+    intervals: z.array(PomodoroIntervalSchema).min(1).max(20),
+});
+export type PomodoroProfile = z.infer<typeof PomodoroProfileSchema>;
+
 export const PomodoroSettingsSchema = z.object({
-    workDuration: z.number().min(1).max(120),
-    shortBreakDuration: z.number().min(1).max(60),
-    longBreakDuration: z.number().min(1).max(120),
-    sessionsUntilLongBreak: z.number().min(1).max(10),
+    profiles: z.array(PomodoroProfileSchema).min(1),
+    activeProfileId: z.string(),
     autoStartBreaks: z.boolean(),
     autoStartWork: z.boolean(),
 });
 export type PomodoroSettings = z.infer<typeof PomodoroSettingsSchema>;
 
+// Completed work sessions per day (dateISO -> count)
+export const PomodoroSessionCountsSchema = z.record(z.string(), z.number());
+export type PomodoroSessionCounts = z.infer<typeof PomodoroSessionCountsSchema>;
+
+// What a focus session is spent on: a course, one of its units or tasks, or a personal task
+export const FocusTargetSchema = z.object({
+    courseId: z.string().optional(),
+    unitId: z.string().optional(),
+    taskId: z.string().optional(),
+    personalTaskId: z.string().optional(),
+});
+export type FocusTarget = z.infer<typeof FocusTargetSchema>;
+
+// One timer run, stored in IndexedDB when it ends
+export const FocusSessionSchema = z.object({
+    id: z.string(),
+    mode: PomodoroModeSchema,
+    startedAt: z.string(),
+    endedAt: z.string(),
+    durationSec: z.number().int().min(0), // time on the clock, pauses excluded
+    target: FocusTargetSchema.optional(),
+    interrupted: z.boolean(), // reset or switched before the time ran out
+});
+export type FocusSession = z.infer<typeof FocusSessionSchema>;
+
+// The running timer, kept in storage so a reload resumes it
+export const PomodoroTimerStateSchema = z.object({
+    step: z.number().int().min(0), // index into the active profile's intervals
+    startTime: z.number().nullable(), // epoch ms while running, shifted by the time spent paused
+    pausedLeft: z.number().min(0).nullable(), // seconds left when paused; null = full duration
+    startedAt: z.number().nullable().default(null), // epoch ms the current session was first started
+    target: FocusTargetSchema.optional(),
+});
+export type PomodoroTimerState = z.infer<typeof PomodoroTimerStateSchema>;
+
+export const AmbientSoundSchema = z.enum(['white', 'pink', 'brown', 'rain', 'metronome', 'binaural']);
+export type AmbientSound = z.infer<typeof AmbientSoundSchema>;
+
+// Volume per generated sound, 0 (off) to 1
+export const AmbientVolumesSchema = z.object({
+    white: z.number().min(0).max(1),
+    pink: z.number().min(0).max(1),
+    brown: z.number().min(0).max(1),
+    rain: z.number().min(0).max(1),
+    metronome: z.number().min(0).max(1),
+    binaural: z.number().min(0).max(1),
+});
+export type AmbientVolumes = z.infer<typeof AmbientVolumesSchema>;
+
+export const AmbientPresetSchema = z.object({
+    id: z.string(),
+    name: z.string().min(1).max(40),
+    volumes: AmbientVolumesSchema,
+});
+export type AmbientPreset = z.infer<typeof AmbientPresetSchema>;
+
+export const AmbientSettingsSchema = z.object({
+    volumes: AmbientVolumesSchema,
+    presets: z.array(AmbientPresetSchema),
+    autoPlay: z.boolean(), // play during work intervals, stay quiet during breaks
+});
+export type AmbientSettings = z.infer<typeof AmbientSettingsSchema>;
+
 export const NotificationSettingsSchema = z.object({
     enabled: z.boolean(),
-    habitReminderTime: z.string().optional(),
+    habitReminder: z.boolean(),
+    habitReminderTime: z.string().optional(), // HH:mm
     examReminder: z.boolean(),
     examReminderDays: z.number().optional(),
+    taskReminder: z.boolean(), // on the due date
+    eventReminder: z.boolean(), // calendar events of type 'reminder'
+    reminderTime: z.string(), // HH:mm for the date-based reminders above
+    pomodoroAlerts: z.boolean(), // interval ends while the app is in the background
 });
 export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
 
+// Reminders already shown (notification tag -> ISO time), so none fires twice
+export const NotificationLogSchema = z.record(z.string(), z.string());
+export type NotificationLog = z.infer<typeof NotificationLogSchema>;
+
 export const AppSettingsSchema = z.object({
     theme: z.enum(['light', 'dark', 'system']),
     soundEnabled: z.boolean(),
     rightPanelOpen: z.boolean(),
     language: z.enum(['tr', 'en']),
     pomodoro: PomodoroSettingsSchema,
+    ambient: AmbientSettingsSchema,
     notifications: NotificationSettingsSchema,
+    habitPause: HabitPauseSettingsSchema,
+    // Days an item stays in the trash before it is removed for good
+    trashRetentionDays: z.number().min(1).max(365).default(30),
     lastBackupISO: z.string().optional(),
 });
 export type AppSettings = z.infer<typeof AppSettingsSchema>;
 
 // ================== BACKUP TYPES ==================
 
+export const BACKUP_FORMAT_VERSION = '2.1.0';
+
+// PDF contents of a lecture note, base64 encoded for JSON backups
+export const LectureNoteFileSchema = z.object({
+    id: z.string(),
+    courseId: z.string(),
+    mimeType: z.string(),
+    dataBase64: z.string(),
+});
+export type LectureNoteFile = z.infer<typeof LectureNoteFileSchema>;
+
+// Fields added in 2.0.0 are optional so 1.x files still parse; a missing
+// field means "not part of this backup", not "empty".
 export const BackupDataSchema = z.object({
     version: z.string(),
     exportedAt: z.string(),
@@ -179,18 +404,72 @@ export const BackupDataSchema = z.object({
     completionState: CompletionStateSchema,
     personalTasks: z.array(PersonalTaskSchema),
     habits: z.array(HabitSchema),
+    habitLogs: z.array(HabitLogSchema).optional(),
+    calendarEvents: z.array(CalendarEventSchema).optional(),
+    quickNotes: z.array(QuickNoteSchema).optional(),
+    pomodoroSessions: PomodoroSessionCountsSchema.optional(),
+    focusSessions: z.array(FocusSessionSchema).optional(), // since 2.1.0
     settings: AppSettingsSchema,
     lectureNotesMeta: z.array(LectureNoteMetaSchema).optional(),
+    lectureNoteFiles: z.array(LectureNoteFileSchema).optional(),
 });
 export type BackupData = z.infer<typeof BackupDataSchema>;
 
+// Passphrase-protected backup: PBKDF2-derived AES-GCM key, base64 fields
+export const EncryptedBackupSchema = z.object({
+    format: z.literal('planex-encrypted-backup'),
+    version: z.literal(1),
+    kdf: z.object({
+        name: z.literal('PBKDF2'),
+        hash: z.literal('SHA-256'),
+        // Files asking for more would lock the tab up while deriving the key
+        iterations: z.number().int().min(100_000).max(5_000_000),
+        salt: z.string(),
+    }),
+    cipher: z.object({
+        name: z.literal('AES-GCM'),
+        iv: z.string(),
+    }),
+    data: z.string(),
+});
+export type EncryptedBackup = z.infer<typeof EncryptedBackupSchema>;
+
+// ================== SYNC SCHEMAS ==================
+
+export const SyncEntityTypeSchema = z.enum(['course', 'personalTask', 'habit', 'habitLog', 'taskCompletion']);
+export type SyncEntityType = z.infer<typeof SyncEntityTypeSchema>;
+
+// One entity-level change as exchanged with a sync server
+export const SyncChangeSchema = z.object({
+    id: z.string(),
+    deviceId: z.string(),
+    entityType: SyncEntityTypeSchema,
+    entityId: z.string(),
+    op: z.enum(['upsert', 'delete']),
+    data: z.unknown().optional(),
+    changedAt: z.string(),
+});
+export type SyncChange = z.infer<typeof SyncChangeSchema>;
+
+export const SyncPullResultSchema = z.object({
+    changes: z.array(SyncChangeSchema),
+    cursor: z.string(),
+});
+export type SyncPullResult = z.infer<typeof SyncPullResultSchema>;
+
 // ================== UI TYPES ==================
 
+export interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
+
 export interface Toast {
     id: string;
     type: 'success' | 'error' | 'warning' | 'info';
     message: string;
     duration?: number;
+    action?: ToastAction;
 }
 
 export interface SearchResult {
@@ -235,8 +514,15 @@ export const LIMITS = {
     MAX_TASK_TEXT_LENGTH: 500,
     MAX_EXAMS_PER_COURSE: 20,
     MAX_HABITS: 50,
-    MAX_UNDO_STACK: 15,
+    MAX_UNDO_STACK: 50,
     MAX_PDF_SIZE_MB: 50,
+    MAX_SNAPSHOTS: 7,
+    MIN_INTERRUPTED_SESSION_SEC: 60,
+    MAX_POMODORO_PROFILES: 10,
+    MAX_POMODORO_INTERVALS: 20,
+    MAX_AMBIENT_PRESETS: 10,
+    MAX_VACATIONS: 50,
+    MAX_LOG_ENTRIES: 100,
 } as const;
 
 export const COURSE_COLORS = [
@@ -252,26 +538,126 @@ export const HABIT_COLORS = [
     '#6366f1', '#8b5cf6', '#d946ef', '#ec4899',
 ] as const;
 
+export const POMODORO_MODE_LABELS: Record<PomodoroMode, string> = {
+    work: 'Çalışma',
+    shortBreak: 'Kısa Mola',
+    longBreak: 'Uzun Mola',
+};
+
+export const POMODORO_MODE_COLORS: Record<PomodoroMode, string> = {
+    work: '#6366f1',
+    shortBreak: '#22c55e',
+    longBreak: '#3b82f6',
+};
+
+export const DEFAULT_POMODORO_PROFILES: PomodoroProfile[] = [
+    {
+        id: 'classic',
+        name: 'Klasik 25/5',
+        intervals: [
+            { mode: 'work', minutes: 25 },
+            { mode: 'shortBreak', minutes: 5 },
+            { mode: 'work', minutes: 25 },
+            { mode: 'shortBreak', minutes: 5 },
+            { mode: 'work', minutes: 25 },
+            { mode: 'shortBreak', minutes: 5 },
+            { mode: 'work', minutes: 25 },
+            { mode: 'longBreak', minutes: 15 },
+        ],
+    },
+    {
+        id: 'deep-work',
+        name: 'Derin Çalışma 50/10',
+        intervals: [
+            { mode: 'work', minutes: 50 },
+            { mode: 'shortBreak', minutes: 10 },
+            { mode: 'work', minutes: 50 },
+            { mode: 'shortBreak', minutes: 10 },
+            { mode: 'work', minutes: 50 },
+            { mode: 'longBreak', minutes: 30 },
+        ],
+    },
+    {
+        id: 'exam-cram',
+        name: 'Sınav Kampı 25/5',
+        intervals: [
+            { mode: 'work', minutes: 25 },
+            { mode: 'shortBreak', minutes: 5 },
+        ],
+    },
+    {
+        id: 'long-blocks',
+        name: 'Uzun Bloklar 90/20',
+        intervals: [
+            { mode: 'work', minutes: 90 },
+            { mode: 'shortBreak', minutes: 20 },
+            { mode: 'work', minutes: 90 },
+            { mode: 'longBreak', minutes: 30 },
+        ],
+    },
+];
+
 export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
-    workDuration: 25,
-    shortBreakDuration: 5,
-    longBreakDuration: 15,
-    sessionsUntilLongBreak: 4,
+    profiles: DEFAULT_POMODORO_PROFILES,
+    activeProfileId: 'classic',
     autoStartBreaks: false,
     autoStartWork: false,
 };
 
+export const AMBIENT_SOUND_LABELS: Record<AmbientSound, string> = {
+    white: 'Beyaz Gürültü',
+    pink: 'Pembe Gürültü',
+    brown: 'Kahverengi Gürültü',
+    rain: 'Yağmur',
+    metronome: 'Metronom',
+    binaural: 'Binaural Ton',
+};
+
+const SILENT_AMBIENT_VOLUMES: AmbientVolumes = {
+    white: 0,
+    pink: 0,
+    brown: 0,
+    rain: 0,
+    metronome: 0,
+    binaural: 0,
+};
+
+export const DEFAULT_AMBIENT_SETTINGS: AmbientSettings = {
+    volumes: { ...SILENT_AMBIENT_VOLUMES, brown: 0.3 },
+    presets: [
+        { id: 'rain', name: 'Yağmurlu Gün', volumes: { ...SILENT_AMBIENT_VOLUMES, rain: 0.5, brown: 0.15 } },
+        { id: 'deep-focus', name: 'Derin Odak', volumes: { ...SILENT_AMBIENT_VOLUMES, brown: 0.35, binaural: 0.1 } },
+        { id: 'steady', name: 'Tempo', volumes: { ...SILENT_AMBIENT_VOLUMES, pink: 0.2, metronome: 0.25 } },
+    ],
+    autoPlay: false,
+};
+
+export const DEFAULT_POMODORO_TIMER_STATE: PomodoroTimerState = {
+    step: 0,
+    startTime: null,
+    pausedLeft: null,
+    startedAt: null,
+};
+
 export const DEFAULT_APP_SETTINGS: AppSettings = {
     theme: 'system',
     soundEnabled: true,
     rightPanelOpen: true,
     language: 'tr',
     pomodoro: DEFAULT_POMODORO_SETTINGS,
+    ambient: DEFAULT_AMBIENT_SETTINGS,
     notifications: {
         enabled: false,
+        habitReminder: true,
         habitReminderTime: '20:00',
         examReminder: true,
         examReminderDays: 3,
+        taskReminder: true,
+        eventReminder: true,
+        reminderTime: '09:00',
+        pomodoroAlerts: true,
     },
+    habitPause: { vacations: [], freezeTokens: false },
+    trashRetentionDays: 30,
     lastBackupISO: undefined,
 };
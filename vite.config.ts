@@ -40,6 +40,8 @@ export default defineConfig({
                 ]
             },
             workbox: {
+                // Handles clicks on reminder notifications
+                importScripts: ['notification-sw.js'],
                 globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
                 runtimeCaching: [
                     {